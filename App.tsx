@@ -7,6 +7,7 @@ import { ClerkProviderWrapper } from "./src/lib/clerk";
 import { ConvexProviderWithClerk } from "./src/lib/convex";
 import RootNavigator from "./src/navigation/RootNavigator";
 import NetworkBanner from "./src/components/NetworkBanner";
+import { useModelCatalogSync } from "./src/lib/modelCatalog";
 
 const linking = {
   prefixes: ["nsketchapp://"],
@@ -18,6 +19,9 @@ const linking = {
 };
 
 export default function App() {
+  // Pull the latest model catalog (falls back to the cached/bundled registry offline)
+  useModelCatalogSync();
+
   return (
     <ClerkProviderWrapper>
       <ConvexProviderWithClerk>
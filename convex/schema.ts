@@ -42,7 +42,10 @@ export default defineSchema({
     createdAt: v.number(),
     completedAt: v.optional(v.number()),
     error: v.optional(v.string()),
-  }).index("by_user", ["userId"]).index("by_status", ["status"]),
+    idempotencyKey: v.optional(v.string()), // Outbox replays of a queued prompt reuse the same slot
+    reservedCredits: v.optional(v.number()), // Reserved by reserveCredits under this row's idempotencyKey
+  }).index("by_user", ["userId"]).index("by_status", ["status"])
+    .index("by_user_idempotency_key", ["userId", "idempotencyKey"]),
 
   apiKeys: defineTable({
     userId: v.id("users"),
@@ -57,9 +60,11 @@ export default defineSchema({
     title: v.string(),
     type: v.union(v.literal("image"), v.literal("video"), v.literal("edit"), v.literal("assets")),
     preview: v.optional(v.string()),
+    pinnedAt: v.optional(v.number()),
+    idempotencyKey: v.optional(v.string()), // Outbox replays of a queued prompt reuse the same session
     createdAt: v.number(),
     updatedAt: v.number(),
-  }).index("by_user", ["userId"]),
+  }).index("by_user", ["userId"]).index("by_user_idempotency_key", ["userId", "idempotencyKey"]),
 
   sessionGenerations: defineTable({
     sessionId: v.id("sessions"),
@@ -89,7 +94,15 @@ export default defineSchema({
     completedAt: v.optional(v.number()),
     error: v.optional(v.string()),
     concurrencySlotId: v.optional(v.id("generations")),
-  }).index("by_session", ["sessionId"]).index("by_user", ["userId"]).index("by_concurrency_slot", ["concurrencySlotId"]),
+    compareGroupId: v.optional(v.string()), // Shared by the variants of one compare run
+    idempotencyKey: v.optional(v.string()), // Outbox replays of a queued prompt reuse the same row
+  }).index("by_session", ["sessionId"]).index("by_user", ["userId"]).index("by_concurrency_slot", ["concurrencySlotId"])
+    .index("by_user_idempotency_key", ["userId", "idempotencyKey"])
+    // Prompt search for sessions.searchGenerations (date range is applied after the search)
+    .searchIndex("search_prompt", {
+      searchField: "prompt",
+      filterFields: ["userId", "type", "modelLabel", "aspectRatio"],
+    }),
 
   // User favorites for specific media items within a generation
   favorites: defineTable({
@@ -103,6 +116,44 @@ export default defineSchema({
     .index("by_user_target", ["userId", "generationId", "mediaType", "index"])
     .index("by_generation", ["generationId"]),
 
+  // Named, user-defined groups of media items (e.g. per client or campaign)
+  collections: defineTable({
+    userId: v.id("users"),
+    name: v.string(),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  }).index("by_user", ["userId"]),
+
+  // Membership of one media item in a collection; an item can be in any number of collections
+  collectionItems: defineTable({
+    userId: v.id("users"),
+    collectionId: v.id("collections"),
+    generationId: v.id("sessionGenerations"),
+    mediaType: v.union(v.literal("image"), v.literal("video")),
+    index: v.number(),
+    createdAt: v.number(),
+  })
+    .index("by_user", ["userId"])
+    .index("by_collection", ["collectionId"])
+    .index("by_collection_target", ["collectionId", "generationId", "mediaType", "index"])
+    .index("by_generation", ["generationId"]),
+
+  // Prompt library: prompts the user saved, with the model and aspect ratio they were used with.
+  // Prompts with {variable} placeholders are templates, filled in by the app at generate time.
+  savedPrompts: defineTable({
+    userId: v.id("users"),
+    mode: v.union(v.literal("image"), v.literal("video")),
+    prompt: v.string(),
+    title: v.optional(v.string()),
+    modelId: v.optional(v.string()),
+    modelLabel: v.optional(v.string()),
+    aspectRatio: v.optional(v.string()),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_user", ["userId"])
+    .index("by_user_prompt", ["userId", "mode", "prompt"]),
+
   // User cloned voices with Cartesia Sonic 3 voice IDs
   clonedVoices: defineTable({
     userId: v.id("users"),
@@ -165,6 +216,10 @@ export default defineSchema({
     creditsCharged: v.number(),
     creditsRefunded: v.optional(v.boolean()),
     error: v.optional(v.string()),
+    voiceId: v.optional(v.id("clonedVoices")), // Set when a cloned voice read a script instead of uploaded audio
+    // Session generation the finished video is written to (mobile; shows up in Assets)
+    sessionId: v.optional(v.id("sessions")),
+    generationId: v.optional(v.id("sessionGenerations")),
     createdAt: v.number(),
     completedAt: v.optional(v.number()),
   })
@@ -9,10 +9,7 @@ import {
   ActivityIndicator,
   Platform,
 } from "react-native";
-import { Image } from "expo-image";
 import { useVideoPlayer, VideoView } from "expo-video";
-import * as MediaLibrary from "expo-media-library";
-import * as FileSystem from "expo-file-system";
 import { Ionicons } from "@expo/vector-icons";
 import { LinearGradient } from "expo-linear-gradient";
 import {
@@ -22,16 +19,39 @@ import {
 } from "@gorhom/bottom-sheet";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { AssetItem } from "../hooks/useAssets";
+import { useCachedMediaUri } from "../lib/mediaCache";
+import { requestMediaLibraryPermission, saveMediaToLibrary } from "../lib/mediaLibrary";
+import CachedImage from "./CachedImage";
+import RemixActions from "./RemixActions";
 
 interface Props {
   asset: AssetItem | null;
   onClose: () => void;
   onDelete: (asset: AssetItem) => void;
   onToggleFavorite: (asset: AssetItem) => void;
+  onAddToCollection: (asset: AssetItem) => void;
+  onRegenerate?: (asset: AssetItem) => void;
+  onRemix?: (asset: AssetItem) => void;
+  onUseAsAttachment?: (asset: AssetItem) => void;
+  // Names of the collections the asset is in
+  collectionNames?: string[];
 }
 
 const AssetDetailSheet = forwardRef<BottomSheetModal, Props>(
-  ({ asset, onClose, onDelete, onToggleFavorite }, ref) => {
+  (
+    {
+      asset,
+      onClose,
+      onDelete,
+      onToggleFavorite,
+      onAddToCollection,
+      onRegenerate,
+      onRemix,
+      onUseAsAttachment,
+      collectionNames = [],
+    },
+    ref
+  ) => {
     const internalRef = useRef<BottomSheetModal>(null);
     const insets = useSafeAreaInsets();
     const { height, width } = useWindowDimensions();
@@ -43,9 +63,10 @@ const AssetDetailSheet = forwardRef<BottomSheetModal, Props>(
     const [detectedRatio, setDetectedRatio] = React.useState<string | null>(null);
     const [isVideoPlaying, setIsVideoPlaying] = React.useState(false);
 
-    // Video player for video assets
+    // Video player for video assets (plays the cached file when there is one)
+    const videoUri = useCachedMediaUri(asset?.mediaType === "video" ? asset.url : null, "video");
     const videoPlayer = useVideoPlayer(
-      asset?.mediaType === "video" ? asset.url : null,
+      videoUri,
       (player) => {
         player.loop = true;
       }
@@ -93,8 +114,7 @@ const AssetDetailSheet = forwardRef<BottomSheetModal, Props>(
       setIsDownloading(true);
       try {
         // Request permission to save to gallery
-        const { status } = await MediaLibrary.requestPermissionsAsync();
-        if (status !== "granted") {
+        if (!(await requestMediaLibraryPermission())) {
           Alert.alert(
             "Permission Required",
             "Please allow access to your photo library to save images."
@@ -102,30 +122,7 @@ const AssetDetailSheet = forwardRef<BottomSheetModal, Props>(
           return;
         }
 
-        // Download file to cache directory
-        const fileExtension = asset.mediaType === "video" ? "mp4" : "jpg";
-        const fileName = `nsketch_${Date.now()}.${fileExtension}`;
-        const fileUri = `${FileSystem.cacheDirectory}${fileName}`;
-
-        const downloadResult = await FileSystem.downloadAsync(
-          asset.url,
-          fileUri
-        );
-
-        if (downloadResult.status !== 200) {
-          throw new Error("Download failed");
-        }
-
-        // Save to gallery
-        const savedAsset = await MediaLibrary.createAssetAsync(downloadResult.uri);
-        
-        // Optionally create an album for the app
-        const album = await MediaLibrary.getAlbumAsync("NSketch");
-        if (album) {
-          await MediaLibrary.addAssetsToAlbumAsync([savedAsset], album, false);
-        } else {
-          await MediaLibrary.createAlbumAsync("NSketch", savedAsset, false);
-        }
+        await saveMediaToLibrary(asset.url, asset.mediaType);
 
         Alert.alert("Success", "Saved to your gallery!");
       } catch (error) {
@@ -174,6 +171,25 @@ const AssetDetailSheet = forwardRef<BottomSheetModal, Props>(
       onToggleFavorite(asset);
     }, [asset, onToggleFavorite]);
 
+    const handleAddToCollection = useCallback(() => {
+      if (!asset) return;
+      onAddToCollection(asset);
+    }, [asset, onAddToCollection]);
+
+    // Close the sheet, then hand the asset to the screen. Uploads and enhanced images
+    // have no prompt to regenerate or remix; only images can be attached.
+    const handleRemixAction = useCallback(
+      (action: ((asset: AssetItem) => void) | undefined, imagesOnly = false) => {
+        if (!asset || !action) return undefined;
+        if (imagesOnly ? asset.mediaType !== "image" : asset.isEnhanced || !asset.prompt) return undefined;
+        return () => {
+          internalRef.current?.dismiss();
+          action(asset);
+        };
+      },
+      [asset]
+    );
+
     const formatDate = (timestamp?: number) => {
       if (!timestamp) return "Unknown";
       const date = new Date(timestamp);
@@ -291,8 +307,8 @@ const AssetDetailSheet = forwardRef<BottomSheetModal, Props>(
                 )}
               </Pressable>
             ) : (
-              <Image
-                source={asset.url}
+              <CachedImage
+                url={asset.url}
                 style={{ width: "100%", height: "100%", borderRadius: 16 }}
                 contentFit="cover"
                 cachePolicy="memory-disk"
@@ -330,6 +346,16 @@ const AssetDetailSheet = forwardRef<BottomSheetModal, Props>(
               </View>
             )}
 
+            {/* Collections */}
+            {collectionNames.length > 0 && (
+              <View className="flex-row justify-between items-center py-3">
+                <Text className="text-gray-400 text-base">Collections</Text>
+                <Text className="text-white text-base flex-1 text-right ml-4" numberOfLines={2}>
+                  {collectionNames.join(", ")}
+                </Text>
+              </View>
+            )}
+
             {/* Tool/Model */}
             {asset.isEnhanced && (
               <View className="flex-row justify-between items-center py-3">
@@ -374,8 +400,8 @@ const AssetDetailSheet = forwardRef<BottomSheetModal, Props>(
                 <Text className="text-gray-400 text-base mb-3">
                   Style Images
                 </Text>
-                <Image
-                  source={asset.previewUrl}
+                <CachedImage
+                  url={asset.previewUrl}
                   style={{
                     width: 80,
                     height: 80,
@@ -389,6 +415,13 @@ const AssetDetailSheet = forwardRef<BottomSheetModal, Props>(
 
           {/* Action Buttons */}
           <View className="px-5 mt-6">
+            {/* Regenerate / Remix / Attach */}
+            <RemixActions
+              onRegenerate={handleRemixAction(onRegenerate)}
+              onRemix={handleRemixAction(onRemix)}
+              onUseAsAttachment={handleRemixAction(onUseAsAttachment, true)}
+            />
+
             {/* Download & Favorite Row */}
             <View className="flex-row gap-3 mb-3">
               <Pressable
@@ -431,6 +464,21 @@ const AssetDetailSheet = forwardRef<BottomSheetModal, Props>(
               </Pressable>
             </View>
 
+            {/* Collections Button */}
+            <Pressable
+              onPress={handleAddToCollection}
+              className="flex-row items-center justify-center py-4 rounded-full mb-3"
+              style={{ backgroundColor: "#2a3a4a" }}
+            >
+              <Ionicons name="albums-outline" size={20} color="#4da6ff" />
+              <Text
+                className="text-base font-semibold ml-2"
+                style={{ color: "#4da6ff" }}
+              >
+                {collectionNames.length > 0 ? "Edit Collections" : "Add to Collection"}
+              </Text>
+            </Pressable>
+
             {/* Share Button */}
             <Pressable
               onPress={handleShare}
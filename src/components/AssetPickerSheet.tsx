@@ -14,7 +14,6 @@ import {
   NativeSyntheticEvent,
   NativeScrollEvent,
 } from "react-native";
-import { Image } from "expo-image";
 import { Ionicons } from "@expo/vector-icons";
 import {
   BottomSheetModal,
@@ -23,6 +22,8 @@ import {
 } from "@gorhom/bottom-sheet";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { useAssets, AssetItem } from "../hooks/useAssets";
+import { useCollections, Collection } from "../hooks/useCollections";
+import CachedImage from "./CachedImage";
 
 interface Props {
   maxSelection?: number;
@@ -31,16 +32,25 @@ interface Props {
   onClose: () => void;
 }
 
-type TabType = "favorites" | "all";
+type TabType = "favorites" | "all" | "collections";
 
 const AssetPickerSheet = forwardRef<BottomSheetModal, Props>(
   ({ maxSelection = 10, allowMultiple = true, onSelectImages, onClose }, ref) => {
     const internalRef = useRef<BottomSheetModal>(null);
     const insets = useSafeAreaInsets();
     const { width, height } = useWindowDimensions();
-    const { assets, favorites, isLoading, loadMore, hasMore, isLoadingMore } = useAssets();
-
     const [activeTab, setActiveTab] = useState<TabType>("all");
+    // Collection opened from the Collections tab (the tab lists collections until one is picked)
+    const [openCollectionId, setOpenCollectionId] = useState<string | null>(null);
+    // Only images can be attached; every tab pages from the server
+    const { assets, favorites, isLoading, loadMore, hasMore, isLoadingMore } = useAssets({
+      mediaType: "image",
+      favoritesOnly: activeTab === "favorites",
+      collectionId: activeTab === "collections" ? openCollectionId ?? undefined : undefined,
+    });
+    const { collections, isLoading: isLoadingCollections } = useCollections();
+    const openCollection = collections.find((collection) => collection.id === openCollectionId);
+    const isListingCollections = activeTab === "collections" && !openCollection;
     const [selectedUrls, setSelectedUrls] = useState<Set<string>>(new Set());
 
     const snapPoints = useMemo(
@@ -74,6 +84,7 @@ const AssetPickerSheet = forwardRef<BottomSheetModal, Props>(
 
     const handleClose = useCallback(() => {
       setSelectedUrls(new Set());
+      setOpenCollectionId(null);
       internalRef.current?.dismiss();
       onClose();
     }, [onClose]);
@@ -116,20 +127,10 @@ const AssetPickerSheet = forwardRef<BottomSheetModal, Props>(
       [allowMultiple, maxSelection, onSelectImages]
     );
 
-    // Filter assets based on active tab
-    const displayAssets = useMemo(() => {
-      // Only show images, not videos
-      const imageAssets = assets.filter((a) => a.mediaType === "image");
-      
-      if (activeTab === "favorites") {
-        return imageAssets.filter((a) => a.isFavorite);
-      }
-      return imageAssets;
-    }, [assets, activeTab]);
-
+    // All favorited images, not just the loaded pages
     const favoriteCount = useMemo(
-      () => assets.filter((a) => a.mediaType === "image" && a.isFavorite).length,
-      [assets]
+      () => favorites.filter((f) => f.mediaType === "image").length,
+      [favorites]
     );
 
     // Grid dimensions
@@ -152,8 +153,8 @@ const AssetPickerSheet = forwardRef<BottomSheetModal, Props>(
             }}
             className="active:opacity-80"
           >
-            <Image
-              source={item.previewUrl || item.url}
+            <CachedImage
+              url={item.previewUrl || item.url}
               style={{
                 width: "100%",
                 height: "100%",
@@ -219,7 +220,9 @@ const AssetPickerSheet = forwardRef<BottomSheetModal, Props>(
               <Text className="text-gray-500 text-base mt-3">
                 {activeTab === "favorites"
                   ? "No favorite images yet"
-                  : "No images yet"}
+                  : activeTab === "collections"
+                    ? "No images in this collection"
+                    : "No images yet"}
               </Text>
             </>
           )}
@@ -237,7 +240,7 @@ const AssetPickerSheet = forwardRef<BottomSheetModal, Props>(
             </View>
           );
         }
-        if (!hasMore && displayAssets.length > 0) {
+        if (!hasMore && assets.length > 0) {
           return (
             <View className="py-6 items-center">
               <Text className="text-gray-500 text-sm">You've reached the end</Text>
@@ -246,14 +249,14 @@ const AssetPickerSheet = forwardRef<BottomSheetModal, Props>(
         }
         return null;
       },
-      [isLoadingMore, hasMore, displayAssets.length]
+      [isLoadingMore, hasMore, assets.length]
     );
 
     const handleEndReached = useCallback(() => {
-      if (hasMore && !isLoadingMore && activeTab === "all") {
+      if (hasMore && !isLoadingMore) {
         loadMore();
       }
-    }, [hasMore, isLoadingMore, activeTab, loadMore]);
+    }, [hasMore, isLoadingMore, loadMore]);
 
     // Backup scroll handler - onEndReached can be unreliable
     const handleMomentumScrollEnd = useCallback(
@@ -263,11 +266,41 @@ const AssetPickerSheet = forwardRef<BottomSheetModal, Props>(
         const isCloseToBottom =
           layoutMeasurement.height + contentOffset.y >= contentSize.height - paddingToBottom;
 
-        if (isCloseToBottom && hasMore && !isLoadingMore && activeTab === "all") {
+        if (isCloseToBottom && hasMore && !isLoadingMore) {
           loadMore();
         }
       },
-      [hasMore, isLoadingMore, activeTab, loadMore]
+      [hasMore, isLoadingMore, loadMore]
+    );
+
+    const renderCollection = useCallback(
+      ({ item: collection }: { item: Collection }) => (
+        <Pressable
+          onPress={() => setOpenCollectionId(collection.id)}
+          className="flex-row items-center px-4 py-3 active:bg-white/5"
+        >
+          <View
+            className="w-12 h-12 rounded-xl mr-3 items-center justify-center overflow-hidden"
+            style={{ backgroundColor: "#2a2a2a" }}
+          >
+            {collection.coverUrl ? (
+              <CachedImage url={collection.coverUrl} style={{ width: "100%", height: "100%" }} contentFit="cover" />
+            ) : (
+              <Ionicons name="albums-outline" size={20} color="#6b7280" />
+            )}
+          </View>
+          <View className="flex-1">
+            <Text className="text-white text-base font-medium" numberOfLines={1}>
+              {collection.name}
+            </Text>
+            <Text className="text-gray-500 text-xs mt-0.5">
+              {collection.itemCount} {collection.itemCount === 1 ? "item" : "items"}
+            </Text>
+          </View>
+          <Ionicons name="chevron-forward" size={18} color="#6b7280" />
+        </Pressable>
+      ),
+      []
     );
 
     return (
@@ -323,34 +356,89 @@ const AssetPickerSheet = forwardRef<BottomSheetModal, Props>(
                 All Assets
               </Text>
             </Pressable>
-
+            <Pressable
+              onPress={() => {
+                setActiveTab("collections");
+                setOpenCollectionId(null);
+              }}
+              className={`flex-row items-center px-4 py-2 rounded-full ml-2 ${
+                activeTab === "collections" ? "bg-neutral-700" : "bg-transparent"
+              }`}
+            >
+              <Ionicons
+                name="albums-outline"
+                size={16}
+                color={activeTab === "collections" ? "#fff" : "#9ca3af"}
+              />
+              <Text
+                className={`ml-1.5 text-sm ${
+                  activeTab === "collections" ? "text-white" : "text-gray-400"
+                }`}
+              >
+                Collections
+              </Text>
+            </Pressable>
           </View>
 
-          {/* Asset Grid */}
-          <BottomSheetFlatList
-            data={displayAssets}
-            renderItem={renderItem}
-            keyExtractor={keyExtractor}
-            numColumns={numColumns}
-            columnWrapperStyle={{
-              paddingHorizontal: 16,
-              justifyContent: "flex-start",
-              gap: gap,
-            }}
-            contentContainerStyle={{
-              paddingBottom: insets.bottom + 16,
-              flexGrow: displayAssets.length === 0 ? 1 : undefined,
-            }}
-            ListEmptyComponent={ListEmptyComponent}
-            ListFooterComponent={ListFooterComponent}
-            onEndReached={handleEndReached}
-            onEndReachedThreshold={0.8}
-            onMomentumScrollEnd={handleMomentumScrollEnd}
-            showsVerticalScrollIndicator={false}
-            maintainVisibleContentPosition={{
-              minIndexForVisible: 0,
-            }}
-          />
+          {/* Open collection */}
+          {activeTab === "collections" && openCollection && (
+            <Pressable
+              onPress={() => setOpenCollectionId(null)}
+              className="flex-row items-center px-4 pb-3 active:opacity-70"
+            >
+              <Ionicons name="chevron-back" size={18} color="#fff" />
+              <Text className="text-white text-base font-medium ml-1" numberOfLines={1}>
+                {openCollection.name}
+              </Text>
+            </Pressable>
+          )}
+
+          {isListingCollections ? (
+            <BottomSheetFlatList
+              data={collections}
+              renderItem={renderCollection}
+              keyExtractor={(collection: Collection) => collection.id}
+              contentContainerStyle={{ paddingBottom: insets.bottom + 16 }}
+              ListEmptyComponent={
+                <View className="items-center justify-center py-20">
+                  {isLoadingCollections ? (
+                    <ActivityIndicator size="large" color="#3b82f6" />
+                  ) : (
+                    <>
+                      <Ionicons name="albums-outline" size={48} color="#4b5563" />
+                      <Text className="text-gray-500 text-base mt-3">No collections yet</Text>
+                    </>
+                  )}
+                </View>
+              }
+            />
+          ) : (
+            /* Asset Grid */
+            <BottomSheetFlatList
+              data={assets}
+              renderItem={renderItem}
+              keyExtractor={keyExtractor}
+              numColumns={numColumns}
+              columnWrapperStyle={{
+                paddingHorizontal: 16,
+                justifyContent: "flex-start",
+                gap: gap,
+              }}
+              contentContainerStyle={{
+                paddingBottom: insets.bottom + 16,
+                flexGrow: assets.length === 0 ? 1 : undefined,
+              }}
+              ListEmptyComponent={ListEmptyComponent}
+              ListFooterComponent={ListFooterComponent}
+              onEndReached={handleEndReached}
+              onEndReachedThreshold={0.8}
+              onMomentumScrollEnd={handleMomentumScrollEnd}
+              showsVerticalScrollIndicator={false}
+              maintainVisibleContentPosition={{
+                minIndexForVisible: 0,
+              }}
+            />
+          )}
 
           {/* Floating Header - separate buttons */}
           <View
@@ -0,0 +1,51 @@
+import React from "react";
+import { View, Text, Pressable, ActivityIndicator } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { UploadTask } from "../lib/uploads";
+
+interface AttachmentUploadOverlayProps {
+  task?: UploadTask;
+  onRetry: () => void;
+}
+
+/**
+ * AttachmentUploadOverlay - Upload state on top of an attachment thumbnail
+ *
+ * Shows byte progress while the file uploads and a tap-to-retry state when it
+ * failed. Renders nothing before the upload starts and once it completed.
+ */
+export default function AttachmentUploadOverlay({ task, onRetry }: AttachmentUploadOverlayProps) {
+  if (!task || task.status === "completed" || task.status === "cancelled") {
+    return null;
+  }
+
+  if (task.status === "failed") {
+    return (
+      <Pressable
+        onPress={onRetry}
+        className="absolute inset-0 rounded-lg items-center justify-center"
+        style={{ backgroundColor: "rgba(127,29,29,0.7)" }}
+      >
+        <Ionicons name="refresh" size={18} color="#fff" />
+        <Text className="text-white text-[9px] font-medium mt-0.5">Retry</Text>
+      </Pressable>
+    );
+  }
+
+  return (
+    <View
+      className="absolute inset-0 rounded-lg items-center justify-center"
+      style={{ backgroundColor: "rgba(0,0,0,0.55)" }}
+      pointerEvents="none"
+    >
+      {task.status === "uploading" ? (
+        <Text className="text-white text-xs font-semibold">{Math.round(task.progress * 100)}%</Text>
+      ) : (
+        <ActivityIndicator size="small" color="#fff" />
+      )}
+      <View className="absolute bottom-1 left-1 right-1 h-1 rounded-full bg-white/20 overflow-hidden">
+        <View className="h-full bg-white" style={{ width: `${Math.round(task.progress * 100)}%` }} />
+      </View>
+    </View>
+  );
+}
@@ -0,0 +1,94 @@
+import React from "react";
+import { View, Text } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { Gesture, GestureDetector } from "react-native-gesture-handler";
+import Animated, { useSharedValue, useAnimatedStyle } from "react-native-reanimated";
+import CachedImage from "./CachedImage";
+
+interface Props {
+  beforeUrl: string;
+  afterUrl: string;
+  width: number;
+  height: number;
+}
+
+const HANDLE_SIZE = 36;
+
+/**
+ * BeforeAfterSlider - drag the divider to compare an image before and after enhancing
+ *
+ * The "after" image is drawn on top and clipped to the left of the divider.
+ */
+export default function BeforeAfterSlider({ beforeUrl, afterUrl, width, height }: Props) {
+  const position = useSharedValue(width / 2);
+  const startPosition = useSharedValue(0);
+
+  // Horizontal drags only, so the screen can still scroll vertically over the slider
+  const pan = Gesture.Pan()
+    .activeOffsetX([-10, 10])
+    .failOffsetY([-10, 10])
+    .onBegin(() => {
+      startPosition.value = position.value;
+    })
+    .onUpdate((event) => {
+      position.value = Math.min(width, Math.max(0, startPosition.value + event.translationX));
+    });
+
+  // Tapping jumps the divider to the finger
+  const tap = Gesture.Tap().onEnd((event) => {
+    position.value = Math.min(width, Math.max(0, event.x));
+  });
+
+  const afterClipStyle = useAnimatedStyle(() => ({ width: position.value }));
+  const dividerStyle = useAnimatedStyle(() => ({ transform: [{ translateX: position.value - 1 }] }));
+  const handleStyle = useAnimatedStyle(() => ({ transform: [{ translateX: position.value - HANDLE_SIZE / 2 }] }));
+
+  return (
+    <GestureDetector gesture={Gesture.Race(pan, tap)}>
+      <View className="rounded-2xl overflow-hidden" style={{ width, height, backgroundColor: "#1a1a1a" }}>
+        {/* Before */}
+        <CachedImage url={beforeUrl} style={{ width, height }} contentFit="contain" cachePolicy="memory-disk" />
+
+        {/* After, clipped to the divider */}
+        <Animated.View style={[{ position: "absolute", top: 0, left: 0, bottom: 0, overflow: "hidden" }, afterClipStyle]}>
+          <CachedImage url={afterUrl} style={{ width, height }} contentFit="contain" cachePolicy="memory-disk" />
+        </Animated.View>
+
+        {/* Labels */}
+        <View className="absolute top-3 left-3 rounded-full px-2.5 py-1" style={{ backgroundColor: "rgba(0,0,0,0.6)" }}>
+          <Text className="text-white text-xs font-medium">After</Text>
+        </View>
+        <View className="absolute top-3 right-3 rounded-full px-2.5 py-1" style={{ backgroundColor: "rgba(0,0,0,0.6)" }}>
+          <Text className="text-white text-xs font-medium">Before</Text>
+        </View>
+
+        {/* Divider + handle */}
+        <Animated.View
+          pointerEvents="none"
+          style={[{ position: "absolute", top: 0, bottom: 0, left: 0, width: 2, backgroundColor: "#fff" }, dividerStyle]}
+        />
+        <Animated.View
+          pointerEvents="none"
+          style={[
+            {
+              position: "absolute",
+              top: height / 2 - HANDLE_SIZE / 2,
+              left: 0,
+              width: HANDLE_SIZE,
+              height: HANDLE_SIZE,
+              borderRadius: HANDLE_SIZE / 2,
+              backgroundColor: "#fff",
+              alignItems: "center",
+              justifyContent: "center",
+              flexDirection: "row",
+            },
+            handleStyle,
+          ]}
+        >
+          <Ionicons name="chevron-back" size={14} color="#000" />
+          <Ionicons name="chevron-forward" size={14} color="#000" />
+        </Animated.View>
+      </View>
+    </GestureDetector>
+  );
+}
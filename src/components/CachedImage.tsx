@@ -0,0 +1,18 @@
+import React from "react";
+import { Image, ImageProps } from "expo-image";
+import { useCachedMediaUri } from "../lib/mediaCache";
+
+interface CachedImageProps extends Omit<ImageProps, "source"> {
+  url: string | null | undefined;
+}
+
+/**
+ * CachedImage - expo-image for remote generated media
+ *
+ * Renders the on-disk copy from the media cache when there is one, so the image
+ * still shows offline; otherwise loads the URL and caches it for next time.
+ */
+export default function CachedImage({ url, ...props }: CachedImageProps) {
+  const uri = useCachedMediaUri(url, "image");
+  return <Image source={uri} {...props} />;
+}
@@ -0,0 +1,301 @@
+import React, { useCallback, useMemo, forwardRef, useRef, useState } from "react";
+import { View, Text, Pressable, useWindowDimensions, Alert, ActivityIndicator } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import {
+  BottomSheetModal,
+  BottomSheetBackdrop,
+  BottomSheetFlatList,
+  BottomSheetTextInput,
+} from "@gorhom/bottom-sheet";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useCollections, Collection, CollectionMediaItem } from "../hooks/useCollections";
+import { makeFavoriteKey } from "../hooks/useFavorites";
+import CachedImage from "./CachedImage";
+
+interface Props {
+  // Media to add or remove; empty to just manage (rename/delete) collections
+  items: CollectionMediaItem[];
+  onClose: () => void;
+}
+
+/**
+ * CollectionPickerSheet - add media to collections and manage them
+ *
+ * Tapping a collection adds every item to it, or removes them when all are
+ * already in it. Membership changes are queued and work offline; creating,
+ * renaming and deleting collections need a connection.
+ */
+const CollectionPickerSheet = forwardRef<BottomSheetModal, Props>(function CollectionPickerSheet(
+  { items, onClose },
+  ref
+) {
+  const internalRef = useRef<BottomSheetModal>(null);
+  const insets = useSafeAreaInsets();
+  const { height } = useWindowDimensions();
+  const snapPoints = useMemo(() => [height * 0.7], [height]);
+  const {
+    collections,
+    isLoading,
+    getCollectionKeys,
+    createCollection,
+    renameCollection,
+    deleteCollection,
+    addToCollection,
+    removeFromCollection,
+  } = useCollections();
+  const [newName, setNewName] = useState("");
+  const [isCreating, setIsCreating] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState("");
+
+  const isPicking = items.length > 0;
+  const itemKeys = useMemo(
+    () => items.map((item) => makeFavoriteKey(item.generationId, item.mediaType, item.mediaIndex)),
+    [items]
+  );
+
+  // Sync internal ref with forwarded ref
+  const setRef = useCallback(
+    (instance: BottomSheetModal | null) => {
+      internalRef.current = instance;
+      if (typeof ref === "function") {
+        ref(instance);
+      } else if (ref) {
+        ref.current = instance;
+      }
+    },
+    [ref]
+  );
+
+  const renderBackdrop = useCallback(
+    (props: any) => <BottomSheetBackdrop {...props} disappearsOnIndex={-1} appearsOnIndex={0} opacity={0.5} />,
+    []
+  );
+
+  const handleDismiss = useCallback(() => {
+    setNewName("");
+    setEditingId(null);
+    onClose();
+  }, [onClose]);
+
+  const handleCreate = useCallback(async () => {
+    const name = newName.trim();
+    if (!name) return;
+
+    setIsCreating(true);
+    try {
+      const collectionId = await createCollection(name);
+      addToCollection(collectionId, items);
+      setNewName("");
+    } catch (error) {
+      Alert.alert("Error", error instanceof Error ? error.message : "Failed to create collection.");
+    } finally {
+      setIsCreating(false);
+    }
+  }, [newName, items, createCollection, addToCollection]);
+
+  const handleToggle = useCallback(
+    (collection: Collection) => {
+      const keys = getCollectionKeys(collection.id);
+      const missing = items.filter((_, i) => !keys.has(itemKeys[i]));
+      if (missing.length === 0) {
+        removeFromCollection(collection.id, items);
+      } else {
+        addToCollection(collection.id, missing);
+      }
+    },
+    [items, itemKeys, getCollectionKeys, addToCollection, removeFromCollection]
+  );
+
+  const handleRename = useCallback(async () => {
+    const name = editingName.trim();
+    const collectionId = editingId;
+    setEditingId(null);
+    if (!collectionId || !name) return;
+
+    try {
+      await renameCollection(collectionId, name);
+    } catch (error) {
+      Alert.alert("Error", error instanceof Error ? error.message : "Failed to rename collection.");
+    }
+  }, [editingId, editingName, renameCollection]);
+
+  const handleManage = useCallback(
+    (collection: Collection) => {
+      Alert.alert(collection.name, undefined, [
+        {
+          text: "Rename",
+          onPress: () => {
+            setEditingId(collection.id);
+            setEditingName(collection.name);
+          },
+        },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: () => {
+            Alert.alert(
+              "Delete Collection",
+              `Delete "${collection.name}"? The images and videos in it are not deleted.`,
+              [
+                { text: "Cancel", style: "cancel" },
+                {
+                  text: "Delete",
+                  style: "destructive",
+                  onPress: () => {
+                    deleteCollection(collection.id).catch((error) => {
+                      Alert.alert("Error", error instanceof Error ? error.message : "Failed to delete collection.");
+                    });
+                  },
+                },
+              ]
+            );
+          },
+        },
+        { text: "Cancel", style: "cancel" },
+      ]);
+    },
+    [deleteCollection]
+  );
+
+  const renderItem = useCallback(
+    ({ item: collection }: { item: Collection }) => {
+      const keys = getCollectionKeys(collection.id);
+      const isChecked = isPicking && itemKeys.every((key) => keys.has(key));
+      const isEditing = editingId === collection.id;
+
+      return (
+        <Pressable
+          onPress={() => isPicking && handleToggle(collection)}
+          className="flex-row items-center px-5 py-3 active:bg-white/5"
+        >
+          {/* Cover */}
+          <View
+            className="w-12 h-12 rounded-xl mr-3 items-center justify-center overflow-hidden"
+            style={{ backgroundColor: "#2a2a2a" }}
+          >
+            {collection.coverUrl ? (
+              <CachedImage url={collection.coverUrl} style={{ width: "100%", height: "100%" }} contentFit="cover" />
+            ) : (
+              <Ionicons name="albums-outline" size={20} color="#6b7280" />
+            )}
+          </View>
+
+          {/* Name */}
+          <View className="flex-1">
+            {isEditing ? (
+              <BottomSheetTextInput
+                value={editingName}
+                onChangeText={setEditingName}
+                onEndEditing={handleRename}
+                autoFocus
+                returnKeyType="done"
+                style={{ color: "#fff", fontSize: 16, paddingVertical: 2 }}
+              />
+            ) : (
+              <Text className="text-white text-base font-medium" numberOfLines={1}>
+                {collection.name}
+              </Text>
+            )}
+            <Text className="text-gray-500 text-xs mt-0.5">
+              {collection.itemCount} {collection.itemCount === 1 ? "item" : "items"}
+            </Text>
+          </View>
+
+          {/* Actions */}
+          <Pressable onPress={() => handleManage(collection)} className="p-2 active:opacity-70">
+            <Ionicons name="ellipsis-horizontal" size={18} color="#9ca3af" />
+          </Pressable>
+          {isPicking && (
+            <Ionicons
+              name={isChecked ? "checkmark-circle" : "ellipse-outline"}
+              size={24}
+              color={isChecked ? "#3b82f6" : "#4b5563"}
+              style={{ marginLeft: 4 }}
+            />
+          )}
+        </Pressable>
+      );
+    },
+    [getCollectionKeys, isPicking, itemKeys, editingId, editingName, handleToggle, handleRename, handleManage]
+  );
+
+  return (
+    <BottomSheetModal
+      ref={setRef}
+      snapPoints={snapPoints}
+      enableDynamicSizing={false}
+      enablePanDownToClose
+      backdropComponent={renderBackdrop}
+      backgroundStyle={{ backgroundColor: "#1a1a1a" }}
+      handleIndicatorStyle={{ backgroundColor: "#4b5563" }}
+      keyboardBehavior="interactive"
+      onDismiss={handleDismiss}
+    >
+      <View style={{ flex: 1 }}>
+        {/* Header */}
+        <View className="flex-row items-center justify-between px-5 pb-3">
+          <Text className="text-white font-semibold text-lg">
+            {isPicking
+              ? `Add ${items.length === 1 ? "to Collection" : `${items.length} Items to Collection`}`
+              : "Collections"}
+          </Text>
+          <Pressable
+            onPress={() => internalRef.current?.dismiss()}
+            className="active:opacity-70 px-4 py-2 rounded-full"
+            style={{ backgroundColor: "#2a2a2a" }}
+          >
+            <Text className="text-white font-medium">Done</Text>
+          </Pressable>
+        </View>
+
+        {/* New collection */}
+        <View className="flex-row items-center mx-5 mb-2 bg-neutral-800 rounded-xl px-4 py-2">
+          <Ionicons name="add" size={20} color="#9ca3af" />
+          <BottomSheetTextInput
+            value={newName}
+            onChangeText={setNewName}
+            onSubmitEditing={handleCreate}
+            placeholder="New collection"
+            placeholderTextColor="#9ca3af"
+            returnKeyType="done"
+            style={{ flex: 1, color: "#fff", fontSize: 16, marginLeft: 8, paddingVertical: 6 }}
+          />
+          {isCreating ? (
+            <ActivityIndicator size="small" color="#fff" />
+          ) : newName.trim().length > 0 ? (
+            <Pressable onPress={handleCreate} className="px-2 py-1 active:opacity-70">
+              <Text className="font-semibold" style={{ color: "#4da6ff" }}>
+                Create
+              </Text>
+            </Pressable>
+          ) : null}
+        </View>
+
+        <BottomSheetFlatList
+          data={collections}
+          renderItem={renderItem}
+          keyExtractor={(collection: Collection) => collection.id}
+          keyboardShouldPersistTaps="handled"
+          contentContainerStyle={{ paddingBottom: insets.bottom + 16 }}
+          ListEmptyComponent={
+            isLoading ? (
+              <View className="items-center py-10">
+                <ActivityIndicator size="small" color="#fff" />
+              </View>
+            ) : (
+              <View className="items-center py-10 px-8">
+                <Ionicons name="albums-outline" size={48} color="#4b5563" />
+                <Text className="text-gray-500 text-center mt-3">
+                  No collections yet. Create one to group assets by client or campaign.
+                </Text>
+              </View>
+            )
+          }
+        />
+      </View>
+    </BottomSheetModal>
+  );
+});
+
+export default CollectionPickerSheet;
@@ -0,0 +1,225 @@
+import React, { useCallback, useEffect, useMemo, forwardRef, useRef, useState } from "react";
+import { View, Text, Pressable, useWindowDimensions } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { BottomSheetModal, BottomSheetBackdrop, BottomSheetScrollView } from "@gorhom/bottom-sheet";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { AspectRatio, getSortedModels, ImageModelId, Quality, Resolution } from "../config/imageModels";
+import { useModelCatalog } from "../lib/modelCatalog";
+import {
+  buildCompareVariants,
+  CompareVariant,
+  estimateCompareCost,
+  MAX_COMPARE_VARIANTS,
+} from "../lib/generationCompare";
+
+interface Props {
+  // The prompt bar's current settings; the selection starts from its model and aspect ratio
+  modelId: ImageModelId;
+  aspectRatio: AspectRatio;
+  numImages: number;
+  resolution?: Resolution;
+  quality?: Quality;
+  credits: number;
+  onSubmit: (variants: CompareVariant[]) => void;
+  onClose: () => void;
+}
+
+/**
+ * CompareSetupSheet - pick the models and aspect ratios to compare one prompt across
+ *
+ * Shows how many generations the selection starts and their combined credit cost.
+ */
+const CompareSetupSheet = forwardRef<BottomSheetModal, Props>(function CompareSetupSheet(
+  { modelId, aspectRatio, numImages, resolution, quality, credits, onSubmit, onClose },
+  ref
+) {
+  const internalRef = useRef<BottomSheetModal>(null);
+  const insets = useSafeAreaInsets();
+  const { height } = useWindowDimensions();
+  const snapPoints = useMemo(() => [height * 0.85], [height]);
+  const { imageModels } = useModelCatalog();
+
+  // Compare runs text-to-image, so models that need an attachment aren't offered
+  const models = useMemo(() => getSortedModels(imageModels).filter((m) => !m.requiresAttachment), [imageModels]);
+  const isOffered = useCallback((id: ImageModelId) => models.some((m) => m.id === id), [models]);
+
+  const [selectedModelIds, setSelectedModelIds] = useState<ImageModelId[]>(() => (isOffered(modelId) ? [modelId] : []));
+  const [selectedRatios, setSelectedRatios] = useState<AspectRatio[]>([aspectRatio]);
+
+  // Ratios supported by at least one selected model
+  const ratioOptions = useMemo(() => {
+    const ratios = new Set<AspectRatio>();
+    models.filter((m) => selectedModelIds.includes(m.id)).forEach((m) => m.allowedAspectRatios.forEach((r) => ratios.add(r)));
+    return Array.from(ratios);
+  }, [models, selectedModelIds]);
+
+  const variants = useMemo(
+    () => buildCompareVariants(selectedModelIds, selectedRatios),
+    [selectedModelIds, selectedRatios]
+  );
+  const skippedCount = selectedModelIds.length * selectedRatios.length - variants.length;
+  const totalCost = useMemo(
+    () => estimateCompareCost(variants, { numImages, resolution, quality }),
+    [variants, numImages, resolution, quality]
+  );
+  const tooMany = variants.length > MAX_COMPARE_VARIANTS;
+  const canCompare = variants.length > 1 && !tooMany && credits >= totalCost;
+
+  // Start from the prompt bar's model and aspect ratio
+  useEffect(() => {
+    setSelectedModelIds(isOffered(modelId) ? [modelId] : []);
+    setSelectedRatios([aspectRatio]);
+  }, [modelId, aspectRatio, isOffered]);
+
+  // Drop ratios no selected model supports anymore
+  useEffect(() => {
+    setSelectedRatios((prev) => {
+      const next = prev.filter((r) => ratioOptions.includes(r));
+      return next.length === prev.length ? prev : next;
+    });
+  }, [ratioOptions]);
+
+  // Sync internal ref with forwarded ref
+  const setRef = useCallback(
+    (instance: BottomSheetModal | null) => {
+      internalRef.current = instance;
+      if (typeof ref === "function") {
+        ref(instance);
+      } else if (ref) {
+        ref.current = instance;
+      }
+    },
+    [ref]
+  );
+
+  const renderBackdrop = useCallback(
+    (props: any) => <BottomSheetBackdrop {...props} disappearsOnIndex={-1} appearsOnIndex={0} opacity={0.5} />,
+    []
+  );
+
+  const toggleModel = useCallback((id: ImageModelId) => {
+    setSelectedModelIds((prev) => (prev.includes(id) ? prev.filter((m) => m !== id) : [...prev, id]));
+  }, []);
+
+  const toggleRatio = useCallback((ratio: AspectRatio) => {
+    setSelectedRatios((prev) => (prev.includes(ratio) ? prev.filter((r) => r !== ratio) : [...prev, ratio]));
+  }, []);
+
+  const handleCompare = useCallback(() => {
+    if (!canCompare) return;
+    internalRef.current?.dismiss();
+    onSubmit(variants);
+  }, [canCompare, variants, onSubmit]);
+
+  const summary = tooMany
+    ? `Up to ${MAX_COMPARE_VARIANTS} variants - deselect some models or ratios`
+    : variants.length < 2
+      ? "Pick at least two models or aspect ratios"
+      : credits < totalCost
+        ? `You need ${totalCost} credits but have ${credits}`
+        : skippedCount > 0
+          ? `${skippedCount} unsupported ${skippedCount === 1 ? "combination" : "combinations"} skipped`
+          : null;
+
+  return (
+    <BottomSheetModal
+      ref={setRef}
+      snapPoints={snapPoints}
+      enableDynamicSizing={false}
+      enablePanDownToClose
+      backdropComponent={renderBackdrop}
+      backgroundStyle={{ backgroundColor: "#1a1a1a" }}
+      handleIndicatorStyle={{ backgroundColor: "#4b5563" }}
+      onDismiss={onClose}
+    >
+      <View style={{ flex: 1 }}>
+        {/* Header */}
+        <View className="flex-row items-center justify-between px-5 pb-3">
+          <Text className="text-white font-semibold text-lg">Compare</Text>
+          <Pressable
+            onPress={() => internalRef.current?.dismiss()}
+            className="active:opacity-70 px-4 py-2 rounded-full"
+            style={{ backgroundColor: "#2a2a2a" }}
+          >
+            <Text className="text-white font-medium">Done</Text>
+          </Pressable>
+        </View>
+
+        <BottomSheetScrollView contentContainerStyle={{ paddingHorizontal: 20, paddingBottom: 16 }}>
+          {/* Aspect ratios */}
+          <Text className="text-gray-400 text-xs mb-2">ASPECT RATIOS</Text>
+          <View className="flex-row flex-wrap mb-5">
+            {ratioOptions.map((ratio) => {
+              const selected = selectedRatios.includes(ratio);
+              return (
+                <Pressable
+                  key={ratio}
+                  onPress={() => toggleRatio(ratio)}
+                  className="rounded-full px-3 py-1.5 mr-2 mb-2 active:opacity-70"
+                  style={{ backgroundColor: selected ? "#fff" : "#2a2a2a" }}
+                >
+                  <Text className="text-sm" style={{ color: selected ? "#000" : "#fff" }}>
+                    {ratio}
+                  </Text>
+                </Pressable>
+              );
+            })}
+          </View>
+
+          {/* Models */}
+          <Text className="text-gray-400 text-xs mb-2">MODELS</Text>
+          {models.map((model) => {
+            const selected = selectedModelIds.includes(model.id);
+            return (
+              <Pressable
+                key={model.id}
+                onPress={() => toggleModel(model.id)}
+                className="flex-row items-center py-3 active:opacity-70"
+              >
+                <Ionicons
+                  name={selected ? "checkmark-circle" : "ellipse-outline"}
+                  size={22}
+                  color={selected ? "#0066FF" : "#4b5563"}
+                />
+                <View className="flex-1 ml-3">
+                  <Text className="text-white text-base font-medium">{model.label}</Text>
+                  <Text className="text-xs mt-0.5" style={{ color: "#888" }} numberOfLines={1}>
+                    {model.description}
+                  </Text>
+                </View>
+              </Pressable>
+            );
+          })}
+        </BottomSheetScrollView>
+
+        {/* Footer */}
+        <View className="px-5 pt-3" style={{ paddingBottom: insets.bottom + 12, borderTopWidth: 1, borderTopColor: "#2a2a2a" }}>
+          <View className="flex-row items-center justify-between mb-1">
+            <Text className="text-white text-sm">
+              {variants.length} {variants.length === 1 ? "variant" : "variants"}
+            </Text>
+            <View className="flex-row items-center">
+              <Ionicons name="flash" size={12} color="#fff" />
+              <Text className="text-white text-sm ml-1">{totalCost} credits</Text>
+            </View>
+          </View>
+          <Text className="text-gray-500 text-xs mb-3" style={{ color: tooMany || credits < totalCost ? "#ef4444" : undefined }}>
+            {summary ?? "Variants beyond your plan's concurrent limit wait in line."}
+          </Text>
+          <Pressable
+            onPress={handleCompare}
+            disabled={!canCompare}
+            className="items-center justify-center py-4 rounded-full"
+            style={{ backgroundColor: canCompare ? "#0066FF" : "#2a2a2a" }}
+          >
+            <Text className="text-base font-semibold" style={{ color: canCompare ? "#fff" : "#6b7280" }}>
+              Compare
+            </Text>
+          </Pressable>
+        </View>
+      </View>
+    </BottomSheetModal>
+  );
+});
+
+export default CompareSetupSheet;
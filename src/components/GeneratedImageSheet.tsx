@@ -19,6 +19,9 @@ import {
   BottomSheetBackdrop,
 } from "@gorhom/bottom-sheet";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { StoredGeneration } from "../lib/generationRemix";
+import RemixActions from "./RemixActions";
+import MoveToSessionMenu from "./MoveToSessionMenu";
 
 interface GeneratedImage {
   url: string;
@@ -26,15 +29,20 @@ interface GeneratedImage {
   model?: string;
   aspectRatio?: string;
   createdAt?: number;
+  // The generation the image came from; enables Regenerate / Remix and Move to Session
+  generation?: StoredGeneration & { _id: string };
 }
 
 interface Props {
   image: GeneratedImage | null;
   onClose: () => void;
+  onRegenerate?: (generation: StoredGeneration) => void;
+  onRemix?: (generation: StoredGeneration) => void;
+  onUseAsAttachment?: (url: string) => void;
 }
 
 const GeneratedImageSheet = forwardRef<BottomSheetModal, Props>(
-  ({ image, onClose }, ref) => {
+  ({ image, onClose, onRegenerate, onRemix, onUseAsAttachment }, ref) => {
     const internalRef = useRef<BottomSheetModal>(null);
     const insets = useSafeAreaInsets();
     const { height, width } = useWindowDimensions();
@@ -123,6 +131,19 @@ const GeneratedImageSheet = forwardRef<BottomSheetModal, Props>(
       }
     }, [image]);
 
+    // Close the sheet, then hand the image's generation to the screen
+    const handleRemixAction = useCallback(
+      (action?: (generation: StoredGeneration) => void) => {
+        if (!image?.generation || !action) return undefined;
+        const generation = image.generation;
+        return () => {
+          internalRef.current?.dismiss();
+          action(generation);
+        };
+      },
+      [image]
+    );
+
     const handleShare = useCallback(async () => {
       if (!image) return;
 
@@ -290,6 +311,29 @@ const GeneratedImageSheet = forwardRef<BottomSheetModal, Props>(
 
             {/* Action Buttons */}
             <View className="px-5 mt-8">
+              {/* Regenerate / Remix / Attach */}
+              <RemixActions
+                onRegenerate={handleRemixAction(onRegenerate)}
+                onRemix={handleRemixAction(onRemix)}
+                onUseAsAttachment={
+                  onUseAsAttachment
+                    ? () => {
+                        internalRef.current?.dismiss();
+                        onUseAsAttachment(image.url);
+                      }
+                    : undefined
+                }
+              />
+
+              {image.generation?.sessionId && (
+                <MoveToSessionMenu
+                  generationId={image.generation._id}
+                  sessionId={image.generation.sessionId}
+                  type="image"
+                  onMoved={() => internalRef.current?.dismiss()}
+                />
+              )}
+
               {/* Save to Photos Button */}
               <Pressable
                 onPress={handleSaveToPhotos}
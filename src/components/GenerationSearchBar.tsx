@@ -0,0 +1,126 @@
+import React from "react";
+import { View, Text, Pressable, ScrollView, TextInput } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import {
+  GenerationSearchFacets,
+  GenerationSearchFilters,
+  SearchGenerationType,
+  SEARCH_DATE_RANGES,
+} from "../hooks/useGenerationSearch";
+
+const typeOptions: { id: SearchGenerationType; label: string }[] = [
+  { id: "image", label: "Images" },
+  { id: "video", label: "Videos" },
+  { id: "edit", label: "Enhanced" },
+];
+
+interface GenerationSearchBarProps {
+  filters: GenerationSearchFilters;
+  onChange: (filters: GenerationSearchFilters) => void;
+  facets: GenerationSearchFacets;
+  autoFocus?: boolean;
+}
+
+interface ChipProps {
+  label: string;
+  selected: boolean;
+  onPress: () => void;
+  icon?: keyof typeof Ionicons.glyphMap;
+}
+
+function Chip({ label, selected, onPress, icon }: ChipProps) {
+  return (
+    <Pressable
+      onPress={onPress}
+      className="flex-row items-center rounded-full px-3 py-1.5 mr-2"
+      style={{
+        backgroundColor: selected ? "#fff" : "#1a1a1a",
+        borderWidth: 1,
+        borderColor: selected ? "#fff" : "#333",
+      }}
+    >
+      {icon && <Ionicons name={icon} size={13} color={selected ? "#000" : "#fff"} style={{ marginRight: 4 }} />}
+      <Text className="text-sm" style={{ color: selected ? "#000" : "#fff" }}>
+        {label}
+      </Text>
+    </Pressable>
+  );
+}
+
+/**
+ * GenerationSearchBar - query field and filter chips for useGenerationSearch
+ *
+ * Controlled: the owner keeps the filters and runs the search. Tapping a selected
+ * chip clears that filter; the date chip cycles through the preset ranges.
+ */
+export default function GenerationSearchBar({ filters, onChange, facets, autoFocus }: GenerationSearchBarProps) {
+  const update = (changes: Partial<GenerationSearchFilters>) => onChange({ ...filters, ...changes });
+
+  const dateRangeIndex = SEARCH_DATE_RANGES.findIndex((range) => range.id === filters.dateRange);
+  const dateRange = SEARCH_DATE_RANGES[dateRangeIndex];
+  const nextDateRange = SEARCH_DATE_RANGES[(dateRangeIndex + 1) % SEARCH_DATE_RANGES.length];
+
+  return (
+    <View>
+      <View className="flex-row items-center bg-neutral-800 rounded-xl px-4 py-3 mx-4">
+        <Ionicons name="search" size={18} color="#9ca3af" />
+        <TextInput
+          value={filters.query}
+          onChangeText={(query) => update({ query })}
+          placeholder="Search prompts, models..."
+          placeholderTextColor="#9ca3af"
+          className="flex-1 text-white text-base ml-2"
+          autoCapitalize="none"
+          autoCorrect={false}
+          autoFocus={autoFocus}
+          returnKeyType="search"
+        />
+        {filters.query.length > 0 && (
+          <Pressable onPress={() => update({ query: "" })} className="p-1">
+            <Ionicons name="close-circle" size={18} color="#9ca3af" />
+          </Pressable>
+        )}
+      </View>
+
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled"
+        contentContainerStyle={{ paddingHorizontal: 16, paddingVertical: 10 }}
+      >
+        <Chip
+          label={dateRange.label}
+          icon="calendar-outline"
+          selected={filters.dateRange !== "any"}
+          onPress={() => update({ dateRange: nextDateRange.id })}
+        />
+        {typeOptions.map((option) => (
+          <Chip
+            key={option.id}
+            label={option.label}
+            selected={filters.type === option.id}
+            onPress={() => update({ type: filters.type === option.id ? undefined : option.id })}
+          />
+        ))}
+        {facets.modelLabels.map((modelLabel) => (
+          <Chip
+            key={`model:${modelLabel}`}
+            label={modelLabel}
+            icon="cube-outline"
+            selected={filters.modelLabel === modelLabel}
+            onPress={() => update({ modelLabel: filters.modelLabel === modelLabel ? undefined : modelLabel })}
+          />
+        ))}
+        {facets.aspectRatios.map((aspectRatio) => (
+          <Chip
+            key={`aspect:${aspectRatio}`}
+            label={aspectRatio}
+            icon="crop-outline"
+            selected={filters.aspectRatio === aspectRatio}
+            onPress={() => update({ aspectRatio: filters.aspectRatio === aspectRatio ? undefined : aspectRatio })}
+          />
+        ))}
+      </ScrollView>
+    </View>
+  );
+}
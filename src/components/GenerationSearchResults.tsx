@@ -0,0 +1,113 @@
+import React from "react";
+import { View, Text, Pressable, ScrollView, ActivityIndicator } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import CachedImage from "./CachedImage";
+import { GenerationSearchResult, SearchGenerationType } from "../hooks/useGenerationSearch";
+
+const typeLabels: Record<SearchGenerationType, string> = {
+  image: "Image",
+  video: "Video",
+  edit: "Enhanced",
+};
+
+const typeIcons: Record<SearchGenerationType, keyof typeof Ionicons.glyphMap> = {
+  image: "image-outline",
+  video: "videocam-outline",
+  edit: "sparkles-outline",
+};
+
+interface GenerationSearchResultsProps {
+  results: GenerationSearchResult[];
+  isSearching: boolean;
+  isOffline: boolean;
+  onSelectResult: (result: GenerationSearchResult) => void;
+}
+
+/**
+ * GenerationSearchResults - list of matching generations
+ *
+ * Each row opens the session the generation belongs to. Offline results come
+ * from the cached Assets list, which the empty state points out.
+ */
+export default function GenerationSearchResults({
+  results,
+  isSearching,
+  isOffline,
+  onSelectResult,
+}: GenerationSearchResultsProps) {
+  if (isSearching && results.length === 0) {
+    return (
+      <View className="items-center justify-center py-10">
+        <ActivityIndicator size="small" color="#fff" />
+        <Text className="text-gray-500 text-sm mt-3">Searching...</Text>
+      </View>
+    );
+  }
+
+  if (results.length === 0) {
+    return (
+      <View className="items-center justify-center py-10 px-8">
+        <Ionicons name="search-outline" size={48} color="#4b5563" />
+        <Text className="text-white text-base font-semibold mt-3">No matching generations</Text>
+        <Text className="text-gray-500 text-sm text-center mt-1">
+          {isOffline
+            ? "You're offline, so only recently loaded assets were searched."
+            : "Try different words or fewer filters."}
+        </Text>
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView
+      className="flex-1"
+      showsVerticalScrollIndicator={false}
+      keyboardShouldPersistTaps="handled"
+      keyboardDismissMode="on-drag"
+      contentContainerStyle={{ paddingBottom: 100 }}
+    >
+      {isOffline && (
+        <Text className="text-gray-500 text-xs px-4 pb-2">Offline - searching recently loaded assets</Text>
+      )}
+      {results.map((result) => (
+        <Pressable
+          key={result.generationId}
+          className="flex-row items-center px-4 py-3 active:bg-white/5"
+          onPress={() => onSelectResult(result)}
+        >
+          {/* Thumbnail */}
+          <View
+            className="w-12 h-12 rounded-xl mr-3 items-center justify-center overflow-hidden"
+            style={{ backgroundColor: "#1a1a1a" }}
+          >
+            {result.thumbnailUrl ? (
+              <CachedImage url={result.thumbnailUrl} style={{ width: "100%", height: "100%" }} contentFit="cover" />
+            ) : (
+              <Ionicons name={typeIcons[result.type]} size={20} color="#6b7280" />
+            )}
+          </View>
+
+          {/* Content */}
+          <View className="flex-1">
+            <Text className="text-white text-sm" numberOfLines={2}>
+              {result.prompt || "Untitled generation"}
+            </Text>
+            <View className="flex-row items-center mt-0.5">
+              <Ionicons name={typeIcons[result.type]} size={12} color="#6b7280" />
+              <Text className="text-gray-500 text-xs ml-1" numberOfLines={1}>
+                {[typeLabels[result.type], result.modelLabel, result.aspectRatio].filter(Boolean).join(" · ")}
+              </Text>
+            </View>
+            <Text className="text-gray-600 text-xs mt-0.5" numberOfLines={1}>
+              {result.sessionTitle ? `${result.sessionTitle} · ` : ""}
+              {result.createdAt ? new Date(result.createdAt).toLocaleDateString() : ""}
+            </Text>
+          </View>
+
+          {/* Chevron */}
+          <Ionicons name="chevron-forward" size={18} color="#6b7280" />
+        </Pressable>
+      ))}
+    </ScrollView>
+  );
+}
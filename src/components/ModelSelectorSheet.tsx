@@ -1,10 +1,12 @@
 import React, { useCallback, useMemo, forwardRef, useRef, useState } from "react";
-import { View, Text, Pressable, useWindowDimensions, TextInput } from "react-native";
+import { View, Text, Pressable, useWindowDimensions, TextInput, ImageSourcePropType } from "react-native";
 import { Image } from "expo-image";
 import { Ionicons } from "@expo/vector-icons";
 import { BottomSheetModal, BottomSheetFlatList, BottomSheetBackdrop } from "@gorhom/bottom-sheet";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
-import { IMAGE_MODELS, getSortedModels, ImageModelId, ImageModelMeta, isUnifiedModel } from "../config/imageModels";
+import { getSortedModels, ImageModelId, ImageModelMeta, isUnifiedModel } from "../config/imageModels";
+import { useModelCatalog } from "../lib/modelCatalog";
+import { resolveLogo, LOGO_TINTS } from "../lib/modelLogos";
 
 interface Badge {
   type: "new" | "edit" | "credits" | "resolution" | "quality";
@@ -15,28 +17,11 @@ interface ModelItem {
   id: ImageModelId;
   name: string;
   description: string;
-  icon: any;
+  icon: ImageSourcePropType | undefined;
   tintColor?: string;
   badges: Badge[];
 }
 
-// Logo assets mapping
-const LOGO_ASSETS: Record<string, any> = {
-  "openai": require("../../assets/openai.png"),
-  "googleg": require("../../assets/googleg.png"),
-  "flux": require("../../assets/flux.png"),
-  "bytedance-color": require("../../assets/bytedance-color.png"),
-  "donereve": require("../../assets/donereve.png"),
-  "hunyuan": require("../../assets/bytedance-color.png"), // fallback
-  "kling": require("../../assets/bytedance-color.png"), // fallback
-};
-
-// Logo tint colors (for dark icons that need white tint)
-const LOGO_TINTS: Record<string, string | undefined> = {
-  "openai": "#fff",
-  "flux": "#fff",
-};
-
 // Convert ImageModelMeta to ModelItem
 function modelMetaToItem(meta: ImageModelMeta): ModelItem {
   const badges: Badge[] = [];
@@ -64,15 +49,12 @@ function modelMetaToItem(meta: ImageModelMeta): ModelItem {
     id: meta.id,
     name: meta.label,
     description: meta.description,
-    icon: LOGO_ASSETS[meta.logo] || LOGO_ASSETS["googleg"],
+    icon: resolveLogo(meta.logo),
     tintColor: LOGO_TINTS[meta.logo],
     badges,
   };
 }
 
-// Get all models as ModelItems, sorted
-const models: ModelItem[] = getSortedModels().map(modelMetaToItem);
-
 interface Props {
   onSelectModel: (modelId: ImageModelId, modelLabel: string) => void;
   selectedModelId?: ImageModelId;
@@ -84,6 +66,10 @@ const ModelSelectorSheet = forwardRef<BottomSheetModal, Props>(({ onSelectModel,
   const { height } = useWindowDimensions();
   const snapPoints = useMemo(() => [height * 1 - insets.top], [height, insets.top]);
   const [searchQuery, setSearchQuery] = useState("");
+  const { imageModels } = useModelCatalog();
+
+  // Get all models as ModelItems, sorted (re-derived when a new catalog is applied)
+  const models = useMemo<ModelItem[]>(() => getSortedModels(imageModels).map(modelMetaToItem), [imageModels]);
 
   // Filter models based on search
   const filteredModels = useMemo(() => {
@@ -94,7 +80,7 @@ const ModelSelectorSheet = forwardRef<BottomSheetModal, Props>(({ onSelectModel,
         m.name.toLowerCase().includes(query) ||
         m.description.toLowerCase().includes(query)
     );
-  }, [searchQuery]);
+  }, [searchQuery, models]);
 
   // Sync internal ref with forwarded ref
   const setRef = useCallback((instance: BottomSheetModal | null) => {
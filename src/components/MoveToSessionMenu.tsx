@@ -0,0 +1,56 @@
+import React, { useMemo } from "react";
+import { Text, Pressable } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { MenuView, MenuAction } from "@react-native-menu/menu";
+import { useSessions } from "../hooks/useSessions";
+
+// Sessions offered as targets, most recent first
+const MAX_MOVE_TARGETS = 10;
+
+interface Props {
+  generationId: string;
+  sessionId: string; // The session the generation is in now
+  type: "image" | "video";
+  onMoved?: () => void;
+}
+
+/**
+ * MoveToSessionMenu - "Move to Session" button for detail sheets
+ *
+ * Lists the user's other sessions of the same type; the move is queued through the
+ * outbox like the drawer's session edits, so it works offline. Hidden when there is
+ * nowhere to move to.
+ */
+export default function MoveToSessionMenu({ generationId, sessionId, type, onMoved }: Props) {
+  const { sessions, moveGeneration } = useSessions();
+
+  const actions = useMemo<MenuAction[]>(
+    () =>
+      sessions
+        .filter((s) => s.type === type && s._id !== sessionId)
+        .slice(0, MAX_MOVE_TARGETS)
+        .map((target) => ({ id: target._id, title: target.title })),
+    [sessions, type, sessionId]
+  );
+
+  if (actions.length === 0) return null;
+
+  return (
+    <MenuView
+      title="Move to Session"
+      actions={actions}
+      onPressAction={({ nativeEvent }) => {
+        moveGeneration(generationId, sessionId, nativeEvent.event);
+        onMoved?.();
+      }}
+    >
+      <Pressable
+        className="flex-row items-center justify-center py-3 rounded-2xl mb-3 active:opacity-70"
+        style={{ backgroundColor: "#2a2a2a" }}
+      >
+        <Ionicons name="folder-open-outline" size={18} color="#fff" />
+        <Text className="text-white text-sm font-medium ml-2">Move to Session</Text>
+      </Pressable>
+    </MenuView>
+  );
+}
@@ -3,19 +3,56 @@ import { View, Text, Animated } from "react-native";
 import { Ionicons } from "@expo/vector-icons";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { useNetworkStatus } from "../lib/network";
+import { useOutboxStatus } from "../lib/outbox";
+
+function pluralizeItems(count: number): string {
+  return `${count} item${count === 1 ? "" : "s"}`;
+}
 
 export default function NetworkBanner() {
   const { isConnected } = useNetworkStatus();
+  const { waitingCount, poisonedCount, isSyncing } = useOutboxStatus();
   const insets = useSafeAreaInsets();
   const translateY = React.useRef(new Animated.Value(-100)).current;
 
+  // Offline always shows; online, the banner only stays while the queue is syncing or stuck
+  let banner: { icon: keyof typeof Ionicons.glyphMap; text: string; className: string } | null = null;
+  if (!isConnected) {
+    banner = {
+      icon: "cloud-offline-outline",
+      text:
+        waitingCount > 0
+          ? `No internet connection · ${pluralizeItems(waitingCount)} waiting to sync`
+          : "No internet connection",
+      className: "bg-red-600",
+    };
+  } else if (isSyncing) {
+    banner = {
+      icon: "sync-outline",
+      text: `Syncing ${pluralizeItems(waitingCount)}...`,
+      className: "bg-neutral-700",
+    };
+  } else if (poisonedCount > 0) {
+    banner = {
+      icon: "alert-circle-outline",
+      text: `${pluralizeItems(poisonedCount)} failed to sync`,
+      className: "bg-amber-600",
+    };
+  }
+
+  // Keep the last content while sliding out
+  const lastBanner = React.useRef(banner);
+  if (banner) lastBanner.current = banner;
+  const visibleBanner = banner ?? lastBanner.current;
+  const isVisible = banner !== null;
+
   React.useEffect(() => {
     Animated.timing(translateY, {
-      toValue: isConnected ? -100 : 0,
+      toValue: isVisible ? 0 : -100,
       duration: 300,
       useNativeDriver: true,
     }).start();
-  }, [isConnected, translateY]);
+  }, [isVisible, translateY]);
 
   return (
     <Animated.View
@@ -29,12 +66,12 @@ export default function NetworkBanner() {
         paddingTop: insets.top,
       }}
     >
-      <View className="bg-red-600 flex-row items-center justify-center py-2 px-4">
-        <Ionicons name="cloud-offline-outline" size={18} color="#fff" />
-        <Text className="text-white text-sm font-medium ml-2">
-          No internet connection
-        </Text>
-      </View>
+      {visibleBanner && (
+        <View className={`${visibleBanner.className} flex-row items-center justify-center py-2 px-4`}>
+          <Ionicons name={visibleBanner.icon} size={18} color="#fff" />
+          <Text className="text-white text-sm font-medium ml-2">{visibleBanner.text}</Text>
+        </View>
+      )}
     </Animated.View>
   );
 }
@@ -0,0 +1,278 @@
+import React, { useCallback, useMemo, forwardRef, useRef, useState } from "react";
+import { View, Text, Pressable, useWindowDimensions, Alert, ActivityIndicator } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { BottomSheetModal, BottomSheetBackdrop, BottomSheetFlatList } from "@gorhom/bottom-sheet";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { usePromptLibrary } from "../hooks/usePromptLibrary";
+import { PromptMode, PromptSettings } from "../state/promptLibraryStore";
+import { getTemplateVariables } from "../lib/promptTemplates";
+
+type LibraryTab = "saved" | "recent";
+type PromptEntry = Omit<PromptSettings, "mode">;
+
+interface LibraryRow extends PromptEntry {
+  key: string;
+  // Saved prompts only
+  savedId?: string;
+  title?: string;
+}
+
+interface Props {
+  mode: PromptMode;
+  // What's in the prompt bar now, offered as "Save Current Prompt"
+  current: PromptEntry;
+  onSelect: (entry: PromptEntry) => void;
+  onClose: () => void;
+}
+
+/**
+ * PromptLibrarySheet - saved prompts and recent history for the prompt bar
+ *
+ * Picking a prompt loads it with the model and aspect ratio it was used with.
+ * Saved prompts sync through Convex (saving needs a connection); the recent
+ * history is per mode and stays on the device.
+ */
+const PromptLibrarySheet = forwardRef<BottomSheetModal, Props>(function PromptLibrarySheet(
+  { mode, current, onSelect, onClose },
+  ref
+) {
+  const internalRef = useRef<BottomSheetModal>(null);
+  const insets = useSafeAreaInsets();
+  const { height } = useWindowDimensions();
+  const snapPoints = useMemo(() => [height * 0.7], [height]);
+  const { savedPrompts, history, isLoading, isSaved, savePrompt, deleteSavedPrompt, clearHistory } =
+    usePromptLibrary(mode);
+  const [tab, setTab] = useState<LibraryTab>("saved");
+  const [savingKey, setSavingKey] = useState<string | null>(null);
+
+  const rows = useMemo(
+    (): LibraryRow[] =>
+      tab === "saved"
+        ? savedPrompts.map((p) => ({ ...p, key: p._id, savedId: p._id }))
+        : history.map((h) => ({ ...h, key: `${h.usedAt}-${h.prompt}` })),
+    [tab, savedPrompts, history]
+  );
+
+  const canSaveCurrent = current.prompt.trim().length > 0 && !isSaved(current.prompt);
+
+  // Sync internal ref with forwarded ref
+  const setRef = useCallback(
+    (instance: BottomSheetModal | null) => {
+      internalRef.current = instance;
+      if (typeof ref === "function") {
+        ref(instance);
+      } else if (ref) {
+        ref.current = instance;
+      }
+    },
+    [ref]
+  );
+
+  const renderBackdrop = useCallback(
+    (props: any) => <BottomSheetBackdrop {...props} disappearsOnIndex={-1} appearsOnIndex={0} opacity={0.5} />,
+    []
+  );
+
+  const handleSave = useCallback(
+    async (entry: PromptEntry, key: string) => {
+      setSavingKey(key);
+      try {
+        await savePrompt(entry);
+      } catch (error) {
+        Alert.alert("Error", error instanceof Error ? error.message : "Failed to save prompt.");
+      } finally {
+        setSavingKey(null);
+      }
+    },
+    [savePrompt]
+  );
+
+  const handleDelete = useCallback(
+    (row: LibraryRow) => {
+      if (!row.savedId) return;
+      const savedId = row.savedId;
+      Alert.alert("Remove Saved Prompt", "Remove this prompt from your library?", [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Remove",
+          style: "destructive",
+          onPress: () => {
+            deleteSavedPrompt(savedId).catch((error) => {
+              Alert.alert("Error", error instanceof Error ? error.message : "Failed to remove prompt.");
+            });
+          },
+        },
+      ]);
+    },
+    [deleteSavedPrompt]
+  );
+
+  const handleClearHistory = useCallback(() => {
+    Alert.alert("Clear History", `Clear your recent ${mode} prompts?`, [
+      { text: "Cancel", style: "cancel" },
+      { text: "Clear", style: "destructive", onPress: clearHistory },
+    ]);
+  }, [mode, clearHistory]);
+
+  const handleSelect = useCallback(
+    (row: LibraryRow) => {
+      internalRef.current?.dismiss();
+      onSelect({
+        prompt: row.prompt,
+        modelId: row.modelId,
+        modelLabel: row.modelLabel,
+        aspectRatio: row.aspectRatio,
+      });
+    },
+    [onSelect]
+  );
+
+  const renderItem = useCallback(
+    ({ item: row }: { item: LibraryRow }) => {
+      const variables = getTemplateVariables(row.prompt);
+      const details = [row.modelLabel, row.aspectRatio].filter(Boolean).join(" · ");
+      const saved = !!row.savedId || isSaved(row.prompt);
+
+      return (
+        <Pressable onPress={() => handleSelect(row)} className="flex-row px-5 py-3 active:bg-white/5">
+          <View className="flex-1">
+            {row.title ? (
+              <Text className="text-white text-base font-semibold mb-0.5" numberOfLines={1}>
+                {row.title}
+              </Text>
+            ) : null}
+            <Text className="text-gray-300 text-sm leading-5" numberOfLines={3}>
+              {row.prompt}
+            </Text>
+            <View className="flex-row items-center flex-wrap mt-1.5">
+              {variables.length > 0 && (
+                <View className="rounded-full px-2 py-0.5 mr-2" style={{ backgroundColor: "#1e3a5f" }}>
+                  <Text className="text-xs" style={{ color: "#4da6ff" }}>
+                    Template · {variables.join(", ")}
+                  </Text>
+                </View>
+              )}
+              {details ? <Text className="text-gray-500 text-xs">{details}</Text> : null}
+            </View>
+          </View>
+
+          {/* Actions */}
+          {row.savedId ? (
+            <Pressable onPress={() => handleDelete(row)} className="p-2 active:opacity-70">
+              <Ionicons name="trash-outline" size={18} color="#9ca3af" />
+            </Pressable>
+          ) : savingKey === row.key ? (
+            <View className="p-2">
+              <ActivityIndicator size="small" color="#fff" />
+            </View>
+          ) : (
+            <Pressable
+              onPress={() => !saved && handleSave(row, row.key)}
+              disabled={saved}
+              className="p-2 active:opacity-70"
+            >
+              <Ionicons name={saved ? "bookmark" : "bookmark-outline"} size={18} color={saved ? "#4da6ff" : "#9ca3af"} />
+            </Pressable>
+          )}
+        </Pressable>
+      );
+    },
+    [isSaved, savingKey, handleSelect, handleDelete, handleSave]
+  );
+
+  return (
+    <BottomSheetModal
+      ref={setRef}
+      snapPoints={snapPoints}
+      enableDynamicSizing={false}
+      enablePanDownToClose
+      backdropComponent={renderBackdrop}
+      backgroundStyle={{ backgroundColor: "#1a1a1a" }}
+      handleIndicatorStyle={{ backgroundColor: "#4b5563" }}
+      onDismiss={onClose}
+    >
+      <View style={{ flex: 1 }}>
+        {/* Header */}
+        <View className="flex-row items-center justify-between px-5 pb-3">
+          <Text className="text-white font-semibold text-lg">Prompt Library</Text>
+          <Pressable
+            onPress={() => internalRef.current?.dismiss()}
+            className="active:opacity-70 px-4 py-2 rounded-full"
+            style={{ backgroundColor: "#2a2a2a" }}
+          >
+            <Text className="text-white font-medium">Done</Text>
+          </Pressable>
+        </View>
+
+        {/* Tabs */}
+        <View className="flex-row items-center px-5 pb-3">
+          {(["saved", "recent"] as const).map((id) => (
+            <Pressable
+              key={id}
+              onPress={() => setTab(id)}
+              className="rounded-full px-4 py-1.5 mr-2"
+              style={{ backgroundColor: tab === id ? "#fff" : "#2a2a2a" }}
+            >
+              <Text className="text-sm font-medium" style={{ color: tab === id ? "#000" : "#fff" }}>
+                {id === "saved" ? "Saved" : "Recent"}
+              </Text>
+            </Pressable>
+          ))}
+          <View className="flex-1" />
+          {tab === "recent" && history.length > 0 && (
+            <Pressable onPress={handleClearHistory} className="px-2 py-1 active:opacity-70">
+              <Text className="text-gray-400 text-sm">Clear</Text>
+            </Pressable>
+          )}
+        </View>
+
+        {/* Save what's in the prompt bar */}
+        {tab === "saved" && canSaveCurrent && (
+          <Pressable
+            onPress={() => handleSave(current, "current")}
+            disabled={savingKey === "current"}
+            className="flex-row items-center mx-5 mb-2 rounded-xl px-4 py-3 active:opacity-70"
+            style={{ backgroundColor: "#2a2a2a" }}
+          >
+            {savingKey === "current" ? (
+              <ActivityIndicator size="small" color="#fff" />
+            ) : (
+              <Ionicons name="bookmark-outline" size={18} color="#4da6ff" />
+            )}
+            <View className="flex-1 ml-3">
+              <Text className="text-white text-sm font-medium">Save Current Prompt</Text>
+              <Text className="text-gray-500 text-xs mt-0.5" numberOfLines={1}>
+                {current.prompt.trim()}
+              </Text>
+            </View>
+          </Pressable>
+        )}
+
+        <BottomSheetFlatList
+          data={rows}
+          renderItem={renderItem}
+          keyExtractor={(row: LibraryRow) => row.key}
+          contentContainerStyle={{ paddingBottom: insets.bottom + 16 }}
+          ListEmptyComponent={
+            tab === "saved" && isLoading ? (
+              <View className="items-center py-10">
+                <ActivityIndicator size="small" color="#fff" />
+              </View>
+            ) : (
+              <View className="items-center py-10 px-8">
+                <Ionicons name={tab === "saved" ? "bookmarks-outline" : "time-outline"} size={48} color="#4b5563" />
+                <Text className="text-gray-500 text-center mt-3">
+                  {tab === "saved"
+                    ? "No saved prompts yet. Save one to reuse it - add {subject}-style placeholders to make a template."
+                    : "Prompts you generate with show up here."}
+                </Text>
+              </View>
+            )
+          }
+        />
+      </View>
+    </BottomSheetModal>
+  );
+});
+
+export default PromptLibrarySheet;
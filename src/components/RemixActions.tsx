@@ -0,0 +1,41 @@
+import React from "react";
+import { View, Text, Pressable } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+
+interface Props {
+  // Actions without a handler are hidden
+  onRegenerate?: () => void;
+  onRemix?: () => void;
+  onUseAsAttachment?: () => void;
+}
+
+/**
+ * RemixActions - Regenerate / Remix / Use as attachment buttons for detail sheets
+ *
+ * Shown under a past generation; the screen decides what each action does.
+ */
+export default function RemixActions({ onRegenerate, onRemix, onUseAsAttachment }: Props) {
+  const actions = [
+    { id: "regenerate", label: "Regenerate", icon: "refresh" as const, onPress: onRegenerate },
+    { id: "remix", label: "Remix", icon: "color-wand-outline" as const, onPress: onRemix },
+    { id: "attach", label: "Attach", icon: "attach" as const, onPress: onUseAsAttachment },
+  ].filter((action) => action.onPress);
+
+  if (actions.length === 0) return null;
+
+  return (
+    <View className="flex-row mb-3" style={{ gap: 8 }}>
+      {actions.map((action) => (
+        <Pressable
+          key={action.id}
+          onPress={action.onPress}
+          className="flex-1 items-center justify-center py-3 rounded-2xl active:opacity-70"
+          style={{ backgroundColor: "#2a2a2a" }}
+        >
+          <Ionicons name={action.icon} size={20} color="#fff" />
+          <Text className="text-white text-sm font-medium mt-1">{action.label}</Text>
+        </Pressable>
+      ))}
+    </View>
+  );
+}
@@ -6,20 +6,31 @@ import {
   ScrollView,
   Dimensions,
   ActivityIndicator,
+  TextInput,
+  Alert,
   Animated as RNAnimated,
 } from "react-native";
 import { Image } from "expo-image";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { Ionicons } from "@expo/vector-icons";
 import { LinearGradient } from "expo-linear-gradient";
-import { useQuery } from "convex/react";
-import { api } from "../../convex/_generated/api";
-import { useNavigation, CommonActions } from "@react-navigation/native";
+import { MenuView, MenuAction } from "@react-native-menu/menu";
+import { useNavigation } from "@react-navigation/native";
 import ReanimatedDrawerLayout, {
   DrawerType,
   DrawerPosition,
   DrawerLayoutMethods,
 } from "react-native-gesture-handler/ReanimatedDrawerLayout";
+import { openSession } from "../navigation/openSession";
+import { useSessions } from "../hooks/useSessions";
+import {
+  useGenerationSearch,
+  EMPTY_SEARCH_FILTERS,
+  GenerationSearchFilters,
+  GenerationSearchResult,
+} from "../hooks/useGenerationSearch";
+import GenerationSearchBar from "./GenerationSearchBar";
+import GenerationSearchResults from "./GenerationSearchResults";
 
 const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get("window");
 const DRAWER_WIDTH = SCREEN_WIDTH * 0.8;
@@ -33,10 +44,14 @@ interface Session {
   title: string;
   type: SessionType;
   preview?: string;
+  pinnedAt?: number;
   createdAt: number;
   updatedAt?: number;
 }
 
+// Sessions offered under "Merge into", most recent first
+const MAX_MERGE_TARGETS = 10;
+
 export interface SessionsDrawerRef {
   openDrawer: () => void;
   closeDrawer: () => void;
@@ -103,6 +118,7 @@ const SessionsDrawer = forwardRef<SessionsDrawerRef, SessionsDrawerProps>(
   const navigation = useNavigation();
   const insets = useSafeAreaInsets();
   const [selectedFilter, setSelectedFilter] = useState<FilterType | null>(null);
+  const [searchFilters, setSearchFilters] = useState<GenerationSearchFilters>(EMPTY_SEARCH_FILTERS);
   const drawerRef = useRef<DrawerLayoutMethods>(null);
 
   // Expose methods to parent
@@ -118,59 +134,27 @@ const SessionsDrawer = forwardRef<SessionsDrawerRef, SessionsDrawerProps>(
     }
   }, [currentScreen]);
 
-  // Fetch sessions from Convex
-  const sessions = useQuery(api.sessions.getUserSessions);
-  const isLoading = sessions === undefined;
+  // Sessions (cached offline) with queued renames/pins/merges/deletes applied
+  const { sessions, isLoading, renameSession, setSessionPinned, mergeSessions, deleteSession } = useSessions();
+  const [editingSessionId, setEditingSessionId] = useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = useState("");
 
   const handleSessionPress = (session: Session) => {
     drawerRef.current?.closeDrawer();
     // Navigate to the appropriate tab with session data
-    if (session.type === "image") {
-      navigation.dispatch(
-        CommonActions.navigate({
-          name: "Main",
-          params: {
-            screen: "Images",
-            params: {
-              sessionId: session._id,
-              sessionTitle: session.title,
-            },
-          },
-        })
-      );
-    } else if (session.type === "video") {
-      navigation.dispatch(
-        CommonActions.navigate({
-          name: "Main",
-          params: {
-            screen: "Videos",
-            params: {
-              sessionId: session._id,
-              sessionTitle: session.title,
-            },
-          },
-        })
-      );
-    } else if (session.type === "edit") {
-      navigation.dispatch(
-        CommonActions.navigate({
-          name: "Main",
-          params: {
-            screen: "Enhancer",
-            params: {
-              sessionId: session._id,
-              sessionTitle: session.title,
-            },
-          },
-        })
-      );
-    }
+    openSession(navigation, { id: session._id, type: session.type, title: session.title });
   };
 
+  // Generation search across all sessions
+  const search = useGenerationSearch(searchFilters);
+
+  const handleSearchResultPress = useCallback((result: GenerationSearchResult) => {
+    drawerRef.current?.closeDrawer();
+    openSession(navigation, { id: result.sessionId, type: result.type, title: result.sessionTitle });
+  }, [navigation]);
+
   // Filter out assets sessions, TTS/audio-only edit sessions, and deduplicate empty "New" sessions
   const processedSessions = React.useMemo(() => {
-    if (!sessions) return [];
-    
     // Filter out assets type and TTS/audio-only edit sessions
     const filteredSessions = sessions.filter((s: Session) => {
       // Always filter out assets
@@ -234,6 +218,82 @@ const SessionsDrawer = forwardRef<SessionsDrawerRef, SessionsDrawerProps>(
     setSelectedFilter(prev => prev === filter ? null : filter);
   }, []);
 
+  // Long-press menu: pin, rename, merge into another session of the same type, delete
+  const getSessionMenuActions = useCallback((session: Session): MenuAction[] => {
+    const mergeTargets = processedSessions
+      .filter((s: Session) => s.type === session.type && s._id !== session._id)
+      .slice(0, MAX_MERGE_TARGETS);
+
+    return [
+      {
+        id: "pin",
+        title: session.pinnedAt ? "Unpin" : "Pin to Top",
+        image: session.pinnedAt ? "pin.slash" : "pin",
+        imageColor: "#ffffff",
+      },
+      {
+        id: "rename",
+        title: "Rename",
+        image: "pencil",
+        imageColor: "#ffffff",
+      },
+      ...(mergeTargets.length > 0
+        ? [
+            {
+              id: "merge",
+              title: "Merge Into",
+              image: "arrow.triangle.merge",
+              imageColor: "#ffffff",
+              subactions: mergeTargets.map((target: Session) => ({ id: `merge:${target._id}`, title: target.title })),
+            },
+          ]
+        : []),
+      {
+        id: "delete",
+        title: "Delete",
+        image: "trash",
+        imageColor: "#ef4444",
+        attributes: { destructive: true },
+      },
+    ];
+  }, [processedSessions]);
+
+  const handleSessionAction = useCallback((session: Session, action: string) => {
+    if (action === "pin") {
+      setSessionPinned(session._id, !session.pinnedAt);
+    } else if (action === "rename") {
+      setEditingSessionId(session._id);
+      setEditingTitle(session.title);
+    } else if (action.startsWith("merge:")) {
+      const target = processedSessions.find((s: Session) => s._id === action.slice("merge:".length));
+      if (!target) return;
+      Alert.alert(
+        "Merge Sessions",
+        `Move everything in "${session.title}" into "${target.title}"? "${session.title}" will be removed.`,
+        [
+          { text: "Cancel", style: "cancel" },
+          { text: "Merge", onPress: () => mergeSessions(session._id, target._id) },
+        ]
+      );
+    } else if (action === "delete") {
+      Alert.alert(
+        "Delete Session",
+        `Delete "${session.title}"? All of its images and videos, including favorites, will be deleted.`,
+        [
+          { text: "Cancel", style: "cancel" },
+          { text: "Delete", style: "destructive", onPress: () => deleteSession(session._id) },
+        ]
+      );
+    }
+  }, [processedSessions, setSessionPinned, mergeSessions, deleteSession]);
+
+  const handleRenameEnd = useCallback(() => {
+    if (editingSessionId) {
+      renameSession(editingSessionId, editingTitle);
+    }
+    setEditingSessionId(null);
+  }, [editingSessionId, editingTitle, renameSession]);
+
   // Memoized drawer content for performance
   const renderDrawerContent = useCallback(() => (
     <View style={{ flex: 1, backgroundColor: "#0a0a0a", paddingTop: insets.top, paddingBottom: insets.bottom }}>
@@ -274,91 +334,144 @@ const SessionsDrawer = forwardRef<SessionsDrawerRef, SessionsDrawerProps>(
         ))}
       </View>
 
-      {/* Filter Pills */}
-      <View className="flex-row px-4 pb-4">
-        {filterPills.map((filter) => (
-          <Pressable
-            key={filter.id}
-            onPress={() => handleFilterPress(filter.id)}
-            className="flex-row items-center rounded-full px-3 py-1.5 mr-2"
-            style={{
-              backgroundColor: selectedFilter === filter.id ? "#fff" : "#1a1a1a",
-              borderWidth: 1,
-              borderColor: selectedFilter === filter.id ? "#fff" : "#333",
-            }}
-          >
-            <Ionicons
-              name={filter.icon}
-              size={14}
-              color={selectedFilter === filter.id ? "#000" : "#fff"}
-            />
-            <Text
-              className="ml-1 text-sm"
-              style={{ color: selectedFilter === filter.id ? "#000" : "#fff" }}
-            >
-              {filter.label}
-            </Text>
-          </Pressable>
-        ))}
-      </View>
+      {/* Search */}
+      <GenerationSearchBar filters={searchFilters} onChange={setSearchFilters} facets={search.facets} />
 
-      {/* Sessions List */}
-      <ScrollView className="flex-1" showsVerticalScrollIndicator={false}>
-        {isLoading ? (
-          <View className="items-center justify-center py-10">
-            <ActivityIndicator size="large" color="#fff" />
-            <Text className="text-gray-500 text-sm mt-3">Loading sessions...</Text>
-          </View>
-        ) : filteredSessions.length === 0 ? (
-          <View className="items-center justify-center py-10">
-            <Ionicons name="folder-open-outline" size={48} color="#4b5563" />
-            <Text className="text-gray-500 text-sm mt-3">No sessions yet</Text>
-          </View>
-        ) : (
-          filteredSessions.map((session: Session) => (
-            <Pressable
-              key={session._id}
-              className="flex-row items-center px-4 py-3 active:bg-white/5"
-              onPress={() => handleSessionPress(session)}
-            >
-              {/* Thumbnail */}
-              <View
-                className="w-12 h-12 rounded-xl mr-3 items-center justify-center overflow-hidden"
-                style={{ backgroundColor: "#1a1a1a" }}
+      {search.isActive ? (
+        <GenerationSearchResults
+          results={search.results}
+          isSearching={search.isSearching}
+          isOffline={search.isOffline}
+          onSelectResult={handleSearchResultPress}
+        />
+      ) : (
+        <>
+          {/* Filter Pills */}
+          <View className="flex-row px-4 pb-4">
+            {filterPills.map((filter) => (
+              <Pressable
+                key={filter.id}
+                onPress={() => handleFilterPress(filter.id)}
+                className="flex-row items-center rounded-full px-3 py-1.5 mr-2"
+                style={{
+                  backgroundColor: selectedFilter === filter.id ? "#fff" : "#1a1a1a",
+                  borderWidth: 1,
+                  borderColor: selectedFilter === filter.id ? "#fff" : "#333",
+                }}
               >
-                {session.preview ? (
-                  <Image
-                    source={session.preview}
-                    style={{ width: "100%", height: "100%" }}
-                    contentFit="cover"
-                  />
-                ) : (
-                  <Ionicons name={getTypeIcon(session.type)} size={20} color="#6b7280" />
-                )}
-              </View>
-
-              {/* Content */}
-              <View className="flex-1">
-                <Text className="text-white text-base font-medium" numberOfLines={1}>
-                  {session.title}
-                </Text>
-                <View className="flex-row items-center mt-0.5">
-                  <Ionicons name={getTypeIcon(session.type)} size={12} color="#6b7280" />
-                  <Text className="text-gray-500 text-xs ml-1">{getTypeLabel(session.type)}</Text>
-                </View>
-                <Text className="text-gray-600 text-xs mt-0.5">
-                  {getRelativeTime(session.updatedAt || session.createdAt)}
+                <Ionicons
+                  name={filter.icon}
+                  size={14}
+                  color={selectedFilter === filter.id ? "#000" : "#fff"}
+                />
+                <Text
+                  className="ml-1 text-sm"
+                  style={{ color: selectedFilter === filter.id ? "#000" : "#fff" }}
+                >
+                  {filter.label}
                 </Text>
+              </Pressable>
+            ))}
+          </View>
+
+          {/* Sessions List */}
+          <ScrollView className="flex-1" showsVerticalScrollIndicator={false}>
+            {isLoading ? (
+              <View className="items-center justify-center py-10">
+                <ActivityIndicator size="large" color="#fff" />
+                <Text className="text-gray-500 text-sm mt-3">Loading sessions...</Text>
               </View>
+            ) : filteredSessions.length === 0 ? (
+              <View className="items-center justify-center py-10">
+                <Ionicons name="folder-open-outline" size={48} color="#4b5563" />
+                <Text className="text-gray-500 text-sm mt-3">No sessions yet</Text>
+              </View>
+            ) : (
+              filteredSessions.map((session: Session) => (
+                <MenuView
+                  key={session._id}
+                  shouldOpenOnLongPress
+                  actions={getSessionMenuActions(session)}
+                  onPressAction={({ nativeEvent }) => handleSessionAction(session, nativeEvent.event)}
+                >
+                  <Pressable
+                    className="flex-row items-center px-4 py-3 active:bg-white/5"
+                    onPress={() => editingSessionId !== session._id && handleSessionPress(session)}
+                  >
+                    {/* Thumbnail */}
+                    <View
+                      className="w-12 h-12 rounded-xl mr-3 items-center justify-center overflow-hidden"
+                      style={{ backgroundColor: "#1a1a1a" }}
+                    >
+                      {session.preview ? (
+                        <Image
+                          source={session.preview}
+                          style={{ width: "100%", height: "100%" }}
+                          contentFit="cover"
+                        />
+                      ) : (
+                        <Ionicons name={getTypeIcon(session.type)} size={20} color="#6b7280" />
+                      )}
+                    </View>
+
+                    {/* Content */}
+                    <View className="flex-1">
+                      {editingSessionId === session._id ? (
+                        <TextInput
+                          value={editingTitle}
+                          onChangeText={setEditingTitle}
+                          onEndEditing={handleRenameEnd}
+                          autoFocus
+                          selectTextOnFocus
+                          returnKeyType="done"
+                          style={{ color: "#fff", fontSize: 16, fontWeight: "500", paddingVertical: 0 }}
+                        />
+                      ) : (
+                        <View className="flex-row items-center">
+                          {session.pinnedAt ? (
+                            <Ionicons name="pin" size={12} color="#9ca3af" style={{ marginRight: 4 }} />
+                          ) : null}
+                          <Text className="text-white text-base font-medium flex-1" numberOfLines={1}>
+                            {session.title}
+                          </Text>
+                        </View>
+                      )}
+                      <View className="flex-row items-center mt-0.5">
+                        <Ionicons name={getTypeIcon(session.type)} size={12} color="#6b7280" />
+                        <Text className="text-gray-500 text-xs ml-1">{getTypeLabel(session.type)}</Text>
+                      </View>
+                      <Text className="text-gray-600 text-xs mt-0.5">
+                        {getRelativeTime(session.updatedAt || session.createdAt)}
+                      </Text>
+                    </View>
 
-              {/* Chevron */}
-              <Ionicons name="chevron-forward" size={18} color="#6b7280" />
-            </Pressable>
-          ))
-        )}
-      </ScrollView>
+                    {/* Chevron */}
+                    <Ionicons name="chevron-forward" size={18} color="#6b7280" />
+                  </Pressable>
+                </MenuView>
+              ))
+            )}
+          </ScrollView>
+        </>
+      )}
     </View>
-  ), [insets.top, insets.bottom, selectedFilter, isLoading, filteredSessions, handleSessionPress, handleFilterPress]);
+  ), [
+    insets.top,
+    insets.bottom,
+    selectedFilter,
+    isLoading,
+    filteredSessions,
+    handleSessionPress,
+    handleFilterPress,
+    getSessionMenuActions,
+    handleSessionAction,
+    editingSessionId,
+    editingTitle,
+    handleRenameEnd,
+    searchFilters,
+    search,
+    handleSearchResultPress,
+  ]);
 
   return (
     <ReanimatedDrawerLayout
@@ -0,0 +1,116 @@
+import React, { useCallback, useEffect, useMemo, forwardRef, useRef, useState } from "react";
+import { View, Text, Pressable } from "react-native";
+import { BottomSheetModal, BottomSheetBackdrop, BottomSheetScrollView, BottomSheetTextInput } from "@gorhom/bottom-sheet";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { fillTemplate, getTemplateVariables } from "../lib/promptTemplates";
+
+interface Props {
+  // Prompt with {variable} placeholders; null when nothing is being filled in
+  template: string | null;
+  onSubmit: (prompt: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * TemplateVariablesSheet - fill in a prompt template's placeholders before generating
+ *
+ * Shows one field per variable and a live preview of the finished prompt.
+ */
+const TemplateVariablesSheet = forwardRef<BottomSheetModal, Props>(function TemplateVariablesSheet(
+  { template, onSubmit, onClose },
+  ref
+) {
+  const internalRef = useRef<BottomSheetModal>(null);
+  const insets = useSafeAreaInsets();
+  const [values, setValues] = useState<Record<string, string>>({});
+
+  const variables = useMemo(() => (template ? getTemplateVariables(template) : []), [template]);
+  const preview = template ? fillTemplate(template, values) : "";
+  const isComplete = variables.every((name) => values[name]?.trim());
+
+  // Start empty for each template
+  useEffect(() => {
+    setValues({});
+  }, [template]);
+
+  // Sync internal ref with forwarded ref
+  const setRef = useCallback(
+    (instance: BottomSheetModal | null) => {
+      internalRef.current = instance;
+      if (typeof ref === "function") {
+        ref(instance);
+      } else if (ref) {
+        ref.current = instance;
+      }
+    },
+    [ref]
+  );
+
+  const renderBackdrop = useCallback(
+    (props: any) => <BottomSheetBackdrop {...props} disappearsOnIndex={-1} appearsOnIndex={0} opacity={0.5} />,
+    []
+  );
+
+  const handleSubmit = useCallback(() => {
+    if (!template || !isComplete) return;
+    const filled = fillTemplate(template, values);
+    internalRef.current?.dismiss();
+    onSubmit(filled);
+  }, [template, values, isComplete, onSubmit]);
+
+  return (
+    <BottomSheetModal
+      ref={setRef}
+      enableDynamicSizing
+      enablePanDownToClose
+      backdropComponent={renderBackdrop}
+      backgroundStyle={{ backgroundColor: "#1a1a1a" }}
+      handleIndicatorStyle={{ backgroundColor: "#4b5563" }}
+      keyboardBehavior="interactive"
+      keyboardBlurBehavior="restore"
+      onDismiss={onClose}
+    >
+      <BottomSheetScrollView
+        keyboardShouldPersistTaps="handled"
+        contentContainerStyle={{ paddingHorizontal: 20, paddingBottom: insets.bottom + 16 }}
+      >
+        <Text className="text-white font-semibold text-lg mb-1">Fill In Template</Text>
+        <Text className="text-gray-500 text-sm mb-4">Each placeholder is replaced before generating.</Text>
+
+        {variables.map((name, i) => (
+          <View key={name} className="mb-3">
+            <Text className="text-gray-400 text-xs mb-1">{name}</Text>
+            <BottomSheetTextInput
+              value={values[name] ?? ""}
+              onChangeText={(text) => setValues((prev) => ({ ...prev, [name]: text }))}
+              onSubmitEditing={i === variables.length - 1 ? handleSubmit : undefined}
+              autoFocus={i === 0}
+              placeholder={`Enter ${name}`}
+              placeholderTextColor="#6b7280"
+              returnKeyType={i === variables.length - 1 ? "go" : "next"}
+              style={{ color: "#fff", fontSize: 16, backgroundColor: "#2a2a2a", borderRadius: 12, padding: 12 }}
+            />
+          </View>
+        ))}
+
+        {/* Preview */}
+        <View className="rounded-xl p-3 mt-1 mb-4" style={{ backgroundColor: "#111" }}>
+          <Text className="text-gray-400 text-sm leading-5">{preview}</Text>
+        </View>
+
+        <Pressable
+          onPress={handleSubmit}
+          disabled={!isComplete}
+          className="items-center justify-center py-4 rounded-full"
+          style={{ backgroundColor: isComplete ? "#0066FF" : "#2a2a2a" }}
+        >
+          <Text className="text-base font-semibold" style={{ color: isComplete ? "#fff" : "#6b7280" }}>
+            Generate
+          </Text>
+        </Pressable>
+      </BottomSheetScrollView>
+    </BottomSheetModal>
+  );
+});
+
+export default TemplateVariablesSheet;
@@ -21,6 +21,9 @@ import {
   BottomSheetBackdrop,
 } from "@gorhom/bottom-sheet";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { getCachedMediaUri, useCachedMediaUri } from "../lib/mediaCache";
+import RemixActions from "./RemixActions";
+import MoveToSessionMenu from "./MoveToSessionMenu";
 
 export interface VideoGeneration {
   _id: string;
@@ -34,16 +37,23 @@ export interface VideoGeneration {
   duration?: string;
   startFrameImageUrl?: string;
   endFrameImageUrl?: string;
+  // Stored generation fields, used to rebuild the request for Regenerate / Remix
+  sessionId?: string;
+  model?: string;
+  modelLabel?: string;
+  sourceImage?: string;
 }
 
 interface Props {
   video: VideoGeneration | null;
   onClose: () => void;
   onDelete: (video: VideoGeneration) => void;
+  onRegenerate?: (video: VideoGeneration) => void;
+  onRemix?: (video: VideoGeneration) => void;
 }
 
 const VideoDetailSheet = forwardRef<BottomSheetModal, Props>(
-  ({ video, onClose, onDelete }, ref) => {
+  ({ video, onClose, onDelete, onRegenerate, onRemix }, ref) => {
     const internalRef = useRef<BottomSheetModal>(null);
     const insets = useSafeAreaInsets();
     const { height, width } = useWindowDimensions();
@@ -53,9 +63,10 @@ const VideoDetailSheet = forwardRef<BottomSheetModal, Props>(
     );
     const [isDownloading, setIsDownloading] = React.useState(false);
 
-    // Video player
+    // Video player (plays the cached file when there is one)
+    const videoUri = useCachedMediaUri(video?.videoUrl, "video");
     const videoPlayer = useVideoPlayer(
-      video?.videoUrl || null,
+      videoUri,
       (player) => {
         player.loop = true;
       }
@@ -106,21 +117,25 @@ const VideoDetailSheet = forwardRef<BottomSheetModal, Props>(
           return;
         }
 
-        // Download file to cache directory
-        const fileName = `nsketch_video_${Date.now()}.mp4`;
-        const fileUri = `${FileSystem.cacheDirectory}${fileName}`;
+        // Use the media cache copy, or download file to cache directory
+        let localUri = getCachedMediaUri(video.videoUrl);
+        if (!localUri) {
+          const fileName = `nsketch_video_${Date.now()}.mp4`;
+          const fileUri = `${FileSystem.cacheDirectory}${fileName}`;
 
-        const downloadResult = await FileSystem.downloadAsync(
-          video.videoUrl,
-          fileUri
-        );
+          const downloadResult = await FileSystem.downloadAsync(
+            video.videoUrl,
+            fileUri
+          );
 
-        if (downloadResult.status !== 200) {
-          throw new Error("Download failed");
+          if (downloadResult.status !== 200) {
+            throw new Error("Download failed");
+          }
+          localUri = downloadResult.uri;
         }
 
         // Save to gallery
-        const savedAsset = await MediaLibrary.createAssetAsync(downloadResult.uri);
+        const savedAsset = await MediaLibrary.createAssetAsync(localUri);
         
         // Optionally create an album for the app
         const album = await MediaLibrary.getAlbumAsync("NSketch");
@@ -152,6 +167,18 @@ const VideoDetailSheet = forwardRef<BottomSheetModal, Props>(
       }
     }, [video]);
 
+    // Close the sheet, then hand the video to the screen
+    const handleRemixAction = useCallback(
+      (action?: (video: VideoGeneration) => void) => {
+        if (!video || !action) return undefined;
+        return () => {
+          handleClose();
+          action(video);
+        };
+      },
+      [video, handleClose]
+    );
+
     const handleDelete = useCallback(() => {
       if (!video) return;
 
@@ -314,6 +341,18 @@ const VideoDetailSheet = forwardRef<BottomSheetModal, Props>(
 
               {/* Action Buttons */}
               <View className="px-5 mt-6">
+                {/* Regenerate / Remix */}
+                <RemixActions onRegenerate={handleRemixAction(onRegenerate)} onRemix={handleRemixAction(onRemix)} />
+
+                {video.sessionId && (
+                  <MoveToSessionMenu
+                    generationId={video._id}
+                    sessionId={video.sessionId}
+                    type="video"
+                    onMoved={handleClose}
+                  />
+                )}
+
                 {/* Download & Favorite Row */}
                 <View className="flex-row gap-3 mb-3">
                   <Pressable
@@ -1,15 +1,16 @@
 import React, { useCallback, useMemo, forwardRef, useRef, useState } from "react";
-import { View, Text, Pressable, useWindowDimensions, TextInput } from "react-native";
+import { View, Text, Pressable, useWindowDimensions, TextInput, ImageSourcePropType } from "react-native";
 import { Image } from "expo-image";
 import { Ionicons } from "@expo/vector-icons";
 import { BottomSheetModal, BottomSheetFlatList, BottomSheetBackdrop } from "@gorhom/bottom-sheet";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { 
-  VIDEO_MODELS, 
   getSortedVideoModels, 
   VideoModelId, 
   VideoModelMeta,
 } from "../config/videoModels";
+import { useModelCatalog } from "../lib/modelCatalog";
+import { resolveLogo, LOGO_TINTS } from "../lib/modelLogos";
 
 interface Badge {
   type: "new" | "resolution" | "duration" | "audio" | "credits" | "i2v" | "transition";
@@ -20,28 +21,11 @@ interface VideoModelItem {
   id: VideoModelId;
   name: string;
   description: string;
-  icon: any;
+  icon: ImageSourcePropType | undefined;
   tintColor?: string;
   badges: Badge[];
 }
 
-// Logo assets mapping
-const LOGO_ASSETS: Record<string, any> = {
-  "openai": require("../../assets/openai.png"),
-  "googleg": require("../../assets/googleg.png"),
-  "bytedance-color": require("../../assets/bytedance-color.png"),
-  "kling": require("../../assets/bytedance-color.png"),
-  "alibaba": require("../../assets/bytedance-color.png"),
-  "minimax": require("../../assets/minimax.png"),
-  "luma": require("../../assets/foreverai.png"),
-  "sber": require("../../assets/bytedance-color.png"),
-};
-
-// Logo tint colors (for dark icons that need white tint)
-const LOGO_TINTS: Record<string, string | undefined> = {
-  "openai": "#fff",
-};
-
 // Convert VideoModelMeta to VideoModelItem
 function modelMetaToItem(meta: VideoModelMeta): VideoModelItem {
   const badges: Badge[] = [];
@@ -79,15 +63,12 @@ function modelMetaToItem(meta: VideoModelMeta): VideoModelItem {
     id: meta.id,
     name: meta.label,
     description: meta.description,
-    icon: LOGO_ASSETS[meta.logo] || LOGO_ASSETS["googleg"],
+    icon: resolveLogo(meta.logo),
     tintColor: LOGO_TINTS[meta.logo],
     badges,
   };
 }
 
-// Get all models as VideoModelItems, sorted
-const videoModels: VideoModelItem[] = getSortedVideoModels().map(modelMetaToItem);
-
 interface Props {
   onSelectModel: (modelId: VideoModelId, modelLabel: string) => void;
   selectedModelId?: VideoModelId;
@@ -99,6 +80,10 @@ const VideoModelSelectorSheet = forwardRef<BottomSheetModal, Props>(({ onSelectM
   const { height } = useWindowDimensions();
   const snapPoints = useMemo(() => [height * 1 - insets.top], [height, insets.top]);
   const [searchQuery, setSearchQuery] = useState("");
+  const { videoModels: catalogModels } = useModelCatalog();
+
+  // Get all models as VideoModelItems, sorted (re-derived when a new catalog is applied)
+  const videoModels = useMemo<VideoModelItem[]>(() => getSortedVideoModels(catalogModels).map(modelMetaToItem), [catalogModels]);
 
   // Filter models based on search
   const filteredModels = useMemo(() => {
@@ -109,7 +94,7 @@ const VideoModelSelectorSheet = forwardRef<BottomSheetModal, Props>(({ onSelectM
         m.name.toLowerCase().includes(query) ||
         m.description.toLowerCase().includes(query)
     );
-  }, [searchQuery]);
+  }, [searchQuery, videoModels]);
 
   // Sync internal ref with forwarded ref
   const setRef = useCallback((instance: BottomSheetModal | null) => {
@@ -0,0 +1,114 @@
+/**
+ * Enhancer Modes Configuration
+ * Upscale / enhance modes offered by the Enhancer tab (matches web's enhance tools)
+ */
+
+import { PriceBreakdown, PricingSchema, evaluatePricing } from "./pricing";
+
+export type EnhanceModeId = "enhance-upscale" | "enhance-details" | "enhance-face";
+
+export type UpscaleFactor = 2 | 4;
+
+export const UPSCALE_FACTORS: UpscaleFactor[] = [2, 4];
+
+// Enhance mode metadata
+export interface EnhanceModeMeta {
+  id: EnhanceModeId;
+  label: string;
+  description: string;
+  icon: string; // Ionicons name
+  supportsUpscaleFactor: boolean; // If false the output keeps the source's size
+  pricing: PricingSchema; // Matched on upscaleFactor through the "resolution" option ("2x" / "4x")
+  isQueued: boolean; // Whether this mode uses queued polling
+}
+
+export const ENHANCE_MODES: EnhanceModeMeta[] = [
+  {
+    id: "enhance-upscale",
+    label: "Upscale",
+    description: "Increase resolution while keeping the image unchanged",
+    icon: "expand-outline",
+    supportsUpscaleFactor: true,
+    pricing: {
+      base: 4,
+      unitLabel: "per image",
+      rules: [
+        {
+          option: "resolution",
+          when: { equals: "4x" },
+          effect: { type: "multiplier", value: 2 },
+          label: "4× upscale",
+        },
+      ],
+      rounding: "ceil-total",
+    },
+    isQueued: true,
+  },
+  {
+    id: "enhance-details",
+    label: "Enhance",
+    description: "Sharpen, denoise and restore fine detail",
+    icon: "sparkles-outline",
+    supportsUpscaleFactor: true,
+    pricing: {
+      base: 6,
+      unitLabel: "per image",
+      rules: [
+        {
+          option: "resolution",
+          when: { equals: "4x" },
+          effect: { type: "multiplier", value: 2 },
+          label: "4× upscale",
+        },
+      ],
+      rounding: "ceil-total",
+    },
+    isQueued: true,
+  },
+  {
+    id: "enhance-face",
+    label: "Face Restore",
+    description: "Recover blurry or damaged faces in portraits",
+    icon: "happy-outline",
+    supportsUpscaleFactor: false,
+    pricing: {
+      base: 5,
+      unitLabel: "per image",
+      rules: [],
+      rounding: "none",
+    },
+    isQueued: true,
+  },
+];
+
+// Helper to get mode by ID
+export function getEnhanceModeById(id: EnhanceModeId): EnhanceModeMeta | undefined {
+  return ENHANCE_MODES.find((m) => m.id === id);
+}
+
+// Label for a mode and factor, e.g. "Upscale 4×" (also used as the generation's modelLabel)
+export function getEnhanceLabel(id: EnhanceModeId, upscaleFactor?: UpscaleFactor): string {
+  const mode = getEnhanceModeById(id);
+  if (!mode) return "Enhance";
+  return mode.supportsUpscaleFactor && upscaleFactor ? `${mode.label} ${upscaleFactor}×` : mode.label;
+}
+
+// Itemized credit cost
+export function calculateEnhanceCostBreakdown(id: EnhanceModeId, upscaleFactor?: UpscaleFactor): PriceBreakdown {
+  const mode = getEnhanceModeById(id) ?? ENHANCE_MODES[0];
+  const resolution = mode.supportsUpscaleFactor && upscaleFactor ? `${upscaleFactor}x` : undefined;
+  return evaluatePricing(mode.pricing, { resolution });
+}
+
+export function calculateEnhanceCost(id: EnhanceModeId, upscaleFactor?: UpscaleFactor): number {
+  return calculateEnhanceCostBreakdown(id, upscaleFactor).total;
+}
+
+// Sources are downscaled to this before upload; upscaling does the rest
+export const MAX_ENHANCE_SOURCE_DIMENSION = 2048;
+
+// Default enhancer settings
+export const DEFAULT_ENHANCE_SETTINGS = {
+  modeId: "enhance-upscale" as EnhanceModeId,
+  upscaleFactor: 2 as UpscaleFactor,
+};
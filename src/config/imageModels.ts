@@ -4,6 +4,8 @@
  * Mirrors web's image-prompt-bar.tsx and model-ids.ts
  */
 
+import { PricingSchema, PriceBreakdown, evaluatePricing, flatPricing } from "./pricing";
+
 // Model ID type for type safety
 export type ImageModelId =
   | "img-imagen4-preview"
@@ -121,8 +123,10 @@ export interface ImageModelMeta {
   supportsResolution?: boolean;
   resolutionOptions?: ResolutionOptions; // Which resolution options to show
   supportsQuality?: boolean;
+  maxAttachmentDimension?: number; // Longest side attachments are downscaled to; derived when omitted
   maxImages: number;
-  creditCost: number;
+  creditCost: number; // Base credits per image (shown in the model selector)
+  pricing?: PricingSchema; // Option-dependent pricing rules; flat creditCost when omitted
   isQueued: boolean; // Whether this model uses queued polling
   // Unified model: switches to editModelId when attachments are present
   editModelId?: ImageModelId;
@@ -146,6 +150,19 @@ export const IMAGE_MODELS: ImageModelMeta[] = [
     resolutionOptions: "1K_2K_4K",
     maxImages: 4,
     creditCost: 15,
+    pricing: {
+      base: 15,
+      unitLabel: "per image",
+      rules: [
+        {
+          option: "resolution",
+          when: { equals: "4K" },
+          effect: { type: "override", value: 25 },
+          label: "4K resolution",
+        },
+      ],
+      rounding: "none",
+    },
     isQueued: true,
     editModelId: "img-nano-banana-pro-edit",
   },
@@ -164,6 +181,19 @@ export const IMAGE_MODELS: ImageModelMeta[] = [
     resolutionOptions: "1K_2K_4K",
     maxImages: 4,
     creditCost: 15,
+    pricing: {
+      base: 15,
+      unitLabel: "per image",
+      rules: [
+        {
+          option: "resolution",
+          when: { equals: "4K" },
+          effect: { type: "override", value: 25 },
+          label: "4K resolution",
+        },
+      ],
+      rounding: "none",
+    },
     isQueued: true,
     isEditVariant: true,
   },
@@ -180,6 +210,19 @@ export const IMAGE_MODELS: ImageModelMeta[] = [
     supportsQuality: true,
     maxImages: 4,
     creditCost: 4,
+    pricing: {
+      base: 4,
+      unitLabel: "per image",
+      rules: [
+        {
+          option: "quality",
+          when: { equals: "high" },
+          effect: { type: "override", value: 16 },
+          label: "High quality",
+        },
+      ],
+      rounding: "none",
+    },
     isQueued: true,
     editModelId: "img-gpt-image-1-5-edit",
   },
@@ -197,6 +240,19 @@ export const IMAGE_MODELS: ImageModelMeta[] = [
     supportsQuality: true,
     maxImages: 4,
     creditCost: 4,
+    pricing: {
+      base: 4,
+      unitLabel: "per image",
+      rules: [
+        {
+          option: "quality",
+          when: { equals: "high" },
+          effect: { type: "override", value: 16 },
+          label: "High quality",
+        },
+      ],
+      rounding: "none",
+    },
     isQueued: true,
     isEditVariant: true,
   },
@@ -213,6 +269,25 @@ export const IMAGE_MODELS: ImageModelMeta[] = [
     allowedAspectRatios: DEFAULT_ASPECT_RATIOS,
     maxImages: 4,
     creditCost: 7,
+    pricing: {
+      base: 7,
+      unitLabel: "per image",
+      rules: [
+        {
+          option: "aspectRatio",
+          when: { in: ["3:4", "4:3"] },
+          effect: { type: "override", value: 8 },
+          label: "4:3 / 3:4 aspect ratio",
+        },
+        {
+          option: "aspectRatio",
+          when: { in: ["9:16", "16:9"] },
+          effect: { type: "override", value: 9 },
+          label: "16:9 / 9:16 aspect ratio",
+        },
+      ],
+      rounding: "none",
+    },
     isQueued: true,
     editModelId: "img-flux-2-max-edit",
   },
@@ -229,6 +304,25 @@ export const IMAGE_MODELS: ImageModelMeta[] = [
     allowedAspectRatios: DEFAULT_ASPECT_RATIOS,
     maxImages: 4,
     creditCost: 7,
+    pricing: {
+      base: 7,
+      unitLabel: "per image",
+      rules: [
+        {
+          option: "aspectRatio",
+          when: { in: ["3:4", "4:3"] },
+          effect: { type: "override", value: 8 },
+          label: "4:3 / 3:4 aspect ratio",
+        },
+        {
+          option: "aspectRatio",
+          when: { in: ["9:16", "16:9"] },
+          effect: { type: "override", value: 9 },
+          label: "16:9 / 9:16 aspect ratio",
+        },
+      ],
+      rounding: "none",
+    },
     isQueued: true,
     isEditVariant: true,
   },
@@ -406,14 +500,28 @@ export const IMAGE_MODELS: ImageModelMeta[] = [
   },
 ];
 
+// Active registry - starts as the bundled IMAGE_MODELS and is replaced by the
+// server-driven catalog once it has been fetched (see src/lib/modelCatalog.ts)
+let activeImageModels: ImageModelMeta[] = IMAGE_MODELS;
+
+// Get the active image model registry
+export function getImageModels(): ImageModelMeta[] {
+  return activeImageModels;
+}
+
+// Replace the active registry (null restores the bundled registry)
+export function setImageModels(models: ImageModelMeta[] | null): void {
+  activeImageModels = models && models.length > 0 ? models : IMAGE_MODELS;
+}
+
 // Helper to get model by ID
 export function getModelById(id: ImageModelId): ImageModelMeta | undefined {
-  return IMAGE_MODELS.find((m) => m.id === id);
+  return activeImageModels.find((m) => m.id === id);
 }
 
 // Helper to get model by label
 export function getModelByLabel(label: string): ImageModelMeta | undefined {
-  return IMAGE_MODELS.find((m) => m.label === label);
+  return activeImageModels.find((m) => m.label === label);
 }
 
 // Helper to check if model requires attachments
@@ -428,23 +536,28 @@ export function getModelAspectRatios(id: ImageModelId): AspectRatio[] {
   return model?.allowedAspectRatios ?? VALID_ASPECT_RATIOS;
 }
 
-// Flux 2 Max aspect ratio to credits mapping (matches web)
-export function getFlux2MaxCreditsPerImage(aspectRatio?: string): number {
-  switch (aspectRatio) {
-    case "1:1":
-      return 7;
-    case "3:4":
-    case "4:3":
-      return 8;
-    case "9:16":
-    case "16:9":
-      return 9;
-    default:
-      return 7; // Default to square pricing
+// Pricing schema for a model (flat creditCost per image unless the model defines rules)
+export function getImagePricingSchema(model: ImageModelMeta): PricingSchema {
+  return model.pricing ?? flatPricing(model.creditCost, "per image");
+}
+
+// Itemized credit cost (matches web calculateImageCost)
+export function calculateImageCostBreakdown(
+  modelId: ImageModelId,
+  numImages: number,
+  options?: {
+    resolution?: Resolution;
+    quality?: Quality;
+    aspectRatio?: AspectRatio;
   }
+): PriceBreakdown {
+  const model = getModelById(modelId);
+  // Standard pricing for unknown models (3 credits per image)
+  const schema = model ? getImagePricingSchema(model) : flatPricing(3, "per image");
+  return evaluatePricing(schema, { ...options }, numImages);
 }
 
-// Helper to calculate credit cost (matches web calculateImageCost)
+// Helper to calculate credit cost
 export function calculateImageCost(
   modelId: ImageModelId,
   numImages: number,
@@ -454,28 +567,7 @@ export function calculateImageCost(
     aspectRatio?: AspectRatio;
   }
 ): number {
-  const { resolution, quality, aspectRatio } = options ?? {};
-
-  // GPT-Image 1.5 models have quality-based pricing
-  if (modelId === "img-gpt-image-1-5" || modelId === "img-gpt-image-1-5-edit") {
-    const creditsPerImage = quality === "high" ? 16 : 4; // high = 16, medium (default) = 4
-    return creditsPerImage * numImages;
-  }
-
-  // Nano Banana Pro models have resolution-based pricing
-  if (modelId === "img-nano-banana-pro" || modelId === "img-nano-banana-pro-edit") {
-    const creditsPerImage = resolution === "4K" ? 25 : 15; // 4K = 25, 1K/2K = 15
-    return creditsPerImage * numImages;
-  }
-
-  // Flux 2 Max models have aspect ratio-based pricing
-  if (modelId === "img-flux-2-max" || modelId === "img-flux-2-max-edit") {
-    const creditsPerImage = getFlux2MaxCreditsPerImage(aspectRatio);
-    return creditsPerImage * numImages;
-  }
-
-  // Standard pricing for all other models (3 credits per image)
-  return 3 * numImages;
+  return calculateImageCostBreakdown(modelId, numImages, options).total;
 }
 
 // Check if model supports resolution setting
@@ -517,6 +609,13 @@ export function getResolutionOptions(id: ImageModelId): Resolution[] | null {
   }
 }
 
+// Longest side attachments are downscaled to before upload - 4K-capable models keep full detail
+export function getAttachmentMaxDimension(id: ImageModelId): number {
+  const model = getModelById(id);
+  if (model?.maxAttachmentDimension) return model.maxAttachmentDimension;
+  return model?.resolutionOptions === "1K_2K_4K" ? 4096 : 2048;
+}
+
 // Get max images allowed for model
 export function getMaxImages(id: ImageModelId): number {
   const model = getModelById(id);
@@ -555,8 +654,8 @@ const PRIORITY_MODEL_IDS: ImageModelId[] = ["img-nano-banana-pro"];
 
 // Get display-friendly models (sorted: priority first, then new, then alphabetical)
 // Filters out edit variants that are hidden from UI
-export function getSortedModels(): ImageModelMeta[] {
-  return [...IMAGE_MODELS]
+export function getSortedModels(models: ImageModelMeta[] = activeImageModels): ImageModelMeta[] {
+  return [...models]
     .filter((m) => !m.isEditVariant) // Hide edit variants from UI
     .sort((a, b) => {
       // Priority models first (in specified order)
@@ -574,12 +673,12 @@ export function getSortedModels(): ImageModelMeta[] {
 
 // Get only text-to-image models (no attachment required)
 export function getTextToImageModels(): ImageModelMeta[] {
-  return IMAGE_MODELS.filter((m) => !m.requiresAttachment && !m.isEditVariant);
+  return activeImageModels.filter((m) => !m.requiresAttachment && !m.isEditVariant);
 }
 
 // Get only edit models (attachment required)
 export function getEditModels(): ImageModelMeta[] {
-  return IMAGE_MODELS.filter((m) => m.requiresAttachment);
+  return activeImageModels.filter((m) => m.requiresAttachment);
 }
 
 // Get the effective model ID based on whether attachments are present
@@ -0,0 +1,182 @@
+/**
+ * Declarative Pricing Rules
+ * Every model carries a PricingSchema: a base cost, an ordered list of rules that
+ * override or multiply it depending on the selected options, and a rounding policy.
+ * evaluatePricing() turns a schema into an itemized breakdown the prompt bar can show.
+ * Mirrors web's calculateImageCost / calculateVideoCost
+ */
+
+// Generation options a rule can match on
+export type PricingOptionKey =
+  | "quality"
+  | "resolution"
+  | "aspectRatio"
+  | "duration"
+  | "hasAudio"
+  | "fastMode"
+  | "removeWatermark";
+
+export type PricingOptionValue = string | number | boolean;
+
+export type PricingOptions = Partial<Record<PricingOptionKey, PricingOptionValue>>;
+
+// When a rule applies
+export type PricingCondition =
+  | { equals: PricingOptionValue }
+  | { in: PricingOptionValue[] }
+  | { greaterThan: number };
+
+// What a rule does to the running unit cost
+export type PricingEffect =
+  | { type: "override"; value: number } // Replace the unit cost
+  | { type: "multiplier"; value: number } // Multiply the unit cost
+  | { type: "scale"; per: number }; // Multiply by optionValue / per (e.g. duration / 5s)
+
+export interface PricingRule {
+  option: PricingOptionKey;
+  when: PricingCondition;
+  effect: PricingEffect;
+  label: string; // Shown in the price breakdown, e.g. "4K resolution"
+}
+
+// "ceil-each" rounds up after every rule, "ceil-total" once at the end
+export type RoundingPolicy = "ceil-each" | "ceil-total" | "none";
+
+export interface PricingSchema {
+  base: number;
+  unitLabel: string; // e.g. "per image", "per video"
+  rules: PricingRule[];
+  rounding: RoundingPolicy;
+}
+
+export interface PriceLineItem {
+  label: string;
+  kind: "base" | "override" | "multiplier" | "quantity";
+  factor?: number; // Multiplier or quantity applied at this step
+  amount: number; // Running cost after this step
+}
+
+export interface PriceBreakdown {
+  unitCost: number;
+  quantity: number;
+  total: number;
+  items: PriceLineItem[];
+}
+
+const POLICIES: RoundingPolicy[] = ["ceil-each", "ceil-total", "none"];
+const OPTION_KEYS: PricingOptionKey[] = [
+  "quality",
+  "resolution",
+  "aspectRatio",
+  "duration",
+  "hasAudio",
+  "fastMode",
+  "removeWatermark",
+];
+
+function matches(condition: PricingCondition, value: PricingOptionValue | undefined): boolean {
+  if (value === undefined) return false;
+  if ("equals" in condition) return value === condition.equals;
+  if ("in" in condition) return condition.in.includes(value);
+  return typeof value === "number" && value > condition.greaterThan;
+}
+
+// Evaluate a schema for the selected options and quantity
+export function evaluatePricing(
+  schema: PricingSchema,
+  options: PricingOptions = {},
+  quantity: number = 1
+): PriceBreakdown {
+  const round = (value: number) => (schema.rounding === "ceil-each" ? Math.ceil(value) : value);
+
+  let unitCost = schema.base;
+  const items: PriceLineItem[] = [{ label: `Base ${schema.unitLabel}`, kind: "base", amount: unitCost }];
+
+  for (const rule of schema.rules) {
+    const value = options[rule.option];
+    if (!matches(rule.when, value)) continue;
+
+    if (rule.effect.type === "override") {
+      unitCost = rule.effect.value;
+      items.push({ label: rule.label, kind: "override", amount: unitCost });
+      continue;
+    }
+
+    const factor = rule.effect.type === "multiplier" ? rule.effect.value : Number(value) / rule.effect.per;
+    unitCost = round(unitCost * factor);
+    items.push({ label: rule.label, kind: "multiplier", factor, amount: unitCost });
+  }
+
+  if (schema.rounding === "ceil-total") {
+    unitCost = Math.ceil(unitCost);
+  }
+
+  const total = unitCost * quantity;
+  if (quantity !== 1) {
+    items.push({ label: `× ${quantity}`, kind: "quantity", factor: quantity, amount: total });
+  }
+
+  return { unitCost, quantity, total, items };
+}
+
+// Human-readable breakdown, one line per step
+export function formatPriceBreakdown(breakdown: PriceBreakdown): string {
+  const lines = breakdown.items.map((item) => {
+    const factor = item.kind === "multiplier" && item.factor !== undefined ? ` (×${+item.factor.toFixed(2)})` : "";
+    return `${item.label}${factor}: ${item.amount} credits`;
+  });
+  lines.push(`Total: ${breakdown.total} credits`);
+  return lines.join("\n");
+}
+
+// Flat pricing with no rules
+export function flatPricing(base: number, unitLabel: string): PricingSchema {
+  return { base, unitLabel, rules: [], rounding: "none" };
+}
+
+function isPricingValue(value: unknown): value is PricingOptionValue {
+  return typeof value === "string" || typeof value === "number" || typeof value === "boolean";
+}
+
+function isValidCondition(value: unknown): value is PricingCondition {
+  if (typeof value !== "object" || value === null) return false;
+  const condition = value as Record<string, unknown>;
+  if ("equals" in condition) return isPricingValue(condition.equals);
+  if ("in" in condition) return Array.isArray(condition.in) && condition.in.every(isPricingValue);
+  if ("greaterThan" in condition) return typeof condition.greaterThan === "number";
+  return false;
+}
+
+function isValidEffect(value: unknown): value is PricingEffect {
+  if (typeof value !== "object" || value === null) return false;
+  const effect = value as Record<string, unknown>;
+  if (effect.type === "override" || effect.type === "multiplier") {
+    return typeof effect.value === "number" && effect.value >= 0;
+  }
+  if (effect.type === "scale") {
+    return typeof effect.per === "number" && effect.per > 0;
+  }
+  return false;
+}
+
+// Validate an untrusted schema (used by the server-driven model catalog)
+export function isValidPricingSchema(value: unknown): value is PricingSchema {
+  if (typeof value !== "object" || value === null) return false;
+  const schema = value as Record<string, unknown>;
+  return (
+    typeof schema.base === "number" &&
+    schema.base >= 0 &&
+    typeof schema.unitLabel === "string" &&
+    POLICIES.includes(schema.rounding as RoundingPolicy) &&
+    Array.isArray(schema.rules) &&
+    schema.rules.every((rule) => {
+      if (typeof rule !== "object" || rule === null) return false;
+      return (
+        OPTION_KEYS.includes(rule.option) &&
+        typeof rule.label === "string" &&
+        isValidCondition(rule.when) &&
+        isValidEffect(rule.effect)
+      );
+    })
+  );
+}
@@ -0,0 +1,71 @@
+/**
+ * Talking Photo Configuration
+ * Modes and pricing for animating a portrait with a voice track (matches web's talking photo tool)
+ */
+
+import { PriceBreakdown, PricingSchema, evaluatePricing } from "./pricing";
+
+export type TalkingPhotoModeId = "standard" | "pro";
+
+// Talking photo mode metadata
+export interface TalkingPhotoModeMeta {
+  id: TalkingPhotoModeId;
+  label: string;
+  description: string;
+  pricing: PricingSchema; // Scaled by the audio's length through the "duration" option (seconds)
+}
+
+export const TALKING_PHOTO_MODES: TalkingPhotoModeMeta[] = [
+  {
+    id: "standard",
+    label: "Standard",
+    description: "Natural lip sync for quick clips",
+    pricing: {
+      base: 10,
+      unitLabel: "per 5s",
+      rules: [{ option: "duration", when: { greaterThan: 5 }, effect: { type: "scale", per: 5 }, label: "Duration" }],
+      rounding: "ceil-total",
+    },
+  },
+  {
+    id: "pro",
+    label: "Pro",
+    description: "Expressive head and face motion in higher quality",
+    pricing: {
+      base: 20,
+      unitLabel: "per 5s",
+      rules: [{ option: "duration", when: { greaterThan: 5 }, effect: { type: "scale", per: 5 }, label: "Duration" }],
+      rounding: "ceil-total",
+    },
+  },
+];
+
+// Longest voice track the provider accepts
+export const MAX_TALKING_PHOTO_SECONDS = 60;
+
+// Longest script a cloned voice reads; roughly MAX_TALKING_PHOTO_SECONDS of speech
+export const MAX_TALKING_PHOTO_SCRIPT_LENGTH = 900;
+
+// Portraits are downscaled to this before upload
+export const MAX_TALKING_PHOTO_IMAGE_DIMENSION = 2048;
+
+// Helper to get mode by ID
+export function getTalkingPhotoModeById(id: TalkingPhotoModeId): TalkingPhotoModeMeta | undefined {
+  return TALKING_PHOTO_MODES.find((m) => m.id === id);
+}
+
+// Speech length of a script read by a cloned voice, at about 2.5 words per second
+export function estimateSpeechSeconds(script: string): number {
+  const words = script.trim().split(/\s+/).filter(Boolean).length;
+  return Math.ceil(words / 2.5);
+}
+
+// Itemized credit cost for a voice track of the given length
+export function calculateTalkingPhotoCostBreakdown(id: TalkingPhotoModeId, durationSeconds: number): PriceBreakdown {
+  const mode = getTalkingPhotoModeById(id) ?? TALKING_PHOTO_MODES[0];
+  return evaluatePricing(mode.pricing, { duration: Math.max(1, Math.ceil(durationSeconds)) });
+}
+
+export function calculateTalkingPhotoCost(id: TalkingPhotoModeId, durationSeconds: number): number {
+  return calculateTalkingPhotoCostBreakdown(id, durationSeconds).total;
+}
@@ -4,6 +4,8 @@
  * Mirrors web's video-prompt-bar.tsx VIDEO_MODELS
  */
 
+import { PricingRule, PricingSchema, PriceBreakdown, evaluatePricing, flatPricing } from "./pricing";
+
 // Video Model ID type for type safety - exact IDs from web
 export type VideoModelId =
   // Veo 3.1 family
@@ -45,6 +47,9 @@ export type VideoDuration = 4 | 5 | 6 | 8 | 10 | 12 | 15;
 // Video resolution type
 export type VideoResolution = "360p" | "480p" | "540p" | "720p" | "1080p";
 
+// Backend provider serving a model
+export type VideoProvider = "fal" | "google" | "wavespeed" | "kie";
+
 // Valid aspect ratios for videos
 export const VALID_VIDEO_ASPECT_RATIOS: VideoAspectRatio[] = [
   "16:9",
@@ -98,11 +103,13 @@ export interface VideoModelMeta {
   supportsWatermarkToggle?: boolean;
   supportsCameraFixed?: boolean;
   showResolutionSelector?: boolean; // Whether to show resolution dropdown in UI
+  maxAttachmentDimension?: number; // Longest side of start/end frames; derived when omitted
   // Pricing
   baseCreditCost: number; // Base cost per video
+  pricing?: PricingSchema; // Explicit rules; derived from the flags below when omitted
   // Async behavior
   isQueued: boolean;
-  provider: "fal" | "google" | "wavespeed" | "kie";
+  provider: VideoProvider;
 }
 
 // Complete video model registry - exact IDs from web
@@ -500,14 +507,28 @@ export const VIDEO_MODELS: VideoModelMeta[] = [
   },
 ];
 
+// Active registry - starts as the bundled VIDEO_MODELS and is replaced by the
+// server-driven catalog once it has been fetched (see src/lib/modelCatalog.ts)
+let activeVideoModels: VideoModelMeta[] = VIDEO_MODELS;
+
+// Get the active video model registry
+export function getVideoModels(): VideoModelMeta[] {
+  return activeVideoModels;
+}
+
+// Replace the active registry (null restores the bundled registry)
+export function setVideoModels(models: VideoModelMeta[] | null): void {
+  activeVideoModels = models && models.length > 0 ? models : VIDEO_MODELS;
+}
+
 // Helper to get model by ID
 export function getVideoModelById(id: VideoModelId): VideoModelMeta | undefined {
-  return VIDEO_MODELS.find((m) => m.id === id);
+  return activeVideoModels.find((m) => m.id === id);
 }
 
 // Helper to get model by label
 export function getVideoModelByLabel(label: string): VideoModelMeta | undefined {
-  return VIDEO_MODELS.find((m) => m.label === label);
+  return activeVideoModels.find((m) => m.label === label);
 }
 
 // Helper to check if model requires attachments
@@ -540,8 +561,52 @@ export function getVideoModelResolutions(id: VideoModelId): VideoResolution[] {
   return model?.allowedResolutions ?? ["720p"];
 }
 
-// Calculate video cost (matches web's calculateVideoCost)
-export function calculateVideoCost(
+// Longest side start/end frames are downscaled to before upload - no need to exceed the output size
+export function getVideoAttachmentMaxDimension(id: VideoModelId): number {
+  const model = getVideoModelById(id);
+  if (model?.maxAttachmentDimension) return model.maxAttachmentDimension;
+  return model?.allowedResolutions?.includes("1080p") ? 1920 : 1280;
+}
+
+// Standard video rules (matches web's calculateVideoCost): 1080p, audio, duration,
+// fast mode and watermark removal, each gated on what the model supports
+export function getVideoPricingSchema(model: VideoModelMeta): PricingSchema {
+  if (model.pricing) return model.pricing;
+
+  const rules: PricingRule[] = [
+    { option: "resolution", when: { equals: "1080p" }, effect: { type: "multiplier", value: 1.5 }, label: "1080p" },
+  ];
+  if (model.supportsAudio) {
+    rules.push({
+      option: "hasAudio",
+      when: { equals: true },
+      effect: { type: "multiplier", value: 1.2 },
+      label: "Audio",
+    });
+  }
+  rules.push({ option: "duration", when: { greaterThan: 5 }, effect: { type: "scale", per: 5 }, label: "Duration" });
+  if (model.supportsFastMode) {
+    rules.push({
+      option: "fastMode",
+      when: { equals: true },
+      effect: { type: "multiplier", value: 0.7 },
+      label: "Fast mode",
+    });
+  }
+  if (model.supportsWatermarkToggle) {
+    rules.push({
+      option: "removeWatermark",
+      when: { equals: true },
+      effect: { type: "multiplier", value: 1.3 },
+      label: "Watermark removal",
+    });
+  }
+
+  return { base: model.baseCreditCost, unitLabel: "per video", rules, rounding: "ceil-each" };
+}
+
+// Itemized video cost
+export function calculateVideoCostBreakdown(
   modelId: VideoModelId,
   options?: {
     resolution?: VideoResolution;
@@ -550,38 +615,24 @@ export function calculateVideoCost(
     fastMode?: boolean;
     removeWatermark?: boolean;
   }
-): number {
+): PriceBreakdown {
   const model = getVideoModelById(modelId);
-  if (!model) return 50; // Default fallback
-
-  let cost = model.baseCreditCost;
-
-  // Resolution multiplier
-  if (options?.resolution === "1080p") {
-    cost = Math.ceil(cost * 1.5);
-  }
-
-  // Audio adds cost for models that support it
-  if (options?.hasAudio && model.supportsAudio) {
-    cost = Math.ceil(cost * 1.2);
-  }
-
-  // Longer duration adds cost
-  if (options?.duration && options.duration > 5) {
-    cost = Math.ceil(cost * (options.duration / 5));
-  }
-
-  // Fast mode reduces cost
-  if (options?.fastMode && model.supportsFastMode) {
-    cost = Math.ceil(cost * 0.7);
-  }
+  const schema = model ? getVideoPricingSchema(model) : flatPricing(50, "per video"); // Default fallback
+  return evaluatePricing(schema, { ...options });
+}
 
-  // Watermark removal adds cost (Sora 2)
-  if (options?.removeWatermark && model.supportsWatermarkToggle) {
-    cost = Math.ceil(cost * 1.3);
+// Calculate video cost
+export function calculateVideoCost(
+  modelId: VideoModelId,
+  options?: {
+    resolution?: VideoResolution;
+    hasAudio?: boolean;
+    duration?: VideoDuration;
+    fastMode?: boolean;
+    removeWatermark?: boolean;
   }
-
-  return cost;
+): number {
+  return calculateVideoCostBreakdown(modelId, options).total;
 }
 
 // Check if model supports audio
@@ -779,8 +830,8 @@ export function validateVideoAttachments(
 const PRIORITY_VIDEO_MODEL_IDS: VideoModelId[] = ["vid-veo-3.1", "kie-sora-2"];
 
 // Get display-friendly models (sorted: priority first, then new, then alphabetical)
-export function getSortedVideoModels(): VideoModelMeta[] {
-  return [...VIDEO_MODELS].sort((a, b) => {
+export function getSortedVideoModels(models: VideoModelMeta[] = activeVideoModels): VideoModelMeta[] {
+  return [...models].sort((a, b) => {
     // Priority models first (in specified order)
     const aPriority = PRIORITY_VIDEO_MODEL_IDS.indexOf(a.id);
     const bPriority = PRIORITY_VIDEO_MODEL_IDS.indexOf(b.id);
@@ -796,17 +847,17 @@ export function getSortedVideoModels(): VideoModelMeta[] {
 
 // Get only text-to-video models (no attachment required)
 export function getTextToVideoModels(): VideoModelMeta[] {
-  return VIDEO_MODELS.filter((m) => !m.requiresAttachment);
+  return activeVideoModels.filter((m) => !m.requiresAttachment);
 }
 
 // Get only image-to-video models (attachment required, not transitions)
 export function getImageToVideoModels(): VideoModelMeta[] {
-  return VIDEO_MODELS.filter((m) => m.requiresAttachment && !m.isTransition);
+  return activeVideoModels.filter((m) => m.requiresAttachment && !m.isTransition);
 }
 
 // Get only transition models
 export function getTransitionModels(): VideoModelMeta[] {
-  return VIDEO_MODELS.filter((m) => m.isTransition);
+  return activeVideoModels.filter((m) => m.isTransition);
 }
 
 // Check if model is Kling O1 video (needs @Image mentions)
@@ -0,0 +1,59 @@
+/**
+ * Voice Cloning Configuration
+ * Languages a cloned voice is localized into (Cartesia localize API) and sample limits
+ */
+
+export type VoiceLanguage =
+  | "en"
+  | "de"
+  | "es"
+  | "fr"
+  | "ja"
+  | "pt"
+  | "zh"
+  | "hi"
+  | "it"
+  | "ko"
+  | "nl"
+  | "pl"
+  | "ru"
+  | "sv"
+  | "tr";
+
+export type VoiceGender = "male" | "female";
+
+export const VOICE_LANGUAGES: { code: VoiceLanguage; label: string }[] = [
+  { code: "en", label: "English" },
+  { code: "de", label: "German" },
+  { code: "es", label: "Spanish" },
+  { code: "fr", label: "French" },
+  { code: "ja", label: "Japanese" },
+  { code: "pt", label: "Portuguese" },
+  { code: "zh", label: "Chinese" },
+  { code: "hi", label: "Hindi" },
+  { code: "it", label: "Italian" },
+  { code: "ko", label: "Korean" },
+  { code: "nl", label: "Dutch" },
+  { code: "pl", label: "Polish" },
+  { code: "ru", label: "Russian" },
+  { code: "sv", label: "Swedish" },
+  { code: "tr", label: "Turkish" },
+];
+
+// Cartesia needs a few seconds of clean speech; longer samples don't improve the clone
+export const MIN_VOICE_SAMPLE_SECONDS = 5;
+export const MAX_VOICE_SAMPLE_SECONDS = 60;
+
+export const MAX_VOICE_NAME_LENGTH = 40;
+
+// "ready" has a localized voice ID, "pending" is still being localized in the background
+export type VoiceLanguageStatus = "ready" | "pending" | "unavailable";
+
+export function getVoiceLanguageStatus(
+  voice: { localizedVoices: Partial<Record<VoiceLanguage, string>>; pendingLanguages?: string[] },
+  code: VoiceLanguage
+): VoiceLanguageStatus {
+  if (voice.localizedVoices[code]) return "ready";
+  if (voice.pendingLanguages?.includes(code)) return "pending";
+  return "unavailable";
+}
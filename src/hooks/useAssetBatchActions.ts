@@ -0,0 +1,179 @@
+/**
+ * Asset batch actions
+ * Bulk delete / favorite / save / share for the Assets multi-select. Items are
+ * processed one at a time with progress, and every run ends with a summary that
+ * lists what failed instead of stopping at the first error.
+ * - Deletes and favorites go through the outbox, so they also work offline.
+ */
+
+import { useCallback, useState } from "react";
+import { Alert, Share } from "react-native";
+import { AssetItem } from "./useAssets";
+import { requestMediaLibraryPermission, saveMediaToLibrary } from "../lib/mediaLibrary";
+
+type MediaType = "image" | "video";
+
+// Failures listed by name in the summary; the rest are counted
+const MAX_LISTED_FAILURES = 3;
+
+export interface BatchProgress {
+  label: string; // e.g. "Saving"
+  completed: number;
+  total: number;
+  failed: number;
+}
+
+interface BatchFailure {
+  asset: AssetItem;
+  error: string;
+}
+
+interface UseAssetBatchActionsOptions {
+  isOffline: boolean;
+  deleteAsset: (generationId: string, mediaType: MediaType, mediaIndex: number) => Promise<void>;
+  toggleFavorite: (generationId: string, mediaType: MediaType, mediaIndex: number) => Promise<void>;
+}
+
+interface UseAssetBatchActionsReturn {
+  // Null when no batch is running
+  progress: BatchProgress | null;
+  // Each resolves true when at least one item succeeded
+  deleteAssets: (assets: AssetItem[]) => Promise<boolean>;
+  favoriteAssets: (assets: AssetItem[]) => Promise<boolean>;
+  saveAssetsToPhotos: (assets: AssetItem[]) => Promise<boolean>;
+  shareAssets: (assets: AssetItem[]) => Promise<boolean>;
+}
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? "" : "s"}`;
+
+function describeAsset(asset: AssetItem): string {
+  const prompt = asset.prompt?.trim();
+  const label = prompt ? `"${prompt.length > 40 ? `${prompt.slice(0, 40)}…` : prompt}"` : asset.mediaType;
+  return asset.mediaType === "video" ? `${label} (video)` : label;
+}
+
+// Summary alert: nothing when everything worked and there is nothing to say
+function reportBatch(title: string, doneMessage: string | null, total: number, failures: BatchFailure[]) {
+  if (failures.length === 0) {
+    if (doneMessage) Alert.alert(title, doneMessage);
+    return;
+  }
+
+  const listed = failures
+    .slice(0, MAX_LISTED_FAILURES)
+    .map(({ asset, error }) => `• ${describeAsset(asset)}: ${error}`);
+  if (failures.length > MAX_LISTED_FAILURES) {
+    listed.push(`• and ${failures.length - MAX_LISTED_FAILURES} more`);
+  }
+  const succeeded = total - failures.length;
+  Alert.alert(
+    succeeded > 0 ? `${title} - Partly Done` : `${title} Failed`,
+    `${succeeded} of ${plural(total, "item")} done. ${plural(failures.length, "item")} failed:\n\n${listed.join("\n")}`
+  );
+}
+
+export function useAssetBatchActions({
+  isOffline,
+  deleteAsset,
+  toggleFavorite,
+}: UseAssetBatchActionsOptions): UseAssetBatchActionsReturn {
+  const [progress, setProgress] = useState<BatchProgress | null>(null);
+
+  // Run a task per asset in order, keeping going past failures
+  const runBatch = useCallback(
+    async (label: string, assets: AssetItem[], task: (asset: AssetItem) => Promise<void>) => {
+      const failures: BatchFailure[] = [];
+      setProgress({ label, completed: 0, total: assets.length, failed: 0 });
+
+      for (const [i, asset] of assets.entries()) {
+        try {
+          await task(asset);
+        } catch (error) {
+          console.warn(`[batch] ${label} failed for ${asset.id}:`, error);
+          failures.push({ asset, error: error instanceof Error ? error.message : "Unknown error" });
+        }
+        setProgress({ label, completed: i + 1, total: assets.length, failed: failures.length });
+      }
+
+      setProgress(null);
+      return failures;
+    },
+    []
+  );
+
+  const deleteAssets = useCallback(
+    async (assets: AssetItem[]) => {
+      const failures = await runBatch("Deleting", assets, (asset) =>
+        deleteAsset(asset.generationId, asset.mediaType, asset.index)
+      );
+      reportBatch(
+        "Delete",
+        isOffline ? `${plural(assets.length, "item")} will be deleted when you're back online.` : null,
+        assets.length,
+        failures
+      );
+      return failures.length < assets.length;
+    },
+    [isOffline, runBatch, deleteAsset]
+  );
+
+  // Favorites all of them, or unfavorites all when every one already is
+  const favoriteAssets = useCallback(
+    async (assets: AssetItem[]) => {
+      const unfavorite = assets.every((asset) => asset.isFavorite);
+      const targets = unfavorite ? assets : assets.filter((asset) => !asset.isFavorite);
+      const failures = await runBatch(unfavorite ? "Unfavoriting" : "Favoriting", targets, (asset) =>
+        toggleFavorite(asset.generationId, asset.mediaType, asset.index)
+      );
+      reportBatch(unfavorite ? "Unfavorite" : "Favorite", null, targets.length, failures);
+      return failures.length < targets.length;
+    },
+    [runBatch, toggleFavorite]
+  );
+
+  const saveAssetsToPhotos = useCallback(
+    async (assets: AssetItem[]) => {
+      // Offline, only files already in the media cache can be saved
+      if (!(await requestMediaLibraryPermission())) {
+        Alert.alert("Permission Required", "Please allow access to your photo library to save images.");
+        return false;
+      }
+
+      const failures = await runBatch("Saving", assets, (asset) => saveMediaToLibrary(asset.url, asset.mediaType));
+      reportBatch(
+        "Save to Photos",
+        `Saved ${plural(assets.length, "item")} to your gallery.`,
+        assets.length,
+        failures
+      );
+      return failures.length < assets.length;
+    },
+    [runBatch]
+  );
+
+  // The share sheet takes one message, so several assets are shared as a list of links
+  const shareAssets = useCallback(async (assets: AssetItem[]) => {
+    try {
+      if (assets.length === 1) {
+        await Share.share({ url: assets[0].url, message: assets[0].prompt || assets[0].url });
+      } else {
+        await Share.share({ message: assets.map((asset) => asset.url).join("\n") });
+      }
+      return true;
+    } catch (error) {
+      console.error("Share error:", error);
+      Alert.alert("Error", "Failed to share. Please try again.");
+      return false;
+    }
+  }, []);
+
+  return {
+    progress,
+    deleteAssets,
+    favoriteAssets,
+    saveAssetsToPhotos,
+    shareAssets,
+  };
+}
+
+export default useAssetBatchActions;
@@ -1,20 +1,23 @@
-import { useEffect, useCallback, useMemo, useRef, useState } from "react";
-import { AppState, AppStateStatus } from "react-native";
-import NetInfo, { NetInfoState } from "@react-native-community/netinfo";
-import { useQuery, useMutation, useConvex } from "convex/react";
-import { useAuth } from "@clerk/clerk-expo";
+import { useEffect, useCallback, useMemo } from "react";
+import { useQuery, useMutation, usePaginatedQuery } from "convex/react";
 import { api } from "../../convex/_generated/api";
 import { Id } from "../../convex/_generated/dataModel";
 import useAssetsCacheStore, { CachedAssetItem, CachedFavorite } from "../state/assetsCacheStore";
-import useAssetsQueueStore, { PendingAssetAction } from "../state/assetsQueueStore";
 import { useNetworkStatus } from "../lib/network";
+import { PinnedMedia, updatePinnedMedia } from "../lib/mediaCache";
+import {
+  enqueueMutation,
+  getMediaOrderKey,
+  OutboxAlreadyAppliedError,
+  syncOutbox,
+  useOutboxEntries,
+  useOutboxHandler,
+} from "../lib/outbox";
 import { useFavorites, makeFavoriteKey } from "./useFavorites";
+import { useCollections } from "./useCollections";
 
-// Keep this in sync with web AssetsView - session types that contain assets
-const ASSET_SESSION_TYPES = ["image", "video", "edit", "assets"];
-// Initial batch size for faster first load, then load more on scroll
-const INITIAL_SESSIONS_TO_LOAD = 5;
-const SESSIONS_PER_PAGE = 30;
+// Media items per page of sessions.listAssetMedia
+const PAGE_SIZE = 60;
 
 export interface AssetItem {
   id: string;
@@ -30,16 +33,45 @@ export interface AssetItem {
   isFavorite: boolean;
   isPendingDelete?: boolean;
   aspectRatio?: string;
+  modelLabel?: string;
+}
+
+// Server-side filters; each combination is its own paginated query
+export interface AssetsQueryOptions {
+  mediaType?: "image" | "video";
+  favoritesOnly?: boolean;
+  collectionId?: string;
+}
+
+export interface AssetCounts {
+  images: number;
+  videos: number;
+  favorites: number;
+}
+
+// Row returned by sessions.listAssetMedia - one image or video of a generation, newest first
+interface AssetMediaDoc {
+  generationId: string;
+  sessionId: string;
+  sessionType: string;
+  mediaType: "image" | "video";
+  index: number;
+  url: string;
+  previewUrl?: string;
+  prompt?: string;
+  aspectRatio?: string;
+  modelLabel?: string;
+  createdAt: number;
 }
 
 interface UseAssetsReturn {
   assets: AssetItem[];
   favorites: CachedFavorite[];
+  counts: AssetCounts;
   isLoading: boolean;
   isLoadingMore: boolean;
   isOffline: boolean;
   hasPendingActions: boolean;
-  assetsSessionId: string | null;
   hasMore: boolean;
   
   // Actions
@@ -49,93 +81,40 @@ interface UseAssetsReturn {
   loadMore: () => void;
 }
 
-export function useAssets(): UseAssetsReturn {
-  const { isSignedIn, userId } = useAuth();
+function toCachedAssetItem(doc: AssetMediaDoc): CachedAssetItem {
+  return {
+    id: `${doc.generationId}:${doc.mediaType}:${doc.index}`,
+    generationId: doc.generationId,
+    sessionId: doc.sessionId,
+    mediaType: doc.mediaType,
+    index: doc.index,
+    url: doc.url,
+    previewUrl: doc.previewUrl,
+    prompt: doc.prompt,
+    createdAt: doc.createdAt,
+    isEnhanced: doc.sessionType === "edit",
+    aspectRatio: doc.aspectRatio,
+    modelLabel: doc.modelLabel,
+  };
+}
+
+export function useAssets(options: AssetsQueryOptions = {}): UseAssetsReturn {
+  const { mediaType, favoritesOnly = false, collectionId } = options;
   const { isConnected, isInternetReachable } = useNetworkStatus();
   const isOnline = isConnected && isInternetReachable !== false;
-  const isSyncing = useRef(false);
-  const isLoadingMoreRef = useRef(false);
-  const convex = useConvex();
-
-  // Local state for generations cache
-  const [generationsCache, setGenerationsCache] = useState<Record<string, any[]>>({});
-  const [isLoadingGenerations, setIsLoadingGenerations] = useState(false);
-  const [isLoadingMore, setIsLoadingMore] = useState(false);
-  const [sessionsLimit, setSessionsLimit] = useState(INITIAL_SESSIONS_TO_LOAD);
-  const loadedSessionsRef = useRef<Set<string>>(new Set());
-
-  // Get all sessions for the current user
-  const sessions = useQuery(api.sessions.getUserSessions);
-
-  // All asset sessions (unsliced) for pagination tracking
-  const allAssetSessions = useMemo(() => {
-    if (!sessions) return [];
-    return sessions.filter((s: any) => ASSET_SESSION_TYPES.includes(s.type));
-  }, [sessions]);
-
-  // Filter to asset session types and take current limit
-  const assetSessions = useMemo(() => {
-    return allAssetSessions.slice(0, sessionsLimit);
-  }, [allAssetSessions, sessionsLimit]);
-
-  // Check if there are more sessions to load
-  const hasMore = allAssetSessions.length > sessionsLimit;
-
-  // Find the main "All Assets" session for the return value
-  const mainAssetsSession = useMemo(() => {
-    if (!sessions) return null;
-    return sessions.find(
-      (s: any) => s.type === "assets" && s.title === "All Assets"
-    ) || sessions.find((s: any) => s.type === "assets") || null;
-  }, [sessions]);
-
-  // Fetch ALL sessions' generations in parallel (not batched)
-  const fetchGenerationsForSessions = useCallback(async (sessionIds: string[]) => {
-    if (sessionIds.length === 0) return;
-    
-    setIsLoadingGenerations(true);
-    
-    // Fetch ALL sessions in parallel for speed
-    const results = await Promise.all(
-      sessionIds.map(async (sessionId) => {
-        try {
-          const generations = await convex.query(
-            api.sessions.getSessionGenerations,
-            { sessionId: sessionId as Id<"sessions"> }
-          );
-          return { sessionId, generations: generations || [] };
-        } catch (error) {
-          console.error(`Failed to fetch generations for session ${sessionId}:`, error);
-          return { sessionId, generations: [] };
-        }
-      })
-    );
-    
-    // Use functional update to avoid stale closure and unnecessary re-renders
-    setGenerationsCache((prevCache) => {
-      const newCache = { ...prevCache };
-      results.forEach(({ sessionId, generations }) => {
-        newCache[sessionId] = generations;
-        loadedSessionsRef.current.add(sessionId);
-      });
-      return newCache;
-    });
-    setIsLoadingGenerations(false);
-  }, [convex]);
+  const isUnfiltered = !mediaType && !favoritesOnly && !collectionId;
 
-  // Load generations when sessions change
-  useEffect(() => {
-    if (!assetSessions.length || !isOnline) return;
-    
-    // Find sessions that haven't been loaded yet
-    const unloadedSessionIds = assetSessions
-      .map((s: any) => s._id as string)
-      .filter((id: string) => !loadedSessionsRef.current.has(id));
-    
-    if (unloadedSessionIds.length > 0) {
-      fetchGenerationsForSessions(unloadedSessionIds);
-    }
-  }, [assetSessions, isOnline, fetchGenerationsForSessions]);
+  // Flattened media across all sessions, paged by the server
+  const {
+    results: mediaDocs,
+    status: pageStatus,
+    loadMore: loadMorePages,
+  } = usePaginatedQuery(
+    api.sessions.listAssetMedia,
+    isOnline ? { mediaType, favoritesOnly, collectionId } : "skip",
+    { initialNumItems: PAGE_SIZE }
+  );
+  const serverCounts: AssetCounts | undefined = useQuery(api.sessions.getAssetMediaCounts, isOnline ? {} : "skip");
 
   // Use the shared favorites hook for optimistic updates
   const {
@@ -143,141 +122,52 @@ export function useAssets(): UseAssetsReturn {
     isFavorited,
     toggleFavorite: toggleFavoriteAction,
     favorites: convexFavorites,
+    isLoading: isLoadingFavorites,
   } = useFavorites();
 
+  // Collection membership, for filtering the cache offline
+  const { getCollectionKeys } = useCollections();
+
   // Convex mutations
   const deleteAssetMediaMutation = useMutation(api.sessions.deleteAssetMedia);
-  const toggleFavoriteMutation = useMutation(api.sessions.toggleFavorite);
 
   // Cache store
   const {
     assets: cachedAssets,
     favorites: cachedFavorites,
-    assetsSessionId: cachedAssetsSessionId,
-    setUserId,
-    setAssetsSessionId,
     setAssets,
     setFavorites,
     removeAsset,
     toggleAssetFavorite,
-    clearCache,
   } = useAssetsCacheStore();
 
-  // Queue store
-  const {
-    pendingActions,
-    addPendingAction,
-    markAsSyncing,
-    markAsSynced,
-    markAsFailed,
-    removePendingAction,
-    getPendingToSync,
-    hasPendingAction,
-    clearAllForUser,
-    clearSyncedActions,
-  } = useAssetsQueueStore();
-
-  // Set user ID when auth changes
-  useEffect(() => {
-    if (userId) {
-      setUserId(userId);
-    }
-  }, [userId, setUserId]);
-
-  // Clear data on sign out
-  useEffect(() => {
-    if (!isSignedIn) {
-      clearAllForUser();
-      clearCache();
-    }
-  }, [isSignedIn, clearAllForUser, clearCache]);
-
-  // Update cached assets session ID
-  useEffect(() => {
-    if (mainAssetsSession?._id) {
-      setAssetsSessionId(mainAssetsSession._id);
-    }
-  }, [mainAssetsSession, setAssetsSessionId]);
+  // Outbox entries for asset mutations
+  const pendingDeletes = useOutboxEntries("deleteAsset");
+  const pendingToggles = useOutboxEntries("toggleFavorite");
+  const pendingCollectionUpdates = useOutboxEntries("updateCollection");
+
+  // A poisoned delete gave up - show the asset again
+  const hasPendingDelete = useCallback(
+    (generationId: string, mediaType: "image" | "video", mediaIndex: number) =>
+      pendingDeletes.some(
+        ({ payload, status }) =>
+          status !== "poisoned" &&
+          payload.generationId === generationId &&
+          payload.mediaType === mediaType &&
+          payload.mediaIndex === mediaIndex
+      ),
+    [pendingDeletes]
+  );
 
-  // Flatten ALL sessions' generations into asset items
+  // Loaded pages as cacheable items (null until the first page arrives)
   const serverAssets = useMemo(() => {
-    const hasGenerations = Object.keys(generationsCache).length > 0;
-    if (!hasGenerations) return null;
-
-    // Collect items per session first, then sort within each session
-    const sessionItems: Map<string, CachedAssetItem[]> = new Map();
-
-    assetSessions.forEach((session: any) => {
-      const sessionGenerations = generationsCache[session._id] || [];
-      const items: CachedAssetItem[] = [];
-      
-      sessionGenerations.forEach((gen: any) => {
-        // Add images
-        if (gen.images && Array.isArray(gen.images)) {
-          gen.images.forEach((img: any, index: number) => {
-            const url = typeof img === "string" ? img : img.url;
-            const displayUrl = index === 0 && gen.previewImage ? gen.previewImage : url;
-            if (url) {
-              const favoriteKey = makeFavoriteKey(gen._id, "image", index);
-              items.push({
-                id: `${gen._id}:image:${index}`,
-                generationId: gen._id,
-                sessionId: session._id,
-                mediaType: "image",
-                index,
-                url,
-                previewUrl: displayUrl,
-                prompt: gen.prompt,
-                createdAt: gen.completedAt || gen._creationTime,
-                isEnhanced: session.type === "edit",
-                isFavorite: favoriteSet.has(favoriteKey),
-                aspectRatio: gen.aspectRatio,
-              });
-            }
-          });
-        }
-
-        // Add videos
-        if (gen.videos && Array.isArray(gen.videos)) {
-          gen.videos.forEach((videoUrl: string, index: number) => {
-            const favoriteKey = makeFavoriteKey(gen._id, "video", index);
-            items.push({
-              id: `${gen._id}:video:${index}`,
-              generationId: gen._id,
-              sessionId: session._id,
-              mediaType: "video",
-              index,
-              url: videoUrl,
-              previewUrl: gen.previewImage || undefined,
-              prompt: gen.prompt,
-              createdAt: gen.completedAt || gen._creationTime,
-              isEnhanced: false,
-              isFavorite: favoriteSet.has(favoriteKey),
-              aspectRatio: gen.aspectRatio,
-            });
-          });
-        }
-      });
-
-      // Sort items within this session by creation time (newest first)
-      items.sort((a, b) => (b.createdAt || 0) - (a.createdAt || 0));
-      sessionItems.set(session._id, items);
-    });
-
-    // Flatten in session order (sessions are already sorted by backend)
-    // This maintains stable order during pagination - new sessions append at end
-    const allItems: CachedAssetItem[] = [];
-    assetSessions.forEach((session: any) => {
-      const items = sessionItems.get(session._id) || [];
-      allItems.push(...items);
-    });
+    if (pageStatus === "LoadingFirstPage") return null;
+    return (mediaDocs as AssetMediaDoc[]).map(toCachedAssetItem);
+  }, [mediaDocs, pageStatus]);
 
-    return allItems;
-  }, [assetSessions, generationsCache, favoriteSet]);
-
-  // Update cache when server data changes
+  // Update cache when server data changes (the unfiltered list is what offline mode shows)
   useEffect(() => {
-    if (serverAssets && isOnline) {
+    if (serverAssets && isOnline && isUnfiltered) {
       setAssets(serverAssets);
       
       // Update favorites cache
@@ -290,144 +180,55 @@ export function useAssets(): UseAssetsReturn {
         setFavorites(favorites);
       }
     }
-  }, [serverAssets, convexFavorites, isOnline, setAssets, setFavorites]);
-
-  // Sync pending actions when back online
-  const syncPendingActions = useCallback(async () => {
-    if (isSyncing.current || !isSignedIn || !isOnline) return;
-
-    const pendingItems = getPendingToSync();
-    if (pendingItems.length === 0) return;
-
-    isSyncing.current = true;
-
-    for (const action of pendingItems) {
-      try {
-        markAsSyncing(action.id);
-
-        if (action.type === "deleteAsset") {
-          await deleteAssetMediaMutation({
-            generationId: action.generationId as Id<"sessionGenerations">,
-            mediaType: action.mediaType,
-            mediaIndex: action.mediaIndex,
-          });
-        } else if (action.type === "toggleFavorite") {
-          await toggleFavoriteMutation({
-            generationId: action.generationId as Id<"sessionGenerations">,
-            mediaType: action.mediaType,
-            mediaIndex: action.mediaIndex,
-          });
-        }
-
-        markAsSynced(action.id);
-      } catch (error: any) {
-        console.error("Failed to sync asset action:", error);
-        // If "not found" error, treat as already done
-        if (error?.message?.includes("not found") || error?.message?.includes("Not found")) {
-          markAsSynced(action.id);
-        } else {
-          markAsFailed(action.id, error?.message || "Unknown error");
-        }
-      }
-    }
-
-    // Clean up synced actions
-    clearSyncedActions();
-    isSyncing.current = false;
-  }, [
-    isSignedIn,
-    isOnline,
-    getPendingToSync,
-    markAsSyncing,
-    markAsSynced,
-    markAsFailed,
-    clearSyncedActions,
-    deleteAssetMediaMutation,
-    toggleFavoriteMutation,
-  ]);
-
-  // Network change listener
-  useEffect(() => {
-    const unsubscribe = NetInfo.addEventListener((state: NetInfoState) => {
-      if (state.isConnected && state.isInternetReachable) {
-        syncPendingActions();
-      }
-    });
-
-    return () => unsubscribe();
-  }, [syncPendingActions]);
-
-  // App state listener
-  useEffect(() => {
-    const handleAppStateChange = (nextAppState: AppStateStatus) => {
-      if (nextAppState === "active" && isOnline) {
-        syncPendingActions();
+  }, [serverAssets, convexFavorites, isOnline, isUnfiltered, setAssets, setFavorites]);
+
+  // Replays queued deletes (see lib/outbox)
+  useOutboxHandler("deleteAsset", async ({ generationId, mediaType, mediaIndex }) => {
+    try {
+      await deleteAssetMediaMutation({
+        generationId: generationId as Id<"sessionGenerations">,
+        mediaType,
+        mediaIndex,
+      });
+    } catch (error) {
+      // If "not found" error, treat as already done
+      const message = error instanceof Error ? error.message : "";
+      if (message.includes("not found") || message.includes("Not found")) {
+        throw new OutboxAlreadyAppliedError(message);
       }
-    };
-
-    const subscription = AppState.addEventListener("change", handleAppStateChange);
-    return () => subscription.remove();
-  }, [syncPendingActions, isOnline]);
-
-  // Initial sync on mount
-  useEffect(() => {
-    if (isSignedIn && isOnline) {
-      syncPendingActions();
+      throw error;
     }
-  }, [isSignedIn, isOnline, syncPendingActions]);
+  });
 
-  // Delete asset action
+  // Delete asset action - goes through the outbox online and offline alike
   const deleteAsset = useCallback(
     async (generationId: string, mediaType: "image" | "video", mediaIndex: number) => {
-      const assetId = `${generationId}-${mediaType}-${mediaIndex}`;
-
-      if (isOnline) {
-        // Online: Call mutation directly
-        try {
-          await deleteAssetMediaMutation({
-            generationId: generationId as Id<"sessionGenerations">,
-            mediaType,
-            mediaIndex,
-          });
-        } catch (error) {
-          console.error("Failed to delete asset:", error);
-          throw error;
-        }
-      } else {
-        // Offline: Queue the action and apply optimistic update
-        addPendingAction({
-          type: "deleteAsset",
-          generationId,
-          mediaType,
-          mediaIndex,
-        });
-        
+      const assetId = `${generationId}:${mediaType}:${mediaIndex}`;
+
+      enqueueMutation(
+        "deleteAsset",
+        { generationId, mediaType, mediaIndex },
+        getMediaOrderKey(generationId, mediaType, mediaIndex)
+      );
+
+      if (!isOnline) {
         // Optimistic update: remove from local cache
         removeAsset(assetId);
       }
     },
-    [isOnline, deleteAssetMediaMutation, addPendingAction, removeAsset]
+    [isOnline, removeAsset]
   );
 
-  // Toggle favorite is now handled by useFavorites hook with optimistic updates
-  // For offline mode, we still queue the action
+  // Toggle favorite is handled by useFavorites (optimistic, queued through the outbox)
   const handleToggleFavorite = useCallback(
     async (generationId: string, mediaType: "image" | "video", mediaIndex: number) => {
-      if (isOnline) {
-        // Online: Use the optimistic toggle from useFavorites
-        await toggleFavoriteAction(generationId, mediaType, mediaIndex);
-      } else {
-        // Offline: Queue the action and apply optimistic update to cache
-        addPendingAction({
-          type: "toggleFavorite",
-          generationId,
-          mediaType,
-          mediaIndex,
-        });
+      await toggleFavoriteAction(generationId, mediaType, mediaIndex);
+      if (!isOnline) {
+        // Offline the list renders from cache - apply the toggle there too
         toggleAssetFavorite(generationId, mediaType, mediaIndex);
       }
     },
-    [isOnline, toggleFavoriteAction, addPendingAction, toggleAssetFavorite]
+    [isOnline, toggleFavoriteAction, toggleAssetFavorite]
   );
 
   // Determine which assets to display
@@ -440,33 +241,59 @@ export function useAssets(): UseAssetsReturn {
         sessionId: asset.sessionId || "",
         // Always use the shared favoriteSet for current state (includes optimistic updates)
         isFavorite: isFavorited(asset.generationId, asset.mediaType, asset.index),
-        isPendingDelete: hasPendingAction(
-          "deleteAsset",
-          asset.generationId,
-          asset.mediaType,
-          asset.index
-        ),
+        isPendingDelete: hasPendingDelete(asset.generationId, asset.mediaType, asset.index),
       }));
     }
 
-    // If offline or loading, use cached data
-    return cachedAssets.map((asset) => ({
-      ...asset,
-      sessionId: (asset as any).sessionId || "",
-      isFavorite: asset.isFavorite || false,
-      isPendingDelete: hasPendingAction(
-        "deleteAsset",
-        asset.generationId,
-        asset.mediaType,
-        asset.index
-      ),
-    }));
-  }, [isOnline, serverAssets, cachedAssets, hasPendingAction, isFavorited]);
+    // If offline or loading, use cached data with the same filters applied locally
+    const collectionKeys = collectionId ? getCollectionKeys(collectionId) : null;
+    return cachedAssets
+      .filter(
+        (asset) =>
+          (!mediaType || asset.mediaType === mediaType) &&
+          (!favoritesOnly || asset.isFavorite) &&
+          (!collectionKeys || collectionKeys.has(makeFavoriteKey(asset.generationId, asset.mediaType, asset.index)))
+      )
+      .map((asset) => ({
+        ...asset,
+        sessionId: asset.sessionId ?? "",
+        isFavorite: asset.isFavorite || false,
+        isPendingDelete: hasPendingDelete(asset.generationId, asset.mediaType, asset.index),
+      }));
+  }, [
+    isOnline,
+    serverAssets,
+    cachedAssets,
+    mediaType,
+    favoritesOnly,
+    collectionId,
+    getCollectionKeys,
+    hasPendingDelete,
+    isFavorited,
+  ]);
 
-  // Filter out pending deletes for display
+  // Keep favorites on disk for offline viewing (pinned in the media cache)
+  useEffect(() => {
+    if (!isOnline || !serverAssets || isLoadingFavorites) return;
+
+    const loaded: PinnedMedia[] = displayAssets
+      .filter((asset) => asset.isFavorite)
+      .map((asset) => ({
+        favoriteKey: makeFavoriteKey(asset.generationId, asset.mediaType, asset.index),
+        items: [
+          { url: asset.url, mediaType: asset.mediaType },
+          ...(asset.previewUrl && asset.previewUrl !== asset.url
+            ? [{ url: asset.previewUrl, mediaType: "image" as const }]
+            : []),
+        ],
+      }));
+    updatePinnedMedia(loaded, favoriteSet);
+  }, [isOnline, serverAssets, isLoadingFavorites, displayAssets, favoriteSet]);
+
+  // Filter out pending deletes (and favorites just unfavorited) for display
   const visibleAssets = useMemo(() => {
-    return displayAssets.filter((asset) => !asset.isPendingDelete);
-  }, [displayAssets]);
+    return displayAssets.filter((asset) => !asset.isPendingDelete && (!favoritesOnly || asset.isFavorite));
+  }, [displayAssets, favoritesOnly]);
 
   // Determine favorites to display
   const displayFavorites = useMemo((): CachedFavorite[] => {
@@ -480,79 +307,44 @@ export function useAssets(): UseAssetsReturn {
     return cachedFavorites;
   }, [isOnline, convexFavorites, cachedFavorites]);
 
+  // Totals across all pages; offline they only cover what's cached
+  const counts = useMemo((): AssetCounts => {
+    if (isOnline && serverCounts) return serverCounts;
+    return {
+      images: cachedAssets.filter((asset) => asset.mediaType === "image").length,
+      videos: cachedAssets.filter((asset) => asset.mediaType === "video").length,
+      favorites: cachedAssets.filter((asset) => asset.isFavorite).length,
+    };
+  }, [isOnline, serverCounts, cachedAssets]);
+
   // Loading state
   const isLoading = isOnline 
-    ? sessions === undefined || isLoadingGenerations
+    ? pageStatus === "LoadingFirstPage"
     : false; // Never show loading when offline (use cache)
 
-  // Refresh function (for pull-to-refresh)
+  // Refresh function (for pull-to-refresh) - pages are live queries, so only
+  // queued mutations need a push
   const refreshAssets = useCallback(() => {
     if (isOnline) {
-      // Clear loaded sessions to force refetch
-      loadedSessionsRef.current.clear();
-      setGenerationsCache({});
-      setSessionsLimit(INITIAL_SESSIONS_TO_LOAD);
-      syncPendingActions();
+      syncOutbox();
     }
-  }, [isOnline, syncPendingActions]);
-
-  // Load more sessions (pagination)
-  const loadMore = useCallback(async () => {
-    // Use ref for immediate check to prevent duplicate calls
-    if (!hasMore || isLoadingMoreRef.current || !isOnline) return;
-    
-    isLoadingMoreRef.current = true;
-    setIsLoadingMore(true);
-    
-    // Get the next batch of session IDs
-    const nextSessions = allAssetSessions.slice(sessionsLimit, sessionsLimit + SESSIONS_PER_PAGE);
-    const nextSessionIds = nextSessions
-      .map((s: any) => s._id as string)
-      .filter((id: string) => !loadedSessionsRef.current.has(id));
-    
-    if (nextSessionIds.length > 0) {
-      // Fetch generations for new sessions
-      const results = await Promise.all(
-        nextSessionIds.map(async (sessionId: string) => {
-          try {
-            const generations = await convex.query(
-              api.sessions.getSessionGenerations,
-              { sessionId: sessionId as Id<"sessions"> }
-            );
-            return { sessionId, generations: generations || [] };
-          } catch (error) {
-            console.error(`Failed to fetch generations for session ${sessionId}:`, error);
-            return { sessionId, generations: [] };
-          }
-        })
-      );
-      
-      // Use functional update to avoid stale closure
-      setGenerationsCache((prevCache) => {
-        const newCache = { ...prevCache };
-        results.forEach(({ sessionId, generations }: { sessionId: string; generations: any[] }) => {
-          newCache[sessionId] = generations;
-          loadedSessionsRef.current.add(sessionId);
-        });
-        return newCache;
-      });
-    }
-    
-    // Increase the limit to show more sessions
-    setSessionsLimit((prev) => prev + SESSIONS_PER_PAGE);
-    setIsLoadingMore(false);
-    isLoadingMoreRef.current = false;
-  }, [hasMore, isOnline, allAssetSessions, sessionsLimit, convex]);
+  }, [isOnline]);
+
+  // Load the next page
+  const loadMore = useCallback(() => {
+    if (!isOnline || pageStatus !== "CanLoadMore") return;
+    loadMorePages(PAGE_SIZE);
+  }, [isOnline, pageStatus, loadMorePages]);
 
   return {
     assets: visibleAssets,
     favorites: displayFavorites,
+    counts,
     isLoading,
-    isLoadingMore,
+    isLoadingMore: isOnline && pageStatus === "LoadingMore",
     isOffline: !isOnline,
-    hasPendingActions: pendingActions.length > 0,
-    assetsSessionId: mainAssetsSession?._id || cachedAssetsSessionId,
-    hasMore,
+    hasPendingActions: pendingDeletes.length + pendingToggles.length + pendingCollectionUpdates.length > 0,
+    hasMore: isOnline && pageStatus === "CanLoadMore",
     deleteAsset,
     toggleFavorite: handleToggleFavorite,
     refreshAssets,
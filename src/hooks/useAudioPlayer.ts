@@ -0,0 +1,58 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Audio } from "expo-av";
+
+interface UseAudioPlayerReturn {
+  playingUri: string | null;
+  // Plays uri, or stops it if it's already playing; starting one clip stops the other
+  toggle: (uri: string) => Promise<void>;
+  stop: () => Promise<void>;
+}
+
+/**
+ * Play one audio clip at a time (local file or URL), e.g. to preview voices
+ */
+export function useAudioPlayer(): UseAudioPlayerReturn {
+  const soundRef = useRef<Audio.Sound | null>(null);
+  const [playingUri, setPlayingUri] = useState<string | null>(null);
+
+  const stop = useCallback(async () => {
+    const sound = soundRef.current;
+    soundRef.current = null;
+    setPlayingUri(null);
+    if (sound) {
+      await sound.unloadAsync().catch(() => {});
+    }
+  }, []);
+
+  const toggle = useCallback(
+    async (uri: string) => {
+      const wasPlaying = playingUri === uri;
+      await stop();
+      if (wasPlaying) return;
+
+      try {
+        await Audio.setAudioModeAsync({ allowsRecordingIOS: false, playsInSilentModeIOS: true });
+        const { sound } = await Audio.Sound.createAsync({ uri }, { shouldPlay: true }, (status) => {
+          if (status.isLoaded && status.didJustFinish && soundRef.current === sound) {
+            stop();
+          }
+        });
+        soundRef.current = sound;
+        setPlayingUri(uri);
+      } catch (error) {
+        console.error("[useAudioPlayer] Playback failed:", error);
+        setPlayingUri(null);
+      }
+    },
+    [playingUri, stop]
+  );
+
+  // Release the player when the screen goes away
+  useEffect(() => {
+    return () => {
+      soundRef.current?.unloadAsync().catch(() => {});
+    };
+  }, []);
+
+  return { playingUri, toggle, stop };
+}
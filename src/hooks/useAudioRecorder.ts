@@ -0,0 +1,113 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Audio } from "expo-av";
+import { useAudioPlayer } from "./useAudioPlayer";
+
+// A finished recording or picked clip
+export interface AudioClip {
+  uri: string;
+  durationMs: number;
+}
+
+interface UseAudioRecorderReturn {
+  isRecording: boolean;
+  durationMs: number; // Elapsed while recording
+  clip: AudioClip | null;
+  isPlaying: boolean;
+  // Throws when microphone access is denied
+  start: () => Promise<void>;
+  stop: () => Promise<AudioClip | null>;
+  clear: () => void;
+  togglePlayback: () => Promise<void>;
+}
+
+export class MicrophonePermissionError extends Error {
+  constructor() {
+    super("Allow microphone access to record audio.");
+    this.name = "MicrophonePermissionError";
+  }
+}
+
+/**
+ * Record a voice clip with the microphone and play it back
+ * Recording stops by itself after maxDurationMs.
+ */
+export function useAudioRecorder(maxDurationMs: number): UseAudioRecorderReturn {
+  const recordingRef = useRef<Audio.Recording | null>(null);
+  const [isRecording, setIsRecording] = useState(false);
+  const [durationMs, setDurationMs] = useState(0);
+  const [clip, setClip] = useState<AudioClip | null>(null);
+  const player = useAudioPlayer();
+  const stopPlayback = player.stop;
+
+  const stop = useCallback(async (): Promise<AudioClip | null> => {
+    const recording = recordingRef.current;
+    if (!recording) return null;
+    recordingRef.current = null;
+    setIsRecording(false);
+
+    try {
+      await recording.stopAndUnloadAsync();
+    } catch {
+      // Already stopped (e.g. hit the max duration)
+    }
+    await Audio.setAudioModeAsync({ allowsRecordingIOS: false }).catch(() => {});
+
+    const uri = recording.getURI();
+    if (!uri) return null;
+    const status = await recording.getStatusAsync().catch(() => null);
+    const recorded: AudioClip = { uri, durationMs: status?.durationMillis ?? 0 };
+    setClip(recorded);
+    return recorded;
+  }, []);
+
+  const start = useCallback(async () => {
+    if (recordingRef.current) return;
+
+    const permission = await Audio.requestPermissionsAsync();
+    if (!permission.granted) {
+      throw new MicrophonePermissionError();
+    }
+
+    await stopPlayback();
+    setClip(null);
+    setDurationMs(0);
+    await Audio.setAudioModeAsync({ allowsRecordingIOS: true, playsInSilentModeIOS: true });
+
+    const { recording } = await Audio.Recording.createAsync(
+      Audio.RecordingOptionsPresets.HIGH_QUALITY,
+      (status) => {
+        if (!status.isRecording) return;
+        setDurationMs(status.durationMillis);
+        if (status.durationMillis >= maxDurationMs) {
+          stop();
+        }
+      },
+      250
+    );
+    recordingRef.current = recording;
+    setIsRecording(true);
+  }, [maxDurationMs, stop, stopPlayback]);
+
+  const clear = useCallback(() => {
+    stopPlayback();
+    setClip(null);
+    setDurationMs(0);
+  }, [stopPlayback]);
+
+  const togglePlayback = useCallback(async () => {
+    if (clip) {
+      await player.toggle(clip.uri);
+    }
+  }, [clip, player]);
+
+  // Release the microphone when the screen goes away
+  useEffect(() => {
+    return () => {
+      recordingRef.current?.stopAndUnloadAsync().catch(() => {});
+    };
+  }, []);
+
+  const isPlaying = !!clip && player.playingUri === clip.uri;
+
+  return { isRecording, durationMs, clip, isPlaying, start, stop, clear, togglePlayback };
+}
@@ -0,0 +1,137 @@
+/**
+ * Cloned Voices Hook
+ * The user's voice library: clone a voice from a sample, rename and delete voices.
+ *
+ * Cloning goes through the web API, which creates the Cartesia voice, saves the
+ * clonedVoices row (with its linked session generation) and keeps localizing it into
+ * the other languages in the background - pendingLanguages shrinks as they finish.
+ *
+ * Web endpoint:
+ * - POST /api/mobile/clone-voice { audioUrl, name, gender } => { success, voiceId, error? }
+ */
+
+import { useCallback, useMemo } from "react";
+import { useQuery, useMutation } from "convex/react";
+import { useAuth } from "@clerk/clerk-expo";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import { apiRequest } from "../lib/api";
+import { createUploadTask, runUploadTask, UploadKind } from "../lib/uploads";
+import { useNetworkStatus } from "../lib/network";
+import { VoiceGender, VoiceLanguage, VOICE_LANGUAGES, getVoiceLanguageStatus } from "../config/voices";
+
+// A voice the user cloned (clonedVoices table)
+export interface ClonedVoice {
+  _id: string;
+  name: string;
+  gender: VoiceGender;
+  audioUrl: string; // Original sample, used for previews
+  cartesiaVoiceId: string;
+  localizedVoices: Partial<Record<VoiceLanguage, string>>; // Cartesia voice ID per language
+  pendingLanguages?: string[]; // Still being localized
+  sessionId?: string;
+  generationId?: string;
+  createdAt: number;
+}
+
+export interface CloneVoiceInput {
+  sample: { uri: string; kind: Extract<UploadKind, "audio" | "video"> }; // A video's soundtrack is used as-is
+  name: string;
+  gender: VoiceGender;
+}
+
+interface UseClonedVoicesReturn {
+  // Newest first
+  voices: ClonedVoice[];
+  isLoading: boolean;
+  // Need a connection; they throw when offline
+  cloneVoice: (input: CloneVoiceInput, onUploadProgress?: (progress: number) => void) => Promise<string>;
+  renameVoice: (voiceId: string, name: string) => Promise<void>;
+  // Also deletes the voice's session generation
+  deleteVoice: (voiceId: string) => Promise<void>;
+}
+
+export class VoicesOfflineError extends Error {
+  constructor() {
+    super("Connect to the internet to manage voices.");
+    this.name = "VoicesOfflineError";
+  }
+}
+
+// Localized languages out of all supported ones
+export function getLocalizationProgress(voice: ClonedVoice): { ready: number; pending: number; total: number } {
+  const statuses = VOICE_LANGUAGES.map(({ code }) => getVoiceLanguageStatus(voice, code));
+  return {
+    ready: statuses.filter((status) => status === "ready").length,
+    pending: statuses.filter((status) => status === "pending").length,
+    total: VOICE_LANGUAGES.length,
+  };
+}
+
+export function useClonedVoices(): UseClonedVoicesReturn {
+  const { getToken } = useAuth();
+  const { isConnected, isInternetReachable } = useNetworkStatus();
+  const isOnline = isConnected && isInternetReachable !== false;
+
+  // Live - localization progress streams in as languages finish
+  const convexVoices = useQuery(api.clonedVoices.getUserVoices, isOnline ? {} : "skip");
+  const renameVoiceMutation = useMutation(api.clonedVoices.renameVoice);
+  const deleteVoiceMutation = useMutation(api.clonedVoices.deleteVoice);
+
+  const voices = useMemo(
+    () => ((convexVoices ?? []) as ClonedVoice[]).slice().sort((a, b) => b.createdAt - a.createdAt),
+    [convexVoices]
+  );
+
+  const cloneVoice = useCallback(
+    async (input: CloneVoiceInput, onUploadProgress?: (progress: number) => void): Promise<string> => {
+      if (!isOnline) throw new VoicesOfflineError();
+
+      const upload = await runUploadTask(createUploadTask(input.sample.uri, input.sample.kind), {
+        getToken,
+        onUpdate: (task) => onUploadProgress?.(task.progress),
+      });
+      if (upload.status !== "completed" || !upload.result) {
+        throw new Error(upload.error || "Failed to upload sample");
+      }
+
+      const response = await apiRequest<{ success: boolean; voiceId?: string; error?: string }>(
+        "/api/mobile/clone-voice",
+        {
+          method: "POST",
+          body: { audioUrl: upload.result.url, name: input.name.trim(), gender: input.gender },
+          getToken,
+        }
+      );
+      if (!response.success || !response.voiceId) {
+        throw new Error(response.error || "Failed to clone voice");
+      }
+      return response.voiceId;
+    },
+    [isOnline, getToken]
+  );
+
+  const renameVoice = useCallback(
+    async (voiceId: string, name: string): Promise<void> => {
+      if (!isOnline) throw new VoicesOfflineError();
+      await renameVoiceMutation({ voiceId: voiceId as Id<"clonedVoices">, name: name.trim() });
+    },
+    [isOnline, renameVoiceMutation]
+  );
+
+  const deleteVoice = useCallback(
+    async (voiceId: string): Promise<void> => {
+      if (!isOnline) throw new VoicesOfflineError();
+      await deleteVoiceMutation({ voiceId: voiceId as Id<"clonedVoices"> });
+    },
+    [isOnline, deleteVoiceMutation]
+  );
+
+  return {
+    voices,
+    isLoading: isOnline && convexVoices === undefined,
+    cloneVoice,
+    renameVoice,
+    deleteVoice,
+  };
+}
@@ -0,0 +1,226 @@
+import { useCallback, useEffect, useMemo } from "react";
+import { useQuery, useMutation } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import useAssetsCacheStore, { CachedCollection, CachedCollectionItem } from "../state/assetsCacheStore";
+import useOutboxStore from "../state/outboxStore";
+import {
+  enqueueMutation,
+  discardOutboxEntry,
+  useOutboxEntries,
+  useOutboxHandler,
+  OutboxAlreadyAppliedError,
+} from "../lib/outbox";
+import { useNetworkStatus } from "../lib/network";
+import { makeFavoriteKey } from "./useFavorites";
+
+type MediaType = "image" | "video";
+
+export interface CollectionMediaItem {
+  generationId: string;
+  mediaType: MediaType;
+  mediaIndex: number;
+}
+
+export interface Collection extends CachedCollection {
+  itemCount: number;
+}
+
+interface UseCollectionsReturn {
+  // Newest activity first
+  collections: Collection[];
+  isLoading: boolean;
+  // Media keys (makeFavoriteKey) in a collection, queued changes included
+  getCollectionKeys: (collectionId: string) => Set<string>;
+  // Collections a media item belongs to
+  getCollectionIds: (generationId: string, mediaType: MediaType, index: number) => string[];
+  // Need a connection; they throw when offline
+  createCollection: (name: string) => Promise<string>;
+  renameCollection: (collectionId: string, name: string) => Promise<void>;
+  deleteCollection: (collectionId: string) => Promise<void>;
+  // Shown at once and queued through the outbox
+  addToCollection: (collectionId: string, items: CollectionMediaItem[]) => void;
+  removeFromCollection: (collectionId: string, items: CollectionMediaItem[]) => void;
+}
+
+export class CollectionsOfflineError extends Error {
+  constructor() {
+    super("Connect to the internet to manage collections.");
+    this.name = "CollectionsOfflineError";
+  }
+}
+
+const getCollectionOrderKey = (collectionId: string) => `collection:${collectionId}`;
+
+export function useCollections(): UseCollectionsReturn {
+  const { isConnected, isInternetReachable } = useNetworkStatus();
+  const isOnline = isConnected && isInternetReachable !== false;
+
+  // Server data
+  const convexCollections = useQuery(api.sessions.listCollections, isOnline ? {} : "skip");
+  const convexItems = useQuery(api.sessions.listCollectionItems, isOnline ? {} : "skip");
+  const createCollectionMutation = useMutation(api.sessions.createCollection);
+  const renameCollectionMutation = useMutation(api.sessions.renameCollection);
+  const deleteCollectionMutation = useMutation(api.sessions.deleteCollection);
+  const updateCollectionItemsMutation = useMutation(api.sessions.updateCollectionItems);
+
+  // Cached copy for offline use
+  const cachedCollections = useAssetsCacheStore((state) => state.collections);
+  const cachedItems = useAssetsCacheStore((state) => state.collectionItems);
+  const setCollections = useAssetsCacheStore((state) => state.setCollections);
+
+  // Membership changes not on the server yet
+  const queuedUpdates = useOutboxEntries("updateCollection");
+
+  useOutboxHandler("updateCollection", async (payload) => {
+    try {
+      await updateCollectionItemsMutation({
+        collectionId: payload.collectionId as Id<"collections">,
+        action: payload.action,
+        items: payload.items.map((item) => ({
+          ...item,
+          generationId: item.generationId as Id<"sessionGenerations">,
+        })),
+      });
+    } catch (error) {
+      // The collection was deleted (e.g. on another device) - nothing left to apply
+      const message = error instanceof Error ? error.message : "";
+      if (message.includes("not found") || message.includes("Not found")) {
+        throw new OutboxAlreadyAppliedError(message);
+      }
+      throw error;
+    }
+  });
+
+  const serverCollections = useMemo((): CachedCollection[] | undefined => {
+    if (!convexCollections) return undefined;
+    return convexCollections.map((c: any) => ({
+      id: c._id as string,
+      name: c.name as string,
+      coverUrl: c.coverUrl as string | undefined,
+      createdAt: c.createdAt as number,
+      updatedAt: c.updatedAt as number,
+    }));
+  }, [convexCollections]);
+
+  const serverItems = convexItems as CachedCollectionItem[] | undefined;
+
+  // Update cache when server data changes
+  useEffect(() => {
+    if (isOnline && serverCollections && serverItems) {
+      setCollections(serverCollections, serverItems);
+    }
+  }, [isOnline, serverCollections, serverItems, setCollections]);
+
+  const baseCollections = (isOnline ? serverCollections : undefined) ?? cachedCollections;
+  const baseItems = (isOnline ? serverItems : undefined) ?? cachedItems;
+
+  // Collection id -> media keys, with queued changes applied in the order they were made
+  const membership = useMemo(() => {
+    const map = new Map<string, Set<string>>();
+    const keysFor = (collectionId: string) => {
+      let keys = map.get(collectionId);
+      if (!keys) {
+        keys = new Set();
+        map.set(collectionId, keys);
+      }
+      return keys;
+    };
+
+    for (const item of baseItems) {
+      keysFor(item.collectionId).add(makeFavoriteKey(item.generationId, item.mediaType, item.mediaIndex));
+    }
+
+    // Poisoned entries never applied
+    for (const entry of queuedUpdates) {
+      if (entry.status === "poisoned") continue;
+      const keys = keysFor(entry.payload.collectionId);
+      for (const item of entry.payload.items) {
+        const key = makeFavoriteKey(item.generationId, item.mediaType, item.mediaIndex);
+        if (entry.payload.action === "add") {
+          keys.add(key);
+        } else {
+          keys.delete(key);
+        }
+      }
+    }
+
+    return map;
+  }, [baseItems, queuedUpdates]);
+
+  const collections = useMemo(
+    (): Collection[] =>
+      baseCollections
+        .map((collection) => ({ ...collection, itemCount: membership.get(collection.id)?.size ?? 0 }))
+        .sort((a, b) => b.updatedAt - a.updatedAt),
+    [baseCollections, membership]
+  );
+
+  const getCollectionKeys = useCallback(
+    (collectionId: string) => membership.get(collectionId) ?? new Set<string>(),
+    [membership]
+  );
+
+  const getCollectionIds = useCallback(
+    (generationId: string, mediaType: MediaType, index: number) => {
+      const key = makeFavoriteKey(generationId, mediaType, index);
+      return collections.filter((collection) => membership.get(collection.id)?.has(key)).map((c) => c.id);
+    },
+    [collections, membership]
+  );
+
+  const createCollection = useCallback(
+    async (name: string): Promise<string> => {
+      if (!isOnline) throw new CollectionsOfflineError();
+      const collectionId = await createCollectionMutation({ name: name.trim() });
+      return collectionId as string;
+    },
+    [isOnline, createCollectionMutation]
+  );
+
+  const renameCollection = useCallback(
+    async (collectionId: string, name: string): Promise<void> => {
+      if (!isOnline) throw new CollectionsOfflineError();
+      await renameCollectionMutation({ collectionId: collectionId as Id<"collections">, name: name.trim() });
+    },
+    [isOnline, renameCollectionMutation]
+  );
+
+  const deleteCollection = useCallback(
+    async (collectionId: string): Promise<void> => {
+      if (!isOnline) throw new CollectionsOfflineError();
+      await deleteCollectionMutation({ collectionId: collectionId as Id<"collections"> });
+      // Queued changes to a deleted collection could only fail - kept until the delete has landed
+      for (const entry of useOutboxStore.getState().entries) {
+        if (entry.orderKey === getCollectionOrderKey(collectionId)) {
+          discardOutboxEntry(entry.id);
+        }
+      }
+    },
+    [isOnline, deleteCollectionMutation]
+  );
+
+  const addToCollection = useCallback((collectionId: string, items: CollectionMediaItem[]) => {
+    if (items.length === 0) return;
+    enqueueMutation("updateCollection", { collectionId, action: "add", items }, getCollectionOrderKey(collectionId));
+  }, []);
+
+  const removeFromCollection = useCallback((collectionId: string, items: CollectionMediaItem[]) => {
+    if (items.length === 0) return;
+    enqueueMutation("updateCollection", { collectionId, action: "remove", items }, getCollectionOrderKey(collectionId));
+  }, []);
+
+  return {
+    collections,
+    isLoading: isOnline && (convexCollections === undefined || convexItems === undefined),
+    getCollectionKeys,
+    getCollectionIds,
+    createCollection,
+    renameCollection,
+    deleteCollection,
+    addToCollection,
+    removeFromCollection,
+  };
+}
+
+export default useCollections;
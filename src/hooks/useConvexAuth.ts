@@ -1,24 +1,19 @@
 import { useCallback } from "react";
 import { useAuth as useClerkAuth, useUser } from "@clerk/clerk-expo";
-import useGenerationsCacheStore from "../state/generationsCache";
-import useOfflineQueueStore from "../state/offlineQueueStore";
 
 export function useConvexAuth() {
   const { isSignedIn, signOut: clerkSignOut, getToken } = useClerkAuth();
   const { user } = useUser();
-  const { clearCache } = useGenerationsCacheStore();
-  const { clearAllForUser } = useOfflineQueueStore();
 
   const signOut = useCallback(async () => {
     try {
-      clearCache();
-      clearAllForUser();
+      // Cached data and unsynced changes stay on the device under this user (see lib/userStorage)
       await clerkSignOut();
     } catch (error) {
       console.error("Error signing out:", error);
       throw error;
     }
-  }, [clerkSignOut, clearCache, clearAllForUser]);
+  }, [clerkSignOut]);
 
   const getConvexToken = useCallback(async () => {
     if (!isSignedIn) return null;
@@ -1,8 +1,15 @@
 import { useCallback, useMemo } from "react";
-import { create } from "zustand";
 import { useQuery, useMutation } from "convex/react";
 import { api } from "../../convex/_generated/api";
 import { Id } from "../../convex/_generated/dataModel";
+import useOutboxStore from "../state/outboxStore";
+import {
+  discardOutboxEntry,
+  enqueueMutation,
+  getMediaOrderKey,
+  useOutboxEntries,
+  useOutboxHandler,
+} from "../lib/outbox";
 
 type MediaType = "image" | "video";
 
@@ -27,48 +34,12 @@ export const parseFavoriteKey = (
   return { generationId, mediaType: mediaType as MediaType, index };
 };
 
-// Optimistic store for instant UI updates
-interface FavoritesOptimisticState {
-  // Map of key -> optimistic override (true = favorited, false = unfavorited)
-  overrides: Record<string, boolean>;
-  // Version number that increments on each change to trigger re-renders
-  version: number;
-  
-  // Actions
-  setOptimisticOverride: (key: string, isFavorite: boolean) => void;
-  clearOptimisticOverride: (key: string) => void;
-  clearAllOverrides: () => void;
-}
-
-export const useFavoritesOptimisticStore = create<FavoritesOptimisticState>()(
-  (set) => ({
-    overrides: {},
-    version: 0,
-    
-    setOptimisticOverride: (key, isFavorite) =>
-      set((state) => ({
-        overrides: { ...state.overrides, [key]: isFavorite },
-        version: state.version + 1,
-      })),
-    
-    clearOptimisticOverride: (key) =>
-      set((state) => {
-        const newOverrides = { ...state.overrides };
-        delete newOverrides[key];
-        return { overrides: newOverrides, version: state.version + 1 };
-      }),
-    
-    clearAllOverrides: () =>
-      set({ overrides: {}, version: 0 }),
-  })
-);
-
 interface UseFavoritesReturn {
   // Set of favorite keys for quick lookup
   favoriteSet: Set<string>;
   // Check if a specific item is favorited
   isFavorited: (generationId: string, mediaType: MediaType, index: number) => boolean;
-  // Toggle favorite with optimistic update
+  // Toggle favorite; shown at once and queued through the outbox
   toggleFavorite: (generationId: string, mediaType: MediaType, index: number) => Promise<void>;
   // Raw favorites data from server
   favorites: Array<{ generationId: string; mediaType: MediaType; mediaIndex: number }>;
@@ -80,15 +51,22 @@ export function useFavorites(): UseFavoritesReturn {
   // Server data
   const convexFavorites = useQuery(api.sessions.listFavorites);
   const toggleFavoriteMutation = useMutation(api.sessions.toggleFavorite);
-  
-  // Optimistic store
-  const { overrides, version, setOptimisticOverride, clearOptimisticOverride } =
-    useFavoritesOptimisticStore();
-  
-  // Build the favorite set with optimistic overrides applied
+
+  // Toggles not on the server yet
+  const queuedToggles = useOutboxEntries("toggleFavorite");
+
+  useOutboxHandler("toggleFavorite", async (payload) => {
+    await toggleFavoriteMutation({
+      generationId: payload.generationId as Id<"sessionGenerations">,
+      mediaType: payload.mediaType,
+      mediaIndex: payload.mediaIndex,
+    });
+  });
+
+  // Build the favorite set with queued toggles applied
   const favoriteSet = useMemo(() => {
     const set = new Set<string>();
-    
+
     // First, add all server favorites
     if (convexFavorites) {
       for (const f of convexFavorites) {
@@ -96,19 +74,21 @@ export function useFavorites(): UseFavoritesReturn {
         set.add(key);
       }
     }
-    
-    // Then apply optimistic overrides
-    for (const [key, isFavorite] of Object.entries(overrides)) {
-      if (isFavorite) {
-        set.add(key);
-      } else {
+
+    // Then flip each queued toggle in the order it was made (poisoned ones never applied)
+    for (const entry of queuedToggles) {
+      if (entry.status === "poisoned") continue;
+      const key = makeFavoriteKey(entry.payload.generationId, entry.payload.mediaType, entry.payload.mediaIndex);
+      if (set.has(key)) {
         set.delete(key);
+      } else {
+        set.add(key);
       }
     }
-    
+
     return set;
-  }, [convexFavorites, overrides, version]);
-  
+  }, [convexFavorites, queuedToggles]);
+
   // Check if a specific item is favorited
   const isFavorited = useCallback(
     (generationId: string, mediaType: MediaType, index: number): boolean => {
@@ -117,37 +97,26 @@ export function useFavorites(): UseFavoritesReturn {
     },
     [favoriteSet]
   );
-  
-  // Toggle favorite with optimistic update
+
+  // Toggle favorite; tapping again before the first toggle was sent just cancels it
   const toggleFavorite = useCallback(
     async (generationId: string, mediaType: MediaType, index: number): Promise<void> => {
-      const key = makeFavoriteKey(generationId, mediaType, index);
-      const currentlyFavorited = favoriteSet.has(key);
-      const newValue = !currentlyFavorited;
-      
-      // Optimistically update UI immediately
-      setOptimisticOverride(key, newValue);
-      
-      try {
-        // Call the mutation
-        await toggleFavoriteMutation({
-          generationId: generationId as Id<"sessionGenerations">,
-          mediaType,
-          mediaIndex: index,
-        });
-        
-        // On success, clear the override (server state will be correct)
-        clearOptimisticOverride(key);
-      } catch (error) {
-        console.error("Failed to toggle favorite:", error);
-        // On error, revert the optimistic update
-        clearOptimisticOverride(key);
-        throw error;
+      const orderKey = getMediaOrderKey(generationId, mediaType, index);
+      const lastToggle = useOutboxStore
+        .getState()
+        .entries.filter((entry) => entry.kind === "toggleFavorite" && entry.orderKey === orderKey)
+        .pop();
+
+      if (lastToggle?.status === "pending") {
+        discardOutboxEntry(lastToggle.id);
+        return;
       }
+
+      enqueueMutation("toggleFavorite", { generationId, mediaType, mediaIndex: index }, orderKey);
     },
-    [favoriteSet, toggleFavoriteMutation, setOptimisticOverride, clearOptimisticOverride]
+    []
   );
-  
+
   // Normalize favorites for return
   const favorites = useMemo(() => {
     if (!convexFavorites) return [];
@@ -157,7 +126,7 @@ export function useFavorites(): UseFavoritesReturn {
       mediaIndex: f.mediaIndex as number,
     }));
   }, [convexFavorites]);
-  
+
   return {
     favoriteSet,
     isFavorited,
@@ -0,0 +1,191 @@
+/**
+ * Generation search
+ * Finds past generations by prompt, model, aspect ratio, type and date.
+ * - Online: sessions.searchGenerations (Convex search index over prompts).
+ * - Offline: the same filters over the cached Assets list, grouped back into
+ *   generations. Only what the Assets grid last loaded can be found this way.
+ */
+
+import { useEffect, useMemo, useState } from "react";
+import { useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import useAssetsCacheStore, { CachedAssetItem } from "../state/assetsCacheStore";
+import { useNetworkStatus } from "../lib/network";
+
+const QUERY_DEBOUNCE_MS = 300;
+const MAX_RESULTS = 50;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type SearchGenerationType = "image" | "video" | "edit";
+export type SearchDateRange = "any" | "week" | "month" | "year";
+
+export const SEARCH_DATE_RANGES: { id: SearchDateRange; label: string; days?: number }[] = [
+  { id: "any", label: "Any time" },
+  { id: "week", label: "Past week", days: 7 },
+  { id: "month", label: "Past month", days: 30 },
+  { id: "year", label: "Past year", days: 365 },
+];
+
+export interface GenerationSearchFilters {
+  query: string;
+  type?: SearchGenerationType;
+  modelLabel?: string;
+  aspectRatio?: string;
+  dateRange: SearchDateRange;
+}
+
+export const EMPTY_SEARCH_FILTERS: GenerationSearchFilters = { query: "", dateRange: "any" };
+
+// Row returned by sessions.searchGenerations
+export interface GenerationSearchResult {
+  generationId: string;
+  sessionId: string;
+  sessionTitle?: string; // Not known offline
+  type: SearchGenerationType;
+  prompt: string;
+  modelLabel?: string;
+  aspectRatio?: string;
+  thumbnailUrl?: string;
+  createdAt: number;
+}
+
+export interface GenerationSearchFacets {
+  modelLabels: string[];
+  aspectRatios: string[];
+}
+
+interface UseGenerationSearchReturn {
+  results: GenerationSearchResult[];
+  facets: GenerationSearchFacets;
+  // True when there is a query or a filter to search with
+  isActive: boolean;
+  isSearching: boolean;
+  isOffline: boolean;
+}
+
+export function hasSearchCriteria(filters: GenerationSearchFilters): boolean {
+  return (
+    filters.query.trim() !== "" ||
+    !!filters.type ||
+    !!filters.modelLabel ||
+    !!filters.aspectRatio ||
+    filters.dateRange !== "any"
+  );
+}
+
+function getDateRangeStart(dateRange: SearchDateRange): number | undefined {
+  const days = SEARCH_DATE_RANGES.find((range) => range.id === dateRange)?.days;
+  return days ? Date.now() - days * DAY_MS : undefined;
+}
+
+function getCachedAssetType(asset: CachedAssetItem): SearchGenerationType {
+  if (asset.mediaType === "video") return "video";
+  return asset.isEnhanced ? "edit" : "image";
+}
+
+// Every word has to appear somewhere in the prompt, model or aspect ratio
+function matchesQuery(asset: CachedAssetItem, words: string[]): boolean {
+  const haystack = [asset.prompt, asset.modelLabel, asset.aspectRatio].join(" ").toLowerCase();
+  return words.every((word) => haystack.includes(word));
+}
+
+// Offline fallback: search the cached Assets list, one result per generation
+function searchCachedAssets(
+  assets: CachedAssetItem[],
+  filters: GenerationSearchFilters,
+  from: number | undefined
+): GenerationSearchResult[] {
+  const words = filters.query.toLowerCase().split(/\s+/).filter(Boolean);
+  const byGeneration = new Map<string, GenerationSearchResult>();
+
+  for (const asset of assets) {
+    if (!asset.sessionId || byGeneration.has(asset.generationId)) continue;
+    const type = getCachedAssetType(asset);
+    if (filters.type && type !== filters.type) continue;
+    if (filters.modelLabel && asset.modelLabel !== filters.modelLabel) continue;
+    if (filters.aspectRatio && asset.aspectRatio !== filters.aspectRatio) continue;
+    if (from && (!asset.createdAt || asset.createdAt < from)) continue;
+    if (!matchesQuery(asset, words)) continue;
+
+    byGeneration.set(asset.generationId, {
+      generationId: asset.generationId,
+      sessionId: asset.sessionId,
+      type,
+      prompt: asset.prompt ?? "",
+      modelLabel: asset.modelLabel,
+      aspectRatio: asset.aspectRatio,
+      thumbnailUrl: asset.previewUrl || (asset.mediaType === "image" ? asset.url : undefined),
+      createdAt: asset.createdAt ?? 0,
+    });
+  }
+
+  return [...byGeneration.values()].sort((a, b) => b.createdAt - a.createdAt).slice(0, MAX_RESULTS);
+}
+
+function collectFacets(assets: CachedAssetItem[]): GenerationSearchFacets {
+  const modelLabels = new Set<string>();
+  const aspectRatios = new Set<string>();
+  for (const asset of assets) {
+    if (asset.modelLabel) modelLabels.add(asset.modelLabel);
+    if (asset.aspectRatio) aspectRatios.add(asset.aspectRatio);
+  }
+  return { modelLabels: [...modelLabels].sort(), aspectRatios: [...aspectRatios].sort() };
+}
+
+export function useGenerationSearch(filters: GenerationSearchFilters): UseGenerationSearchReturn {
+  const { isConnected, isInternetReachable } = useNetworkStatus();
+  const isOnline = isConnected && isInternetReachable !== false;
+  const isActive = hasSearchCriteria(filters);
+
+  // Only search once typing pauses
+  const [debouncedQuery, setDebouncedQuery] = useState(filters.query.trim());
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedQuery(filters.query.trim()), QUERY_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [filters.query]);
+
+  // Fixed when the range is picked so the query args don't change every render
+  const from = useMemo(() => getDateRangeStart(filters.dateRange), [filters.dateRange]);
+
+  const serverResults: GenerationSearchResult[] | undefined = useQuery(
+    api.sessions.searchGenerations,
+    isOnline && isActive
+      ? {
+          query: debouncedQuery,
+          type: filters.type,
+          modelLabel: filters.modelLabel,
+          aspectRatio: filters.aspectRatio,
+          from,
+        }
+      : "skip"
+  );
+  const serverFacets: GenerationSearchFacets | undefined = useQuery(
+    api.sessions.getGenerationSearchFacets,
+    isOnline ? {} : "skip"
+  );
+
+  const cachedAssets = useAssetsCacheStore((state) => state.assets);
+
+  const localResults = useMemo(() => {
+    if (isOnline || !isActive) return [];
+    return searchCachedAssets(cachedAssets, { ...filters, query: debouncedQuery }, from);
+  }, [isOnline, isActive, cachedAssets, filters, debouncedQuery, from]);
+
+  const facets = useMemo(
+    () => (isOnline ? serverFacets : undefined) ?? collectFacets(cachedAssets),
+    [isOnline, serverFacets, cachedAssets]
+  );
+
+  const isDebouncing = debouncedQuery !== filters.query.trim();
+  const results = isOnline ? serverResults ?? [] : localResults;
+
+  return {
+    results: isActive ? results : [],
+    facets,
+    isActive,
+    isSearching: isActive && (isDebouncing || (isOnline && serverResults === undefined)),
+    isOffline: !isOnline,
+  };
+}
+
+export default useGenerationSearch;
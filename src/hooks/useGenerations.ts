@@ -1,89 +1,192 @@
-import { useCallback } from "react";
-import { useQuery, useMutation } from "convex/react";
+/**
+ * Generations Hook (offline-first)
+ * Wraps the image generation engine with the mutation outbox: prompts created while
+ * offline are queued as "createGeneration" entries and shown as queued cards, then
+ * replayed through the same slot → credit reserve → generate pipeline
+ * (useImageGeneration) once the device reconnects. The replay handler lives in
+ * useGenerationReplay, mounted by the signed-in navigator, so it runs whichever screen
+ * is open. The user's generations list comes from Convex and is cached in
+ * generationsCache for offline reads.
+ */
+
+import { useCallback, useEffect, useMemo } from "react";
+import { useQuery } from "convex/react";
+import { useAuth } from "@clerk/clerk-expo";
+import { api } from "../../convex/_generated/api";
 import { useNetworkStatus } from "../lib/network";
-import useOfflineQueueStore from "../state/offlineQueueStore";
-import useGenerationsCacheStore from "../state/generationsCache";
+import {
+  discardOutboxEntry,
+  enqueueMutation,
+  retryOutboxEntry,
+  syncOutbox,
+  useOutboxEntries,
+  useOutboxHandler,
+} from "../lib/outbox";
+import { OutboxEntry } from "../state/outboxStore";
+import useGenerationsCacheStore, { CachedGeneration } from "../state/generationsCache";
+import { useImageGeneration, GenerationRequest, GenerationResult } from "./useImageGeneration";
+import { AspectRatio, DEFAULT_SETTINGS, ImageModelId, Quality, Resolution } from "../config/imageModels";
+
+export interface CreateGenerationParams {
+  prompt: string;
+  model?: ImageModelId;
+  aspectRatio?: AspectRatio;
+  numImages?: number;
+  resolution?: Resolution;
+  quality?: Quality;
+  attachmentImages?: { url: string }[]; // Must already be uploaded
+  sessionId?: string;
+  onSessionId?: (sessionId: string) => void;
+  idempotencyKey?: string;
+}
 
-// Placeholder import - replace with actual generated API
-// import { api } from "../../convex/_generated/api";
+export type CreateGenerationResult = (GenerationResult & { offline?: false }) | { localId: string; offline: true };
 
-interface CreateGenerationParams {
+// Convex `generations` row (the per-user generation slot log)
+interface GenerationDoc {
+  _id: string;
+  type: string;
   prompt: string;
-  style?: string;
-  aspectRatio?: string;
-  model?: string;
+  imageUrl?: string;
+  videoUrl?: string;
+  status: "pending" | "generating" | "completed" | "failed";
+  modelId?: string;
+  createdAt: number;
+  completedAt?: number;
 }
 
-export function useGenerations() {
-  const { isConnected } = useNetworkStatus();
-  const { addPendingGeneration, pendingGenerations } = useOfflineQueueStore();
-  const { generations: cachedGenerations, setGenerations } =
-    useGenerationsCacheStore();
-
-  // TODO: Uncomment when Convex API is available
-  // const generations = useQuery(api.generations.listForUser);
-  // const createMutation = useMutation(api.generations.create);
-
-  // Placeholder for demo - remove when Convex is connected
-  const generations: any[] | undefined = undefined;
-  const createMutation = async (_params: CreateGenerationParams) => {
-    throw new Error("Convex not connected yet");
+const STATUS_MAP: Record<GenerationDoc["status"], CachedGeneration["status"]> = {
+  pending: "queued",
+  generating: "running",
+  completed: "completed",
+  failed: "failed",
+};
+
+function toCachedGeneration(doc: GenerationDoc): CachedGeneration {
+  return {
+    id: doc._id,
+    prompt: doc.prompt,
+    imageUrl: doc.imageUrl,
+    status: STATUS_MAP[doc.status] ?? "queued",
+    model: doc.modelId,
+    createdAt: doc.createdAt,
+    updatedAt: doc.completedAt ?? doc.createdAt,
   };
+}
+
+function toGenerationRequest(params: CreateGenerationParams): GenerationRequest {
+  return {
+    prompt: params.prompt,
+    modelId: params.model ?? DEFAULT_SETTINGS.modelId,
+    aspectRatio: params.aspectRatio ?? DEFAULT_SETTINGS.aspectRatio,
+    numImages: params.numImages ?? DEFAULT_SETTINGS.numImages,
+    attachmentImages: params.attachmentImages,
+    resolution: params.resolution,
+    quality: params.quality,
+    sessionId: params.sessionId,
+    onSessionId: params.onSessionId,
+    idempotencyKey: params.idempotencyKey,
+  };
+}
+
+function fromOutboxEntry(entry: OutboxEntry<"createGeneration">): GenerationRequest {
+  const queued = entry.payload;
+  return toGenerationRequest({
+    prompt: queued.prompt,
+    model: queued.model as ImageModelId | undefined,
+    aspectRatio: queued.aspectRatio as AspectRatio | undefined,
+    numImages: queued.numImages,
+    resolution: queued.resolution as Resolution | undefined,
+    quality: queued.quality as Quality | undefined,
+    attachmentImages: queued.attachmentImages,
+    sessionId: queued.sessionId,
+    idempotencyKey: entry.idempotencyKey,
+  });
+}
+
+/**
+ * Replay queued prompts through the normal pipeline on reconnect. Mount once inside the
+ * signed-in navigator, next to useOutboxSync.
+ */
+export function useGenerationReplay() {
+  const { generate } = useImageGeneration();
+
+  useOutboxHandler("createGeneration", async (_payload, entry) => {
+    const result = await generate(fromOutboxEntry(entry));
+    if (!result.success) {
+      // Rethrow the ApiError itself so a permanent 4xx is poisoned right away and a 409 counts as applied
+      throw result.apiError ?? new Error(result.error || "Generation failed");
+    }
+  });
+}
+
+export function useGenerations() {
+  const { isSignedIn } = useAuth();
+  const { isConnected, isInternetReachable } = useNetworkStatus();
+  const isOnline = isConnected && isInternetReachable !== false;
+  const queuedGenerations = useOutboxEntries("createGeneration");
+  const { generations: cachedGenerations, setGenerations } = useGenerationsCacheStore();
+
+  const engine = useImageGeneration();
+  const { generate } = engine;
+
+  const generations: GenerationDoc[] | undefined = useQuery(
+    api.generations.listForUser,
+    isSignedIn && isOnline ? {} : "skip"
+  );
+
+  // Cache generations when online
+  useEffect(() => {
+    if (generations && isOnline) {
+      setGenerations(generations.map(toCachedGeneration));
+    }
+  }, [generations, isOnline, setGenerations]);
 
   const createGeneration = useCallback(
-    async (params: CreateGenerationParams) => {
-      if (isConnected) {
-        try {
-          const result = await createMutation(params);
-          return result;
-        } catch (error) {
-          console.error("Failed to create generation:", error);
-          // Fall back to offline queue
-          const localId = addPendingGeneration(params);
-          return { localId, offline: true };
-        }
-      } else {
-        // Queue for later sync
-        const localId = addPendingGeneration(params);
-        return { localId, offline: true };
+    async (params: CreateGenerationParams): Promise<CreateGenerationResult> => {
+      if (isOnline) {
+        return generate(toGenerationRequest(params));
       }
+
+      // Queue for later sync
+      const { onSessionId: _onSessionId, idempotencyKey: _idempotencyKey, ...queued } = params;
+      const localId = enqueueMutation("createGeneration", queued, "createGeneration");
+      return { localId, offline: true };
     },
-    [isConnected, createMutation, addPendingGeneration]
+    [isOnline, generate]
   );
 
   // Combine online data with pending offline items
-  const allGenerations = [
-    // Pending items first
-    ...pendingGenerations
-      .filter((p) => p.status !== "synced")
-      .map((p) => ({
-        id: p.localId,
-        prompt: p.prompt,
-        style: p.style,
-        aspectRatio: p.aspectRatio,
-        model: p.model,
+  const allGenerations = useMemo(
+    () => [
+      // Pending items first
+      ...queuedGenerations.map((p) => ({
+        id: p.id,
+        prompt: p.payload.prompt,
+        aspectRatio: p.payload.aspectRatio,
+        model: p.payload.model,
         status: p.status === "pending" ? "queued" : p.status,
         isLocal: true,
         createdAt: p.createdAt,
       })),
-    // Then server data or cached data
-    ...(generations ?? cachedGenerations),
-  ];
-
-  // Cache generations when online
-  // useEffect(() => {
-  //   if (generations && isConnected) {
-  //     setGenerations(generations);
-  //   }
-  // }, [generations, isConnected, setGenerations]);
+      // Then server data or cached data
+      ...(generations?.map(toCachedGeneration) ?? cachedGenerations),
+    ],
+    [queuedGenerations, generations, cachedGenerations]
+  );
 
   return {
+    ...engine,
     generations: allGenerations,
-    isLoading: generations === undefined && isConnected,
-    isOffline: !isConnected,
+    queuedGenerations,
+    isLoading: generations === undefined && isOnline,
+    isOffline: !isOnline,
     createGeneration,
-    pendingCount: pendingGenerations.filter((p) => p.status === "pending")
-      .length,
+    syncPendingGenerations: syncOutbox,
+    // Give a poisoned prompt another round of attempts
+    retryQueuedGeneration: retryOutboxEntry,
+    discardQueuedGeneration: discardOutboxEntry,
+    pendingCount: queuedGenerations.filter((p) => p.status === "pending").length,
   };
 }
 
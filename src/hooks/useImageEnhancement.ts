@@ -0,0 +1,473 @@
+/**
+ * Image Enhancement Engine Hook
+ * Orchestrates: source upload → slot acquire → credit reserve → API call → polling →
+ * WebP preview → Convex updates, for the Enhancer tab's upscale / enhance modes.
+ * Results are saved as "edit" session generations (sourceImage = before, images = after,
+ * previewImage = WebP copy of the result for display).
+ *
+ * Web endpoints:
+ * - POST /api/mobile/enhance-image { imageUrl, mode, upscaleFactor? } answers like
+ *   generate-images: { success, images } or { queued, requestId }
+ * - GET /api/mobile/enhance-image/status?requestId&mode
+ * - POST /api/mobile/webp-preview { imageUrl } => { success, url }
+ */
+
+import { useState, useCallback, useRef, useEffect } from "react";
+import { useMutation } from "convex/react";
+import { useAuth } from "@clerk/clerk-expo";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import { apiRequest } from "../lib/api";
+import { withGenerationSlotLock } from "../lib/generationSlotQueue";
+import { createUploadTask, runUploadTask } from "../lib/uploads";
+import { createWebpPreview, getEnhanceStatusPath } from "../lib/generationOutputs";
+import {
+  trackInflightGeneration,
+  updateInflightGeneration,
+  finishInflightGeneration,
+  releaseInflightGeneration,
+} from "../lib/inflightGenerations";
+import { parseSlotResult, getCreditReserveError } from "./useImageGeneration";
+import { POLLING_CONFIG } from "../config/imageModels";
+import {
+  EnhanceModeId,
+  UpscaleFactor,
+  getEnhanceModeById,
+  getEnhanceLabel,
+  calculateEnhanceCost,
+  MAX_ENHANCE_SOURCE_DIMENSION,
+} from "../config/enhancerModels";
+
+// Enhancement request shape
+export interface EnhancementRequest {
+  sourceUri: string; // Local file (uploaded first) or an already hosted URL, e.g. from Assets
+  modeId: EnhanceModeId;
+  upscaleFactor?: UpscaleFactor;
+  sessionId?: string;
+  onSessionId?: (sessionId: string) => void;
+}
+
+// Enhancement status
+export type EnhancementStatus =
+  | "idle"
+  | "uploading"
+  | "acquiring_slot"
+  | "reserving_credits"
+  | "creating_session"
+  | "enhancing"
+  | "polling"
+  | "completing"
+  | "completed"
+  | "failed";
+
+// Enhancement result
+export interface EnhancementResult {
+  success: boolean;
+  sourceUrl?: string;
+  imageUrl?: string;
+  previewImageUrl?: string;
+  error?: string;
+  generationId?: string;
+  sessionId?: string;
+}
+
+// API response types
+interface EnhanceImageResponse {
+  success?: boolean;
+  queued?: boolean;
+  requestId?: string;
+  images?: { url: string }[];
+  error?: string;
+}
+
+interface StatusResponse {
+  success?: boolean;
+  queued?: boolean;
+  images?: { url: string }[];
+  error?: string;
+}
+
+function isHostedUrl(uri: string): boolean {
+  return uri.startsWith("https://") || uri.startsWith("http://");
+}
+
+function throwIfCancelled(signal: AbortSignal) {
+  if (signal.aborted) {
+    throw new Error("Enhancement cancelled");
+  }
+}
+
+// setTimeout that rejects as soon as the enhancement is cancelled
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timeout = setTimeout(() => {
+      signal.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timeout);
+      reject(new Error("Enhancement cancelled"));
+    };
+    signal.addEventListener("abort", onAbort);
+  });
+}
+
+// Hook state
+interface EnhancementState {
+  status: EnhancementStatus;
+  error: string | null;
+  progress: number; // 0-100 for UI feedback
+  generationId: string | null;
+}
+
+let enhancementCounter = 0;
+
+export function useImageEnhancement() {
+  const { getToken, userId } = useAuth();
+  const [state, setState] = useState<EnhancementState>({
+    status: "idle",
+    error: null,
+    progress: 0,
+    generationId: null,
+  });
+
+  // Abort controller for cancellation
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Convex mutations
+  const acquireSlot = useMutation(api.generations.acquireGenerationSlot);
+  const updateSlotStatus = useMutation(api.generations.updateGenerationStatus);
+  const reserveCredits = useMutation(api.users.reserveCredits);
+  const captureCredits = useMutation(api.users.captureReservedCredits);
+  const releaseCredits = useMutation(api.users.releaseReservedCredits);
+  const createSession = useMutation(api.sessions.createSession);
+  const addGeneration = useMutation(api.sessions.addGenerationToSession);
+  const updateGeneration = useMutation(api.sessions.updateGeneration);
+
+  // Poll for queued enhancement status
+  const pollStatus = useCallback(
+    async (
+      requestId: string,
+      modeId: EnhanceModeId,
+      signal: AbortSignal
+    ): Promise<{ success: boolean; images?: { url: string }[]; error?: string }> => {
+      let attempts = 0;
+      let delay = POLLING_CONFIG.initialDelay;
+
+      while (attempts < POLLING_CONFIG.maxAttempts) {
+        throwIfCancelled(signal);
+        await sleep(delay, signal);
+
+        try {
+          const response = await apiRequest<StatusResponse>(getEnhanceStatusPath(requestId, modeId), {
+            method: "GET",
+            getToken,
+            signal,
+          });
+
+          if (response.success && response.images) {
+            return { success: true, images: response.images };
+          }
+
+          if (response.error) {
+            return { success: false, error: response.error };
+          }
+
+          // Still queued, continue polling
+          setState((prev) => ({
+            ...prev,
+            progress: Math.min(90, 30 + (attempts / POLLING_CONFIG.maxAttempts) * 60),
+          }));
+        } catch (error) {
+          throwIfCancelled(signal);
+          console.error("Polling error:", error);
+          // Continue polling on network errors
+        }
+
+        attempts++;
+        delay = Math.min(delay * POLLING_CONFIG.backoffMultiplier, POLLING_CONFIG.maxDelay);
+      }
+
+      return { success: false, error: "Enhancement timed out" };
+    },
+    [getToken]
+  );
+
+  // Run one enhancement end to end
+  const enhance = useCallback(
+    async (request: EnhancementRequest): Promise<EnhancementResult> => {
+      const { sourceUri, modeId, upscaleFactor, sessionId: existingSessionId, onSessionId } = request;
+
+      abortControllerRef.current?.abort();
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+      const { signal } = controller;
+
+      const inflightId = `enhance_${Date.now()}_${++enhancementCounter}`;
+      let slotId: Id<"generations"> | null = null;
+      let creditAmount = 0;
+      let sessionId = existingSessionId;
+      let generationId: Id<"sessionGenerations"> | null = null;
+      let resultUrls: string[] | null = null; // Set once the provider has delivered
+      let sourceUrl: string | undefined;
+
+      setState({ status: "uploading", error: null, progress: 5, generationId: null });
+
+      try {
+        const mode = getEnhanceModeById(modeId);
+        if (!mode) {
+          throw new Error(`Unknown enhance mode: ${modeId}`);
+        }
+        const factor = mode.supportsUpscaleFactor ? upscaleFactor : undefined;
+        const label = getEnhanceLabel(modeId, factor);
+
+        // 1. Upload the source unless it's already hosted
+        if (isHostedUrl(sourceUri)) {
+          sourceUrl = sourceUri;
+        } else {
+          const upload = await runUploadTask(createUploadTask(sourceUri, "image", MAX_ENHANCE_SOURCE_DIMENSION), {
+            getToken,
+            signal,
+          });
+          if (upload.status !== "completed" || !upload.result) {
+            throw new Error(upload.error || "Failed to upload image");
+          }
+          sourceUrl = upload.result.url;
+        }
+
+        // 2. Acquire generation slot
+        throwIfCancelled(signal);
+        setState((prev) => ({ ...prev, status: "acquiring_slot", progress: 10 }));
+        const slotResult = await withGenerationSlotLock(() => acquireSlot({ type: "edit", prompt: label }));
+        slotId = parseSlotResult(slotResult);
+        // Persist until finalized so a killed app can resume it on next launch
+        trackInflightGeneration({
+          id: inflightId,
+          kind: "enhance",
+          userId: userId ?? null,
+          modelId: modeId,
+          slotId,
+          creditAmount: 0,
+        });
+
+        // 3. Reserve credits
+        throwIfCancelled(signal);
+        setState((prev) => ({ ...prev, status: "reserving_credits", progress: 15 }));
+        creditAmount = calculateEnhanceCost(modeId, factor);
+        const creditError = getCreditReserveError(await reserveCredits({ amount: creditAmount }));
+        if (creditError) {
+          creditAmount = 0;
+          throw new Error(creditError);
+        }
+        updateInflightGeneration(inflightId, { creditAmount });
+
+        // 4. Create or use session
+        throwIfCancelled(signal);
+        setState((prev) => ({ ...prev, status: "creating_session", progress: 20 }));
+        if (!sessionId) {
+          const sessionResult = await createSession({ title: label, type: "edit" });
+          sessionId = sessionResult;
+          if (typeof sessionId === "string") {
+            onSessionId?.(sessionId);
+          }
+        }
+
+        // 5. Add loading generation to session
+        const genResult = await addGeneration({
+          sessionId: sessionId as Id<"sessions">,
+          prompt: label,
+          type: "edit",
+          model: modeId,
+          modelLabel: label,
+          numImages: 1,
+          sourceImage: sourceUrl,
+          isLoading: true,
+          concurrencySlotId: slotId,
+        });
+        generationId = genResult;
+        setState((prev) => ({ ...prev, generationId }));
+        updateInflightGeneration(inflightId, { generationId: genResult, sessionId });
+
+        // 6. Call enhance API
+        throwIfCancelled(signal);
+        setState((prev) => ({ ...prev, status: "enhancing", progress: 25 }));
+        const response = await apiRequest<EnhanceImageResponse>("/api/mobile/enhance-image", {
+          method: "POST",
+          body: { imageUrl: sourceUrl, mode: modeId, ...(factor ? { upscaleFactor: factor } : {}) },
+          getToken,
+          signal,
+          timeoutMs: POLLING_CONFIG.timeout,
+        });
+
+        let finalImages: { url: string }[] = [];
+
+        if (response.queued && response.requestId) {
+          // 7. Queued - poll for result
+          setState((prev) => ({ ...prev, status: "polling", progress: 30 }));
+          updateInflightGeneration(inflightId, { requestId: response.requestId });
+
+          const pollResult = await pollStatus(response.requestId, modeId, signal);
+          if (!pollResult.success || !pollResult.images) {
+            throw new Error(pollResult.error || "Enhancement failed");
+          }
+          finalImages = pollResult.images;
+        } else if (response.success && response.images) {
+          finalImages = response.images;
+        } else {
+          throw new Error(response.error || "Enhancement failed");
+        }
+
+        const imageUrl = finalImages[0]?.url;
+        if (!imageUrl) {
+          throw new Error("Enhancement returned no image");
+        }
+        resultUrls = [imageUrl];
+
+        // 8. WebP preview, then update generation in Convex
+        setState((prev) => ({ ...prev, status: "completing", progress: 95 }));
+        const previewImageUrl = await createWebpPreview(imageUrl, getToken);
+        await updateGeneration({
+          generationId,
+          isLoading: false,
+          images: [{ url: imageUrl }],
+          previewImage: previewImageUrl,
+          completedAt: Date.now(),
+        });
+
+        // 9. Capture credits and complete slot
+        await captureCredits({ amount: creditAmount });
+        creditAmount = 0;
+        updateInflightGeneration(inflightId, { creditAmount: 0 });
+        await updateSlotStatus({
+          generationId: slotId,
+          status: "completed",
+          imageUrl,
+        });
+        finishInflightGeneration(inflightId);
+
+        setState((prev) => ({ ...prev, status: "completed", error: null, progress: 100 }));
+
+        return {
+          success: true,
+          sourceUrl,
+          imageUrl,
+          previewImageUrl,
+          generationId: generationId ?? undefined,
+          sessionId,
+        };
+      } catch (error) {
+        const cancelled = signal.aborted;
+        const errorMessage = cancelled
+          ? "Cancelled"
+          : error instanceof Error
+            ? error.message
+            : "Enhancement failed";
+
+        console.error("Enhancement error:", error);
+
+        if (resultUrls) {
+          // The enhanced image exists - never fail the row or refund; the resume flow saves
+          // it and captures whatever is still reserved, so only free the slot here
+          releaseInflightGeneration(inflightId, { success: true, urls: resultUrls });
+          try {
+            await updateSlotStatus({
+              generationId: slotId,
+              status: "completed",
+              imageUrl: resultUrls[0],
+            });
+          } catch (cleanupError) {
+            console.error("Cleanup error:", cleanupError);
+          }
+        } else {
+          // Cleanup on failure
+          try {
+            if (generationId) {
+              await updateGeneration({
+                generationId,
+                isLoading: false,
+                error: errorMessage,
+              });
+            }
+
+            if (creditAmount > 0) {
+              await releaseCredits({ amount: creditAmount });
+              creditAmount = 0;
+              updateInflightGeneration(inflightId, { creditAmount: 0 });
+            }
+
+            if (slotId) {
+              await updateSlotStatus({
+                generationId: slotId,
+                status: "failed",
+              });
+            }
+            finishInflightGeneration(inflightId);
+          } catch (cleanupError) {
+            console.error("Cleanup error:", cleanupError);
+            // Let the resume flow finish the cleanup once we're back online
+            releaseInflightGeneration(inflightId, { success: false, error: errorMessage });
+          }
+        }
+
+        setState((prev) => ({
+          ...prev,
+          status: cancelled ? "idle" : "failed",
+          error: errorMessage,
+          progress: 0,
+        }));
+
+        return { success: false, error: errorMessage, sourceUrl, generationId: generationId ?? undefined, sessionId };
+      } finally {
+        if (abortControllerRef.current === controller) {
+          abortControllerRef.current = null;
+        }
+      }
+    },
+    [
+      acquireSlot,
+      reserveCredits,
+      createSession,
+      addGeneration,
+      updateGeneration,
+      captureCredits,
+      releaseCredits,
+      updateSlotStatus,
+      getToken,
+      userId,
+      pollStatus,
+    ]
+  );
+
+  // Cancel the running enhancement
+  const cancel = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
+  // Reset state
+  const reset = useCallback(() => {
+    setState({ status: "idle", error: null, progress: 0, generationId: null });
+  }, []);
+
+  // Cleanup on unmount
+  useEffect(() => {
+    return () => {
+      abortControllerRef.current?.abort();
+    };
+  }, []);
+
+  return {
+    // State
+    status: state.status,
+    error: state.error,
+    progress: state.progress,
+    generationId: state.generationId,
+    isEnhancing: state.status !== "idle" && state.status !== "completed" && state.status !== "failed",
+
+    // Actions
+    enhance,
+    cancel,
+    reset,
+  };
+}
+
+export default useImageEnhancement;
@@ -2,16 +2,28 @@
  * Image Generation Engine Hook
  * Orchestrates: slot acquire → credit reserve → API call → polling → Convex updates
  * Mirrors web's content-grid.tsx generation flow
+ *
+ * Each generate() call runs as an independent job with its own progress, cancel
+ * handle and retry. Jobs run concurrently up to the plan's slot limit reported by
+ * acquireGenerationSlot; extra jobs wait in "queued" until a slot frees up.
+ * generateComparison() starts several jobs at once in one session (compare mode).
  */
 
-import { useState, useCallback, useRef, useEffect } from "react";
+import { useState, useCallback, useRef, useEffect, useMemo } from "react";
 import { useMutation, useQuery } from "convex/react";
 import { useAuth } from "@clerk/clerk-expo";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import { api } from "../../convex/_generated/api";
 import { Id } from "../../convex/_generated/dataModel";
-import { apiRequest } from "../lib/api";
+import { apiRequest, ApiError } from "../lib/api";
 import { withGenerationSlotLock } from "../lib/generationSlotQueue";
+import { getImageStatusPath } from "../lib/generationOutputs";
+import {
+  trackInflightGeneration,
+  updateInflightGeneration,
+  finishInflightGeneration,
+  releaseInflightGeneration,
+} from "../lib/inflightGenerations";
 import {
   ImageModelId,
   AspectRatio,
@@ -44,11 +56,14 @@ export interface GenerationRequest {
   quality?: Quality;
   sessionId?: string;
   onSessionId?: (sessionId: string) => void;
+  idempotencyKey?: string; // Replays of a queued offline prompt reuse it for the slot, credits, rows and submit so the server can dedupe
+  compareGroupId?: string; // Shared by the variants of one compare run (lib/generationCompare)
 }
 
 // Generation status
 export type GenerationStatus =
   | "idle"
+  | "queued"
   | "acquiring_slot"
   | "reserving_credits"
   | "creating_session"
@@ -56,13 +71,15 @@ export type GenerationStatus =
   | "polling"
   | "completing"
   | "completed"
-  | "failed";
+  | "failed"
+  | "cancelled";
 
 // Generation result
 export interface GenerationResult {
   success: boolean;
   images?: Array<{ url: string }>;
   error?: string;
+  apiError?: ApiError; // The failed API call, so the outbox can tell permanent failures and duplicates apart
   generationId?: string;
   sessionId?: string;
 }
@@ -83,22 +100,140 @@ interface StatusResponse {
   error?: string;
 }
 
-// Hook state
-interface GenerationState {
+// A single generation run
+export interface ImageGenerationJob {
+  id: string; // Local job id; cards look jobs up by generationId once Convex assigns one
+  request: GenerationRequest;
   status: GenerationStatus;
   error: string | null;
-  currentRequestId: string | null;
   progress: number; // 0-100 for UI feedback
+  requestId: string | null;
+  generationId: string | null;
+  sessionId: string | null;
+  createdAt: number;
 }
 
-export function useImageGeneration() {
-  const { getToken } = useAuth();
-  const [state, setState] = useState<GenerationState>({
-    status: "idle",
-    error: null,
-    currentRequestId: null,
-    progress: 0,
+const ACTIVE_STATUSES: GenerationStatus[] = [
+  "queued",
+  "acquiring_slot",
+  "reserving_credits",
+  "creating_session",
+  "generating",
+  "polling",
+  "completing",
+];
+
+export function isJobActive(job: ImageGenerationJob): boolean {
+  return ACTIVE_STATUSES.includes(job.status);
+}
+
+// Thrown when the plan's concurrent slot limit is reached
+class SlotLimitError extends Error {
+  constructor(
+    message: string,
+    public limit?: number
+  ) {
+    super(message);
+    this.name = "SlotLimitError";
+  }
+}
+
+function throwIfCancelled(signal: AbortSignal) {
+  if (signal.aborted) {
+    throw new Error("Generation cancelled");
+  }
+}
+
+// setTimeout that rejects as soon as the job is cancelled
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timeout = setTimeout(() => {
+      signal.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timeout);
+      reject(new Error("Generation cancelled"));
+    };
+    signal.addEventListener("abort", onAbort);
   });
+}
+
+// acquireGenerationSlot / reserveCredits responses, across the formats the backend has used
+interface SlotResultObject {
+  ok?: boolean; // { ok, reason?: "limit_reached", limit, active, generationId }
+  reason?: string;
+  limit?: number;
+  active?: number;
+  success?: boolean; // Older { success, message?, generationId } format
+  message?: string;
+  generationId?: string;
+  _id?: string;
+}
+
+interface CreditResultObject {
+  success: boolean;
+  message?: string;
+}
+
+// Normalize the acquireGenerationSlot response formats into a slot id
+export function parseSlotResult(slotResult: unknown): Id<"generations"> {
+  // Handle both response formats: { success, generationId } or direct Id
+  if (!slotResult) {
+    throw new Error("Failed to acquire generation slot - no result");
+  }
+
+  if (typeof slotResult === "string") {
+    // Direct ID string returned
+    return slotResult as Id<"generations">;
+  }
+
+  if (typeof slotResult !== "object") {
+    throw new Error(`Unexpected slot result type: ${typeof slotResult}`);
+  }
+
+  const result = slotResult as SlotResultObject;
+
+  // New response format: { ok: boolean, reason?: 'limit_reached', limit, active, generationId }
+  if ("ok" in result) {
+    if (result.ok === false) {
+      if (result.reason === "limit_reached") {
+        throw new SlotLimitError(
+          `Concurrent generation limit reached (${result.active}/${result.limit}). Please wait or upgrade your plan.`,
+          result.limit
+        );
+      }
+      throw new Error(result.message || "Failed to acquire generation slot");
+    }
+    if (!result.generationId) {
+      throw new Error("Failed to acquire generation slot - missing generationId");
+    }
+    return result.generationId as Id<"generations">;
+  }
+
+  // Object response - check for success/failure
+  if (result.success === false) {
+    throw new Error(result.message || "Failed to acquire generation slot");
+  }
+  // Extract generationId from object or use the object itself if it's the ID
+  return (result.generationId ?? result._id ?? slotResult) as Id<"generations">;
+}
+
+// Why reserveCredits refused ({ success: false, message? } or a falsy result), or null once reserved
+export function getCreditReserveError(creditResult: unknown): string | null {
+  if (typeof creditResult === "object" && creditResult !== null && "success" in creditResult) {
+    const result = creditResult as CreditResultObject;
+    return result.success ? null : result.message || "Insufficient credits";
+  }
+  return creditResult ? null : "Insufficient credits";
+}
+
+let jobCounter = 0;
+
+export function useImageGeneration() {
+  const { getToken, userId } = useAuth();
+  const [jobs, setJobs] = useState<Record<string, ImageGenerationJob>>({});
+  const [slotLimit, setSlotLimit] = useState<number | null>(null);
 
   // Persisted settings
   const [settings, setSettings] = useState({
@@ -109,9 +244,11 @@ export function useImageGeneration() {
     quality: DEFAULT_SETTINGS.quality,
   });
 
-  // Abort controller for cancellation
-  const abortControllerRef = useRef<AbortController | null>(null);
-  const pollingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  // Per-job abort controllers for cancellation
+  const abortControllersRef = useRef<Map<string, AbortController>>(new Map());
+  // Number of slots held by this hook's jobs, and jobs waiting for one to free up
+  const heldSlotsRef = useRef(0);
+  const slotWaitersRef = useRef<Set<() => void>>(new Set());
 
   // Convex mutations
   const acquireSlot = useMutation(api.generations.acquireGenerationSlot);
@@ -168,33 +305,80 @@ export function useImageGeneration() {
     }
   };
 
+  const updateJob = useCallback((jobId: string, updates: Partial<ImageGenerationJob>) => {
+    setJobs((prev) => (prev[jobId] ? { ...prev, [jobId]: { ...prev[jobId], ...updates } } : prev));
+  }, []);
+
+  // Wake every job waiting for a slot; they race for it through the slot lock
+  const notifySlotReleased = useCallback(() => {
+    const waiters = Array.from(slotWaitersRef.current);
+    slotWaitersRef.current.clear();
+    waiters.forEach((wake) => wake());
+  }, []);
+
+  const waitForSlotRelease = useCallback((signal: AbortSignal) => {
+    return new Promise<void>((resolve, reject) => {
+      const wake = () => {
+        signal.removeEventListener("abort", onAbort);
+        resolve();
+      };
+      const onAbort = () => {
+        slotWaitersRef.current.delete(wake);
+        reject(new Error("Generation cancelled"));
+      };
+      slotWaitersRef.current.add(wake);
+      signal.addEventListener("abort", onAbort);
+    });
+  }, []);
+
+  // Acquire a slot, queueing behind this hook's own running jobs when the plan limit is hit
+  const acquireJobSlot = useCallback(
+    async (jobId: string, prompt: string, signal: AbortSignal, idempotencyKey?: string): Promise<Id<"generations">> => {
+      while (true) {
+        throwIfCancelled(signal);
+        updateJob(jobId, { status: "acquiring_slot", progress: 10 });
+
+        try {
+          const slotResult = await withGenerationSlotLock(() => acquireSlot({ type: "image", prompt, idempotencyKey }));
+          console.log("[useImageGeneration] acquireSlot result:", JSON.stringify(slotResult));
+          const slotId = parseSlotResult(slotResult);
+          heldSlotsRef.current += 1;
+          return slotId;
+        } catch (error) {
+          if (!(error instanceof SlotLimitError)) throw error;
+          if (error.limit) setSlotLimit(error.limit);
+          // Nothing of ours will free a slot - surface the limit to the user
+          if (heldSlotsRef.current === 0) throw error;
+        }
+
+        updateJob(jobId, { status: "queued", progress: 0 });
+        await waitForSlotRelease(signal);
+      }
+    },
+    [acquireSlot, updateJob, waitForSlotRelease]
+  );
+
   // Poll for queued generation status
   const pollStatus = useCallback(
     async (
+      jobId: string,
       requestId: string,
       modelId: ImageModelId,
-      token: string
+      signal: AbortSignal
     ): Promise<{ success: boolean; images?: Array<{ url: string }>; error?: string }> => {
       let attempts = 0;
       let delay = POLLING_CONFIG.initialDelay;
 
       while (attempts < POLLING_CONFIG.maxAttempts) {
-        if (abortControllerRef.current?.signal.aborted) {
-          throw new Error("Generation cancelled");
-        }
-
-        await new Promise((resolve) => {
-          pollingTimeoutRef.current = setTimeout(resolve, delay);
-        });
+        throwIfCancelled(signal);
+        await sleep(delay, signal);
 
         try {
-          const response = await apiRequest<StatusResponse>(
-            `/api/generate-images/status?requestId=${encodeURIComponent(requestId)}&modelId=${encodeURIComponent(modelId)}`,
-            {
-              method: "GET",
-              token,
-            }
-          );
+          const response = await apiRequest<StatusResponse>(getImageStatusPath(requestId, modelId), {
+            method: "GET",
+            getToken,
+            signal,
+          });
 
           if (response.success && response.images) {
             return { success: true, images: response.images };
@@ -205,11 +389,11 @@ export function useImageGeneration() {
           }
 
           // Still queued, continue polling
-          setState((prev) => ({
-            ...prev,
+          updateJob(jobId, {
             progress: Math.min(90, 20 + (attempts / POLLING_CONFIG.maxAttempts) * 70),
-          }));
+          });
         } catch (error) {
+          throwIfCancelled(signal);
           console.error("Polling error:", error);
           // Continue polling on network errors
         }
@@ -220,12 +404,12 @@ export function useImageGeneration() {
 
       return { success: false, error: "Generation timed out" };
     },
-    []
+    [getToken, updateJob]
   );
 
-  // Main generation function
-  const generate = useCallback(
-    async (request: GenerationRequest): Promise<GenerationResult> => {
+  // Run one job end to end
+  const runJob = useCallback(
+    async (jobId: string, request: GenerationRequest): Promise<GenerationResult> => {
       const {
         prompt,
         modelId,
@@ -236,21 +420,19 @@ export function useImageGeneration() {
         quality,
         sessionId: existingSessionId,
         onSessionId,
+        idempotencyKey,
+        compareGroupId,
       } = request;
 
-      // Reset state
-      abortControllerRef.current = new AbortController();
-      setState({
-        status: "acquiring_slot",
-        error: null,
-        currentRequestId: null,
-        progress: 5,
-      });
+      const controller = new AbortController();
+      abortControllersRef.current.set(jobId, controller);
+      const { signal } = controller;
 
       let slotId: Id<"generations"> | null = null;
       let creditAmount = 0;
       let sessionId = existingSessionId;
       let generationId: Id<"sessionGenerations"> | null = null;
+      let resultUrls: string[] | null = null; // Set once the provider has delivered
 
       try {
         // Validate model and attachments
@@ -268,67 +450,37 @@ export function useImageGeneration() {
         }
 
         // 1. Acquire generation slot
-        setState((prev) => ({ ...prev, status: "acquiring_slot", progress: 10 }));
-        const slotResult = await withGenerationSlotLock(() =>
-          acquireSlot({ type: "image", prompt } as any)
-        );
-        console.log("[useImageGeneration] acquireSlot result:", JSON.stringify(slotResult));
-
-        // Handle both response formats: { success, generationId } or direct Id
-        if (!slotResult) {
-          throw new Error("Failed to acquire generation slot - no result");
-        }
-
-        // New response format: { ok: boolean, reason?: 'limit_reached', limit, active, generationId }
-        if (typeof slotResult === "object" && slotResult !== null && "ok" in slotResult) {
-          const result: any = slotResult;
-          if (result.ok === false) {
-            if (result.reason === "limit_reached") {
-              throw new Error(
-                `Concurrent generation limit reached (${result.active}/${result.limit}). Please wait or upgrade your plan.`
-              );
-            }
-            throw new Error(result.message || "Failed to acquire generation slot");
-          }
-          if (!result.generationId) {
-            throw new Error("Failed to acquire generation slot - missing generationId");
-          }
-          slotId = result.generationId as Id<"generations">;
-        } else if (typeof slotResult === "string") {
-          // Direct ID string returned
-          slotId = slotResult as Id<"generations">;
-        } else if (typeof slotResult === "object") {
-          // Object response - check for success/failure
-          if ("success" in slotResult && slotResult.success === false) {
-            throw new Error((slotResult as any).message || "Failed to acquire generation slot");
-          }
-          // Extract generationId from object or use the object itself if it's the ID
-          slotId = (slotResult as any).generationId ?? (slotResult as any)._id ?? slotResult;
-        } else {
-          throw new Error(`Unexpected slot result type: ${typeof slotResult}`);
-        }
-
+        slotId = await acquireJobSlot(jobId, prompt, signal, idempotencyKey);
         console.log("[useImageGeneration] slotId:", slotId);
+        // Persist until finalized so a killed app can resume it on next launch
+        trackInflightGeneration({
+          id: jobId,
+          kind: "image",
+          userId: userId ?? null,
+          modelId,
+          slotId,
+          creditAmount: 0,
+        });
 
         // 2. Reserve credits
-        setState((prev) => ({ ...prev, status: "reserving_credits", progress: 15 }));
-        creditAmount = calculateImageCost(modelId, numImages);
-        const creditResult = await reserveCredits({ amount: creditAmount });
-        // Handle both response formats
-        if (typeof creditResult === "object" && creditResult !== null && "success" in creditResult) {
-          if (!creditResult.success) {
-            throw new Error((creditResult as any).message || "Insufficient credits");
-          }
-        } else if (!creditResult) {
-          throw new Error("Insufficient credits");
+        throwIfCancelled(signal);
+        updateJob(jobId, { status: "reserving_credits", progress: 15 });
+        creditAmount = calculateImageCost(modelId, numImages, { resolution, quality, aspectRatio });
+        const creditError = getCreditReserveError(await reserveCredits({ amount: creditAmount, idempotencyKey }));
+        if (creditError) {
+          creditAmount = 0;
+          throw new Error(creditError);
         }
+        updateInflightGeneration(jobId, { creditAmount });
 
         // 3. Create or use session
-        setState((prev) => ({ ...prev, status: "creating_session", progress: 20 }));
+        throwIfCancelled(signal);
+        updateJob(jobId, { status: "creating_session", progress: 20 });
         if (!sessionId) {
           const sessionResult = await createSession({
             title: prompt.slice(0, 50) + (prompt.length > 50 ? "..." : ""),
             type: "image",
+            idempotencyKey,
           });
           sessionId = sessionResult;
           if (typeof sessionId === "string") {
@@ -348,18 +500,21 @@ export function useImageGeneration() {
           isLoading: true,
           concurrencySlotId: slotId,
           quality: quality,
+          compareGroupId,
+          idempotencyKey,
         });
         generationId = genResult;
+        updateJob(jobId, { generationId, sessionId: sessionId ?? null });
+        updateInflightGeneration(jobId, { generationId: genResult, sessionId });
 
-        // 5. Get auth token
-        const token = await getToken();
-        console.log("[useImageGeneration] Got token:", token ? `${token.substring(0, 20)}...` : "null");
-        if (!token) {
+        // 5. Check auth - apiRequest fetches (and refreshes) a token per request via getToken
+        if (!(await getToken())) {
           throw new Error("Authentication required");
         }
 
         // 6. Call generation API
-        setState((prev) => ({ ...prev, status: "generating", progress: 25 }));
+        throwIfCancelled(signal);
+        updateJob(jobId, { status: "generating", progress: 25 });
         console.log("[useImageGeneration] Calling API:", "/api/mobile/generate-images");
 
         const apiPayload: Record<string, unknown> = {
@@ -386,7 +541,10 @@ export function useImageGeneration() {
           {
             method: "POST",
             body: apiPayload,
-            token,
+            getToken,
+            signal,
+            timeoutMs: POLLING_CONFIG.timeout, // Non-queued models answer with the finished images
+            idempotencyKey,
           }
         );
 
@@ -394,14 +552,10 @@ export function useImageGeneration() {
 
         if (response.queued && response.requestId) {
           // 7. Queued model - poll for result
-          setState((prev) => ({
-            ...prev,
-            status: "polling",
-            currentRequestId: response.requestId!,
-            progress: 30,
-          }));
+          updateJob(jobId, { status: "polling", requestId: response.requestId, progress: 30 });
+          updateInflightGeneration(jobId, { requestId: response.requestId });
 
-          const pollResult = await pollStatus(response.requestId, modelId, token);
+          const pollResult = await pollStatus(jobId, response.requestId, modelId, signal);
 
           if (!pollResult.success || !pollResult.images) {
             throw new Error(pollResult.error || "Generation failed");
@@ -415,8 +569,10 @@ export function useImageGeneration() {
           throw new Error(response.error || "Generation failed");
         }
 
+        resultUrls = finalImages.map(({ url }) => url);
+
         // 8. Update generation in Convex
-        setState((prev) => ({ ...prev, status: "completing", progress: 95 }));
+        updateJob(jobId, { status: "completing", progress: 95 });
         // Strip extra fields (like 'id') - Convex only accepts { url, imageBytes }
         const cleanImages = finalImages.map(({ url }) => ({ url }));
         await updateGeneration({
@@ -428,18 +584,16 @@ export function useImageGeneration() {
 
         // 9. Capture credits and complete slot
         await captureCredits({ amount: creditAmount });
+        creditAmount = 0;
+        updateInflightGeneration(jobId, { creditAmount: 0 });
         await updateSlotStatus({
           generationId: slotId,
           status: "completed",
           imageUrl: finalImages[0]?.url,
         });
+        finishInflightGeneration(jobId);
 
-        setState({
-          status: "completed",
-          error: null,
-          currentRequestId: null,
-          progress: 100,
-        });
+        updateJob(jobId, { status: "completed", error: null, requestId: null, progress: 100 });
 
         return {
           success: true,
@@ -448,47 +602,87 @@ export function useImageGeneration() {
           sessionId,
         };
       } catch (error) {
-        const errorMessage =
-          error instanceof Error ? error.message : "Generation failed";
+        const cancelled = signal.aborted;
+        const errorMessage = cancelled
+          ? "Cancelled"
+          : error instanceof Error
+            ? error.message
+            : "Generation failed";
 
         console.error("Generation error:", error);
 
-        // Cleanup on failure
-        try {
-          if (generationId) {
-            await updateGeneration({
-              generationId,
-              isLoading: false,
-              error: errorMessage,
+        if (resultUrls) {
+          // The images exist - never fail the row or refund; the resume flow saves them
+          // and captures whatever is still reserved, so only free the slot here
+          releaseInflightGeneration(jobId, { success: true, urls: resultUrls });
+          try {
+            await updateSlotStatus({
+              generationId: slotId,
+              status: "completed",
+              imageUrl: resultUrls[0],
             });
+          } catch (cleanupError) {
+            console.error("Cleanup error:", cleanupError);
           }
+        } else if (idempotencyKey && error instanceof ApiError && error.status === 409) {
+          // An earlier replay of this queued prompt already submitted it - the deduped slot,
+          // credits and row belong to that run (or its resume), so leave them alone
+          finishInflightGeneration(jobId);
+        } else {
+          // Cleanup on failure
+          try {
+            if (generationId) {
+              await updateGeneration({
+                generationId,
+                isLoading: false,
+                error: errorMessage,
+              });
+            }
 
-          if (creditAmount > 0) {
-            await releaseCredits({ amount: creditAmount });
-          }
+            if (creditAmount > 0) {
+              await releaseCredits({ amount: creditAmount });
+              creditAmount = 0;
+              updateInflightGeneration(jobId, { creditAmount: 0 });
+            }
 
-          if (slotId) {
-            await updateSlotStatus({
-              generationId: slotId,
-              status: "failed",
-            });
+            if (slotId) {
+              await updateSlotStatus({
+                generationId: slotId,
+                status: "failed",
+              });
+            }
+            finishInflightGeneration(jobId);
+          } catch (cleanupError) {
+            console.error("Cleanup error:", cleanupError);
+            // Let the resume flow finish the cleanup once we're back online
+            releaseInflightGeneration(jobId, { success: false, error: errorMessage });
           }
-        } catch (cleanupError) {
-          console.error("Cleanup error:", cleanupError);
         }
 
-        setState({
-          status: "failed",
+        updateJob(jobId, {
+          status: cancelled ? "cancelled" : "failed",
           error: errorMessage,
-          currentRequestId: null,
+          requestId: null,
           progress: 0,
         });
 
-        return { success: false, error: errorMessage };
+        return {
+          success: false,
+          error: errorMessage,
+          apiError: !cancelled && error instanceof ApiError ? error : undefined,
+          generationId: generationId ?? undefined,
+          sessionId,
+        };
+      } finally {
+        abortControllersRef.current.delete(jobId);
+        if (slotId) {
+          heldSlotsRef.current = Math.max(0, heldSlotsRef.current - 1);
+          notifySlotReleased();
+        }
       }
     },
     [
-      acquireSlot,
+      acquireJobSlot,
       reserveCredits,
       createSession,
       addGeneration,
@@ -497,54 +691,128 @@ export function useImageGeneration() {
       releaseCredits,
       updateSlotStatus,
       getToken,
+      userId,
       pollStatus,
+      updateJob,
+      notifySlotReleased,
     ]
   );
 
-  // Cancel ongoing generation
-  const cancel = useCallback(() => {
-    abortControllerRef.current?.abort();
-    if (pollingTimeoutRef.current) {
-      clearTimeout(pollingTimeoutRef.current);
+  // Start a new generation job; resolves when that job finishes
+  const generate = useCallback(
+    (request: GenerationRequest): Promise<GenerationResult> => {
+      const jobId = `job_${Date.now()}_${++jobCounter}`;
+      setJobs((prev) => ({
+        ...prev,
+        [jobId]: {
+          id: jobId,
+          request,
+          status: "acquiring_slot",
+          error: null,
+          progress: 5,
+          requestId: null,
+          generationId: null,
+          sessionId: request.sessionId ?? null,
+          createdAt: Date.now(),
+        },
+      }));
+      return runJob(jobId, request);
+    },
+    [runJob]
+  );
+
+  // Start one job per compare variant in a single session. The session is created up
+  // front so every variant lands in it; variants beyond the slot limit wait in "queued".
+  const generateComparison = useCallback(
+    async (
+      requests: Omit<GenerationRequest, "sessionId" | "onSessionId">[],
+      options: { sessionId?: string; onSessionId?: (sessionId: string) => void; compareGroupId: string }
+    ): Promise<GenerationResult[]> => {
+      if (requests.length === 0) return [];
+
+      let sessionId = options.sessionId;
+      if (!sessionId) {
+        const prompt = requests[0].prompt;
+        sessionId = (await createSession({
+          title: prompt.slice(0, 50) + (prompt.length > 50 ? "..." : ""),
+          type: "image",
+        })) as string;
+        options.onSessionId?.(sessionId);
+      }
+
+      return Promise.all(
+        requests.map((request) => generate({ ...request, sessionId, compareGroupId: options.compareGroupId }))
+      );
+    },
+    [createSession, generate]
+  );
+
+  // Cancel one job, or every active job when no id is given
+  const cancel = useCallback((jobId?: string) => {
+    if (jobId) {
+      abortControllersRef.current.get(jobId)?.abort();
+      return;
     }
-    setState((prev) => ({
-      ...prev,
-      status: "idle",
-      error: "Cancelled",
-      currentRequestId: null,
-      progress: 0,
-    }));
+    abortControllersRef.current.forEach((controller) => controller.abort());
   }, []);
 
-  // Reset state
-  const reset = useCallback(() => {
-    setState({
-      status: "idle",
-      error: null,
-      currentRequestId: null,
-      progress: 0,
+  // Re-run a failed or cancelled job with the same request (into the session it created)
+  const retry = useCallback(
+    (jobId: string): Promise<GenerationResult> | null => {
+      const job = jobs[jobId];
+      if (!job || isJobActive(job)) return null;
+
+      setJobs((prev) => {
+        const { [jobId]: _removed, ...rest } = prev;
+        return rest;
+      });
+      return generate({ ...job.request, sessionId: job.sessionId ?? job.request.sessionId });
+    },
+    [jobs, generate]
+  );
+
+  // Drop a finished job from the list
+  const dismiss = useCallback((jobId: string) => {
+    setJobs((prev) => {
+      if (!prev[jobId] || isJobActive(prev[jobId])) return prev;
+      const { [jobId]: _removed, ...rest } = prev;
+      return rest;
     });
   }, []);
 
+  // Drop every finished job
+  const reset = useCallback(() => {
+    setJobs((prev) =>
+      Object.fromEntries(Object.entries(prev).filter(([, job]) => isJobActive(job)))
+    );
+  }, []);
+
   // Cleanup on unmount
   useEffect(() => {
+    const controllers = abortControllersRef.current;
     return () => {
-      abortControllerRef.current?.abort();
-      if (pollingTimeoutRef.current) {
-        clearTimeout(pollingTimeoutRef.current);
-      }
+      controllers.forEach((controller) => controller.abort());
     };
   }, []);
 
+  const jobList = useMemo(
+    () => Object.values(jobs).sort((a, b) => a.createdAt - b.createdAt),
+    [jobs]
+  );
+  const activeJobs = useMemo(() => jobList.filter(isJobActive), [jobList]);
+
+  const getJobForGeneration = useCallback(
+    (generationId: string) => jobList.find((job) => job.generationId === generationId),
+    [jobList]
+  );
+
   return {
     // State
-    status: state.status,
-    error: state.error,
-    progress: state.progress,
-    isGenerating:
-      state.status !== "idle" &&
-      state.status !== "completed" &&
-      state.status !== "failed",
+    jobs: jobList,
+    activeJobs,
+    isGenerating: activeJobs.length > 0,
+    slotLimit,
+    getJobForGeneration,
 
     // Settings
     settings,
@@ -552,7 +820,10 @@ export function useImageGeneration() {
 
     // Actions
     generate,
+    generateComparison,
     cancel,
+    retry,
+    dismiss,
     reset,
   };
 }
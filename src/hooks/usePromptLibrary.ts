@@ -0,0 +1,117 @@
+import { useCallback, useEffect, useMemo } from "react";
+import { useQuery, useMutation } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import usePromptLibraryStore, {
+  CachedSavedPrompt,
+  PromptHistoryEntry,
+  PromptMode,
+  PromptSettings,
+} from "../state/promptLibraryStore";
+import { useNetworkStatus } from "../lib/network";
+
+export type SavedPrompt = CachedSavedPrompt;
+
+interface UsePromptLibraryReturn {
+  // For the given mode, most recently updated / used first
+  savedPrompts: SavedPrompt[];
+  history: PromptHistoryEntry[];
+  isLoading: boolean;
+  isSaved: (prompt: string) => boolean;
+  // Need a connection; they throw when offline
+  savePrompt: (settings: Omit<PromptSettings, "mode">, title?: string) => Promise<void>;
+  deleteSavedPrompt: (promptId: string) => Promise<void>;
+  // Local history
+  recordPrompt: (settings: Omit<PromptSettings, "mode">) => void;
+  clearHistory: () => void;
+}
+
+export class PromptLibraryOfflineError extends Error {
+  constructor() {
+    super("Connect to the internet to change your saved prompts.");
+    this.name = "PromptLibraryOfflineError";
+  }
+}
+
+export function usePromptLibrary(mode: PromptMode): UsePromptLibraryReturn {
+  const { isConnected, isInternetReachable } = useNetworkStatus();
+  const isOnline = isConnected && isInternetReachable !== false;
+
+  // Server data
+  const convexPrompts = useQuery(api.sessions.listSavedPrompts, isOnline ? {} : "skip");
+  const savePromptMutation = useMutation(api.sessions.savePrompt);
+  const deleteSavedPromptMutation = useMutation(api.sessions.deleteSavedPrompt);
+
+  // Cached copy for offline use, plus local history
+  const cachedPrompts = usePromptLibraryStore((state) => state.savedPrompts);
+  const setSavedPrompts = usePromptLibraryStore((state) => state.setSavedPrompts);
+  const allHistory = usePromptLibraryStore((state) => state.history);
+  const recordPromptInStore = usePromptLibraryStore((state) => state.recordPrompt);
+  const clearHistoryInStore = usePromptLibraryStore((state) => state.clearHistory);
+
+  const serverPrompts = convexPrompts as CachedSavedPrompt[] | undefined;
+
+  // Update cache when server data changes
+  useEffect(() => {
+    if (isOnline && serverPrompts) {
+      setSavedPrompts(serverPrompts);
+    }
+  }, [isOnline, serverPrompts, setSavedPrompts]);
+
+  const basePrompts = (isOnline ? serverPrompts : undefined) ?? cachedPrompts;
+
+  const savedPrompts = useMemo(
+    () => basePrompts.filter((p) => p.mode === mode).sort((a, b) => b.updatedAt - a.updatedAt),
+    [basePrompts, mode]
+  );
+
+  const history = useMemo(() => allHistory.filter((h) => h.mode === mode), [allHistory, mode]);
+
+  const isSaved = useCallback(
+    (prompt: string) => savedPrompts.some((p) => p.prompt === prompt.trim()),
+    [savedPrompts]
+  );
+
+  const savePrompt = useCallback(
+    async (settings: Omit<PromptSettings, "mode">, title?: string) => {
+      if (!isOnline) throw new PromptLibraryOfflineError();
+      await savePromptMutation({
+        prompt: settings.prompt.trim(),
+        mode,
+        title: title?.trim() || undefined,
+        modelId: settings.modelId,
+        modelLabel: settings.modelLabel,
+        aspectRatio: settings.aspectRatio,
+      });
+    },
+    [isOnline, mode, savePromptMutation]
+  );
+
+  const deleteSavedPrompt = useCallback(
+    async (promptId: string) => {
+      if (!isOnline) throw new PromptLibraryOfflineError();
+      await deleteSavedPromptMutation({ promptId: promptId as Id<"savedPrompts"> });
+    },
+    [isOnline, deleteSavedPromptMutation]
+  );
+
+  const recordPrompt = useCallback(
+    (settings: Omit<PromptSettings, "mode">) => recordPromptInStore({ ...settings, mode }),
+    [mode, recordPromptInStore]
+  );
+
+  const clearHistory = useCallback(() => clearHistoryInStore(mode), [mode, clearHistoryInStore]);
+
+  return {
+    savedPrompts,
+    history,
+    isLoading: isOnline && convexPrompts === undefined,
+    isSaved,
+    savePrompt,
+    deleteSavedPrompt,
+    recordPrompt,
+    clearHistory,
+  };
+}
+
+export default usePromptLibrary;
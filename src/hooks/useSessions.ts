@@ -0,0 +1,196 @@
+import { useCallback, useEffect, useMemo } from "react";
+import { useQuery, useMutation } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import useSessionsCacheStore, { CachedSession } from "../state/sessionsCacheStore";
+import { AnyOutboxEntry } from "../state/outboxStore";
+import {
+  enqueueMutation,
+  OutboxAlreadyAppliedError,
+  useOutboxEntries,
+  useOutboxHandler,
+} from "../lib/outbox";
+import { useNetworkStatus } from "../lib/network";
+
+export type SessionItem = CachedSession;
+
+interface UseSessionsReturn {
+  // Pinned first (most recently pinned on top), then in server order; queued edits applied
+  sessions: SessionItem[];
+  isLoading: boolean;
+  // All shown at once and queued through the outbox
+  renameSession: (sessionId: string, title: string) => void;
+  setSessionPinned: (sessionId: string, pinned: boolean) => void;
+  mergeSessions: (sessionId: string, targetSessionId: string) => void;
+  deleteSession: (sessionId: string) => void;
+  moveGeneration: (generationId: string, sessionId: string, targetSessionId: string) => void;
+}
+
+// Merges and moves touch two sessions, so all session edits share one queue and replay
+// in the order they were made - a delete can't overtake a merge or move into that session
+const SESSION_ORDER_KEY = "sessions";
+
+// The session (or generation) is already gone on the server - nothing left to apply
+async function unlessSessionGone(mutation: Promise<unknown>) {
+  try {
+    await mutation;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "";
+    if (message.includes("not found") || message.includes("Not found")) {
+      throw new OutboxAlreadyAppliedError(message);
+    }
+    throw error;
+  }
+}
+
+// Apply one queued edit to the session list
+function applySessionEdit(sessions: SessionItem[], entry: AnyOutboxEntry): SessionItem[] {
+  switch (entry.kind) {
+    case "renameSession":
+      return sessions.map((s) => (s._id === entry.payload.sessionId ? { ...s, title: entry.payload.title } : s));
+    case "pinSession":
+      return sessions.map((s) =>
+        s._id === entry.payload.sessionId ? { ...s, pinnedAt: entry.payload.pinned ? entry.createdAt : undefined } : s
+      );
+    case "mergeSessions": {
+      const source = sessions.find((s) => s._id === entry.payload.sessionId);
+      return sessions
+        .filter((s) => s._id !== entry.payload.sessionId)
+        .map((s) =>
+          s._id === entry.payload.targetSessionId
+            ? { ...s, preview: s.preview ?? source?.preview, updatedAt: Math.max(s.updatedAt ?? 0, source?.updatedAt ?? 0) }
+            : s
+        );
+    }
+    case "deleteSession":
+      return sessions.filter((s) => s._id !== entry.payload.sessionId);
+    case "moveGeneration":
+      return sessions.map((s) =>
+        s._id === entry.payload.targetSessionId ? { ...s, updatedAt: Math.max(s.updatedAt ?? 0, entry.createdAt) } : s
+      );
+    default:
+      return sessions;
+  }
+}
+
+export function useSessions(): UseSessionsReturn {
+  const { isConnected, isInternetReachable } = useNetworkStatus();
+  const isOnline = isConnected && isInternetReachable !== false;
+
+  // Server data
+  const convexSessions = useQuery(api.sessions.getUserSessions, isOnline ? {} : "skip");
+  const renameSessionMutation = useMutation(api.sessions.renameSession);
+  const setSessionPinnedMutation = useMutation(api.sessions.setSessionPinned);
+  const mergeSessionsMutation = useMutation(api.sessions.mergeSessions);
+  const deleteSessionMutation = useMutation(api.sessions.deleteSession);
+  const moveGenerationMutation = useMutation(api.sessions.moveGeneration);
+
+  // Cached copy for offline use
+  const cachedSessions = useSessionsCacheStore((state) => state.sessions);
+  const setSessions = useSessionsCacheStore((state) => state.setSessions);
+
+  // Edits not on the server yet
+  const queuedRenames = useOutboxEntries("renameSession");
+  const queuedPins = useOutboxEntries("pinSession");
+  const queuedMerges = useOutboxEntries("mergeSessions");
+  const queuedDeletes = useOutboxEntries("deleteSession");
+  const queuedMoves = useOutboxEntries("moveGeneration");
+
+  // Replays queued session edits (see lib/outbox)
+  useOutboxHandler("renameSession", ({ sessionId, title }) =>
+    unlessSessionGone(renameSessionMutation({ sessionId: sessionId as Id<"sessions">, title }))
+  );
+  useOutboxHandler("pinSession", ({ sessionId, pinned }) =>
+    unlessSessionGone(setSessionPinnedMutation({ sessionId: sessionId as Id<"sessions">, pinned }))
+  );
+  // A merge whose target was deleted elsewhere is dropped; the source session stays
+  useOutboxHandler("mergeSessions", ({ sessionId, targetSessionId }) =>
+    unlessSessionGone(
+      mergeSessionsMutation({
+        sessionId: sessionId as Id<"sessions">,
+        targetSessionId: targetSessionId as Id<"sessions">,
+      })
+    )
+  );
+  useOutboxHandler("deleteSession", ({ sessionId }) =>
+    unlessSessionGone(deleteSessionMutation({ sessionId: sessionId as Id<"sessions"> }))
+  );
+  useOutboxHandler("moveGeneration", ({ generationId, targetSessionId }) =>
+    unlessSessionGone(
+      moveGenerationMutation({
+        generationId: generationId as Id<"sessionGenerations">,
+        targetSessionId: targetSessionId as Id<"sessions">,
+      })
+    )
+  );
+
+  // Update cache when server data changes
+  useEffect(() => {
+    if (isOnline && convexSessions) {
+      setSessions(convexSessions as CachedSession[]);
+    }
+  }, [isOnline, convexSessions, setSessions]);
+
+  const sessions = useMemo(() => {
+    const base: SessionItem[] = (isOnline ? (convexSessions as CachedSession[] | undefined) : undefined) ?? cachedSessions;
+
+    // Replay queued edits in the order they were made; poisoned ones never applied
+    const edits = [...queuedRenames, ...queuedPins, ...queuedMerges, ...queuedDeletes, ...queuedMoves]
+      .filter((entry) => entry.status !== "poisoned")
+      .sort((a, b) => a.createdAt - b.createdAt);
+    const edited = edits.reduce(applySessionEdit, base);
+
+    const pinned = edited.filter((s) => s.pinnedAt).sort((a, b) => (b.pinnedAt ?? 0) - (a.pinnedAt ?? 0));
+    return [...pinned, ...edited.filter((s) => !s.pinnedAt)];
+  }, [isOnline, convexSessions, cachedSessions, queuedRenames, queuedPins, queuedMerges, queuedDeletes, queuedMoves]);
+
+  const renameSession = useCallback((sessionId: string, title: string) => {
+    const trimmed = title.trim();
+    if (!trimmed) return;
+    enqueueMutation("renameSession", { sessionId, title: trimmed }, SESSION_ORDER_KEY);
+  }, []);
+
+  const setSessionPinned = useCallback((sessionId: string, pinned: boolean) => {
+    enqueueMutation("pinSession", { sessionId, pinned }, SESSION_ORDER_KEY);
+  }, []);
+
+  const mergeSessions = useCallback((sessionId: string, targetSessionId: string) => {
+    if (sessionId === targetSessionId) return;
+    enqueueMutation("mergeSessions", { sessionId, targetSessionId }, SESSION_ORDER_KEY);
+  }, []);
+
+  const deleteSession = useCallback((sessionId: string) => {
+    enqueueMutation("deleteSession", { sessionId }, SESSION_ORDER_KEY);
+  }, []);
+
+  const moveGeneration = useCallback((generationId: string, sessionId: string, targetSessionId: string) => {
+    if (sessionId === targetSessionId) return;
+    enqueueMutation("moveGeneration", { generationId, sessionId, targetSessionId }, SESSION_ORDER_KEY);
+  }, []);
+
+  return {
+    sessions,
+    isLoading: isOnline ? convexSessions === undefined && cachedSessions.length === 0 : false,
+    renameSession,
+    setSessionPinned,
+    mergeSessions,
+    deleteSession,
+    moveGeneration,
+  };
+}
+
+// Generations queued to move out of a session; its feed hides them until the move syncs
+export function useMovedGenerationIds(sessionId: string | undefined): Set<string> {
+  const queuedMoves = useOutboxEntries("moveGeneration");
+  return useMemo(
+    () =>
+      new Set(
+        queuedMoves
+          .filter((entry) => entry.status !== "poisoned" && entry.payload.sessionId === sessionId)
+          .map((entry) => entry.payload.generationId)
+      ),
+    [queuedMoves, sessionId]
+  );
+}
+
+export default useSessions;
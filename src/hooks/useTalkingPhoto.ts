@@ -0,0 +1,302 @@
+/**
+ * Talking Photo Hook
+ * Orchestrates: portrait + audio upload → session generation → submit to the mobile API,
+ * and streams the user's talkingPhotoTasks from Convex for live status.
+ *
+ * The web backend owns the task once it's submitted: it charges the credits, tracks the
+ * KIE task, refunds on failure and writes the finished video into the linked "video"
+ * session generation, so the result lands in Assets even if the app was closed meanwhile.
+ * A submit that gets no answer is handed to the in-flight resume flow, which settles the
+ * row against talkingPhotoTasks (src/lib/inflightGenerations.ts).
+ *
+ * Web endpoint:
+ * - POST /api/mobile/talking-photo { imageUrl, mode, prompt, sessionId, generationId,
+ *   audioUrl } or { ..., voiceId, script } => { success, taskId, creditsCharged, error? }
+ */
+
+import { useState, useCallback, useRef, useEffect } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { useAuth } from "@clerk/clerk-expo";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import { apiRequest, ApiError } from "../lib/api";
+import { createUploadTask, runUploadTask, UploadKind } from "../lib/uploads";
+import { useNetworkStatus } from "../lib/network";
+import {
+  trackInflightGeneration,
+  finishInflightGeneration,
+  handOffInflightGeneration,
+} from "../lib/inflightGenerations";
+import {
+  TalkingPhotoModeId,
+  getTalkingPhotoModeById,
+  MAX_TALKING_PHOTO_IMAGE_DIMENSION,
+} from "../config/talkingPhoto";
+
+// Where the voice track comes from
+export type TalkingPhotoAudioSource =
+  | { type: "recording"; uri: string; durationMs: number }
+  | { type: "upload"; uri: string; durationMs: number; kind: Extract<UploadKind, "audio" | "video"> } // A video's soundtrack is used as-is
+  | { type: "voice"; voiceId: string; script: string }; // Read by a cloned voice on the server
+
+// Talking photo request shape
+export interface TalkingPhotoRequest {
+  imageUri: string; // Local file (uploaded first) or an already hosted URL, e.g. from Assets
+  audio: TalkingPhotoAudioSource;
+  modeId: TalkingPhotoModeId;
+  prompt?: string; // Optional motion / expression hint
+}
+
+// Submission status
+export type TalkingPhotoStatus = "idle" | "uploading" | "creating_session" | "submitting" | "submitted" | "failed";
+
+// Submission result
+export interface TalkingPhotoResult {
+  success: boolean;
+  taskId?: string;
+  generationId?: string;
+  sessionId?: string;
+  error?: string;
+}
+
+// A row of the talkingPhotoTasks table
+export interface TalkingPhotoTask {
+  _id: string;
+  status: "processing" | "completed" | "failed";
+  mode: string; // "pro" or "standard"
+  prompt: string;
+  imageUrl: string;
+  audioUrl: string;
+  videoUrl?: string;
+  creditsCharged: number;
+  creditsRefunded?: boolean;
+  error?: string;
+  sessionId?: string;
+  generationId?: string;
+  createdAt: number;
+  completedAt?: number;
+}
+
+interface SubmitResponse {
+  success: boolean;
+  taskId?: string;
+  creditsCharged?: number;
+  error?: string;
+}
+
+// Recent tasks shown on the Talking Photo screen
+const RECENT_TASK_LIMIT = 20;
+
+function isHostedUrl(uri: string): boolean {
+  return uri.startsWith("https://") || uri.startsWith("http://");
+}
+
+function throwIfCancelled(signal: AbortSignal) {
+  if (signal.aborted) {
+    throw new Error("Talking photo cancelled");
+  }
+}
+
+// Hook state
+interface TalkingPhotoState {
+  status: TalkingPhotoStatus;
+  error: string | null;
+  progress: number; // 0-100 for UI feedback, up to submission
+}
+
+export function useTalkingPhoto() {
+  const { getToken, userId } = useAuth();
+  const { isConnected, isInternetReachable } = useNetworkStatus();
+  const isOnline = isConnected && isInternetReachable !== false;
+  const [state, setState] = useState<TalkingPhotoState>({ status: "idle", error: null, progress: 0 });
+
+  // Abort controller for cancellation
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Live task list - status changes arrive as the backend processes KIE callbacks
+  const convexTasks = useQuery(api.talkingPhoto.getUserTasks, isOnline ? { limit: RECENT_TASK_LIMIT } : "skip");
+  const tasks = (convexTasks ?? []) as TalkingPhotoTask[];
+
+  // Convex mutations
+  const createSession = useMutation(api.sessions.createSession);
+  const addGeneration = useMutation(api.sessions.addGenerationToSession);
+  const updateGeneration = useMutation(api.sessions.updateGeneration);
+
+  // Upload a local file, or pass a hosted URL through
+  const uploadIfNeeded = useCallback(
+    async (
+      uri: string,
+      kind: UploadKind,
+      signal: AbortSignal,
+      onProgress: (progress: number) => void
+    ): Promise<string> => {
+      if (isHostedUrl(uri)) return uri;
+
+      const upload = await runUploadTask(
+        createUploadTask(uri, kind, kind === "image" ? MAX_TALKING_PHOTO_IMAGE_DIMENSION : undefined),
+        { getToken, signal, onUpdate: (task) => onProgress(task.progress) }
+      );
+      if (upload.status !== "completed" || !upload.result) {
+        throw new Error(upload.error || `Failed to upload ${kind}`);
+      }
+      return upload.result.url;
+    },
+    [getToken]
+  );
+
+  // Upload, create the generation and hand the task to the backend
+  const submit = useCallback(
+    async (request: TalkingPhotoRequest): Promise<TalkingPhotoResult> => {
+      const { imageUri, audio, modeId, prompt = "" } = request;
+
+      abortControllerRef.current?.abort();
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+      const { signal } = controller;
+
+      let sessionId: string | undefined;
+      let generationId: Id<"sessionGenerations"> | null = null;
+      let awaitingSubmit = false; // The submit request is out without an answer yet
+      // Idempotency key of the submit, and the in-flight record that covers it
+      const submitKey = `talking_photo_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+
+      setState({ status: "uploading", error: null, progress: 5 });
+
+      try {
+        const mode = getTalkingPhotoModeById(modeId);
+        if (!mode) {
+          throw new Error(`Unknown talking photo mode: ${modeId}`);
+        }
+        const label = `Talking Photo ${mode.label}`;
+
+        // 1. Upload the portrait and, unless a cloned voice reads a script, the voice track
+        const imageUrl = await uploadIfNeeded(imageUri, "image", signal, (progress) =>
+          setState((prev) => ({ ...prev, progress: 5 + progress * 30 }))
+        );
+        let audioUrl: string | undefined;
+        if (audio.type !== "voice") {
+          throwIfCancelled(signal);
+          const kind = audio.type === "recording" ? "audio" : audio.kind;
+          audioUrl = await uploadIfNeeded(audio.uri, kind, signal, (progress) =>
+            setState((prev) => ({ ...prev, progress: 35 + progress * 35 }))
+          );
+        }
+
+        // 2. Create the session and a loading generation - this is what shows up in Assets
+        throwIfCancelled(signal);
+        setState((prev) => ({ ...prev, status: "creating_session", progress: 75 }));
+        sessionId = await createSession({ title: label, type: "video" });
+        generationId = await addGeneration({
+          sessionId: sessionId as Id<"sessions">,
+          prompt: prompt || label,
+          type: "video",
+          model: `talking-photo-${modeId}`,
+          modelLabel: label,
+          sourceImage: imageUrl,
+          isLoading: true,
+        });
+
+        // 3. Submit - the backend charges credits and tracks the task from here
+        throwIfCancelled(signal);
+        setState((prev) => ({ ...prev, status: "submitting", progress: 90 }));
+        // If the app dies mid-submit, the resume flow settles the row on the next launch
+        trackInflightGeneration({
+          id: submitKey,
+          kind: "talkingPhoto",
+          userId: userId ?? null,
+          modelId: `talking-photo-${modeId}`,
+          creditAmount: 0,
+          generationId: generationId ?? undefined,
+          sessionId,
+        });
+        awaitingSubmit = true;
+        const response = await apiRequest<SubmitResponse>("/api/mobile/talking-photo", {
+          method: "POST",
+          body: {
+            imageUrl,
+            mode: modeId,
+            prompt,
+            sessionId,
+            generationId,
+            ...(audio.type === "voice" ? { voiceId: audio.voiceId, script: audio.script } : { audioUrl }),
+          },
+          getToken,
+          signal,
+          idempotencyKey: submitKey,
+        });
+        awaitingSubmit = false;
+        finishInflightGeneration(submitKey);
+        if (!response.success || !response.taskId) {
+          throw new Error(response.error || "Failed to start talking photo");
+        }
+
+        setState({ status: "submitted", error: null, progress: 100 });
+
+        return { success: true, taskId: response.taskId, generationId: generationId ?? undefined, sessionId };
+      } catch (error) {
+        const cancelled = signal.aborted;
+        const errorMessage = cancelled
+          ? "Cancelled"
+          : error instanceof Error
+            ? error.message
+            : "Talking photo failed";
+
+        console.error("Talking photo error:", error);
+
+        // The backend charges once it accepts the task. Before submitting, when it answered with a
+        // rejection, or when the user cancelled, the row is closed out here. A network error or timeout
+        // mid-submit may still have started the task - the resume flow checks talkingPhotoTasks for it.
+        const submitOutcomeUnknown =
+          awaitingSubmit && !cancelled && !(error instanceof ApiError && error.status > 0);
+        if (submitOutcomeUnknown) {
+          handOffInflightGeneration(submitKey);
+        } else {
+          if (generationId) {
+            try {
+              await updateGeneration({ generationId, isLoading: false, error: errorMessage });
+            } catch (cleanupError) {
+              console.error("Cleanup error:", cleanupError);
+            }
+          }
+          finishInflightGeneration(submitKey);
+        }
+
+        setState({ status: cancelled ? "idle" : "failed", error: cancelled ? null : errorMessage, progress: 0 });
+
+        return { success: false, error: errorMessage, generationId: generationId ?? undefined, sessionId };
+      } finally {
+        if (abortControllerRef.current === controller) {
+          abortControllerRef.current = null;
+        }
+      }
+    },
+    [uploadIfNeeded, createSession, addGeneration, updateGeneration, getToken, userId]
+  );
+
+  // Cancel an upload / submission in progress; submitted tasks keep running on the server
+  const cancel = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
+  // Reset state
+  const reset = useCallback(() => {
+    setState({ status: "idle", error: null, progress: 0 });
+  }, []);
+
+  // Abort on unmount
+  useEffect(() => {
+    return () => {
+      abortControllerRef.current?.abort();
+    };
+  }, []);
+
+  return {
+    ...state,
+    isSubmitting: state.status === "uploading" || state.status === "creating_session" || state.status === "submitting",
+    tasks,
+    isLoadingTasks: isOnline && convexTasks === undefined,
+    submit,
+    cancel,
+    reset,
+  };
+}
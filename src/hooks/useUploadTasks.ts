@@ -0,0 +1,86 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useAuth } from "@clerk/clerk-expo";
+import { createUploadTask, isUploadActive, runUploadTask, uploadTasks, UploadKind, UploadTask } from "../lib/uploads";
+
+/**
+ * useUploadTasks - Per-file upload state for attachment pickers
+ *
+ * Tasks are keyed by the attachment's local URI so thumbnails can bind to
+ * getTask(uri) for progress and failure. Completed uploads are reused on the
+ * next upload() call, so a retry after a partial failure only re-sends the
+ * files that failed.
+ */
+export function useUploadTasks() {
+  const { getToken } = useAuth();
+  const [tasks, setTasks] = useState<Record<string, UploadTask>>({});
+  const tasksRef = useRef(tasks);
+  tasksRef.current = tasks;
+
+  // Cancel in-flight uploads when the screen unmounts
+  const controllerRef = useRef(new AbortController());
+  useEffect(() => {
+    const controller = controllerRef.current;
+    return () => controller.abort();
+  }, []);
+
+  const setTask = useCallback((task: UploadTask) => {
+    // Ignore updates for attachments that were removed mid-upload
+    if (tasksRef.current[task.localUri]?.id !== task.id) return;
+    tasksRef.current = { ...tasksRef.current, [task.localUri]: task };
+    setTasks(tasksRef.current);
+  }, []);
+
+  // Upload the given files; resolves with one task per URI (input order), failures included
+  const upload = useCallback(
+    async (localUris: string[], options: { kind: UploadKind; maxDimension?: number }): Promise<UploadTask[]> => {
+      const pending: UploadTask[] = [];
+      const next = { ...tasksRef.current };
+
+      for (const uri of localUris) {
+        const existing = next[uri];
+        if (existing?.status === "completed" && existing.maxDimension === options.maxDimension) continue;
+        next[uri] = createUploadTask(uri, options.kind, options.maxDimension);
+        pending.push(next[uri]);
+      }
+      tasksRef.current = next;
+      setTasks(next);
+
+      const results = await uploadTasks(pending, {
+        getToken,
+        signal: controllerRef.current.signal,
+        onUpdate: setTask,
+      });
+      const byUri = Object.fromEntries(results.map((task) => [task.localUri, task]));
+      return localUris.map((uri) => byUri[uri] ?? tasksRef.current[uri]);
+    },
+    [getToken, setTask]
+  );
+
+  // Retry one failed file, resuming from whatever it already uploaded
+  const retry = useCallback(
+    async (localUri: string): Promise<UploadTask | null> => {
+      const task = tasksRef.current[localUri];
+      if (!task || task.status !== "failed") return null;
+      return runUploadTask(task, { getToken, signal: controllerRef.current.signal, onUpdate: setTask });
+    },
+    [getToken, setTask]
+  );
+
+  const remove = useCallback((localUri: string) => {
+    const next = { ...tasksRef.current };
+    delete next[localUri];
+    tasksRef.current = next;
+    setTasks(next);
+  }, []);
+
+  const reset = useCallback(() => {
+    tasksRef.current = {};
+    setTasks({});
+  }, []);
+
+  const getTask = useCallback((localUri: string): UploadTask | undefined => tasks[localUri], [tasks]);
+
+  const isUploading = useMemo(() => Object.values(tasks).some(isUploadActive), [tasks]);
+
+  return { tasks, getTask, upload, retry, remove, reset, isUploading };
+}
@@ -12,6 +12,15 @@ import { api } from "../../convex/_generated/api";
 import { Id } from "../../convex/_generated/dataModel";
 import { apiRequest } from "../lib/api";
 import { withGenerationSlotLock } from "../lib/generationSlotQueue";
+import { isFatalVideoPollError, backupVideoOutputs } from "../lib/generationOutputs";
+import { VideoPollHandle, VideoProviderRequest, getVideoProviderAdapter } from "../lib/videoProviders";
+import {
+  trackInflightGeneration,
+  updateInflightGeneration,
+  finishInflightGeneration,
+  releaseInflightGeneration,
+} from "../lib/inflightGenerations";
+import { parseSlotResult, getCreditReserveError } from "./useImageGeneration";
 import {
   VideoModelId,
   VideoAspectRatio,
@@ -25,51 +34,6 @@ import {
 } from "../config/videoModels";
 
 
-// Mobile API endpoint routing based on model ID
-// POST goes to mobile endpoint (no Turnstile), STATUS goes to web endpoint (already works)
-function getMobileVideoEndpoint(modelId: VideoModelId): { endpoint: string; statusEndpoint: string } {
-  
-  // KIE Sora 2
-  if (modelId === "kie-sora-2") {
-    return {
-      endpoint: "/api/mobile/kie-sora-2",
-      statusEndpoint: "/api/kie-sora-2/status", // Web status endpoint
-    };
-  }
-
-  // KIE Wan 2.5
-  if (modelId === "kie-wan-2.5") {
-    return {
-      endpoint: "/api/mobile/kie-wan-2.5",
-      statusEndpoint: "/api/kie-wan-2.5/status", // Web status endpoint
-    };
-  }
-
-  // KIE Seedance 1.5 Pro models
-  if (modelId === "kie-seedance-1.5-pro") {
-    return {
-      endpoint: "/api/mobile/kie-seedance-1.5-pro",
-      statusEndpoint: "/api/kie-seedance-1.5-pro/status", // Web status endpoint
-    };
-  }
-
-
-  // Pixverse Models (uses FAL under the hood)
-  if (modelId === "pixverse-v5") {
-    return {
-      endpoint: "/api/mobile/pixverse-video",
-      statusEndpoint: "/api/fal-generate-videos/status", // Unified FAL status endpoint
-    };
-  }
-
-  // FAL Models (Veo, Kling 2.6/O1, Lucy, Hailuo, etc.)
-  // Use mobile POST, but WEB status endpoint (like images do)
-  return {
-    endpoint: "/api/mobile/generate-video",
-    statusEndpoint: "/api/fal-generate-videos/status", // WEB status endpoint - works!
-  };
-}
-
 // Storage keys for persisting settings
 const STORAGE_KEYS = {
   MODEL_ID: "@video_gen_model_id",
@@ -81,21 +45,7 @@ const STORAGE_KEYS = {
 };
 
 // Generation request shape
-export interface VideoGenerationRequest {
-  prompt: string;
-  modelId: VideoModelId;
-  aspectRatio: VideoAspectRatio;
-  duration: VideoDuration;
-  resolution?: VideoResolution;
-  generateAudio?: boolean;
-  fastMode?: boolean;
-  removeWatermark?: boolean;
-  cameraFixed?: boolean;
-  // Attachments
-  attachmentImageUrl?: string; // Single image for I2V
-  startFrameImageUrl?: string; // For transitions
-  endFrameImageUrl?: string; // For transitions
-  klingO1Images?: Array<{ url: string }>; // For Kling O1 reference mode
+export interface VideoGenerationRequest extends VideoProviderRequest {
   sessionId?: string;
   onSessionId?: (sessionId: string) => void;
 }
@@ -121,36 +71,6 @@ export interface VideoGenerationResult {
   sessionId?: string;
 }
 
-// API response types
-interface GenerateVideoResponse {
-  success?: boolean;
-  queued?: boolean;
-  processing?: boolean;
-  requestId?: string;
-  request_id?: string; // snake_case version
-  taskId?: string; // KIE endpoints return taskId
-  task_id?: string; // snake_case version
-  recordId?: string; // KIE endpoints also return recordId
-  operationName?: string;
-  operation_name?: string; // snake_case version
-  endpoint?: string; // FAL returns endpoint
-  videos?: Array<{ url: string }>;
-  error?: string;
-  modelId?: string;
-  provider?: string;
-}
-
-interface VideoStatusResponse {
-  success?: boolean;
-  queued?: boolean;
-  processing?: boolean;
-  status?: string;
-  videos?: Array<string | { url: string }>; // Can be string[] or {url}[]
-  video?: string | { url: string }; // KIE may return single video
-  videoUrl?: string; // KIE may return videoUrl directly
-  error?: string;
-}
-
 // Hook state
 interface VideoGenerationState {
   status: VideoGenerationStatus;
@@ -159,8 +79,23 @@ interface VideoGenerationState {
   progress: number; // 0-100 for UI feedback
 }
 
+// setTimeout that rejects as soon as the generation is cancelled
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timeout = setTimeout(() => {
+      signal.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timeout);
+      reject(new Error("Video generation cancelled"));
+    };
+    signal.addEventListener("abort", onAbort);
+  });
+}
+
 export function useVideoGeneration() {
-  const { getToken } = useAuth();
+  const { getToken, userId } = useAuth();
   const [state, setState] = useState<VideoGenerationState>({
     status: "idle",
     error: null,
@@ -180,7 +115,6 @@ export function useVideoGeneration() {
 
   // Abort controller for cancellation
   const abortControllerRef = useRef<AbortController | null>(null);
-  const pollingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
   // Convex mutations
   const acquireSlot = useMutation(api.generations.acquireGenerationSlot);
@@ -243,77 +177,39 @@ export function useVideoGeneration() {
   // Poll for queued video generation status
   const pollStatus = useCallback(
     async (
-      requestId: string,
       modelId: VideoModelId,
-      falEndpoint?: string // FAL endpoint for status lookup
+      handle: VideoPollHandle,
+      signal: AbortSignal
     ): Promise<{ success: boolean; videos?: Array<{ url: string }>; error?: string }> => {
+      const adapter = getVideoProviderAdapter(modelId);
       let attempts = 0;
       let delay = VIDEO_POLLING_CONFIG.initialDelay;
-      const { statusEndpoint } = getMobileVideoEndpoint(modelId);
 
       while (attempts < VIDEO_POLLING_CONFIG.maxAttempts) {
-        if (abortControllerRef.current?.signal.aborted) {
-          throw new Error("Video generation cancelled");
-        }
-
-        await new Promise((resolve) => {
-          pollingTimeoutRef.current = setTimeout(resolve, delay);
-        });
+        // A cancel rejects the wait, so the generation runs its normal failure cleanup
+        await sleep(delay, signal);
 
         try {
-          // Determine correct query param based on model/endpoint
-          const isKieModel = modelId.startsWith("kie-");
-          
-          let queryParam: string;
-          if (isKieModel) {
-            queryParam = "taskId";
-          } else {
-            queryParam = "requestId";
-          }
-          
-          // Build query string - include endpoint for FAL models
-          let queryString = `${queryParam}=${encodeURIComponent(requestId)}&modelId=${encodeURIComponent(modelId)}`;
-          if (falEndpoint) {
-            queryString += `&endpoint=${encodeURIComponent(falEndpoint)}`;
-          }
-          
-          // Refresh token on each poll to avoid expiry (Clerk tokens are ~60s)
-          const freshToken = await getToken();
-          if (!freshToken) {
-            throw new Error("Authentication expired during polling");
-          }
-          
-          console.log(`[useVideoGeneration] Polling ${statusEndpoint}?${queryString}`);
-          
-          const response = await apiRequest<VideoStatusResponse>(
-            `${statusEndpoint}?${queryString}`,
-            {
-              method: "GET",
-              token: freshToken,
-            }
-          );
+          const statusPath = adapter.getStatusPath(modelId, handle);
+          console.log(`[useVideoGeneration] Polling ${statusPath}`);
+
+          const response = await apiRequest<unknown>(statusPath, {
+            method: "GET",
+            // Long polls outlive the JWT (Clerk tokens are ~60s) - fetched and refreshed per request
+            getToken,
+            signal,
+          });
 
           console.log("[useVideoGeneration] Poll response:", JSON.stringify(response));
 
-          // Handle different video response formats - normalize to string[]
-          let videoUrls: string[] | undefined;
-          if (response.videos) {
-            // videos could be string[] or {url: string}[]
-            videoUrls = response.videos.map((v: string | { url: string }) => 
-              typeof v === 'string' ? v : v.url
-            );
-          } else if (response.video) {
-            videoUrls = [typeof response.video === 'string' ? response.video : response.video.url];
-          } else if (response.videoUrl) {
-            videoUrls = [response.videoUrl];
-          }
+          const result = adapter.parseStatusResponse(modelId, response);
 
-          if (response.success && videoUrls) {
-            return { success: true, videos: videoUrls.map(url => ({ url })) };
+          if (result.state === "completed") {
+            return { success: true, videos: result.videos.map(url => ({ url })) };
           }
 
-          if (response.error) {
-            return { success: false, error: response.error };
+          if (result.state === "failed") {
+            return { success: false, error: result.error };
           }
 
           // Still processing, continue polling
@@ -322,22 +218,13 @@ export function useVideoGeneration() {
             progress: Math.min(90, 20 + (attempts / VIDEO_POLLING_CONFIG.maxAttempts) * 70),
           }));
         } catch (error) {
+          if (signal.aborted) {
+            throw new Error("Video generation cancelled");
+          }
           const errorMessage = error instanceof Error ? error.message : String(error);
           console.error("Video polling error:", errorMessage);
-          
-          // Check if this is a fatal error (4xx with failure message) vs transient (network/5xx)
-          const isFatalError = 
-            errorMessage.includes("failed") ||
-            errorMessage.includes("error") ||
-            errorMessage.includes("policy") ||
-            errorMessage.includes("flagged") ||
-            errorMessage.includes("violation") ||
-            errorMessage.includes("(4") || // 4xx status codes
-            errorMessage.includes("422") ||
-            errorMessage.includes("400") ||
-            errorMessage.includes("403");
-          
-          if (isFatalError) {
+
+          if (isFatalVideoPollError(error)) {
             // Fatal error - stop polling and return failure
             return { success: false, error: errorMessage };
           }
@@ -350,7 +237,7 @@ export function useVideoGeneration() {
 
       return { success: false, error: "Video generation timed out" };
     },
-    []
+    [getToken]
   );
 
   // Main video generation function
@@ -365,7 +252,6 @@ export function useVideoGeneration() {
         generateAudio,
         fastMode,
         removeWatermark,
-        cameraFixed,
         attachmentImageUrl,
         startFrameImageUrl,
         endFrameImageUrl,
@@ -375,7 +261,9 @@ export function useVideoGeneration() {
       } = request;
 
       // Reset state
-      abortControllerRef.current = new AbortController();
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+      const inflightId = `video_${Date.now()}`;
       setState({
         status: "acquiring_slot",
         error: null,
@@ -387,6 +275,7 @@ export function useVideoGeneration() {
       let creditAmount = 0;
       let sessionId = existingSessionId;
       let generationId: Id<"sessionGenerations"> | null = null;
+      let resultUrls: string[] | null = null; // Set once the provider has delivered
 
       try {
         // Validate model and attachments
@@ -408,43 +297,20 @@ export function useVideoGeneration() {
 
         // 1. Acquire generation slot
         setState((prev) => ({ ...prev, status: "acquiring_slot", progress: 10 }));
-        const slotResult = await withGenerationSlotLock(() =>
-          acquireSlot({ type: "video", prompt } as any)
-        );
+        const slotResult = await withGenerationSlotLock(() => acquireSlot({ type: "video", prompt }));
         console.log("[useVideoGeneration] acquireSlot result:", JSON.stringify(slotResult));
-
-        // Handle both response formats
-        if (!slotResult) {
-          throw new Error("Failed to acquire generation slot - no result");
-        }
-
-        // New response format: { ok: boolean, reason?: 'limit_reached', limit, active, generationId }
-        if (typeof slotResult === "object" && slotResult !== null && "ok" in slotResult) {
-          const result: any = slotResult;
-          if (result.ok === false) {
-            if (result.reason === "limit_reached") {
-              throw new Error(
-                `Concurrent generation limit reached (${result.active}/${result.limit}). Please wait or upgrade your plan.`
-              );
-            }
-            throw new Error(result.message || "Failed to acquire generation slot");
-          }
-          if (!result.generationId) {
-            throw new Error("Failed to acquire generation slot - missing generationId");
-          }
-          slotId = result.generationId as Id<"generations">;
-        } else if (typeof slotResult === "string") {
-          slotId = slotResult as Id<"generations">;
-        } else if (typeof slotResult === "object") {
-          if ("success" in slotResult && slotResult.success === false) {
-            throw new Error((slotResult as any).message || "Failed to acquire generation slot");
-          }
-          slotId = (slotResult as any).generationId ?? (slotResult as any)._id ?? slotResult;
-        } else {
-          throw new Error(`Unexpected slot result type: ${typeof slotResult}`);
-        }
+        slotId = parseSlotResult(slotResult);
 
         console.log("[useVideoGeneration] slotId:", slotId);
+        // Persist until finalized so a killed app can resume it on next launch
+        trackInflightGeneration({
+          id: inflightId,
+          kind: "video",
+          userId: userId ?? null,
+          modelId,
+          slotId,
+          creditAmount: 0,
+        });
 
         // 2. Reserve credits
         setState((prev) => ({ ...prev, status: "reserving_credits", progress: 15 }));
@@ -455,14 +321,12 @@ export function useVideoGeneration() {
           fastMode,
           removeWatermark,
         });
-        const creditResult = await reserveCredits({ amount: creditAmount });
-        if (typeof creditResult === "object" && creditResult !== null && "success" in creditResult) {
-          if (!creditResult.success) {
-            throw new Error((creditResult as any).message || "Insufficient credits");
-          }
-        } else if (!creditResult) {
-          throw new Error("Insufficient credits");
+        const creditError = getCreditReserveError(await reserveCredits({ amount: creditAmount }));
+        if (creditError) {
+          creditAmount = 0;
+          throw new Error(creditError);
         }
+        updateInflightGeneration(inflightId, { creditAmount });
 
         // 3. Create or use session
         setState((prev) => ({ ...prev, status: "creating_session", progress: 20 }));
@@ -489,157 +353,77 @@ export function useVideoGeneration() {
           concurrencySlotId: slotId,
         });
         generationId = genResult;
+        updateInflightGeneration(inflightId, { generationId: genResult, sessionId });
 
-        // 5. Get auth token
-        const token = await getToken();
-        console.log("[useVideoGeneration] Got token:", token ? `${token.substring(0, 20)}...` : "null");
-        if (!token) {
+        // 5. Check auth - apiRequest fetches (and refreshes) a token per request via getToken
+        if (!(await getToken())) {
           throw new Error("Authentication required");
         }
 
-        // 6. Call video generation API - route to correct endpoint based on model
-        const { endpoint } = getMobileVideoEndpoint(modelId);
+        // 6. Call video generation API - the provider adapter owns route and payload
+        const adapter = getVideoProviderAdapter(modelId);
+        const { submitEndpoint } = adapter.getRoute(modelId);
         setState((prev) => ({ ...prev, status: "generating", progress: 25 }));
-        console.log("[useVideoGeneration] Calling API:", endpoint);
-
-        const apiPayload: Record<string, unknown> = {
-          prompt,
-          model: modelId, // Backend handles model ID mapping
-          aspectRatio,
-          duration: Number(duration), // Ensure it's a number, not a string
-        };
-
-        if (resolution) apiPayload.resolution = resolution;
-        if (generateAudio !== undefined) apiPayload.generateAudio = generateAudio;
-        if (fastMode !== undefined) apiPayload.fastMode = fastMode;
-        if (removeWatermark !== undefined) apiPayload.removeWatermark = removeWatermark;
-        if (cameraFixed !== undefined) apiPayload.cameraFixed = cameraFixed;
-        
-        // Handle image attachments - use imageUrl for KIE routes, attachmentImageUrl for FAL
-        if (attachmentImageUrl) {
-          apiPayload.imageUrl = attachmentImageUrl;
-          apiPayload.attachmentImageUrl = attachmentImageUrl;
-        }
-        if (startFrameImageUrl) {
-          apiPayload.startFrameImageUrl = startFrameImageUrl;
-          apiPayload.startImageUrl = startFrameImageUrl;
-        }
-        if (endFrameImageUrl) {
-          apiPayload.endFrameImageUrl = endFrameImageUrl;
-          apiPayload.endImageUrl = endFrameImageUrl;
-        }
-        if (klingO1Images) apiPayload.klingO1Images = klingO1Images;
+        console.log("[useVideoGeneration] Calling API:", submitEndpoint);
 
-        const response = await apiRequest<GenerateVideoResponse>(
-          endpoint,
+        const response = await apiRequest<unknown>(
+          submitEndpoint,
           {
             method: "POST",
-            body: apiPayload,
-            token,
+            body: adapter.buildPayload(request),
+            getToken,
+            signal: abortControllerRef.current?.signal,
+            timeoutMs: VIDEO_POLLING_CONFIG.timeout, // Non-queued models answer with the finished video
           }
         );
 
         console.log("[useVideoGeneration] API response:", JSON.stringify(response));
 
         let finalVideos: Array<{ url: string }> = [];
-
-        // Check if this is a queued/async generation
-        // FAL returns: { queued: true, requestId: "..." }
-        // KIE returns: { taskId: "..." }
-        // Handle both camelCase and snake_case field names
-        const pollId = response.requestId || response.request_id || 
-                       response.taskId || response.task_id || 
-                       response.operationName || response.operation_name ||
-                       response.endpoint; // FAL uses endpoint as the request registry key
-        const isQueued = response.queued || response.processing || !!response.taskId || !!response.task_id || !!pollId;
-        
-        console.log("[useVideoGeneration] pollId:", pollId, "isQueued:", isQueued);
-        
-        if (isQueued && pollId) {
-          // Queued model - poll for result
-          const falEndpoint = response.endpoint; // FAL returns endpoint for status lookup
-          console.log("[useVideoGeneration] Queued generation, polling with ID:", pollId, "endpoint:", falEndpoint);
+        const submitResult = adapter.parseSubmitResponse(modelId, response);
+
+        if (submitResult.state === "queued") {
+          // 7. Queued model - poll for result
+          const { handle } = submitResult;
+          console.log(
+            "[useVideoGeneration] Queued generation, polling with ID:",
+            handle.requestId,
+            "endpoint:",
+            handle.endpoint
+          );
           setState((prev) => ({
             ...prev,
             status: "polling",
-            currentRequestId: pollId,
+            currentRequestId: handle.requestId,
             progress: 30,
           }));
+          updateInflightGeneration(inflightId, { requestId: handle.requestId, endpoint: handle.endpoint });
 
-          const pollResult = await pollStatus(pollId, modelId, falEndpoint);
+          const pollResult = await pollStatus(modelId, handle, controller.signal);
 
           if (!pollResult.success || !pollResult.videos) {
             throw new Error(pollResult.error || "Video generation failed");
           }
 
           finalVideos = pollResult.videos;
-        } else if (response.success && response.videos) {
+        } else if (submitResult.state === "completed") {
           // Immediate result
-          finalVideos = response.videos;
+          finalVideos = submitResult.videos.map(url => ({ url }));
         } else {
-          throw new Error(response.error || "Video generation failed");
+          throw new Error(submitResult.state === "failed" ? submitResult.error : "Video generation failed");
         }
 
+        resultUrls = finalVideos.map(v => v.url);
+
         // 8. Update generation in Convex - Convex expects videos as string[]
         setState((prev) => ({ ...prev, status: "completing", progress: 95 }));
-        let videoUrlStrings = finalVideos.map(v => v.url);
-        console.log("[useVideoGeneration] Saving videos to Convex:", videoUrlStrings);
-        
-        // 8a. Backup videos to R2 and extract first frame (async, non-blocking)
-        let previewImageUrl: string | undefined;
-        try {
-          // Backup first video to R2
-          const tempVideoUrl = videoUrlStrings[0];
-          if (tempVideoUrl && tempVideoUrl.includes("tempfile.aiquickdraw.com")) {
-            console.log("[useVideoGeneration] Backing up video to R2...");
-            
-            // Get presigned upload URL
-            const presignResponse = await apiRequest<{
-              success: boolean;
-              uploadUrl: string;
-              url: string;
-              key: string;
-            }>("/api/mobile/upload-video-presign", {
-              method: "POST",
-              body: { contentType: "video/mp4", fileName: "video.mp4" },
-              token,
-            });
-
-            if (presignResponse.success && presignResponse.uploadUrl) {
-              // Download temp video and upload to R2
-              const videoResponse = await fetch(tempVideoUrl);
-              const videoBlob = await videoResponse.blob();
-              
-              await fetch(presignResponse.uploadUrl, {
-                method: "PUT",
-                body: videoBlob,
-                headers: { "Content-Type": "video/mp4" },
-              });
-              
-              console.log("[useVideoGeneration] Video backed up to:", presignResponse.url);
-              videoUrlStrings = [presignResponse.url]; // Replace temp URL with permanent
-            }
-          }
+        console.log("[useVideoGeneration] Saving videos to Convex:", finalVideos.map(v => v.url));
 
-          // Extract first frame for preview
-          console.log("[useVideoGeneration] Extracting first frame...");
-          const frameResponse = await apiRequest<{
-            success: boolean;
-            url: string;
-          }>("/api/mobile/extract-first-frame", {
-            method: "POST",
-            body: { videoUrl: videoUrlStrings[0] },
-            token,
-          });
-
-          if (frameResponse.success && frameResponse.url) {
-            previewImageUrl = frameResponse.url;
-            console.log("[useVideoGeneration] First frame extracted:", previewImageUrl);
-          }
-        } catch (backupError) {
-          console.warn("[useVideoGeneration] Backup/frame extraction failed (non-fatal):", backupError);
-          // Continue with temp URLs - this is non-fatal
-        }
+        // 8a. Backup videos to R2 and extract first frame (async, non-blocking)
+        const { videoUrls: videoUrlStrings, previewImageUrl } = await backupVideoOutputs(
+          finalVideos.map(v => v.url),
+          getToken
+        );
 
         await updateGeneration({
           generationId: generationId,
@@ -651,11 +435,14 @@ export function useVideoGeneration() {
 
         // 9. Capture credits and complete slot
         await captureCredits({ amount: creditAmount });
+        creditAmount = 0;
+        updateInflightGeneration(inflightId, { creditAmount: 0 });
         await updateSlotStatus({
           generationId: slotId,
           status: "completed",
           videoUrl: videoUrlStrings[0],
         });
+        finishInflightGeneration(inflightId);
 
         setState({
           status: "completed",
@@ -671,37 +458,61 @@ export function useVideoGeneration() {
           sessionId,
         };
       } catch (error) {
-        const errorMessage =
-          error instanceof Error ? error.message : "Video generation failed";
+        const cancelled = controller.signal.aborted;
+        const errorMessage = cancelled
+          ? "Cancelled"
+          : error instanceof Error
+            ? error.message
+            : "Video generation failed";
 
         console.error("Video generation error:", error);
 
-        // Cleanup on failure
-        try {
-          if (generationId) {
-            await updateGeneration({
-              generationId,
-              isLoading: false,
-              error: errorMessage,
+        if (resultUrls) {
+          // The videos exist - never fail the row or refund; the resume flow saves them
+          // and captures whatever is still reserved, so only free the slot here
+          releaseInflightGeneration(inflightId, { success: true, urls: resultUrls });
+          try {
+            await updateSlotStatus({
+              generationId: slotId,
+              status: "completed",
+              videoUrl: resultUrls[0],
             });
+          } catch (cleanupError) {
+            console.error("Cleanup error:", cleanupError);
           }
+        } else {
+          // Cleanup on failure
+          try {
+            if (generationId) {
+              await updateGeneration({
+                generationId,
+                isLoading: false,
+                error: errorMessage,
+              });
+            }
 
-          if (creditAmount > 0) {
-            await releaseCredits({ amount: creditAmount });
-          }
+            if (creditAmount > 0) {
+              await releaseCredits({ amount: creditAmount });
+              creditAmount = 0;
+              updateInflightGeneration(inflightId, { creditAmount: 0 });
+            }
 
-          if (slotId) {
-            await updateSlotStatus({
-              generationId: slotId,
-              status: "failed",
-            });
+            if (slotId) {
+              await updateSlotStatus({
+                generationId: slotId,
+                status: "failed",
+              });
+            }
+            finishInflightGeneration(inflightId);
+          } catch (cleanupError) {
+            console.error("Cleanup error:", cleanupError);
+            // Let the resume flow finish the cleanup once we're back online
+            releaseInflightGeneration(inflightId, { success: false, error: errorMessage });
           }
-        } catch (cleanupError) {
-          console.error("Cleanup error:", cleanupError);
         }
 
         setState({
-          status: "failed",
+          status: cancelled ? "idle" : "failed",
           error: errorMessage,
           currentRequestId: null,
           progress: 0,
@@ -720,6 +531,7 @@ export function useVideoGeneration() {
       releaseCredits,
       updateSlotStatus,
       getToken,
+      userId,
       pollStatus,
     ]
   );
@@ -727,9 +539,6 @@ export function useVideoGeneration() {
   // Cancel ongoing generation
   const cancel = useCallback(() => {
     abortControllerRef.current?.abort();
-    if (pollingTimeoutRef.current) {
-      clearTimeout(pollingTimeoutRef.current);
-    }
     setState((prev) => ({
       ...prev,
       status: "idle",
@@ -753,9 +562,6 @@ export function useVideoGeneration() {
   useEffect(() => {
     return () => {
       abortControllerRef.current?.abort();
-      if (pollingTimeoutRef.current) {
-        clearTimeout(pollingTimeoutRef.current);
-      }
     };
   }, []);
 
@@ -1,21 +1,173 @@
+/**
+ * API Client
+ * Thin fetch wrapper for the web backend with per-call timeouts, AbortSignal
+ * passthrough, idempotency keys on POSTs and jittered retries for 429/5xx and
+ * network failures. Failures are thrown as ApiError so callers can branch on
+ * status/code/retryable instead of matching message strings.
+ *
+ * Pass getToken (Clerk's useAuth().getToken) instead of a static token for calls
+ * that may outlive the JWT: a token is fetched per attempt and a 401 is replayed
+ * once with a force-refreshed token.
+ */
+
 import Constants from "expo-constants";
 
 const apiBaseUrl =
   process.env.EXPO_PUBLIC_API_BASE_URL ||
   Constants.expoConfig?.extra?.apiBaseUrl;
 
+const DEFAULT_TIMEOUT = 30000; // 30 seconds
+const DEFAULT_RETRIES = 2;
+const RETRY_BASE_DELAY = 500;
+const RETRY_MAX_DELAY = 8000;
+
+export type ApiErrorCode = "network_error" | "timeout" | "aborted" | "http_error" | (string & {});
+
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    public status: number, // 0 when no response was received
+    public code: ApiErrorCode, // Server-provided code when the body has one
+    public retryable: boolean,
+    public body?: unknown
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+// Compatible with Clerk's getToken; skipCache forces a fresh JWT
+export type TokenProvider = (options?: { skipCache?: boolean }) => Promise<string | null>;
+
 interface ApiRequestOptions {
   method?: "GET" | "POST" | "PUT" | "DELETE" | "PATCH";
   body?: Record<string, unknown>;
   headers?: Record<string, string>;
-  token?: string | null;
+  token?: string | null; // Static token; prefer getToken for long-lived flows
+  getToken?: TokenProvider;
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  retries?: number; // Extra attempts for retryable failures
+  idempotencyKey?: string | false; // POSTs get a generated key unless false
+}
+
+function createIdempotencyKey(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+// Exponential backoff with full jitter; Retry-After (seconds) wins when the server sends it
+function getRetryDelay(attempt: number, retryAfter?: string | null): number {
+  const retryAfterSeconds = retryAfter ? Number(retryAfter) : NaN;
+  if (Number.isFinite(retryAfterSeconds) && retryAfterSeconds >= 0) {
+    return Math.min(retryAfterSeconds * 1000, RETRY_MAX_DELAY);
+  }
+  const ceiling = Math.min(RETRY_BASE_DELAY * 2 ** attempt, RETRY_MAX_DELAY);
+  return Math.random() * ceiling;
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timeout);
+      reject(new ApiError("Request aborted", 0, "aborted", false));
+    };
+    signal?.addEventListener("abort", onAbort);
+  });
+}
+
+// Build an ApiError from a non-2xx response, keeping the server's message and code when present
+async function toApiError(response: Response): Promise<ApiError> {
+  const errorText = await response.text().catch(() => "");
+  let body: unknown = errorText;
+  let code: string = "http_error";
+
+  try {
+    body = JSON.parse(errorText);
+    if (typeof body === "object" && body !== null && "code" in body && typeof body.code === "string") {
+      code = body.code;
+    }
+  } catch {
+    // Not JSON - keep the raw text
+  }
+
+  return new ApiError(
+    `API Error (${response.status}): ${errorText}`,
+    response.status,
+    code,
+    isRetryableStatus(response.status),
+    body
+  );
+}
+
+type AttemptResult<T> = { ok: true; data: T } | { ok: false; error: ApiError; retryAfter: string | null };
+
+// Single attempt with its own timeout, cancelled early when the caller's signal aborts.
+// The timeout and the abort cover reading the body too, not just the headers.
+async function attemptRequest<T>(
+  url: string,
+  init: RequestInit,
+  timeoutMs: number,
+  signal?: AbortSignal
+): Promise<AttemptResult<T>> {
+  if (signal?.aborted) {
+    throw new ApiError("Request aborted", 0, "aborted", false);
+  }
+
+  const controller = new AbortController();
+  let timedOut = false;
+  const timeout = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener("abort", onAbort);
+
+  try {
+    const response = await fetch(url, { ...init, signal: controller.signal });
+    if (!response.ok) {
+      return { ok: false, error: await toApiError(response), retryAfter: response.headers.get("Retry-After") };
+    }
+    return { ok: true, data: await response.json() };
+  } catch (error) {
+    // Malformed JSON is not worth retrying
+    if (error instanceof SyntaxError && !controller.signal.aborted) throw error;
+    if (timedOut) {
+      throw new ApiError(`Request timed out after ${timeoutMs}ms`, 0, "timeout", true);
+    }
+    if (signal?.aborted) {
+      throw new ApiError("Request aborted", 0, "aborted", false);
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    throw new ApiError(`Network error: ${message}`, 0, "network_error", true);
+  } finally {
+    clearTimeout(timeout);
+    signal?.removeEventListener("abort", onAbort);
+  }
 }
 
 export async function apiRequest<T>(
   endpoint: string,
   options: ApiRequestOptions = {}
 ): Promise<T> {
-  const { method = "GET", body, headers = {}, token } = options;
+  const {
+    method = "GET",
+    body,
+    headers = {},
+    token,
+    getToken,
+    signal,
+    timeoutMs = DEFAULT_TIMEOUT,
+    retries = DEFAULT_RETRIES,
+    idempotencyKey,
+  } = options;
 
   if (!apiBaseUrl) {
     throw new Error(
@@ -24,30 +176,67 @@ export async function apiRequest<T>(
   }
 
   const url = `${apiBaseUrl}${endpoint}`;
-  console.log("[apiRequest] Full URL:", url);
 
   const requestHeaders: Record<string, string> = {
     "Content-Type": "application/json",
     ...headers,
   };
 
-  if (token) {
-    requestHeaders["Authorization"] = `Bearer ${token}`;
-    console.log("[apiRequest] Auth header set with token");
+  // The same key is sent on every retry so the server can dedupe a POST that did land
+  if (method === "POST" && idempotencyKey !== false) {
+    requestHeaders["Idempotency-Key"] = idempotencyKey ?? createIdempotencyKey();
   }
 
-  const response = await fetch(url, {
-    method,
-    headers: requestHeaders,
-    ...(body && { body: JSON.stringify(body) }),
-  });
+  // Only retry requests that are safe to repeat
+  const canRetry = method === "GET" || method === "PUT" || method === "DELETE" || !!requestHeaders["Idempotency-Key"];
+  const maxAttempts = canRetry ? retries + 1 : 1;
 
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`API Error (${response.status}): ${errorText}`);
-  }
+  let refreshedToken = false;
+  let skipCache = false;
+
+  for (let attempt = 0; ; attempt++) {
+    let error: ApiError;
+    let retryAfter: string | null = null;
+
+    try {
+      const authToken = getToken ? await getToken({ skipCache }) : token;
+      skipCache = false;
+      const init: RequestInit = {
+        method,
+        headers: authToken ? { ...requestHeaders, Authorization: `Bearer ${authToken}` } : requestHeaders,
+        ...(body && { body: JSON.stringify(body) }),
+      };
+
+      const result = await attemptRequest<T>(url, init, timeoutMs, signal);
+      if (result.ok) {
+        return result.data;
+      }
+      error = result.error;
+      retryAfter = result.retryAfter;
+    } catch (caught) {
+      if (!(caught instanceof ApiError)) throw caught;
+      error = caught;
+    }
 
-  return response.json();
+    // Expired JWT - refresh and replay once, without using up a retry
+    if (error.status === 401 && getToken && !refreshedToken) {
+      refreshedToken = true;
+      skipCache = true;
+      attempt--;
+      continue;
+    }
+
+    if (!error.retryable || attempt + 1 >= maxAttempts) {
+      throw error;
+    }
+
+    const delay = getRetryDelay(attempt, retryAfter);
+    // Path only - query strings can carry request IDs
+    console.warn(
+      `[apiRequest] ${method} ${endpoint.split("?")[0]} failed (${error.code}), retrying in ${Math.round(delay)}ms`
+    );
+    await wait(delay, signal);
+  }
 }
 
 export { apiBaseUrl };
@@ -1,11 +1,16 @@
 /**
- * Attachment Upload Utilities
- * Handles presigned URL generation and direct R2 uploads for edit models
+ * Attachment Utilities
+ * Image picking, presigned URL generation and on-device preparation for edit models.
+ * Images are downscaled and re-encoded before upload, so 12MP+ camera photos
+ * don't get uploaded at full resolution. Uploading itself lives in ./uploads.
  */
 
-import * as FileSystem from "expo-file-system";
 import * as ImagePicker from "expo-image-picker";
-import { apiRequest } from "./api";
+import { ImageManipulator, SaveFormat } from "expo-image-manipulator";
+import { apiRequest, TokenProvider } from "./api";
+
+const DEFAULT_MAX_DIMENSION = 2048;
+const UPLOAD_COMPRESS = 0.85;
 
 // Presign response from API
 interface PresignResponse {
@@ -21,6 +26,12 @@ export interface UploadedAttachment {
   key?: string;
 }
 
+// Image ready for upload
+export interface PreparedImage {
+  uri: string;
+  contentType: string;
+}
+
 // Image picker result
 export interface SelectedImage {
   uri: string;
@@ -37,13 +48,13 @@ export interface SelectedImage {
  * Get presigned URL for uploading attachment to R2
  */
 export async function getPresignedUrl(
-  token: string,
+  getToken: TokenProvider,
   contentType: string = "image/jpeg"
 ): Promise<PresignResponse> {
   const response = await apiRequest<PresignResponse>("/api/mobile/r2-presign", {
     method: "POST",
     body: { contentType },
-    token,
+    getToken,
   });
 
   if (!response.uploadUrl || !response.publicUrl) {
@@ -53,93 +64,6 @@ export async function getPresignedUrl(
   return response;
 }
 
-/**
- * Upload file to R2 using presigned URL
- */
-export async function uploadToR2(
-  localUri: string,
-  uploadUrl: string,
-  contentType: string = "image/jpeg"
-): Promise<void> {
-  // Read file info
-  const fileInfo = await FileSystem.getInfoAsync(localUri);
-  if (!fileInfo.exists) {
-    throw new Error("File not found");
-  }
-
-  // Read file as base64
-  const base64 = await FileSystem.readAsStringAsync(localUri, {
-    encoding: FileSystem.EncodingType.Base64,
-  });
-
-  // Convert to blob for upload
-  const response = await fetch(uploadUrl, {
-    method: "PUT",
-    headers: {
-      "Content-Type": contentType,
-    },
-    body: Uint8Array.from(atob(base64), (c) => c.charCodeAt(0)),
-  });
-
-  if (!response.ok) {
-    throw new Error(`Upload failed: ${response.status}`);
-  }
-}
-
-/**
- * Upload a single attachment and return the public URL
- */
-export async function uploadAttachment(
-  token: string,
-  localUri: string,
-  contentType: string = "image/jpeg"
-): Promise<UploadedAttachment> {
-  // Get presigned URL
-  const presign = await getPresignedUrl(token, contentType);
-
-  // Upload to R2
-  await uploadToR2(localUri, presign.uploadUrl, contentType);
-
-  return {
-    url: presign.publicUrl,
-    localUri,
-    key: presign.key,
-  };
-}
-
-/**
- * Upload multiple attachments in parallel
- */
-export async function uploadAttachments(
-  token: string,
-  localUris: string[],
-  onProgress?: (completed: number, total: number) => void
-): Promise<UploadedAttachment[]> {
-  const results: UploadedAttachment[] = [];
-  let completed = 0;
-
-  // Upload in parallel with concurrency limit
-  const CONCURRENCY = 3;
-  const chunks: string[][] = [];
-  for (let i = 0; i < localUris.length; i += CONCURRENCY) {
-    chunks.push(localUris.slice(i, i + CONCURRENCY));
-  }
-
-  for (const chunk of chunks) {
-    const chunkResults = await Promise.all(
-      chunk.map(async (uri) => {
-        const result = await uploadAttachment(token, uri);
-        completed++;
-        onProgress?.(completed, localUris.length);
-        return result;
-      })
-    );
-    results.push(...chunkResults);
-  }
-
-  return results;
-}
-
 /**
  * Pick images from device gallery
  */
@@ -179,6 +103,37 @@ export async function pickImages(options?: {
   }));
 }
 
+/**
+ * Pick one video from device gallery
+ */
+export async function pickVideo(options?: {
+  maxDurationSeconds?: number;
+}): Promise<{ uri: string; durationMs: number; fileSize?: number } | null> {
+  // Request permission
+  const permission = await ImagePicker.requestMediaLibraryPermissionsAsync();
+  if (!permission.granted) {
+    throw new Error("Gallery permission denied");
+  }
+
+  // Pick video
+  const result = await ImagePicker.launchImageLibraryAsync({
+    mediaTypes: ImagePicker.MediaTypeOptions.Videos,
+    allowsMultipleSelection: false,
+    videoMaxDuration: options?.maxDurationSeconds,
+  });
+
+  if (result.canceled || result.assets.length === 0) {
+    return null;
+  }
+
+  const asset = result.assets[0];
+  return {
+    uri: asset.uri,
+    durationMs: asset.duration ?? 0,
+    fileSize: asset.fileSize ?? undefined,
+  };
+}
+
 /**
  * Take photo with camera
  */
@@ -236,14 +191,43 @@ export function getContentType(uri: string): string {
 
 /**
  * Resize image if too large (for upload optimization)
+ * Downscales the longest side to maxDimension and re-encodes: rendering applies the
+ * EXIF orientation to the pixels, HEIC becomes JPEG (or WebP when asked) and PNG/WebP
+ * keep their format. GIFs are passed through to keep animation.
  */
 export async function resizeImageIfNeeded(
   uri: string,
-  maxDimension: number = 2048
-): Promise<string> {
-  // expo-image-manipulator could be used here for resizing
-  // For now, return original URI - the API will handle sizing
-  return uri;
+  maxDimension: number = DEFAULT_MAX_DIMENSION,
+  format: SaveFormat.JPEG | SaveFormat.WEBP = SaveFormat.JPEG
+): Promise<PreparedImage> {
+  const sourceType = getContentType(uri);
+  if (sourceType === "image/gif") {
+    return { uri, contentType: sourceType };
+  }
+
+  try {
+    // Width/height of the rendered image are the upright (orientation-applied) dimensions
+    let image = await ImageManipulator.manipulate(uri).renderAsync();
+    const longestSide = Math.max(image.width, image.height);
+
+    if (longestSide > maxDimension) {
+      const size = image.width >= image.height ? { width: maxDimension } : { height: maxDimension };
+      const resized = await ImageManipulator.manipulate(image).resize(size).renderAsync();
+      image.release();
+      image = resized;
+    }
+
+    const saveFormat =
+      sourceType === "image/png" ? SaveFormat.PNG : sourceType === "image/webp" ? SaveFormat.WEBP : format;
+    const result = await image.saveAsync({ format: saveFormat, compress: UPLOAD_COMPRESS });
+    image.release();
+
+    return { uri: result.uri, contentType: `image/${saveFormat}` };
+  } catch (error) {
+    // Upload the original rather than failing the generation
+    console.warn("[attachments] Image processing failed, uploading original:", error);
+    return { uri, contentType: sourceType };
+  }
 }
 
 /**
@@ -0,0 +1,78 @@
+/**
+ * Generation compare
+ * Fans one prompt out across several image models and/or aspect ratios so the
+ * results can be compared side by side. Every variant is a normal generation in the
+ * same session, tagged with a shared `compareGroupId` so the feed can group them.
+ * - Model × aspect ratio pairs the model doesn't support are skipped.
+ * - Options a model doesn't support (resolution, quality, image count) are dropped or clamped per variant.
+ */
+
+import type { GenerationRequest } from "../hooks/useImageGeneration";
+import {
+  AspectRatio,
+  calculateImageCost,
+  getMaxImages,
+  getModelAspectRatios,
+  getResolutionOptions,
+  ImageModelId,
+  modelSupportsQuality,
+  Quality,
+  Resolution,
+} from "../config/imageModels";
+
+// Most variants one compare run may start
+export const MAX_COMPARE_VARIANTS = 6;
+
+export interface CompareVariant {
+  modelId: ImageModelId;
+  aspectRatio: AspectRatio;
+}
+
+// Settings shared by every variant
+export interface CompareOptions {
+  prompt: string;
+  numImages: number;
+  resolution?: Resolution;
+  quality?: Quality;
+}
+
+// Supported model × aspect ratio pairs, in selection order
+export function buildCompareVariants(modelIds: ImageModelId[], aspectRatios: AspectRatio[]): CompareVariant[] {
+  return modelIds.flatMap((modelId) => {
+    const allowed = getModelAspectRatios(modelId);
+    return aspectRatios.filter((ratio) => allowed.includes(ratio)).map((aspectRatio) => ({ modelId, aspectRatio }));
+  });
+}
+
+export function buildCompareRequests(
+  variants: CompareVariant[],
+  options: CompareOptions
+): Omit<GenerationRequest, "sessionId" | "onSessionId">[] {
+  return variants.map(({ modelId, aspectRatio }) => ({
+    prompt: options.prompt,
+    modelId,
+    aspectRatio,
+    numImages: Math.min(options.numImages, getMaxImages(modelId)),
+    resolution:
+      options.resolution && getResolutionOptions(modelId)?.includes(options.resolution) ? options.resolution : undefined,
+    quality: modelSupportsQuality(modelId) ? options.quality : undefined,
+  }));
+}
+
+// Combined credit cost of a compare run
+export function estimateCompareCost(variants: CompareVariant[], options: Omit<CompareOptions, "prompt">): number {
+  return buildCompareRequests(variants, { ...options, prompt: "" }).reduce(
+    (total, request) =>
+      total +
+      calculateImageCost(request.modelId, request.numImages, {
+        resolution: request.resolution,
+        quality: request.quality,
+        aspectRatio: request.aspectRatio,
+      }),
+    0
+  );
+}
+
+export function createCompareGroupId(): string {
+  return `compare_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+}
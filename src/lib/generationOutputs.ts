@@ -0,0 +1,104 @@
+/**
+ * Generation Outputs
+ * Status routes and post-processing shared by the generation hooks and the
+ * in-flight resume flow (src/lib/inflightGenerations.ts), so both finalize a
+ * generation the same way.
+ */
+
+import * as FileSystem from "expo-file-system";
+import { apiRequest, ApiError, TokenProvider } from "./api";
+import { createUploadTask, runUploadTask } from "./uploads";
+import { ImageModelId } from "../config/imageModels";
+import { EnhanceModeId } from "../config/enhancerModels";
+
+// Status URL for a queued image generation
+export function getImageStatusPath(requestId: string, modelId: ImageModelId): string {
+  return `/api/generate-images/status?requestId=${encodeURIComponent(requestId)}&modelId=${encodeURIComponent(modelId)}`;
+}
+
+// Status URL for a queued enhancement
+export function getEnhanceStatusPath(requestId: string, modeId: EnhanceModeId): string {
+  return `/api/mobile/enhance-image/status?requestId=${encodeURIComponent(requestId)}&mode=${encodeURIComponent(modeId)}`;
+}
+
+// Fatal errors (4xx, e.g. policy violations) stop polling; transient ones (network/timeout/429/5xx) are retried
+export function isFatalVideoPollError(error: unknown): boolean {
+  return error instanceof ApiError && !error.retryable;
+}
+
+/**
+ * WebP copy of an enhanced image for display (upscaled PNGs are large).
+ * Failures are non-fatal: the result is shown from the full image instead.
+ */
+export async function createWebpPreview(imageUrl: string, getToken: TokenProvider): Promise<string | undefined> {
+  try {
+    const response = await apiRequest<{ success: boolean; url: string }>("/api/mobile/webp-preview", {
+      method: "POST",
+      body: { imageUrl },
+      getToken,
+    });
+    return response.success && response.url ? response.url : undefined;
+  } catch (error) {
+    console.warn("[generationOutputs] WebP preview failed (non-fatal):", error);
+    return undefined;
+  }
+}
+
+/**
+ * Backup temp videos to R2 and extract the first frame for the preview.
+ * Failures are non-fatal: the temp URLs are returned unchanged.
+ */
+export async function backupVideoOutputs(
+  videoUrls: string[],
+  getToken: TokenProvider
+): Promise<{ videoUrls: string[]; previewImageUrl?: string }> {
+  let videoUrlStrings = videoUrls;
+  let previewImageUrl: string | undefined;
+  try {
+    // Backup first video to R2
+    const tempVideoUrl = videoUrlStrings[0];
+    if (tempVideoUrl && tempVideoUrl.includes("tempfile.aiquickdraw.com")) {
+      console.log("[generationOutputs] Backing up video to R2...");
+
+      // Download to the cache dir, then upload through the upload engine (multipart when large)
+      const localUri = `${FileSystem.cacheDirectory}video-backup-${Date.now()}.mp4`;
+      try {
+        const download = await FileSystem.downloadAsync(tempVideoUrl, localUri);
+        if (download.status !== 200) {
+          throw new Error(`Video download failed: ${download.status}`);
+        }
+
+        const upload = await runUploadTask(createUploadTask(localUri, "video"), { getToken });
+        if (upload.status === "completed" && upload.result) {
+          console.log("[generationOutputs] Video backed up to:", upload.result.url);
+          videoUrlStrings = [upload.result.url]; // Replace temp URL with permanent
+        } else {
+          console.warn("[generationOutputs] Video backup upload failed:", upload.error);
+        }
+      } finally {
+        await FileSystem.deleteAsync(localUri, { idempotent: true });
+      }
+    }
+
+    // Extract first frame for preview
+    console.log("[generationOutputs] Extracting first frame...");
+    const frameResponse = await apiRequest<{
+      success: boolean;
+      url: string;
+    }>("/api/mobile/extract-first-frame", {
+      method: "POST",
+      body: { videoUrl: videoUrlStrings[0] },
+      getToken,
+    });
+
+    if (frameResponse.success && frameResponse.url) {
+      previewImageUrl = frameResponse.url;
+      console.log("[generationOutputs] First frame extracted:", previewImageUrl);
+    }
+  } catch (backupError) {
+    console.warn("[generationOutputs] Backup/frame extraction failed (non-fatal):", backupError);
+    // Continue with temp URLs - this is non-fatal
+  }
+
+  return { videoUrls: videoUrlStrings, previewImageUrl };
+}
@@ -0,0 +1,140 @@
+/**
+ * Generation remix
+ * Rebuilds the request that produced a stored `sessionGenerations` row, so a past
+ * generation can be run again ("Regenerate") or loaded into the prompt bar to be
+ * tweaked ("Remix with edits").
+ * - Edit variants are mapped back to their unified model; the screens switch to the
+ *   edit variant again when attachments are present (getEffectiveModelId).
+ * - Stored options the model no longer supports fall back to the model's first option.
+ */
+
+import type { GenerationRequest } from "../hooks/useImageGeneration";
+import type { VideoGenerationRequest } from "../hooks/useVideoGeneration";
+import {
+  AspectRatio,
+  DEFAULT_SETTINGS,
+  getImageModels,
+  getMaxImages,
+  getModelAspectRatios,
+  getModelById,
+  getModelByLabel,
+  ImageModelId,
+  modelSupportsQuality,
+} from "../config/imageModels";
+import {
+  DEFAULT_VIDEO_SETTINGS,
+  getVideoModelAspectRatios,
+  getVideoModelById,
+  getVideoModelByLabel,
+  getVideoModelDurations,
+  getVideoModelResolutions,
+  VideoDuration,
+  VideoModelId,
+  VideoResolution,
+} from "../config/videoModels";
+
+// The fields of a sessionGenerations row a request can be rebuilt from
+export interface StoredGeneration {
+  sessionId?: string;
+  prompt: string;
+  model?: string;
+  modelLabel?: string;
+  aspectRatio?: string;
+  numImages?: number;
+  quality?: "medium" | "high";
+  sourceImage?: string;
+  // Video rows written by the web app may also carry these
+  duration?: string | number;
+  resolution?: string;
+  startFrameImageUrl?: string;
+  endFrameImageUrl?: string;
+}
+
+// Requests passed through navigation params, so without callbacks
+export type ImageRemixRequest = Omit<GenerationRequest, "onSessionId" | "idempotencyKey">;
+export type VideoRemixRequest = Omit<VideoGenerationRequest, "onSessionId">;
+
+// The unified model an edit variant belongs to (or the id itself)
+export function getUnifiedModelId(id: ImageModelId): ImageModelId {
+  const unified = getImageModels().find((m) => m.editModelId === id);
+  return unified?.id ?? id;
+}
+
+function resolveImageModelId(generation: StoredGeneration): ImageModelId {
+  const model =
+    (generation.model ? getModelById(generation.model as ImageModelId) : undefined) ??
+    (generation.modelLabel ? getModelByLabel(generation.modelLabel) : undefined);
+  return model ? getUnifiedModelId(model.id) : DEFAULT_SETTINGS.modelId;
+}
+
+function resolveVideoModelId(generation: StoredGeneration): VideoModelId {
+  const model =
+    (generation.model ? getVideoModelById(generation.model as VideoModelId) : undefined) ??
+    (generation.modelLabel ? getVideoModelByLabel(generation.modelLabel) : undefined);
+  return model?.id ?? DEFAULT_VIDEO_SETTINGS.modelId;
+}
+
+// The stored value when the model still allows it, else the model's first option
+function pickAllowed<T>(allowed: T[], stored: T | undefined, fallback: T): T {
+  if (stored !== undefined && allowed.includes(stored)) return stored;
+  return allowed.includes(fallback) ? fallback : (allowed[0] ?? fallback);
+}
+
+// Rebuild an image request. Kept in the generation's own session.
+export function buildGenerationRequest(generation: StoredGeneration): ImageRemixRequest {
+  const modelId = resolveImageModelId(generation);
+
+  return {
+    prompt: generation.prompt,
+    modelId,
+    aspectRatio: pickAllowed(
+      getModelAspectRatios(modelId),
+      generation.aspectRatio as AspectRatio | undefined,
+      DEFAULT_SETTINGS.aspectRatio
+    ),
+    numImages: Math.min(Math.max(generation.numImages ?? DEFAULT_SETTINGS.numImages, 1), getMaxImages(modelId)),
+    attachmentImages: generation.sourceImage ? [{ url: generation.sourceImage }] : undefined,
+    quality: modelSupportsQuality(modelId) ? (generation.quality ?? DEFAULT_SETTINGS.quality) : undefined,
+    sessionId: generation.sessionId,
+  };
+}
+
+// Rebuild a video request. Duration and resolution aren't stored by the app, so the
+// defaults are used unless the row has them.
+export function buildVideoGenerationRequest(generation: StoredGeneration): VideoRemixRequest {
+  const modelId = resolveVideoModelId(generation);
+  const model = getVideoModelById(modelId);
+  const storedDuration = generation.duration !== undefined ? Number(generation.duration) : undefined;
+
+  const request: VideoRemixRequest = {
+    prompt: generation.prompt,
+    modelId,
+    aspectRatio: pickAllowed(
+      getVideoModelAspectRatios(modelId),
+      generation.aspectRatio as VideoRemixRequest["aspectRatio"] | undefined,
+      DEFAULT_VIDEO_SETTINGS.aspectRatio
+    ),
+    duration: pickAllowed(
+      getVideoModelDurations(modelId),
+      storedDuration as VideoDuration | undefined,
+      DEFAULT_VIDEO_SETTINGS.duration
+    ),
+    resolution: pickAllowed(
+      getVideoModelResolutions(modelId),
+      generation.resolution as VideoResolution | undefined,
+      DEFAULT_VIDEO_SETTINGS.resolution
+    ),
+    generateAudio: model?.supportsAudio ? (model.defaultAudioOn ?? DEFAULT_VIDEO_SETTINGS.generateAudio) : undefined,
+    sessionId: generation.sessionId,
+  };
+
+  // Frames: a start/end pair for transitions, otherwise the single source image
+  if (generation.startFrameImageUrl && (model?.isTransition || model?.supportsTransition)) {
+    request.startFrameImageUrl = generation.startFrameImageUrl;
+    request.endFrameImageUrl = generation.endFrameImageUrl;
+  } else if (generation.sourceImage ?? generation.startFrameImageUrl) {
+    request.attachmentImageUrl = generation.sourceImage ?? generation.startFrameImageUrl;
+  }
+
+  return request;
+}
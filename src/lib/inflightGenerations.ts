@@ -0,0 +1,323 @@
+/**
+ * In-flight Generation Recovery
+ * Every image/video generation (and Enhancer run) that holds a slot is persisted until it has been
+ * finalized (sessionGenerations row updated, reserved credits captured or released,
+ * slot completed). If the app is killed mid-generation, the record survives and
+ * useResumeInflightGenerations() picks it up on the next launch or foreground:
+ * it resumes polling the status endpoint and runs the same finalization the
+ * generation hooks would have, so nothing stays stuck in isLoading.
+ * Talking photo submits that never got an answer are tracked the same way and
+ * reconciled against the user's talkingPhotoTasks.
+ */
+
+import { useCallback, useEffect } from "react";
+import { AppState, AppStateStatus } from "react-native";
+import { ConvexReactClient, useConvex, useMutation } from "convex/react";
+import { useAuth } from "@clerk/clerk-expo";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import { apiRequest, TokenProvider } from "./api";
+import useInflightGenerationsStore, {
+  InflightGeneration,
+  InflightOutcome,
+} from "../state/inflightGenerationsStore";
+import { ImageModelId, POLLING_CONFIG } from "../config/imageModels";
+import { VideoModelId, VIDEO_POLLING_CONFIG } from "../config/videoModels";
+import { EnhanceModeId } from "../config/enhancerModels";
+import { getVideoProviderAdapter } from "./videoProviders";
+import {
+  getImageStatusPath,
+  getEnhanceStatusPath,
+  isFatalVideoPollError,
+  createWebpPreview,
+  backupVideoOutputs,
+} from "./generationOutputs";
+
+// Talking photo submits without an answer: how long the backend's task row may take to show up
+const TALKING_PHOTO_DEADLINE = 10 * 60 * 1000; // 10 minutes
+const TALKING_PHOTO_CHECK_INTERVAL = 15000;
+const TALKING_PHOTO_TASK_LOOKBACK = 50;
+
+// Generations currently driven by a live hook or a resume run in this process
+const claimedIds = new Set<string>();
+
+// Starts a resume pass while useResumeInflightGenerations is mounted
+let requestResume: (() => void) | null = null;
+
+export function trackInflightGeneration(generation: Omit<InflightGeneration, "createdAt" | "updatedAt">) {
+  claimedIds.add(generation.id);
+  useInflightGenerationsStore.getState().trackGeneration(generation);
+}
+
+export function updateInflightGeneration(id: string, updates: Partial<InflightGeneration>) {
+  useInflightGenerationsStore.getState().updateGeneration(id, updates);
+}
+
+// Finalization is done - forget the generation
+export function finishInflightGeneration(id: string) {
+  claimedIds.delete(id);
+  useInflightGenerationsStore.getState().removeGeneration(id);
+}
+
+// Finalization could not complete (e.g. offline) - hand the outcome over to the resume flow
+export function releaseInflightGeneration(id: string, outcome: InflightOutcome) {
+  useInflightGenerationsStore.getState().updateGeneration(id, { outcome });
+  claimedIds.delete(id);
+}
+
+// The outcome is unknown (e.g. a submit that got no answer) - let the resume flow reconcile it now
+export function handOffInflightGeneration(id: string) {
+  claimedIds.delete(id);
+  requestResume?.();
+}
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timeout = setTimeout(() => {
+      signal.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timeout);
+      reject(new Error("Resume cancelled"));
+    };
+    signal.addEventListener("abort", onAbort);
+  });
+}
+
+interface StatusResponse {
+  success?: boolean;
+  images?: { url: string }[];
+  error?: string;
+}
+
+// One status check; null means the provider is still working
+async function checkStatus(
+  generation: InflightGeneration,
+  getToken: TokenProvider,
+  signal: AbortSignal
+): Promise<InflightOutcome | null> {
+  const requestId = generation.requestId as string;
+
+  if (generation.kind === "image" || generation.kind === "enhance") {
+    const statusPath =
+      generation.kind === "image"
+        ? getImageStatusPath(requestId, generation.modelId as ImageModelId)
+        : getEnhanceStatusPath(requestId, generation.modelId as EnhanceModeId);
+    const response = await apiRequest<StatusResponse>(statusPath, { method: "GET", getToken, signal });
+    if (response.success && response.images) {
+      return { success: true, urls: response.images.map(({ url }) => url) };
+    }
+    return response.error ? { success: false, error: response.error } : null;
+  }
+
+  const modelId = generation.modelId as VideoModelId;
+  const adapter = getVideoProviderAdapter(modelId);
+  const response = await apiRequest<unknown>(
+    adapter.getStatusPath(modelId, { requestId, endpoint: generation.endpoint }),
+    { method: "GET", getToken, signal }
+  );
+  const result = adapter.parseStatusResponse(modelId, response);
+  if (result.state === "completed") {
+    return { success: true, urls: result.videos };
+  }
+  return result.state === "failed" ? { success: false, error: result.error } : null;
+}
+
+// Mirrors the polling loops in useImageGeneration / useVideoGeneration / useImageEnhancement
+async function pollOutcome(
+  generation: InflightGeneration,
+  getToken: TokenProvider,
+  signal: AbortSignal
+): Promise<InflightOutcome> {
+  if (!generation.requestId) {
+    // Killed before the provider accepted the request - there is nothing to resume
+    return { success: false, error: "Generation interrupted" };
+  }
+
+  const config = generation.kind === "video" ? VIDEO_POLLING_CONFIG : POLLING_CONFIG;
+  let delay = config.initialDelay;
+
+  for (let attempts = 0; attempts < config.maxAttempts; attempts++) {
+    await sleep(delay, signal);
+
+    try {
+      const outcome = await checkStatus(generation, getToken, signal);
+      if (outcome) return outcome;
+    } catch (error) {
+      if (signal.aborted) throw error;
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error("[inflightGenerations] Polling error:", errorMessage);
+      if (generation.kind === "video" && isFatalVideoPollError(error)) {
+        return { success: false, error: errorMessage };
+      }
+      // Transient error - continue polling
+    }
+
+    delay = Math.min(delay * config.backoffMultiplier, config.maxDelay);
+  }
+
+  return { success: false, error: generation.kind === "video" ? "Video generation timed out" : "Generation timed out" };
+}
+
+// The backend accepted a talking photo iff one of the user's tasks links its generation
+async function reconcileTalkingPhoto(
+  generation: InflightGeneration,
+  convex: ConvexReactClient,
+  signal: AbortSignal
+): Promise<boolean> {
+  while (true) {
+    const tasks: { generationId?: string }[] = await convex.query(api.talkingPhoto.getUserTasks, {
+      limit: TALKING_PHOTO_TASK_LOOKBACK,
+    });
+    if (tasks.some((task) => task.generationId === generation.generationId)) return true;
+    if (Date.now() - generation.createdAt >= TALKING_PHOTO_DEADLINE) return false;
+    await sleep(TALKING_PHOTO_CHECK_INTERVAL, signal);
+  }
+}
+
+/**
+ * Resume every unfinished generation of the signed-in user on launch and when the
+ * app returns to the foreground. Mount once inside the signed-in navigator.
+ */
+export function useResumeInflightGenerations() {
+  const { getToken, userId, isSignedIn } = useAuth();
+  const convex = useConvex();
+
+  const updateSlotStatus = useMutation(api.generations.updateGenerationStatus);
+  const captureCredits = useMutation(api.users.captureReservedCredits);
+  const releaseCredits = useMutation(api.users.releaseReservedCredits);
+  const updateGeneration = useMutation(api.sessions.updateGeneration);
+
+  const resumeGeneration = useCallback(
+    async (generation: InflightGeneration, signal: AbortSignal) => {
+      console.log("[inflightGenerations] Resuming", generation.kind, "generation:", generation.id);
+
+      // Accepted talking photos are finished by the backend; otherwise close out the loading row
+      if (generation.kind === "talkingPhoto") {
+        const accepted = await reconcileTalkingPhoto(generation, convex, signal);
+        if (!accepted && generation.generationId) {
+          await updateGeneration({
+            generationId: generation.generationId as Id<"sessionGenerations">,
+            isLoading: false,
+            error: "Talking photo could not be started",
+          });
+        }
+        finishInflightGeneration(generation.id);
+        return;
+      }
+
+      // A previous run may already have the outcome - don't poll the provider twice
+      let outcome = generation.outcome;
+      if (!outcome) {
+        outcome = await pollOutcome(generation, getToken, signal);
+        updateInflightGeneration(generation.id, { outcome });
+      }
+
+      const isVideo = generation.kind === "video";
+      let urls = outcome.urls ?? [];
+      let previewImageUrl: string | undefined;
+
+      if (outcome.success && isVideo) {
+        const backup = await backupVideoOutputs(urls, getToken);
+        urls = backup.videoUrls;
+        previewImageUrl = backup.previewImageUrl;
+      } else if (outcome.success && generation.kind === "enhance" && urls[0]) {
+        previewImageUrl = await createWebpPreview(urls[0], getToken);
+      }
+
+      if (generation.generationId) {
+        const generationId = generation.generationId as Id<"sessionGenerations">;
+        if (!outcome.success) {
+          await updateGeneration({ generationId, isLoading: false, error: outcome.error });
+        } else if (isVideo) {
+          await updateGeneration({
+            generationId,
+            isLoading: false,
+            videos: urls,
+            previewImage: previewImageUrl,
+            completedAt: Date.now(),
+          });
+        } else {
+          await updateGeneration({
+            generationId,
+            isLoading: false,
+            images: urls.map((url) => ({ url })),
+            previewImage: previewImageUrl,
+            completedAt: Date.now(),
+          });
+        }
+      }
+
+      // Credits are not idempotent - record that they were settled before touching the slot
+      if (generation.creditAmount > 0) {
+        if (outcome.success) {
+          await captureCredits({ amount: generation.creditAmount });
+        } else {
+          await releaseCredits({ amount: generation.creditAmount });
+        }
+        updateInflightGeneration(generation.id, { creditAmount: 0 });
+      }
+
+      const slotId = generation.slotId as Id<"generations">;
+      if (!outcome.success) {
+        await updateSlotStatus({ generationId: slotId, status: "failed" });
+      } else if (isVideo) {
+        await updateSlotStatus({ generationId: slotId, status: "completed", videoUrl: urls[0] });
+      } else {
+        await updateSlotStatus({ generationId: slotId, status: "completed", imageUrl: urls[0] });
+      }
+
+      finishInflightGeneration(generation.id);
+      console.log("[inflightGenerations] Finalized", generation.kind, "generation:", generation.id);
+    },
+    [getToken, convex, updateGeneration, captureCredits, releaseCredits, updateSlotStatus]
+  );
+
+  useEffect(() => {
+    if (!isSignedIn || !userId) return;
+
+    const controller = new AbortController();
+
+    const resumeAll = () => {
+      const pending = useInflightGenerationsStore
+        .getState()
+        .getGenerationsForUser(userId)
+        .filter((generation) => !claimedIds.has(generation.id));
+
+      for (const generation of pending) {
+        claimedIds.add(generation.id);
+        resumeGeneration(generation, controller.signal)
+          .catch((error) => {
+            // Keep the record - the next launch or foreground retries it
+            console.warn("[inflightGenerations] Resume failed, will retry:", error);
+          })
+          .finally(() => {
+            claimedIds.delete(generation.id);
+          });
+      }
+    };
+
+    // Wait for AsyncStorage rehydration before reading persisted generations
+    const unsubscribeHydration = useInflightGenerationsStore.persist.hasHydrated()
+      ? undefined
+      : useInflightGenerationsStore.persist.onFinishHydration(resumeAll);
+    if (!unsubscribeHydration) {
+      resumeAll();
+    }
+
+    const subscription = AppState.addEventListener("change", (nextState: AppStateStatus) => {
+      if (nextState === "active") {
+        resumeAll();
+      }
+    });
+    requestResume = resumeAll;
+
+    return () => {
+      if (requestResume === resumeAll) requestResume = null;
+      controller.abort();
+      subscription.remove();
+      unsubscribeHydration?.();
+    };
+  }, [isSignedIn, userId, resumeGeneration]);
+}
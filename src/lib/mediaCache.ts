@@ -0,0 +1,253 @@
+/**
+ * Media Cache
+ * Keeps generated images and videos on disk so they load instantly and still show
+ * offline. Files live in documentDirectory/media-cache (the OS doesn't purge it);
+ * the index lives in mediaCacheStore.
+ * - Anything viewed through useCachedMediaUri / CachedImage is downloaded in the
+ *   background and served from disk next time.
+ * - Unpinned files are evicted least-recently-used first once the total passes the
+ *   byte budget. Favorites are pinned (see useAssets) and never evicted.
+ * - The cache is per device, not per account; Settings shows its size and clears it.
+ */
+
+import { useEffect, useMemo } from "react";
+import * as FileSystem from "expo-file-system";
+import useMediaCacheStore, { MediaCacheEntry } from "../state/mediaCacheStore";
+import { useNetworkStatus } from "./network";
+
+const CACHE_DIR = `${FileSystem.documentDirectory}media-cache/`;
+const MAX_CONCURRENT_DOWNLOADS = 3;
+const TOUCH_INTERVAL = 60 * 60 * 1000; // LRU order only needs to be accurate to the hour
+
+export type CachedMediaType = MediaCacheEntry["mediaType"];
+
+export interface PinnedMedia {
+  favoriteKey: string; // makeFavoriteKey
+  items: { url: string; mediaType: CachedMediaType }[];
+}
+
+// Downloads in progress, by URL
+const inFlight = new Map<string, Promise<string | null>>();
+const downloadQueue: (() => void)[] = [];
+let activeDownloads = 0;
+let cacheDirReady: Promise<void> | null = null;
+
+function ensureCacheDir(): Promise<void> {
+  if (!cacheDirReady) {
+    cacheDirReady = FileSystem.makeDirectoryAsync(CACHE_DIR, { intermediates: true }).catch((error) => {
+      cacheDirReady = null;
+      throw error;
+    });
+  }
+  return cacheDirReady;
+}
+
+// FNV-1a over the URL; the length suffix makes collisions practically impossible
+function hashUrl(url: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < url.length; i++) {
+    hash ^= url.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `${(hash >>> 0).toString(36)}${url.length.toString(36)}`;
+}
+
+function getFileName(url: string, mediaType: CachedMediaType): string {
+  const extension = url.split("?")[0].match(/\.([a-z0-9]{2,5})$/i)?.[1] ?? (mediaType === "video" ? "mp4" : "jpg");
+  return `${hashUrl(url)}.${extension.toLowerCase()}`;
+}
+
+function getPinnedUrls(): Set<string> {
+  return new Set(Object.values(useMediaCacheStore.getState().pinned).flat());
+}
+
+// Local file for a remote URL, or null when it isn't cached
+export function getCachedMediaUri(url: string | null | undefined): string | null {
+  if (!url) return null;
+  const entry = useMediaCacheStore.getState().entries[url];
+  return entry ? `${CACHE_DIR}${entry.fileName}` : null;
+}
+
+// Local file when cached, otherwise the remote URL
+export function resolveMediaUri(url: string | null | undefined): string | null {
+  return getCachedMediaUri(url) ?? url ?? null;
+}
+
+// Run downloads a few at a time so scrolling a grid doesn't open dozens of connections
+function runQueued<T>(task: () => Promise<T>): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const start = () => {
+      activeDownloads++;
+      task()
+        .then(resolve, reject)
+        .finally(() => {
+          activeDownloads--;
+          downloadQueue.shift()?.();
+        });
+    };
+    if (activeDownloads < MAX_CONCURRENT_DOWNLOADS) {
+      start();
+    } else {
+      downloadQueue.push(start);
+    }
+  });
+}
+
+async function downloadToCache(url: string, mediaType: CachedMediaType): Promise<string | null> {
+  const fileName = getFileName(url, mediaType);
+  const fileUri = `${CACHE_DIR}${fileName}`;
+  const tempUri = `${fileUri}.download`;
+
+  try {
+    await ensureCacheDir();
+    const result = await FileSystem.downloadAsync(url, tempUri);
+    if (result.status !== 200) {
+      throw new Error(`Download failed with status ${result.status}`);
+    }
+    // A file left behind by a cleared index would block the move
+    await FileSystem.deleteAsync(fileUri, { idempotent: true });
+    await FileSystem.moveAsync({ from: tempUri, to: fileUri });
+
+    const info = await FileSystem.getInfoAsync(fileUri);
+    const now = Date.now();
+    useMediaCacheStore.getState().addEntry({
+      url,
+      fileName,
+      mediaType,
+      size: info.exists ? info.size : 0,
+      cachedAt: now,
+      lastAccessedAt: now,
+    });
+    await evictMediaCache();
+    return fileUri;
+  } catch (error) {
+    console.warn("[mediaCache] Failed to cache", url, error);
+    await FileSystem.deleteAsync(tempUri, { idempotent: true }).catch(() => {});
+    return null;
+  }
+}
+
+/**
+ * Download a file into the cache (no-op when it is already there). Resolves with
+ * the local uri, or null if the download failed. Never throws.
+ */
+export function cacheMedia(url: string, mediaType: CachedMediaType): Promise<string | null> {
+  const cached = getCachedMediaUri(url);
+  if (cached) return Promise.resolve(cached);
+
+  let pending = inFlight.get(url);
+  if (!pending) {
+    pending = runQueued(() => downloadToCache(url, mediaType)).finally(() => {
+      inFlight.delete(url);
+    });
+    inFlight.set(url, pending);
+  }
+  return pending;
+}
+
+// Drop least-recently-used unpinned files until the cache fits its budget
+export async function evictMediaCache() {
+  const { entries, budgetBytes, removeEntries } = useMediaCacheStore.getState();
+  const pinnedUrls = getPinnedUrls();
+  let totalBytes = Object.values(entries).reduce((sum, entry) => sum + entry.size, 0);
+  if (totalBytes <= budgetBytes) return;
+
+  const candidates = Object.values(entries)
+    .filter((entry) => !pinnedUrls.has(entry.url))
+    .sort((a, b) => a.lastAccessedAt - b.lastAccessedAt);
+
+  const evicted: MediaCacheEntry[] = [];
+  for (const entry of candidates) {
+    if (totalBytes <= budgetBytes) break;
+    evicted.push(entry);
+    totalBytes -= entry.size;
+  }
+
+  // Unlist first so nothing resolves to a file that is being deleted
+  removeEntries(evicted.map((entry) => entry.url));
+  await Promise.all(
+    evicted.map((entry) => FileSystem.deleteAsync(`${CACHE_DIR}${entry.fileName}`, { idempotent: true }))
+  );
+}
+
+/**
+ * Replace the pinned set. Pins for favorites that are no longer favorited are
+ * dropped; pins for favorites not in `loaded` (e.g. not paged in yet) are kept.
+ * Missing pinned files are downloaded in the background.
+ */
+export function updatePinnedMedia(loaded: PinnedMedia[], favoriteKeys: Set<string>) {
+  const { pinned, setPinned } = useMediaCacheStore.getState();
+  const next: Record<string, string[]> = {};
+  for (const [favoriteKey, urls] of Object.entries(pinned)) {
+    if (favoriteKeys.has(favoriteKey)) next[favoriteKey] = urls;
+  }
+  for (const { favoriteKey, items } of loaded) {
+    next[favoriteKey] = items.map((item) => item.url);
+  }
+  setPinned(next);
+
+  for (const { items } of loaded) {
+    for (const { url, mediaType } of items) {
+      cacheMedia(url, mediaType);
+    }
+  }
+}
+
+export async function setMediaCacheBudget(budgetBytes: number) {
+  useMediaCacheStore.getState().setBudgetBytes(budgetBytes);
+  await evictMediaCache();
+}
+
+// Delete every cached file, pinned ones included (favorites download again later)
+export async function clearMediaCache() {
+  useMediaCacheStore.getState().clearEntries();
+  await FileSystem.deleteAsync(CACHE_DIR, { idempotent: true });
+  cacheDirReady = null;
+}
+
+/**
+ * Uri to render for a remote media URL: the local file when cached, otherwise the
+ * URL itself while a background download fills the cache for next time. Resolved
+ * once per URL so a playing video never switches source mid-view.
+ */
+export function useCachedMediaUri(
+  url: string | null | undefined,
+  mediaType: CachedMediaType = "image"
+): string | null {
+  const { isConnected } = useNetworkStatus();
+  const resolvedUri = useMemo(() => resolveMediaUri(url), [url]);
+
+  useEffect(() => {
+    if (!url) return;
+    const entry = useMediaCacheStore.getState().entries[url];
+    if (entry) {
+      if (Date.now() - entry.lastAccessedAt > TOUCH_INTERVAL) {
+        useMediaCacheStore.getState().touchEntry(url);
+      }
+      return;
+    }
+    if (isConnected) {
+      cacheMedia(url, mediaType);
+    }
+  }, [url, mediaType, isConnected]);
+
+  return resolvedUri;
+}
+
+// Reactive totals for Settings
+export function useMediaCacheUsage() {
+  const entries = useMediaCacheStore((state) => state.entries);
+  const pinned = useMediaCacheStore((state) => state.pinned);
+  const budgetBytes = useMediaCacheStore((state) => state.budgetBytes);
+
+  return useMemo(() => {
+    const pinnedUrls = new Set(Object.values(pinned).flat());
+    let totalBytes = 0;
+    let pinnedBytes = 0;
+    for (const entry of Object.values(entries)) {
+      totalBytes += entry.size;
+      if (pinnedUrls.has(entry.url)) pinnedBytes += entry.size;
+    }
+    return { totalBytes, pinnedBytes, fileCount: Object.keys(entries).length, budgetBytes };
+  }, [entries, pinned, budgetBytes]);
+}
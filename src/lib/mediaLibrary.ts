@@ -0,0 +1,39 @@
+/**
+ * Media Library
+ * Saving generated media to the device's Photos, into the app's "NSketch" album.
+ * Uses the media cache copy when there is one instead of downloading again.
+ */
+
+import * as MediaLibrary from "expo-media-library";
+import * as FileSystem from "expo-file-system";
+import { getCachedMediaUri } from "./mediaCache";
+
+const ALBUM_NAME = "NSketch";
+
+// Ask once before a save (or a batch of saves); false when the user declined
+export async function requestMediaLibraryPermission(): Promise<boolean> {
+  const { status } = await MediaLibrary.requestPermissionsAsync();
+  return status === "granted";
+}
+
+// Save one image or video to Photos. Permission must already be granted.
+export async function saveMediaToLibrary(url: string, mediaType: "image" | "video"): Promise<void> {
+  let localUri = getCachedMediaUri(url);
+  if (!localUri) {
+    const fileExtension = mediaType === "video" ? "mp4" : "jpg";
+    const fileUri = `${FileSystem.cacheDirectory}nsketch_${Date.now()}_${Math.random().toString(36).slice(2, 8)}.${fileExtension}`;
+    const downloadResult = await FileSystem.downloadAsync(url, fileUri);
+    if (downloadResult.status !== 200) {
+      throw new Error(`Download failed with status ${downloadResult.status}`);
+    }
+    localUri = downloadResult.uri;
+  }
+
+  const savedAsset = await MediaLibrary.createAssetAsync(localUri);
+  const album = await MediaLibrary.getAlbumAsync(ALBUM_NAME);
+  if (album) {
+    await MediaLibrary.addAssetsToAlbumAsync([savedAsset], album, false);
+  } else {
+    await MediaLibrary.createAlbumAsync(ALBUM_NAME, savedAsset, false);
+  }
+}
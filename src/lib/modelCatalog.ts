@@ -0,0 +1,251 @@
+/**
+ * Server-driven Model Catalog
+ * Fetches the versioned model catalog from /api/mobile/model-catalog, validates every
+ * entry against the ImageModelMeta / VideoModelMeta shapes and swaps it into the
+ * config registries. The last good catalog is cached in AsyncStorage; when nothing
+ * has been fetched yet (first launch offline) the bundled registries stay active.
+ */
+
+import { useEffect, useMemo } from "react";
+import { AppState, AppStateStatus } from "react-native";
+import { apiRequest } from "./api";
+import useModelCatalogStore, { ModelCatalog } from "../state/modelCatalogStore";
+import {
+  ImageModelMeta,
+  VALID_ASPECT_RATIOS,
+  getImageModels,
+  setImageModels,
+} from "../config/imageModels";
+import {
+  VideoModelMeta,
+  VALID_VIDEO_ASPECT_RATIOS,
+  getVideoModels,
+  setVideoModels,
+} from "../config/videoModels";
+import { isValidPricingSchema } from "../config/pricing";
+
+// Bump together with web when the catalog shape changes incompatibly
+export const MODEL_CATALOG_FORMAT_VERSION = 1;
+
+const CATALOG_ENDPOINT = "/api/mobile/model-catalog";
+const CATALOG_REFRESH_INTERVAL = 60 * 60 * 1000; // 1 hour
+
+const RESOLUTION_OPTIONS = ["1K_2K_4K", "1K_2K"];
+const VIDEO_DURATIONS = [4, 5, 6, 8, 10, 12, 15];
+const VIDEO_RESOLUTIONS = ["360p", "480p", "540p", "720p", "1080p"];
+const VIDEO_PROVIDERS = ["fal", "google", "wavespeed", "kie"];
+
+type Entry = Record<string, unknown>;
+
+function isObject(value: unknown): value is Entry {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.trim().length > 0;
+}
+
+function isPositiveNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value > 0;
+}
+
+function isOptional(value: unknown, check: (v: unknown) => boolean): boolean {
+  return value === undefined || check(value);
+}
+
+function isBoolean(value: unknown): value is boolean {
+  return typeof value === "boolean";
+}
+
+function isListOf(allowed: readonly unknown[]) {
+  return (value: unknown): boolean =>
+    Array.isArray(value) && value.length > 0 && value.every((v) => allowed.includes(v));
+}
+
+// Validate a single image model entry against ImageModelMeta
+export function isValidImageModelMeta(value: unknown): value is ImageModelMeta {
+  if (!isObject(value)) return false;
+  return (
+    isNonEmptyString(value.id) &&
+    isNonEmptyString(value.label) &&
+    typeof value.company === "string" &&
+    typeof value.description === "string" &&
+    typeof value.logo === "string" &&
+    isBoolean(value.isNew) &&
+    isBoolean(value.requiresAttachment) &&
+    isBoolean(value.isQueued) &&
+    isListOf(VALID_ASPECT_RATIOS)(value.allowedAspectRatios) &&
+    isPositiveNumber(value.maxImages) &&
+    isPositiveNumber(value.creditCost) &&
+    isOptional(value.minAttachments, isPositiveNumber) &&
+    isOptional(value.maxAttachments, isPositiveNumber) &&
+    isOptional(value.aspectRatioDisabled, isBoolean) &&
+    isOptional(value.attachmentDisabled, isBoolean) &&
+    isOptional(value.supportsResolution, isBoolean) &&
+    isOptional(value.resolutionOptions, (v) => v === null || RESOLUTION_OPTIONS.includes(v as string)) &&
+    isOptional(value.supportsQuality, isBoolean) &&
+    isOptional(value.maxAttachmentDimension, isPositiveNumber) &&
+    isOptional(value.pricing, isValidPricingSchema) &&
+    isOptional(value.editModelId, isNonEmptyString) &&
+    isOptional(value.isEditVariant, isBoolean)
+  );
+}
+
+// Validate a single video model entry against VideoModelMeta
+export function isValidVideoModelMeta(value: unknown): value is VideoModelMeta {
+  if (!isObject(value)) return false;
+  return (
+    isNonEmptyString(value.id) &&
+    isNonEmptyString(value.label) &&
+    typeof value.company === "string" &&
+    typeof value.description === "string" &&
+    typeof value.logo === "string" &&
+    isBoolean(value.isNew) &&
+    isBoolean(value.requiresAttachment) &&
+    isBoolean(value.isTransition) &&
+    isBoolean(value.supportsAudio) &&
+    isBoolean(value.isQueued) &&
+    isListOf(VALID_VIDEO_ASPECT_RATIOS)(value.allowedAspectRatios) &&
+    isListOf(VIDEO_DURATIONS)(value.allowedDurations) &&
+    isPositiveNumber(value.baseCreditCost) &&
+    isOptional(value.pricing, isValidPricingSchema) &&
+    VIDEO_PROVIDERS.includes(value.provider as string) &&
+    isOptional(value.allowedResolutions, isListOf(VIDEO_RESOLUTIONS)) &&
+    isOptional(value.imageAttachedAspectRatios, isListOf(VALID_VIDEO_ASPECT_RATIOS)) &&
+    isOptional(value.imageAttachedDurations, isListOf(VIDEO_DURATIONS)) &&
+    isOptional(value.maxAttachments, isPositiveNumber) &&
+    isOptional(value.supportsTransition, isBoolean) &&
+    isOptional(value.supportsAttachment, isBoolean) &&
+    isOptional(value.isTextOnly, isBoolean) &&
+    isOptional(value.isImageOnly, isBoolean) &&
+    isOptional(value.hideAspectRatioWithImage, isBoolean) &&
+    isOptional(value.hideAspectRatio, isBoolean) &&
+    isOptional(value.defaultAudioOn, isBoolean) &&
+    isOptional(value.supportsFastMode, isBoolean) &&
+    isOptional(value.supportsWatermarkToggle, isBoolean) &&
+    isOptional(value.supportsCameraFixed, isBoolean) &&
+    isOptional(value.showResolutionSelector, isBoolean) &&
+    isOptional(value.maxAttachmentDimension, isPositiveNumber)
+  );
+}
+
+// Keep only well-formed entries; a single bad model must not take down the whole catalog
+function filterValid<T>(entries: unknown, isValid: (v: unknown) => v is T, kind: string): T[] {
+  if (!Array.isArray(entries)) return [];
+  return entries.filter((entry) => {
+    const valid = isValid(entry);
+    if (!valid) {
+      console.warn(`[modelCatalog] Dropping invalid ${kind} model:`, isObject(entry) ? entry.id : entry);
+    }
+    return valid;
+  });
+}
+
+/**
+ * Parse an untrusted catalog payload. Returns null when the format version is
+ * unsupported or no usable models remain after validation.
+ */
+export function parseModelCatalog(raw: unknown): ModelCatalog | null {
+  if (!isObject(raw)) return null;
+
+  if (raw.formatVersion !== MODEL_CATALOG_FORMAT_VERSION) {
+    console.warn("[modelCatalog] Unsupported catalog format:", raw.formatVersion);
+    return null;
+  }
+
+  if (!isNonEmptyString(raw.version)) return null;
+
+  const imageModels = filterValid(raw.imageModels, isValidImageModelMeta, "image");
+  const videoModels = filterValid(raw.videoModels, isValidVideoModelMeta, "video");
+
+  if (imageModels.length === 0 && videoModels.length === 0) return null;
+
+  return {
+    formatVersion: MODEL_CATALOG_FORMAT_VERSION,
+    version: raw.version,
+    imageModels,
+    videoModels,
+  };
+}
+
+// Swap a catalog into the config registries (null or empty lists restore the bundled ones)
+function applyModelCatalog(catalog: ModelCatalog | null) {
+  // Re-validate: the cached copy may have been written by an older app version
+  const parsed = catalog ? parseModelCatalog(catalog) : null;
+  setImageModels(parsed?.imageModels ?? null);
+  setVideoModels(parsed?.videoModels ?? null);
+}
+
+// Keep the registries in sync with the store, including after AsyncStorage rehydration
+applyModelCatalog(useModelCatalogStore.getState().catalog);
+useModelCatalogStore.subscribe((state, prevState) => {
+  if (state.catalog !== prevState.catalog) {
+    applyModelCatalog(state.catalog);
+  }
+});
+
+/**
+ * Fetch the latest catalog. Network and validation failures are swallowed so the
+ * cached (or bundled) registry keeps working.
+ */
+export async function refreshModelCatalog(): Promise<boolean> {
+  try {
+    const raw = await apiRequest<unknown>(CATALOG_ENDPOINT);
+    const catalog = parseModelCatalog(raw);
+    if (!catalog) {
+      console.warn("[modelCatalog] Ignoring invalid catalog response");
+      return false;
+    }
+
+    const current = useModelCatalogStore.getState().catalog;
+    if (current?.version === catalog.version) {
+      // Unchanged - only bump the fetch timestamp
+      useModelCatalogStore.setState({ lastFetchedAt: Date.now() });
+      return true;
+    }
+
+    console.log("[modelCatalog] Applying catalog version:", catalog.version);
+    useModelCatalogStore.getState().setCatalog(catalog);
+    return true;
+  } catch (error) {
+    console.warn("[modelCatalog] Failed to fetch catalog, keeping current registry:", error);
+    return false;
+  }
+}
+
+/**
+ * Refresh the catalog at startup and whenever the app returns to the foreground
+ * with a stale copy. Mount once near the root of the app.
+ */
+export function useModelCatalogSync() {
+  useEffect(() => {
+    refreshModelCatalog();
+
+    const subscription = AppState.addEventListener("change", (nextState: AppStateStatus) => {
+      if (nextState !== "active") return;
+      const { lastFetchedAt } = useModelCatalogStore.getState();
+      if (!lastFetchedAt || Date.now() - lastFetchedAt > CATALOG_REFRESH_INTERVAL) {
+        refreshModelCatalog();
+      }
+    });
+
+    return () => subscription.remove();
+  }, []);
+}
+
+/**
+ * Active image and video registries; re-renders when a new catalog is applied.
+ */
+export function useModelCatalog() {
+  const catalog = useModelCatalogStore((state) => state.catalog);
+
+  return useMemo(
+    () => ({
+      version: catalog?.version ?? null,
+      imageModels: getImageModels(),
+      videoModels: getVideoModels(),
+    }),
+    // The registries are swapped synchronously whenever the stored catalog changes
+    [catalog]
+  );
+}
@@ -0,0 +1,35 @@
+/**
+ * Model Logos
+ * Bundled logo assets for the model pickers, keyed by ImageModelMeta / VideoModelMeta `logo`.
+ * Catalog entries (see ./modelCatalog) may ship a remote logo URL for models newer than this build.
+ */
+
+import { ImageSourcePropType } from "react-native";
+
+const LOGO_ASSETS: Record<string, ImageSourcePropType> = {
+  "openai": require("../../assets/openai.png"),
+  "googleg": require("../../assets/googleg.png"),
+  "flux": require("../../assets/flux.png"),
+  "bytedance-color": require("../../assets/bytedance-color.png"),
+  "donereve": require("../../assets/donereve.png"),
+  "minimax": require("../../assets/minimax.png"),
+  "luma": require("../../assets/foreverai.png"),
+  // No logo of their own yet
+  "hunyuan": require("../../assets/bytedance-color.png"),
+  "kling": require("../../assets/bytedance-color.png"),
+  "alibaba": require("../../assets/bytedance-color.png"),
+  "sber": require("../../assets/bytedance-color.png"),
+};
+
+// Logo tint colors (for dark icons that need white tint)
+export const LOGO_TINTS: Record<string, string | undefined> = {
+  "openai": "#fff",
+  "flux": "#fff",
+};
+
+// Bundled asset, remote catalog URL, or the Google logo as a last resort
+export function resolveLogo(logo: string): ImageSourcePropType | undefined {
+  if (LOGO_ASSETS[logo]) return LOGO_ASSETS[logo];
+  if (logo.startsWith("https://")) return { uri: logo };
+  return LOGO_ASSETS["googleg"];
+}
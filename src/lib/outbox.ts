@@ -0,0 +1,289 @@
+/**
+ * Mutation Outbox
+ * Every offline-capable mutation (asset deletes, favorite toggles, collection
+ * changes, session edits, generation creation) is written to outboxStore first and
+ * replayed from there, so they all share ordering, retries and UI status.
+ * - Hooks that own the Convex mutations register a handler per kind with
+ *   useOutboxHandler; entries without a registered handler simply wait. Several
+ *   mounted instances stack up, and the newest one still mounted replays.
+ * - One replay run at a time per process: reconnect/foreground storms join the run
+ *   in progress. Entries sharing an orderKey replay strictly in order; different
+ *   keys run side by side, so a long generation never holds up a favorite toggle.
+ * - Failures back off exponentially; after MAX_ATTEMPTS (or a non-retryable API
+ *   error) the entry is "poisoned" and waits for the user to retry or discard it.
+ */
+
+import { useEffect, useRef, useCallback, useMemo } from "react";
+import { AppState, AppStateStatus } from "react-native";
+import NetInfo, { NetInfoState } from "@react-native-community/netinfo";
+import { useAuth } from "@clerk/clerk-expo";
+import useOutboxStore, { AnyOutboxEntry, OutboxEntry, OutboxKind, OutboxPayloads } from "../state/outboxStore";
+import { ApiError } from "./api";
+
+const MAX_ATTEMPTS = 5;
+const MAX_CONCURRENT = 3;
+const RETRY_BASE_DELAY = 5000; // 5 seconds
+const RETRY_MAX_DELAY = 5 * 60 * 1000; // 5 minutes
+
+export type OutboxHandler<K extends OutboxKind> = (payload: OutboxPayloads[K], entry: OutboxEntry<K>) => Promise<void>;
+
+// Thrown by a handler when the server already reflects the mutation (e.g. the item is gone)
+export class OutboxAlreadyAppliedError extends Error {
+  constructor(message = "Already applied") {
+    super(message);
+    this.name = "OutboxAlreadyAppliedError";
+  }
+}
+
+// Registered handlers per kind, oldest first; the last one replays
+const handlers = new Map<OutboxKind, OutboxHandler<any>[]>();
+
+function getHandler(kind: OutboxKind): OutboxHandler<any> | undefined {
+  const stack = handlers.get(kind);
+  return stack?.[stack.length - 1];
+}
+
+// Shared by every caller in this process
+let activeRun: Promise<void> | null = null;
+let rerunRequested = false;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+// Mutations on the same media item (favorite, delete) replay in the order they were made
+export function getMediaOrderKey(generationId: string, mediaType: "image" | "video", mediaIndex: number): string {
+  return `media:${generationId}:${mediaType}:${mediaIndex}`;
+}
+
+// Queue a mutation and try to send it right away; the UI reads pending state from the outbox
+export function enqueueMutation<K extends OutboxKind>(kind: K, payload: OutboxPayloads[K], orderKey: string): string {
+  const id = useOutboxStore.getState().enqueue(kind, payload, orderKey);
+  syncOutbox();
+  return id;
+}
+
+export function retryOutboxEntry(id: string) {
+  useOutboxStore.getState().requeue(id);
+  syncOutbox();
+}
+
+export function discardOutboxEntry(id: string) {
+  useOutboxStore.getState().removeEntry(id);
+}
+
+// Exponential backoff with jitter, by number of attempts already made
+function getRetryDelay(attempts: number): number {
+  const ceiling = Math.min(RETRY_BASE_DELAY * 2 ** (attempts - 1), RETRY_MAX_DELAY);
+  return ceiling / 2 + Math.random() * (ceiling / 2);
+}
+
+async function replayEntry(entry: AnyOutboxEntry, handler: OutboxHandler<any>) {
+  const { markAsSyncing, markAsSynced, markAsFailed, markAsPoisoned } = useOutboxStore.getState();
+  markAsSyncing(entry.id);
+  const attempts = entry.attempts + 1;
+
+  try {
+    await handler(entry.payload, entry);
+    markAsSynced(entry.id);
+  } catch (error) {
+    // 409: the server already has this idempotency key - an earlier attempt landed
+    if (error instanceof OutboxAlreadyAppliedError || (error instanceof ApiError && error.status === 409)) {
+      markAsSynced(entry.id);
+      return;
+    }
+
+    const message = error instanceof Error ? error.message : "Unknown error";
+    const isFatal = error instanceof ApiError && !error.retryable;
+    if (isFatal || attempts >= MAX_ATTEMPTS) {
+      console.warn(`[outbox] Giving up on ${entry.kind} ${entry.id} after ${attempts} attempt(s):`, message);
+      markAsPoisoned(entry.id, message);
+    } else {
+      console.warn(`[outbox] ${entry.kind} ${entry.id} failed (attempt ${attempts}):`, message);
+      markAsFailed(entry.id, message, Date.now() + getRetryDelay(attempts));
+    }
+  }
+}
+
+// Next entry that may run now: due, handled, and first in line for its orderKey
+function pickNextEntry(busyKeys: Set<string>): AnyOutboxEntry | undefined {
+  const { entries, getDueEntries } = useOutboxStore.getState();
+  const blockedKeys = new Set(busyKeys);
+  // An earlier entry that is backing off (or poisoned) holds back later ones with the same key
+  for (const entry of [...entries].sort((a, b) => a.createdAt - b.createdAt)) {
+    if (entry.status === "failed" || entry.status === "poisoned") {
+      blockedKeys.add(entry.orderKey);
+    }
+  }
+
+  const seenKeys = new Set<string>();
+  for (const entry of getDueEntries()) {
+    if (seenKeys.has(entry.orderKey)) continue;
+    seenKeys.add(entry.orderKey);
+    const heldBack = blockedKeys.has(entry.orderKey) && entry.status !== "failed";
+    if (busyKeys.has(entry.orderKey) || heldBack || !getHandler(entry.kind)) continue;
+    return entry;
+  }
+  return undefined;
+}
+
+async function runOutbox() {
+  const busyKeys = new Set<string>();
+  const running = new Set<Promise<void>>();
+
+  // Re-read the queue after every replay - new entries may have been added meanwhile
+  while (true) {
+    while (running.size < MAX_CONCURRENT) {
+      const entry = pickNextEntry(busyKeys);
+      if (!entry) break;
+
+      busyKeys.add(entry.orderKey);
+      const task: Promise<void> = replayEntry(entry, getHandler(entry.kind)!).finally(() => {
+        busyKeys.delete(entry.orderKey);
+        running.delete(task);
+      });
+      running.add(task);
+    }
+
+    if (running.size === 0) return;
+    await Promise.race(running);
+  }
+}
+
+// Wake up when the earliest backed-off entry is due
+function scheduleRetry() {
+  if (retryTimer) clearTimeout(retryTimer);
+  retryTimer = null;
+
+  const dueTimes = useOutboxStore
+    .getState()
+    .entries.filter((entry) => entry.status === "failed" && entry.nextAttemptAt)
+    .map((entry) => entry.nextAttemptAt as number);
+  if (dueTimes.length === 0) return;
+
+  const delay = Math.max(0, Math.min(...dueTimes) - Date.now());
+  retryTimer = setTimeout(syncOutbox, delay);
+}
+
+// Replay everything that is due; safe to call from anywhere, any number of times
+export async function syncOutbox(): Promise<void> {
+  const network = await NetInfo.fetch();
+  if (!network.isConnected || network.isInternetReachable === false) return;
+
+  // Join the run in progress, but make sure it takes another pass for anything queued meanwhile
+  if (activeRun) {
+    rerunRequested = true;
+    return activeRun;
+  }
+
+  activeRun = (async () => {
+    do {
+      rerunRequested = false;
+      await runOutbox();
+    } while (rerunRequested);
+  })().finally(() => {
+    activeRun = null;
+    scheduleRetry();
+  });
+  await activeRun;
+}
+
+/**
+ * Register the handler that replays one kind of mutation. Call from the hook that
+ * owns the Convex mutation; the latest handler wins while it is mounted, and the
+ * previous one takes over again when it unmounts.
+ */
+export function useOutboxHandler<K extends OutboxKind>(kind: K, handler: OutboxHandler<K>) {
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  useEffect(() => {
+    const stableHandler: OutboxHandler<K> = (payload, entry) => handlerRef.current(payload, entry);
+    handlers.set(kind, [...(handlers.get(kind) ?? []), stableHandler]);
+    // Entries of this kind may have been waiting for a handler
+    syncOutbox();
+
+    return () => {
+      const remaining = (handlers.get(kind) ?? []).filter((registered) => registered !== stableHandler);
+      if (remaining.length > 0) {
+        handlers.set(kind, remaining);
+      } else {
+        handlers.delete(kind);
+      }
+    };
+  }, [kind]);
+}
+
+/**
+ * Drive the outbox from connectivity and app state. Mount once inside the
+ * signed-in navigator.
+ */
+export function useOutboxSync() {
+  const { isSignedIn } = useAuth();
+
+  const sync = useCallback(() => {
+    if (isSignedIn) {
+      syncOutbox();
+    }
+  }, [isSignedIn]);
+
+  useEffect(() => {
+    const unsubscribe = NetInfo.addEventListener((state: NetInfoState) => {
+      if (state.isConnected && state.isInternetReachable !== false) {
+        sync();
+      }
+    });
+
+    return () => unsubscribe();
+  }, [sync]);
+
+  useEffect(() => {
+    const subscription = AppState.addEventListener("change", (nextAppState: AppStateStatus) => {
+      if (nextAppState === "active") {
+        sync();
+      }
+    });
+
+    return () => subscription.remove();
+  }, [sync]);
+
+  useEffect(() => {
+    // Wait for AsyncStorage rehydration before replaying persisted entries
+    if (useOutboxStore.persist.hasHydrated()) {
+      sync();
+      return;
+    }
+    return useOutboxStore.persist.onFinishHydration(sync);
+  }, [sync]);
+
+  useEffect(() => {
+    return () => {
+      if (retryTimer) clearTimeout(retryTimer);
+      retryTimer = null;
+    };
+  }, []);
+}
+
+// Outbox entries of one kind, oldest first (reactive)
+export function useOutboxEntries<K extends OutboxKind>(kind: K): OutboxEntry<K>[] {
+  const entries = useOutboxStore((state) => state.entries);
+  return useMemo(() => entries.filter((entry) => entry.kind === kind) as OutboxEntry<K>[], [entries, kind]);
+}
+
+/**
+ * Reactive view of the outbox for banners and badges.
+ * waitingCount covers everything not yet on the server except poisoned entries.
+ */
+export function useOutboxStatus() {
+  const entries = useOutboxStore((state) => state.entries);
+
+  return useMemo(() => {
+    const count = (statuses: AnyOutboxEntry["status"][]) =>
+      entries.filter((entry) => statuses.includes(entry.status)).length;
+    const syncingCount = count(["syncing"]);
+
+    return {
+      waitingCount: count(["pending", "failed", "syncing"]),
+      syncingCount,
+      poisonedCount: count(["poisoned"]),
+      isSyncing: syncingCount > 0,
+    };
+  }, [entries]);
+}
@@ -0,0 +1,33 @@
+/**
+ * Prompt templates
+ * A prompt with `{subject}`-style placeholders is a template: the placeholders are
+ * filled in when the user generates, so the same template can be reused with
+ * different values.
+ * - Names are letters, digits, spaces, `_` and `-`; anything else in braces is left alone.
+ */
+
+const VARIABLE_PATTERN = /\{([A-Za-z][\w -]{0,30})\}/g;
+
+// Distinct variable names in order of first appearance
+export function getTemplateVariables(prompt: string): string[] {
+  const names: string[] = [];
+  for (const match of prompt.matchAll(VARIABLE_PATTERN)) {
+    const name = match[1].trim();
+    if (!names.includes(name)) {
+      names.push(name);
+    }
+  }
+  return names;
+}
+
+export function isPromptTemplate(prompt: string): boolean {
+  return getTemplateVariables(prompt).length > 0;
+}
+
+// Replace each placeholder with its value; placeholders without a value are kept
+export function fillTemplate(prompt: string, values: Record<string, string>): string {
+  return prompt.replace(VARIABLE_PATTERN, (placeholder, name: string) => {
+    const value = values[name.trim()]?.trim();
+    return value ? value : placeholder;
+  });
+}
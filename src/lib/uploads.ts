@@ -0,0 +1,385 @@
+/**
+ * Upload Engine
+ * Uploads local files to R2 through presigned URLs as individual tasks with byte
+ * progress, per-file retries and partial-success results: one failed file never
+ * discards the others. Images are downscaled first (see resizeImageIfNeeded),
+ * audio clips go up as-is; large videos go up in multipart chunks, so a retried task resumes from the parts
+ * that already landed instead of starting over. The presign endpoint's request and
+ * response shapes are documented in convex/README.md ("Uploads").
+ */
+
+import * as FileSystem from "expo-file-system";
+import { apiRequest, TokenProvider } from "./api";
+import { getPresignedUrl, resizeImageIfNeeded, UploadedAttachment } from "./attachments";
+
+const MAX_ATTEMPTS = 3;
+const RETRY_BASE_DELAY = 1000;
+const DEFAULT_CONCURRENCY = 3;
+const MULTIPART_THRESHOLD = 25 * 1024 * 1024; // Videos above 25MB upload in parts
+const MULTIPART_PART_SIZE = 8 * 1024 * 1024; // R2/S3 minimum is 5MB
+
+export type UploadKind = "image" | "video" | "audio";
+
+export type UploadStatus = "pending" | "preparing" | "uploading" | "completed" | "failed" | "cancelled";
+
+// Multipart upload in progress; kept on the task so a retry skips finished parts
+interface MultipartState {
+  uploadId: string;
+  key: string;
+  publicUrl: string;
+  partUrls: string[];
+  parts: { partNumber: number; etag: string }[];
+}
+
+export interface UploadTask {
+  id: string;
+  localUri: string; // Original file, e.g. the attachment thumbnail's uri
+  kind: UploadKind;
+  status: UploadStatus;
+  bytesSent: number;
+  totalBytes: number;
+  progress: number; // 0-1
+  attempts: number;
+  error: string | null;
+  result: UploadedAttachment | null;
+  maxDimension?: number; // Images only
+  preparedUri?: string; // Downscaled / re-encoded file actually uploaded
+  contentType?: string;
+  multipart?: MultipartState;
+}
+
+export interface UploadOptions {
+  getToken: TokenProvider;
+  contentType?: string; // Videos and audio only, defaults to video/mp4 / audio/mp4
+  signal?: AbortSignal;
+  onUpdate?: (task: UploadTask) => void;
+}
+
+let taskCounter = 0;
+
+export function createUploadTask(localUri: string, kind: UploadKind, maxDimension?: number): UploadTask {
+  return {
+    id: `upload_${Date.now()}_${++taskCounter}`,
+    localUri,
+    kind,
+    status: "pending",
+    bytesSent: 0,
+    totalBytes: 0,
+    progress: 0,
+    attempts: 0,
+    error: null,
+    result: null,
+    maxDimension,
+  };
+}
+
+export function isUploadActive(task: UploadTask): boolean {
+  return task.status === "pending" || task.status === "preparing" || task.status === "uploading";
+}
+
+class UploadCancelledError extends Error {
+  constructor() {
+    super("Upload cancelled");
+    this.name = "UploadCancelledError";
+  }
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timeout);
+      reject(new UploadCancelledError());
+    };
+    signal?.addEventListener("abort", onAbort);
+  });
+}
+
+// PUT a file to a presigned URL, reporting bytes sent
+async function putFile(
+  uploadUrl: string,
+  fileUri: string,
+  contentType: string,
+  onProgress: (bytesSent: number) => void,
+  signal?: AbortSignal
+): Promise<FileSystem.FileSystemUploadResult> {
+  const task = FileSystem.createUploadTask(
+    uploadUrl,
+    fileUri,
+    {
+      httpMethod: "PUT",
+      uploadType: FileSystem.FileSystemUploadType.BINARY_CONTENT,
+      headers: { "Content-Type": contentType },
+    },
+    ({ totalBytesSent }) => onProgress(totalBytesSent)
+  );
+
+  const onAbort = () => {
+    task.cancelAsync().catch(() => {});
+  };
+  signal?.addEventListener("abort", onAbort);
+
+  try {
+    const response = await task.uploadAsync();
+    if (!response) {
+      throw new UploadCancelledError();
+    }
+    if (response.status < 200 || response.status >= 300) {
+      throw new Error(`Upload failed: ${response.status}`);
+    }
+    return response;
+  } finally {
+    signal?.removeEventListener("abort", onAbort);
+  }
+}
+
+// Presigned single-PUT target for the task's kind
+async function presign(
+  task: UploadTask,
+  getToken: TokenProvider
+): Promise<{ uploadUrl: string; publicUrl: string; key: string }> {
+  if (task.kind !== "video") {
+    return getPresignedUrl(getToken, task.contentType);
+  }
+
+  const response = await apiRequest<{ success: boolean; uploadUrl: string; url: string; key: string }>(
+    "/api/mobile/upload-video-presign",
+    {
+      method: "POST",
+      body: { contentType: task.contentType, fileName: "video.mp4" },
+      getToken,
+    }
+  );
+  if (!response.success || !response.uploadUrl) {
+    throw new Error("Failed to get presigned URL");
+  }
+  return { uploadUrl: response.uploadUrl, publicUrl: response.url, key: response.key };
+}
+
+// Start a multipart upload: one presigned URL per part
+async function createMultipartUpload(task: UploadTask, getToken: TokenProvider): Promise<MultipartState> {
+  const partCount = Math.ceil(task.totalBytes / MULTIPART_PART_SIZE);
+  const response = await apiRequest<{
+    success: boolean;
+    uploadId: string;
+    key: string;
+    url: string;
+    partUrls: string[];
+  }>("/api/mobile/upload-video-presign", {
+    method: "POST",
+    body: {
+      action: "create-multipart",
+      contentType: task.contentType,
+      fileName: "video.mp4",
+      fileSize: task.totalBytes,
+      partCount,
+    },
+    getToken,
+  });
+  if (!response.success || !response.uploadId || response.partUrls?.length !== partCount) {
+    throw new Error("Failed to start multipart upload");
+  }
+  return {
+    uploadId: response.uploadId,
+    key: response.key,
+    publicUrl: response.url,
+    partUrls: response.partUrls,
+    parts: [],
+  };
+}
+
+async function completeMultipartUpload(multipart: MultipartState, getToken: TokenProvider): Promise<string> {
+  const response = await apiRequest<{ success: boolean; url: string }>("/api/mobile/upload-video-presign", {
+    method: "POST",
+    body: {
+      action: "complete-multipart",
+      key: multipart.key,
+      uploadId: multipart.uploadId,
+      parts: [...multipart.parts].sort((a, b) => a.partNumber - b.partNumber),
+    },
+    getToken,
+  });
+  if (!response.success) {
+    throw new Error("Failed to complete multipart upload");
+  }
+  return response.url || multipart.publicUrl;
+}
+
+// A cancelled upload starts over if retried - free the parts already stored (R2 also expires them)
+async function abortMultipartUpload(multipart: MultipartState, getToken: TokenProvider): Promise<void> {
+  try {
+    await apiRequest<{ success: boolean }>("/api/mobile/upload-video-presign", {
+      method: "POST",
+      body: { action: "abort-multipart", key: multipart.key, uploadId: multipart.uploadId },
+      getToken,
+    });
+  } catch (error) {
+    console.warn("[uploads] Failed to abort multipart upload:", error);
+  }
+}
+
+/**
+ * Run one attempt. The task object is live - update() writes to it and notifies
+ * onUpdate - so progress made here (prepared file, finished parts) carries over
+ * to the next attempt. Resolves with the uploaded attachment or throws.
+ */
+async function attemptUpload(
+  task: UploadTask,
+  options: UploadOptions,
+  update: (updates: Partial<UploadTask>) => void
+): Promise<UploadedAttachment> {
+  const { getToken, signal } = options;
+
+  // 1. Prepare once - retries reuse the downscaled file
+  if (!task.preparedUri) {
+    update({ status: "preparing" });
+    if (task.kind === "image") {
+      const prepared = await resizeImageIfNeeded(task.localUri, task.maxDimension);
+      update({ preparedUri: prepared.uri, contentType: prepared.contentType });
+    } else {
+      const defaultType = task.kind === "audio" ? "audio/mp4" : "video/mp4";
+      update({ preparedUri: task.localUri, contentType: options.contentType ?? defaultType });
+    }
+  }
+
+  const fileUri = task.preparedUri as string;
+  const contentType = task.contentType as string;
+  const fileInfo = await FileSystem.getInfoAsync(fileUri);
+  if (!fileInfo.exists) {
+    throw new Error("File not found");
+  }
+  update({ status: "uploading", totalBytes: fileInfo.size, error: null });
+
+  const reportProgress = (bytesSent: number) => {
+    const sent = Math.min(bytesSent, task.totalBytes);
+    update({ bytesSent: sent, progress: task.totalBytes > 0 ? sent / task.totalBytes : 0 });
+  };
+
+  // 2a. Single PUT
+  if (task.kind !== "video" || task.totalBytes <= MULTIPART_THRESHOLD) {
+    const target = await presign(task, getToken);
+    reportProgress(0);
+    await putFile(target.uploadUrl, fileUri, contentType, reportProgress, signal);
+    return { url: target.publicUrl, localUri: task.localUri, key: target.key };
+  }
+
+  // 2b. Multipart - each part is read into a temp file and PUT on its own
+  if (!task.multipart) {
+    update({ multipart: await createMultipartUpload(task, getToken) });
+  }
+  const { partUrls } = task.multipart as MultipartState;
+  const done = new Set((task.multipart as MultipartState).parts.map((part) => part.partNumber));
+
+  for (let index = 0; index < partUrls.length; index++) {
+    const partNumber = index + 1;
+    const offset = index * MULTIPART_PART_SIZE;
+    if (done.has(partNumber)) continue;
+    if (signal?.aborted) throw new UploadCancelledError();
+
+    const length = Math.min(MULTIPART_PART_SIZE, task.totalBytes - offset);
+    const partUri = `${FileSystem.cacheDirectory}${task.id}-part-${partNumber}`;
+    const chunk = await FileSystem.readAsStringAsync(fileUri, {
+      encoding: FileSystem.EncodingType.Base64,
+      position: offset,
+      length,
+    });
+    await FileSystem.writeAsStringAsync(partUri, chunk, { encoding: FileSystem.EncodingType.Base64 });
+
+    try {
+      const response = await putFile(
+        partUrls[index],
+        partUri,
+        contentType,
+        (bytesSent) => reportProgress(offset + bytesSent),
+        signal
+      );
+      const etag = response.headers.ETag ?? response.headers.etag;
+      if (!etag) {
+        throw new Error(`Missing ETag for part ${partNumber}`);
+      }
+      const multipart = task.multipart as MultipartState;
+      update({ multipart: { ...multipart, parts: [...multipart.parts, { partNumber, etag }] } });
+    } finally {
+      await FileSystem.deleteAsync(partUri, { idempotent: true });
+    }
+  }
+
+  const multipart = task.multipart as MultipartState;
+  const url = await completeMultipartUpload(multipart, getToken);
+  return { url, localUri: task.localUri, key: multipart.key };
+}
+
+/**
+ * Upload one task with up to MAX_ATTEMPTS tries. Never throws: the returned task
+ * is "completed", "failed" or "cancelled". Pass a failed task back in to retry it.
+ */
+export async function runUploadTask(initial: UploadTask, options: UploadOptions): Promise<UploadTask> {
+  const task: UploadTask = { ...initial, status: "pending", error: null };
+  // Callers get snapshots so React state never holds the live object
+  const update = (updates: Partial<UploadTask>) => {
+    Object.assign(task, updates);
+    options.onUpdate?.({ ...task });
+  };
+  const cancel = (): UploadTask => {
+    if (task.multipart) {
+      abortMultipartUpload(task.multipart, options.getToken);
+    }
+    update({ status: "cancelled", error: "Upload cancelled", multipart: undefined });
+    return { ...task };
+  };
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    try {
+      if (options.signal?.aborted) throw new UploadCancelledError();
+      update({ attempts: task.attempts + 1 });
+      const result = await attemptUpload(task, options, update);
+      update({ status: "completed", result, progress: 1, bytesSent: task.totalBytes, error: null });
+      return { ...task };
+    } catch (error) {
+      if (error instanceof UploadCancelledError || options.signal?.aborted) {
+        return cancel();
+      }
+
+      const message = error instanceof Error ? error.message : "Upload failed";
+      console.warn(`[uploads] Attempt ${attempt}/${MAX_ATTEMPTS} failed for ${task.id}:`, message);
+      if (attempt === MAX_ATTEMPTS) {
+        update({ status: "failed", error: message });
+        return { ...task };
+      }
+
+      try {
+        await wait(RETRY_BASE_DELAY * 2 ** (attempt - 1), options.signal);
+      } catch {
+        return cancel();
+      }
+    }
+  }
+
+  return { ...task };
+}
+
+/**
+ * Upload several tasks with a concurrency limit. Results keep the input order and
+ * include failures, so callers can use what succeeded and retry the rest.
+ */
+export async function uploadTasks(
+  tasks: UploadTask[],
+  options: UploadOptions,
+  concurrency: number = DEFAULT_CONCURRENCY
+): Promise<UploadTask[]> {
+  const results: UploadTask[] = [...tasks];
+  let next = 0;
+
+  const worker = async () => {
+    while (next < tasks.length) {
+      const index = next++;
+      results[index] = await runUploadTask(tasks[index], options);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, tasks.length) }, worker));
+  return results;
+}
@@ -0,0 +1,147 @@
+/**
+ * Per-user persisted storage
+ * Persisted stores that hold account data (caches, the mutation outbox) write to
+ * AsyncStorage keys namespaced by the Clerk user id ("<name>:user:<id>"), so a
+ * sign-out or account switch never throws away another account's unsynced work.
+ * - Stores use userScopedStorage in place of AsyncStorage, set skipHydration and
+ *   call registerUserScopedStore once after creation.
+ * - useUserStorageScope (mounted in RootNavigator) switches the active user: the
+ *   in-memory state is reset to the store's initial state and rehydrated from the
+ *   new user's keys. While nobody is signed in, writes are dropped.
+ * - Data only leaves the device through purgeUserStorage (Settings).
+ */
+
+import { useEffect, useState } from "react";
+import { useAuth } from "@clerk/clerk-expo";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { StateStorage } from "zustand/middleware";
+
+const USER_KEY_SEPARATOR = ":user:";
+
+interface ScopedStore<T> {
+  getInitialState: () => T;
+  setState: (state: T, replace: true) => void;
+  persist: {
+    getOptions: () => { name?: string };
+    rehydrate: () => Promise<void> | void;
+  };
+}
+
+interface RegisteredStore {
+  name: string;
+  reset: () => void;
+  rehydrate: () => Promise<void> | void;
+}
+
+const registeredStores: RegisteredStore[] = [];
+
+// Shared by every scoped store in this process
+let activeUserId: string | null = null;
+let activeSwitch: Promise<void> = Promise.resolve();
+
+function getUserKey(name: string, userId: string): string {
+  return `${name}${USER_KEY_SEPARATOR}${userId}`;
+}
+
+export const userScopedStorage: StateStorage = {
+  getItem: async (name) => {
+    if (!activeUserId) return null;
+    const userKey = getUserKey(name, activeUserId);
+    const value = await AsyncStorage.getItem(userKey);
+    if (value !== null) return value;
+
+    // Storage written before namespacing belongs to whoever signs in first after the update,
+    // unless it recorded a different owner
+    const legacyValue = await AsyncStorage.getItem(name);
+    if (legacyValue === null) return null;
+    await AsyncStorage.removeItem(name);
+    const legacyOwner = JSON.parse(legacyValue)?.state?.userId;
+    if (legacyOwner && legacyOwner !== activeUserId) return null;
+    await AsyncStorage.setItem(userKey, legacyValue);
+    return legacyValue;
+  },
+  setItem: async (name, value) => {
+    if (!activeUserId) return;
+    await AsyncStorage.setItem(getUserKey(name, activeUserId), value);
+  },
+  removeItem: async (name) => {
+    if (!activeUserId) return;
+    await AsyncStorage.removeItem(getUserKey(name, activeUserId));
+  },
+};
+
+export function registerUserScopedStore<T>(store: ScopedStore<T>) {
+  registeredStores.push({
+    name: store.persist.getOptions().name ?? "",
+    reset: () => store.setState(store.getInitialState(), true),
+    rehydrate: () => store.persist.rehydrate(),
+  });
+}
+
+// Swap every scoped store over to another user's data (null = signed out)
+export function setActiveStorageUser(userId: string | null): Promise<void> {
+  activeSwitch = activeSwitch.then(async () => {
+    if (userId === activeUserId) return;
+
+    // Drop the previous user's state from memory without writing it anywhere
+    activeUserId = null;
+    registeredStores.forEach((store) => store.reset());
+    if (!userId) return;
+
+    activeUserId = userId;
+    await Promise.all(registeredStores.map((store) => store.rehydrate()));
+  });
+  return activeSwitch;
+}
+
+// Users (other than nobody) that have data stored on this device
+export async function getStoredUserIds(): Promise<string[]> {
+  const names = new Set(registeredStores.map((store) => store.name));
+  const userIds = new Set<string>();
+  for (const key of await AsyncStorage.getAllKeys()) {
+    const separatorIndex = key.indexOf(USER_KEY_SEPARATOR);
+    if (separatorIndex < 0 || !names.has(key.slice(0, separatorIndex))) continue;
+    userIds.add(key.slice(separatorIndex + USER_KEY_SEPARATOR.length));
+  }
+  return [...userIds];
+}
+
+/**
+ * Delete a user's persisted data from this device, including changes that were
+ * never synced. Clears the in-memory state too when it's the active user.
+ */
+export async function purgeUserStorage(userId: string) {
+  await activeSwitch;
+  await AsyncStorage.multiRemove(registeredStores.map((store) => getUserKey(store.name, userId)));
+  if (userId === activeUserId) {
+    registeredStores.forEach((store) => store.reset());
+  }
+}
+
+/**
+ * Keep the scoped stores pointed at the signed-in Clerk user. Returns false until
+ * that user's data has been loaded, so screens don't render (and sync) stale state.
+ */
+export function useUserStorageScope(): boolean {
+  const { isLoaded, userId } = useAuth();
+  const [readyUserId, setReadyUserId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isLoaded) return;
+    let cancelled = false;
+
+    setActiveStorageUser(userId ?? null)
+      .catch((error) => {
+        console.warn("[userStorage] Failed to load stored data:", error);
+      })
+      .finally(() => {
+        if (!cancelled) setReadyUserId(userId ?? null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isLoaded, userId]);
+
+  return isLoaded && readyUserId === (userId ?? null);
+}
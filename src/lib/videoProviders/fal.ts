@@ -0,0 +1,38 @@
+import type { VideoModelId } from "../../config/videoModels";
+import type { VideoProviderAdapter, VideoRoute } from "./types";
+import {
+  UNIFIED_VIDEO_ROUTE,
+  SUBMIT_ID_KEYS,
+  buildBasePayload,
+  buildStatusPath,
+  parseStatusResult,
+  parseSubmitResult,
+} from "./shared";
+
+// Models with their own mobile route; everything else goes through the unified route
+const FAL_ROUTES: Partial<Record<VideoModelId, VideoRoute>> = {
+  // Pixverse Models (uses FAL under the hood)
+  "pixverse-v5": {
+    submitEndpoint: "/api/mobile/pixverse-video",
+    statusEndpoint: "/api/fal-generate-videos/status", // Unified FAL status endpoint
+    pollParam: "requestId",
+  },
+};
+
+/**
+ * FAL (Veo, Kling 2.6/O1, Lucy, Hailuo, etc.)
+ * Mobile POST, but WEB status endpoint (like images do)
+ */
+export const falAdapter: VideoProviderAdapter = {
+  provider: "fal",
+
+  getRoute: (modelId) => FAL_ROUTES[modelId] ?? UNIFIED_VIDEO_ROUTE,
+
+  buildPayload: (request) => buildBasePayload(request),
+
+  parseSubmitResponse: (_modelId, response) => parseSubmitResult(response, SUBMIT_ID_KEYS),
+
+  getStatusPath: (modelId, handle) => buildStatusPath(falAdapter.getRoute(modelId), modelId, handle),
+
+  parseStatusResponse: (_modelId, response) => parseStatusResult(response),
+};
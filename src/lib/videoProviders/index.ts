@@ -0,0 +1,34 @@
+/**
+ * Video Provider Adapters
+ * Each provider (matching VideoModelMeta.provider) owns its request payload, submit
+ * and status routes, and parses its responses into one normalized VideoProviderResult.
+ * Adding a provider means writing one adapter and registering it here.
+ */
+
+import { VideoModelId, VideoProvider, getVideoModelById } from "../../config/videoModels";
+import type { VideoProviderAdapter } from "./types";
+import { falAdapter } from "./fal";
+import { kieAdapter } from "./kie";
+import { googleAdapter } from "./google";
+import { wavespeedAdapter } from "./wavespeed";
+
+export type {
+  VideoProviderAdapter,
+  VideoProviderRequest,
+  VideoProviderResult,
+  VideoPollHandle,
+  VideoRoute,
+} from "./types";
+
+const ADAPTERS: Record<VideoProvider, VideoProviderAdapter> = {
+  fal: falAdapter,
+  kie: kieAdapter,
+  google: googleAdapter,
+  wavespeed: wavespeedAdapter,
+};
+
+// Unknown models (e.g. dropped from the catalog) fall back to the unified FAL route
+export function getVideoProviderAdapter(modelId: VideoModelId): VideoProviderAdapter {
+  const provider = getVideoModelById(modelId)?.provider;
+  return (provider && ADAPTERS[provider]) || falAdapter;
+}
@@ -0,0 +1,45 @@
+import type { VideoModelId } from "../../config/videoModels";
+import type { VideoProviderAdapter, VideoRoute } from "./types";
+import { SUBMIT_ID_KEYS, buildBasePayload, buildStatusPath, parseStatusResult, parseSubmitResult } from "./shared";
+import { falAdapter } from "./fal";
+
+// Dedicated KIE routes poll by taskId on the web status endpoints
+const KIE_ROUTES: Partial<Record<VideoModelId, VideoRoute>> = {
+  // KIE Sora 2
+  "kie-sora-2": {
+    submitEndpoint: "/api/mobile/kie-sora-2",
+    statusEndpoint: "/api/kie-sora-2/status",
+    pollParam: "taskId",
+  },
+  // KIE Wan 2.5
+  "kie-wan-2.5": {
+    submitEndpoint: "/api/mobile/kie-wan-2.5",
+    statusEndpoint: "/api/kie-wan-2.5/status",
+    pollParam: "taskId",
+  },
+  // KIE Seedance 1.5 Pro models
+  "kie-seedance-1.5-pro": {
+    submitEndpoint: "/api/mobile/kie-seedance-1.5-pro",
+    statusEndpoint: "/api/kie-seedance-1.5-pro/status",
+    pollParam: "taskId",
+  },
+};
+
+/**
+ * KIE (Sora 2, Wan 2.5, Seedance 1.5 Pro)
+ * KIE models without a dedicated route (Kling) are proxied by web's unified route,
+ * so they speak the FAL protocol.
+ */
+export const kieAdapter: VideoProviderAdapter = {
+  provider: "kie",
+
+  getRoute: (modelId) => KIE_ROUTES[modelId] ?? falAdapter.getRoute(modelId),
+
+  buildPayload: (request) => buildBasePayload(request),
+
+  parseSubmitResponse: (_modelId, response) => parseSubmitResult(response, SUBMIT_ID_KEYS),
+
+  getStatusPath: (modelId, handle) => buildStatusPath(kieAdapter.getRoute(modelId), modelId, handle),
+
+  parseStatusResponse: (_modelId, response) => parseStatusResult(response),
+};
@@ -0,0 +1,136 @@
+import type { VideoModelId } from "../../config/videoModels";
+import type { VideoPollHandle, VideoProviderRequest, VideoProviderResult, VideoRoute } from "./types";
+
+// Web's unified route; dispatches to the right backend by model ID
+export const UNIFIED_VIDEO_ROUTE: VideoRoute = {
+  submitEndpoint: "/api/mobile/generate-video",
+  statusEndpoint: "/api/fal-generate-videos/status", // WEB status endpoint - works!
+  pollParam: "requestId",
+};
+
+/**
+ * Every field a submit response may carry the request ID in. Routes proxied by the
+ * unified route answer with whichever backend served them, so all routes accept all of
+ * them; FAL uses endpoint as the request registry key.
+ */
+export const SUBMIT_ID_KEYS = [
+  "requestId",
+  "request_id",
+  "taskId",
+  "task_id",
+  "operationName",
+  "operation_name",
+  "endpoint",
+];
+
+type Response = Record<string, unknown>;
+
+function asObject(response: unknown): Response {
+  return typeof response === "object" && response !== null ? (response as Response) : {};
+}
+
+// First non-empty string among the given fields (providers mix camelCase and snake_case)
+export function readString(response: unknown, keys: string[]): string | undefined {
+  const body = asObject(response);
+  for (const key of keys) {
+    const value = body[key];
+    if (typeof value === "string" && value.length > 0) return value;
+  }
+  return undefined;
+}
+
+// Fields every route accepts; attachments go out under both the FAL and the KIE names
+export function buildBasePayload(request: VideoProviderRequest): Record<string, unknown> {
+  const payload: Record<string, unknown> = {
+    prompt: request.prompt,
+    model: request.modelId, // Backend handles model ID mapping
+    aspectRatio: request.aspectRatio,
+    duration: Number(request.duration), // Ensure it's a number, not a string
+  };
+
+  if (request.resolution) payload.resolution = request.resolution;
+  if (request.generateAudio !== undefined) payload.generateAudio = request.generateAudio;
+  if (request.generateAudio && request.voiceId) payload.voiceId = request.voiceId;
+  if (request.fastMode !== undefined) payload.fastMode = request.fastMode;
+  if (request.removeWatermark !== undefined) payload.removeWatermark = request.removeWatermark;
+  if (request.cameraFixed !== undefined) payload.cameraFixed = request.cameraFixed;
+  if (request.attachmentImageUrl) {
+    payload.imageUrl = request.attachmentImageUrl;
+    payload.attachmentImageUrl = request.attachmentImageUrl;
+  }
+  if (request.startFrameImageUrl) {
+    payload.startFrameImageUrl = request.startFrameImageUrl;
+    payload.startImageUrl = request.startFrameImageUrl;
+  }
+  if (request.endFrameImageUrl) {
+    payload.endFrameImageUrl = request.endFrameImageUrl;
+    payload.endImageUrl = request.endFrameImageUrl;
+  }
+  if (request.klingO1Images) payload.klingO1Images = request.klingO1Images;
+
+  return payload;
+}
+
+export function buildStatusPath(route: VideoRoute, modelId: VideoModelId, handle: VideoPollHandle): string {
+  let queryString = `${route.pollParam}=${encodeURIComponent(handle.requestId)}&modelId=${encodeURIComponent(modelId)}`;
+  if (handle.endpoint) {
+    queryString += `&endpoint=${encodeURIComponent(handle.endpoint)}`;
+  }
+  return `${route.statusEndpoint}?${queryString}`;
+}
+
+// Videos may come back as string[], {url}[], a single video or a bare videoUrl
+export function extractVideoUrls(response: unknown): string[] | undefined {
+  const body = asObject(response);
+  const toUrl = (video: unknown) =>
+    typeof video === "string" ? video : (asObject(video).url as string | undefined);
+
+  if (Array.isArray(body.videos)) {
+    const urls = body.videos.map(toUrl).filter((url): url is string => !!url);
+    return urls.length > 0 ? urls : undefined;
+  }
+  if (body.video) {
+    const url = toUrl(body.video);
+    return url ? [url] : undefined;
+  }
+  if (typeof body.videoUrl === "string") {
+    return [body.videoUrl];
+  }
+  return undefined;
+}
+
+/**
+ * Submit responses either carry a poll handle (queued) or the finished videos.
+ * The first field in idKeys that is present becomes the request ID.
+ */
+export function parseSubmitResult(response: unknown, idKeys: string[]): VideoProviderResult {
+  const body = asObject(response);
+  const requestId = readString(body, idKeys);
+  if (requestId) {
+    return { state: "queued", handle: { requestId, endpoint: readString(body, ["endpoint"]) } };
+  }
+
+  const videos = extractVideoUrls(body);
+  if (body.success && videos) {
+    return { state: "completed", videos };
+  }
+
+  return { state: "failed", error: readString(body, ["error"]) ?? "Video generation failed" };
+}
+
+// Status routes share one shape: success + videos when done, error when failed
+export function parseStatusResult(response: unknown): VideoProviderResult {
+  const body = asObject(response);
+  const videos = extractVideoUrls(body);
+  if (body.success && videos) {
+    return { state: "completed", videos };
+  }
+
+  const error = readString(body, ["error"]);
+  if (error) {
+    return { state: "failed", error };
+  }
+
+  // Still processing, continue polling
+  return { state: "processing" };
+}
@@ -0,0 +1,55 @@
+import type {
+  VideoModelId,
+  VideoAspectRatio,
+  VideoDuration,
+  VideoResolution,
+  VideoProvider,
+} from "../../config/videoModels";
+
+// Provider-agnostic generation input
+export interface VideoProviderRequest {
+  prompt: string;
+  modelId: VideoModelId;
+  aspectRatio: VideoAspectRatio;
+  duration: VideoDuration;
+  resolution?: VideoResolution;
+  generateAudio?: boolean;
+  voiceId?: string; // Cloned voice for generated speech; only sent with generateAudio
+  fastMode?: boolean;
+  removeWatermark?: boolean;
+  cameraFixed?: boolean;
+  // Attachments
+  attachmentImageUrl?: string; // Single image for I2V
+  startFrameImageUrl?: string; // For transitions
+  endFrameImageUrl?: string; // For transitions
+  klingO1Images?: { url: string }[]; // For Kling O1 reference mode
+}
+
+// Mobile POST route (no Turnstile) and the web status route used for polling
+export interface VideoRoute {
+  submitEndpoint: string;
+  statusEndpoint: string;
+  pollParam: "requestId" | "taskId";
+}
+
+// What is needed to poll a queued generation; persisted for resume after restart
+export interface VideoPollHandle {
+  requestId: string;
+  endpoint?: string; // FAL endpoint for status lookup
+}
+
+// Normalized submit/status result, whatever shape the provider returned
+export type VideoProviderResult =
+  | { state: "completed"; videos: string[] }
+  | { state: "queued"; handle: VideoPollHandle }
+  | { state: "processing" }
+  | { state: "failed"; error: string };
+
+export interface VideoProviderAdapter {
+  provider: VideoProvider;
+  getRoute: (modelId: VideoModelId) => VideoRoute;
+  buildPayload: (request: VideoProviderRequest) => Record<string, unknown>;
+  parseSubmitResponse: (modelId: VideoModelId, response: unknown) => VideoProviderResult;
+  getStatusPath: (modelId: VideoModelId, handle: VideoPollHandle) => string;
+  parseStatusResponse: (modelId: VideoModelId, response: unknown) => VideoProviderResult;
+}
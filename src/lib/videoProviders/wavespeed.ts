@@ -0,0 +1,21 @@
+import type { VideoProviderAdapter } from "./types";
+import { UNIFIED_VIDEO_ROUTE, SUBMIT_ID_KEYS, buildStatusPath, parseStatusResult, parseSubmitResult } from "./shared";
+import { falAdapter } from "./fal";
+
+/**
+ * WaveSpeed
+ * Served by the unified route with the same payload as FAL.
+ */
+export const wavespeedAdapter: VideoProviderAdapter = {
+  provider: "wavespeed",
+
+  getRoute: () => UNIFIED_VIDEO_ROUTE,
+
+  buildPayload: (request) => falAdapter.buildPayload(request),
+
+  parseSubmitResponse: (_modelId, response) => parseSubmitResult(response, SUBMIT_ID_KEYS),
+
+  getStatusPath: (modelId, handle) => buildStatusPath(UNIFIED_VIDEO_ROUTE, modelId, handle),
+
+  parseStatusResponse: (_modelId, response) => parseStatusResult(response),
+};
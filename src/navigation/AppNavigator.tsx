@@ -1,12 +1,20 @@
 import React from "react";
 import { createNativeStackNavigator } from "@react-navigation/native-stack";
-import TabNavigator from "./TabNavigator";
+import { NavigatorScreenParams } from "@react-navigation/native";
+import TabNavigator, { TabParamList } from "./TabNavigator";
 import AspectRatioModal from "../screens/AspectRatioModal";
 import SettingsScreen from "../screens/SettingsScreen";
+import TalkingPhotoScreen from "../screens/TalkingPhotoScreen";
+import VoiceLibraryScreen from "../screens/VoiceLibraryScreen";
+import { useResumeInflightGenerations } from "../lib/inflightGenerations";
+import { useOutboxSync } from "../lib/outbox";
+import { useGenerationReplay } from "../hooks/useGenerations";
 
 export type AppStackParamList = {
-  Main: undefined;
+  Main: NavigatorScreenParams<TabParamList> | undefined;
   Settings: undefined;
+  TalkingPhoto: undefined;
+  VoiceLibrary: undefined;
   AspectRatioModal: {
     onSelect: (ratio: string) => void;
     currentRatio: string;
@@ -16,6 +24,13 @@ export type AppStackParamList = {
 const Stack = createNativeStackNavigator<AppStackParamList>();
 
 export default function AppNavigator() {
+  // Finish generations interrupted by the app being killed mid-poll
+  useResumeInflightGenerations();
+  // Replay queued offline mutations on reconnect / foreground
+  useOutboxSync();
+  // Send prompts queued offline, whichever screen is open
+  useGenerationReplay();
+
   return (
     <Stack.Navigator
       initialRouteName="Main"
@@ -33,6 +48,8 @@ export default function AppNavigator() {
           animation: "slide_from_bottom",
         }}
       />
+      <Stack.Screen name="TalkingPhoto" component={TalkingPhotoScreen} />
+      <Stack.Screen name="VoiceLibrary" component={VoiceLibraryScreen} />
       <Stack.Group screenOptions={{ presentation: "transparentModal" }}>
         <Stack.Screen name="AspectRatioModal" component={AspectRatioModal} />
       </Stack.Group>
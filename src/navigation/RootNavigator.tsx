@@ -3,11 +3,14 @@ import { View, ActivityIndicator } from "react-native";
 import { useAuth } from "@clerk/clerk-expo";
 import AuthNavigator from "./AuthNavigator";
 import AppNavigator from "./AppNavigator";
+import { useUserStorageScope } from "../lib/userStorage";
 
 export default function RootNavigator() {
   const { isSignedIn, isLoaded } = useAuth();
+  // Load the signed-in user's cached data and outbox before any screen reads them
+  const isStorageReady = useUserStorageScope();
 
-  if (!isLoaded) {
+  if (!isLoaded || !isStorageReady) {
     return (
       <View className="flex-1 bg-[#1a1a2e] items-center justify-center">
         <ActivityIndicator size="large" color="#007AFF" />
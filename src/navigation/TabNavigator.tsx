@@ -6,6 +6,7 @@ import ImagesScreen from "../screens/ImagesScreen";
 import VideosScreen from "../screens/VideosScreen";
 import EnhancerScreen from "../screens/EnhancerScreen";
 import AssetsScreen from "../screens/AssetsScreen";
+import type { ImageRemixRequest, VideoRemixRequest } from "../lib/generationRemix";
 
 export type TabParamList = {
   Home: undefined;
@@ -22,12 +23,21 @@ export type TabParamList = {
       imageUrls?: string[];
       autoGenerate?: boolean;
     };
+    // Image URLs to add to the prompt bar's attachments (e.g. from an Assets selection)
+    attachImageUrls?: string[];
+    // A past generation's request to prefill (Remix) or run again (Regenerate)
+    remix?: { request: ImageRemixRequest; autoGenerate: boolean };
   } | undefined;
   Videos: { 
     sessionId?: string; 
     sessionTitle?: string;
+    // A past generation's request to prefill (Remix) or run again (Regenerate)
+    remix?: { request: VideoRemixRequest; autoGenerate: boolean };
+  } | undefined;
+  Enhancer: {
+    sessionId?: string;
+    sessionTitle?: string;
   } | undefined;
-  Enhancer: undefined;
   Assets: undefined;
 };
 
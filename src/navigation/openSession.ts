@@ -0,0 +1,33 @@
+import { CommonActions, NavigationProp, ParamListBase } from "@react-navigation/native";
+
+// Tab that shows each session type ("assets" sessions have no session view)
+const SESSION_TABS: Record<string, "Images" | "Videos" | "Enhancer"> = {
+  image: "Images",
+  video: "Videos",
+  edit: "Enhancer",
+};
+
+/**
+ * Open a session in the tab for its type. Works from anywhere in the app stack
+ * (drawer, tabs, sheets) since it navigates through the "Main" tab navigator.
+ */
+export function openSession(
+  navigation: Pick<NavigationProp<ParamListBase>, "dispatch">,
+  session: { id: string; type: string; title?: string }
+) {
+  const screen = SESSION_TABS[session.type];
+  if (!screen) return;
+
+  navigation.dispatch(
+    CommonActions.navigate({
+      name: "Main",
+      params: {
+        screen,
+        params: {
+          sessionId: session.id,
+          sessionTitle: session.title,
+        },
+      },
+    })
+  );
+}
@@ -1,33 +1,51 @@
-import React, { useState, useMemo, useCallback, useRef } from "react";
+import React, { useState, useMemo, useCallback, useRef, useEffect } from "react";
 import {
   View,
   Text,
   Pressable,
   FlatList,
+  ScrollView,
   Dimensions,
   ActivityIndicator,
   Alert,
   RefreshControl,
 } from "react-native";
-import { Image } from "expo-image";
 import { SafeAreaView } from "react-native-safe-area-context";
 import { Ionicons } from "@expo/vector-icons";
 import { LinearGradient } from "expo-linear-gradient";
 import { BlurView } from "expo-blur";
 import Animated, { useSharedValue, useAnimatedScrollHandler, useAnimatedStyle, interpolate } from "react-native-reanimated";
 import { BottomSheetModal } from "@gorhom/bottom-sheet";
-import { useAssets, AssetItem } from "../hooks/useAssets";
+import { useNavigation, CommonActions } from "@react-navigation/native";
+import { useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import { useAssets, AssetItem, AssetsQueryOptions } from "../hooks/useAssets";
 import NetworkBanner from "../components/NetworkBanner";
 import AssetDetailSheet from "../components/AssetDetailSheet";
+import CollectionPickerSheet from "../components/CollectionPickerSheet";
+import CachedImage from "../components/CachedImage";
+import GenerationSearchBar from "../components/GenerationSearchBar";
+import GenerationSearchResults from "../components/GenerationSearchResults";
+import {
+  useGenerationSearch,
+  EMPTY_SEARCH_FILTERS,
+  GenerationSearchFilters,
+  GenerationSearchResult,
+} from "../hooks/useGenerationSearch";
+import { openSession } from "../navigation/openSession";
+import { useCollections, CollectionMediaItem } from "../hooks/useCollections";
+import { useAssetBatchActions } from "../hooks/useAssetBatchActions";
+import { buildGenerationRequest, buildVideoGenerationRequest, StoredGeneration } from "../lib/generationRemix";
 
 const { width: SCREEN_WIDTH } = Dimensions.get("window");
 const GRID_GAP = 2;
 const NUM_COLUMNS = 3;
 const TILE_SIZE = (SCREEN_WIDTH - GRID_GAP * (NUM_COLUMNS + 1)) / NUM_COLUMNS;
 
-type FilterType = "all" | "image" | "video" | "edit" | "favorites";
+type FilterType = "all" | "image" | "video" | "edit" | "favorites" | "collection";
 
-const filterOptions: { id: FilterType; label: string }[] = [
+const filterOptions: { id: Exclude<FilterType, "collection">; label: string }[] = [
   { id: "all", label: "All" },
   { id: "image", label: "Images" },
   { id: "video", label: "Videos" },
@@ -35,17 +53,51 @@ const filterOptions: { id: FilterType; label: string }[] = [
   { id: "favorites", label: "Favorites" },
 ];
 
+// Server-side part of each filter; Images/Enhanced are split on the client
+const filterQueries: Record<FilterType, AssetsQueryOptions> = {
+  all: {},
+  image: { mediaType: "image" },
+  video: { mediaType: "video" },
+  edit: { mediaType: "image" },
+  favorites: { favoritesOnly: true },
+  collection: {}, // Plus the selected collection's id
+};
+
+const toMediaItem = (asset: AssetItem): CollectionMediaItem => ({
+  generationId: asset.generationId,
+  mediaType: asset.mediaType,
+  mediaIndex: asset.index,
+});
+
 export default function AssetsScreen() {
+  const navigation = useNavigation();
   const [selectedFilter, setSelectedFilter] = useState<FilterType>("all");
+  const [selectedCollectionId, setSelectedCollectionId] = useState<string | null>(null);
   const [selectedAsset, setSelectedAsset] = useState<AssetItem | null>(null);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const scrollY = useSharedValue(0);
   const assetDetailSheetRef = useRef<BottomSheetModal>(null);
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [searchFilters, setSearchFilters] = useState<GenerationSearchFilters>(EMPTY_SEARCH_FILTERS);
+  // Multi-select (long press a tile to start)
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  // Media the collection sheet is adding; empty when it's only managing collections
+  const [collectionSheetItems, setCollectionSheetItems] = useState<CollectionMediaItem[]>([]);
+  const collectionSheetRef = useRef<BottomSheetModal>(null);
+
+  const queryOptions = useMemo(
+    (): AssetsQueryOptions =>
+      selectedFilter === "collection" && selectedCollectionId
+        ? { collectionId: selectedCollectionId }
+        : filterQueries[selectedFilter],
+    [selectedFilter, selectedCollectionId]
+  );
 
   // Use the new useAssets hook with offline support
   const {
     assets,
-    favorites,
+    counts,
     isLoading,
     isLoadingMore,
     isOffline,
@@ -55,7 +107,21 @@ export default function AssetsScreen() {
     toggleFavorite,
     refreshAssets,
     loadMore,
-  } = useAssets();
+  } = useAssets(queryOptions);
+
+  const { collections, getCollectionIds, removeFromCollection } = useCollections();
+
+  // Bulk actions for the multi-select
+  const {
+    progress: batchProgress,
+    deleteAssets,
+    favoriteAssets,
+    saveAssetsToPhotos,
+    shareAssets,
+  } = useAssetBatchActions({ isOffline, deleteAsset, toggleFavorite });
+
+  // Search across all generations (replaces the grid while open)
+  const search = useGenerationSearch(searchFilters);
 
   const scrollHandler = useAnimatedScrollHandler({
     onScroll: (event) => {
@@ -73,20 +139,23 @@ export default function AssetsScreen() {
     return { opacity };
   });
 
-  // Filter assets
+  // Filter assets (the query already applied media type / favorites)
   const filteredAssets = useMemo(() => {
-    if (selectedFilter === "all") return assets;
-    if (selectedFilter === "image") return assets.filter((a) => a.mediaType === "image" && !a.isEnhanced);
-    if (selectedFilter === "video") return assets.filter((a) => a.mediaType === "video");
+    if (selectedFilter === "image") return assets.filter((a) => !a.isEnhanced);
     if (selectedFilter === "edit") return assets.filter((a) => a.isEnhanced);
-    if (selectedFilter === "favorites") return assets.filter((a) => a.isFavorite);
     return assets;
   }, [assets, selectedFilter]);
 
-  // Counts for header
-  const imageCount = assets.filter((a) => a.mediaType === "image").length;
-  const videoCount = assets.filter((a) => a.mediaType === "video").length;
-  const favoritesCount = assets.filter((a) => a.isFavorite).length;
+  // Counts for header (totals from the server, not just loaded pages)
+  const { images: imageCount, videos: videoCount, favorites: favoritesCount } = counts;
+  const hasAnyAssets = imageCount + videoCount > 0 || assets.length > 0;
+
+  // A loaded page may hold no items for a client-side filter - keep paging until it does
+  useEffect(() => {
+    if (filteredAssets.length === 0 && hasMore && !isLoadingMore) {
+      loadMore();
+    }
+  }, [filteredAssets.length, hasMore, isLoadingMore, loadMore]);
 
   // Handle pull-to-refresh
   const handleRefresh = useCallback(async () => {
@@ -107,6 +176,46 @@ export default function AssetsScreen() {
     setSelectedAsset(null);
   }, []);
 
+  // The open asset's generation, to rebuild its request for Regenerate / Remix
+  const selectedGeneration = useQuery(
+    api.sessions.getGeneration,
+    selectedAsset && !isOffline ? { generationId: selectedAsset.generationId as Id<"sessionGenerations"> } : "skip"
+  );
+
+  // Regenerate runs the stored request as-is, so it waits for the row (and is hidden offline)
+  const canRegenerate = !!selectedGeneration && selectedGeneration._id === selectedAsset?.generationId;
+
+  // Remix only seeds the prompt bar: offline (or before the row loads) the asset's own fields will do
+  const handleRemixAsset = useCallback(
+    (asset: AssetItem, autoGenerate: boolean) => {
+      const loaded = selectedGeneration && selectedGeneration._id === asset.generationId ? selectedGeneration : null;
+      if (autoGenerate && !loaded) return;
+
+      const generation: StoredGeneration = loaded ?? {
+        sessionId: asset.sessionId,
+        prompt: asset.prompt ?? "",
+        modelLabel: asset.modelLabel,
+        aspectRatio: asset.aspectRatio,
+      };
+
+      if (asset.mediaType === "video") {
+        const remix = { request: buildVideoGenerationRequest(generation), autoGenerate };
+        navigation.dispatch(CommonActions.navigate({ name: "Videos", params: { remix } }));
+      } else {
+        const remix = { request: buildGenerationRequest(generation), autoGenerate };
+        navigation.dispatch(CommonActions.navigate({ name: "Images", params: { remix } }));
+      }
+    },
+    [selectedGeneration, navigation]
+  );
+
+  const handleAttachAsset = useCallback(
+    (asset: AssetItem) => {
+      navigation.dispatch(CommonActions.navigate({ name: "Images", params: { attachImageUrls: [asset.url] } }));
+    },
+    [navigation]
+  );
+
   // Handle delete asset
   const handleDeleteAsset = useCallback(async (asset: AssetItem) => {
     try {
@@ -125,9 +234,172 @@ export default function AssetsScreen() {
     }
   }, [toggleFavorite]);
 
+  const clearSelection = useCallback(() => {
+    setIsSelecting(false);
+    setSelectedIds(new Set());
+  }, []);
+
+  const handleSelectFilter = useCallback((filter: FilterType, collectionId: string | null = null) => {
+    setSelectedFilter(filter);
+    setSelectedCollectionId(collectionId);
+    clearSelection();
+  }, [clearSelection]);
+
+  // The open collection was deleted
+  useEffect(() => {
+    if (selectedCollectionId && !collections.some((collection) => collection.id === selectedCollectionId)) {
+      handleSelectFilter("all");
+    }
+  }, [selectedCollectionId, collections, handleSelectFilter]);
+
+  const toggleSelected = useCallback((asset: AssetItem) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(asset.id)) {
+        next.delete(asset.id);
+      } else {
+        next.add(asset.id);
+      }
+      return next;
+    });
+  }, []);
+
+  const handleTilePress = useCallback((asset: AssetItem) => {
+    if (isSelecting) {
+      toggleSelected(asset);
+    } else {
+      handleOpenAssetDetail(asset);
+    }
+  }, [isSelecting, toggleSelected, handleOpenAssetDetail]);
+
+  const handleTileLongPress = useCallback((asset: AssetItem) => {
+    setIsSelecting(true);
+    toggleSelected(asset);
+  }, [toggleSelected]);
+
+  const selectedAssets = useMemo(
+    () => filteredAssets.filter((asset) => selectedIds.has(asset.id)),
+    [filteredAssets, selectedIds]
+  );
+
+  const openCollectionSheet = useCallback((items: CollectionMediaItem[]) => {
+    setCollectionSheetItems(items);
+    collectionSheetRef.current?.present();
+  }, []);
+
+  const handleAddSelectedToCollection = useCallback(() => {
+    openCollectionSheet(selectedAssets.map(toMediaItem));
+  }, [selectedAssets, openCollectionSheet]);
+
+  const handleRemoveSelectedFromCollection = useCallback(() => {
+    if (!selectedCollectionId) return;
+    removeFromCollection(selectedCollectionId, selectedAssets.map(toMediaItem));
+    clearSelection();
+  }, [selectedCollectionId, selectedAssets, removeFromCollection, clearSelection]);
+
+  const handleSelectAll = useCallback(() => {
+    setSelectedIds(
+      selectedAssets.length === filteredAssets.length ? new Set() : new Set(filteredAssets.map((asset) => asset.id))
+    );
+  }, [selectedAssets.length, filteredAssets]);
+
+  // Batch actions keep the selection when nothing succeeded, so it can be retried
+  const finishBatch = useCallback((succeeded: boolean) => {
+    if (succeeded) clearSelection();
+  }, [clearSelection]);
+
+  const handleDeleteSelected = useCallback(() => {
+    const targets = selectedAssets;
+    Alert.alert(
+      "Delete Assets",
+      `Are you sure you want to delete ${targets.length} ${targets.length === 1 ? "asset" : "assets"}? This action cannot be undone.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: () => {
+            deleteAssets(targets).then(finishBatch);
+          },
+        },
+      ]
+    );
+  }, [selectedAssets, deleteAssets, finishBatch]);
+
+  // Only images can be attached; videos in the selection are skipped
+  const handleAttachSelected = useCallback(() => {
+    const imageUrls = selectedAssets.filter((asset) => asset.mediaType === "image").map((asset) => asset.url);
+    const skipped = selectedAssets.length - imageUrls.length;
+    if (imageUrls.length === 0) {
+      Alert.alert("No Images Selected", "Only images can be used as attachments.");
+      return;
+    }
+
+    navigation.dispatch(CommonActions.navigate({ name: "Images", params: { attachImageUrls: imageUrls } }));
+    clearSelection();
+    if (skipped > 0) {
+      Alert.alert(
+        "Videos Skipped",
+        `${skipped} ${skipped === 1 ? "video wasn't" : "videos weren't"} attached - only images can be used as attachments.`
+      );
+    }
+  }, [selectedAssets, navigation, clearSelection]);
+
+  const batchActions: {
+    id: string;
+    label: string;
+    icon: keyof typeof Ionicons.glyphMap;
+    onPress: () => void;
+    destructive?: boolean;
+  }[] = [
+    {
+      id: "favorite",
+      label: selectedAssets.length > 0 && selectedAssets.every((asset) => asset.isFavorite) ? "Unfavorite" : "Favorite",
+      icon: "heart-outline",
+      onPress: () => favoriteAssets(selectedAssets).then(finishBatch),
+    },
+    {
+      id: "save",
+      label: "Save",
+      icon: "download-outline",
+      onPress: () => saveAssetsToPhotos(selectedAssets).then(finishBatch),
+    },
+    { id: "share", label: "Share", icon: "share-outline", onPress: () => shareAssets(selectedAssets) },
+    { id: "attach", label: "Attach", icon: "attach-outline", onPress: handleAttachSelected },
+    { id: "collection", label: "Collection", icon: "albums-outline", onPress: handleAddSelectedToCollection },
+    ...(selectedFilter === "collection"
+      ? [{ id: "remove", label: "Remove", icon: "remove-circle-outline" as const, onPress: handleRemoveSelectedFromCollection }]
+      : []),
+    { id: "delete", label: "Delete", icon: "trash-outline", onPress: handleDeleteSelected, destructive: true },
+  ];
+
+  const handleCloseCollectionSheet = useCallback(() => {
+    // The selection was made to be added to a collection - done with it
+    if (isSelecting && collectionSheetItems.length > 0) clearSelection();
+    setCollectionSheetItems([]);
+  }, [isSelecting, collectionSheetItems.length, clearSelection]);
+
+  // Collections the open asset is in, for the detail sheet
+  const selectedAssetCollectionNames = useMemo(() => {
+    if (!selectedAsset) return [];
+    const ids = getCollectionIds(selectedAsset.generationId, selectedAsset.mediaType, selectedAsset.index);
+    return collections.filter((collection) => ids.includes(collection.id)).map((collection) => collection.name);
+  }, [selectedAsset, collections, getCollectionIds]);
+
+  const handleToggleSearch = useCallback(() => {
+    setIsSearchOpen((open) => !open);
+    setSearchFilters(EMPTY_SEARCH_FILTERS);
+  }, []);
+
+  // Open the session a search result came from
+  const handleSelectSearchResult = useCallback((result: GenerationSearchResult) => {
+    openSession(navigation, { id: result.sessionId, type: result.type, title: result.sessionTitle });
+  }, [navigation]);
+
   const renderAssetTile = useCallback(({ item }: { item: AssetItem }) => (
     <Pressable
-      onPress={() => handleOpenAssetDetail(item)}
+      onPress={() => handleTilePress(item)}
+      onLongPress={() => handleTileLongPress(item)}
       style={{
         width: TILE_SIZE,
         height: TILE_SIZE,
@@ -135,8 +407,8 @@ export default function AssetsScreen() {
       }}
       className="active:opacity-80"
     >
-      <Image
-        source={item.previewUrl || item.url}
+      <CachedImage
+        url={item.previewUrl || item.url}
         style={{ width: "100%", height: "100%", borderRadius: 4 }}
         contentFit="cover"
         cachePolicy="memory-disk"
@@ -162,8 +434,26 @@ export default function AssetsScreen() {
           <Text className="text-white text-[10px] font-semibold">Enhanced</Text>
         </View>
       )}
+      {/* Selection */}
+      {isSelecting && (
+        <View
+          className="absolute inset-0 items-end justify-end p-1.5"
+          style={{
+            borderRadius: 4,
+            borderWidth: selectedIds.has(item.id) ? 3 : 0,
+            borderColor: "#3b82f6",
+            backgroundColor: selectedIds.has(item.id) ? "rgba(59,130,246,0.2)" : "transparent",
+          }}
+        >
+          <Ionicons
+            name={selectedIds.has(item.id) ? "checkmark-circle" : "ellipse-outline"}
+            size={22}
+            color={selectedIds.has(item.id) ? "#3b82f6" : "#fff"}
+          />
+        </View>
+      )}
     </Pressable>
-  ), [handleOpenAssetDetail]);
+  ), [handleTilePress, handleTileLongPress, isSelecting, selectedIds]);
 
   return (
     <View className="flex-1 bg-black">
@@ -192,8 +482,11 @@ export default function AssetsScreen() {
                       <Text className="text-white text-xs font-medium">Syncing...</Text>
                     </View>
                   )}
+                  <Pressable onPress={handleToggleSearch} className="ml-auto p-1 active:opacity-70">
+                    <Ionicons name={isSearchOpen ? "close" : "search"} size={22} color="#fff" />
+                  </Pressable>
                 </View>
-                {!isLoading && assets.length > 0 && (
+                {!isLoading && hasAnyAssets && (
                   <Text className="text-gray-500 text-sm mt-1">
                     {imageCount} images · {videoCount} videos · {favoritesCount} favorites
                   </Text>
@@ -219,8 +512,11 @@ export default function AssetsScreen() {
                     <Text className="text-white text-xs font-medium">Syncing...</Text>
                   </View>
                 )}
+                <Pressable onPress={handleToggleSearch} className="ml-auto p-1 active:opacity-70">
+                  <Ionicons name={isSearchOpen ? "close" : "search"} size={22} color="#fff" />
+                </Pressable>
               </View>
-              {!isLoading && assets.length > 0 && (
+              {!isLoading && hasAnyAssets && (
                 <Text className="text-gray-500 text-sm mt-1">
                   {imageCount} images · {videoCount} videos · {favoritesCount} favorites
                 </Text>
@@ -229,96 +525,219 @@ export default function AssetsScreen() {
           </SafeAreaView>
         </View>
 
-        {/* Filter Bar */}
-        <View className="flex-row px-4 pb-3" style={{ marginTop: 70 }}>
-        {filterOptions.map((filter) => (
-          <Pressable
-            key={filter.id}
-            onPress={() => setSelectedFilter(filter.id)}
-            className="mr-2 px-4 py-2 rounded-full"
-            style={{
-              backgroundColor: selectedFilter === filter.id ? "#fff" : "#1a1a1a",
-            }}
-          >
-            <Text
-              style={{
-                color: selectedFilter === filter.id ? "#000" : "#fff",
-                fontWeight: selectedFilter === filter.id ? "600" : "400",
-              }}
+        {isSearchOpen ? (
+          <View className="flex-1" style={{ marginTop: 70 }}>
+            {/* Search */}
+            <GenerationSearchBar
+              filters={searchFilters}
+              onChange={setSearchFilters}
+              facets={search.facets}
+              autoFocus
+            />
+            {search.isActive ? (
+              <GenerationSearchResults
+                results={search.results}
+                isSearching={search.isSearching}
+                isOffline={search.isOffline}
+                onSelectResult={handleSelectSearchResult}
+              />
+            ) : (
+              <View className="items-center justify-center py-10 px-8">
+                <Ionicons name="search-outline" size={48} color="#4b5563" />
+                <Text className="text-gray-500 text-sm text-center mt-3">
+                  Search your generations by prompt, model, aspect ratio, type or date.
+                </Text>
+              </View>
+            )}
+          </View>
+        ) : (
+        <>
+          {/* Filter Bar */}
+          <View style={{ marginTop: 70 }}>
+            <ScrollView
+              horizontal
+              showsHorizontalScrollIndicator={false}
+              contentContainerStyle={{ paddingHorizontal: 16, paddingBottom: 12 }}
             >
-              {filter.label}
+              {filterOptions.map((filter) => (
+                <Pressable
+                  key={filter.id}
+                  onPress={() => handleSelectFilter(filter.id)}
+                  className="mr-2 px-4 py-2 rounded-full"
+                  style={{
+                    backgroundColor: selectedFilter === filter.id ? "#fff" : "#1a1a1a",
+                  }}
+                >
+                  <Text
+                    style={{
+                      color: selectedFilter === filter.id ? "#000" : "#fff",
+                      fontWeight: selectedFilter === filter.id ? "600" : "400",
+                    }}
+                  >
+                    {filter.label}
+                  </Text>
+                </Pressable>
+              ))}
+              {/* Collections */}
+              {collections.map((collection) => {
+                const isSelected = selectedFilter === "collection" && selectedCollectionId === collection.id;
+                return (
+                  <Pressable
+                    key={collection.id}
+                    onPress={() => handleSelectFilter("collection", collection.id)}
+                    className="flex-row items-center mr-2 px-4 py-2 rounded-full"
+                    style={{ backgroundColor: isSelected ? "#fff" : "#1a1a1a" }}
+                  >
+                    <Ionicons name="albums-outline" size={14} color={isSelected ? "#000" : "#fff"} />
+                    <Text
+                      className="ml-1.5"
+                      style={{ color: isSelected ? "#000" : "#fff", fontWeight: isSelected ? "600" : "400" }}
+                    >
+                      {collection.name}
+                    </Text>
+                  </Pressable>
+                );
+              })}
+              <Pressable
+                onPress={() => openCollectionSheet([])}
+                className="flex-row items-center px-4 py-2 rounded-full"
+                style={{ backgroundColor: "#1a1a1a" }}
+              >
+                <Ionicons name={collections.length > 0 ? "settings-outline" : "add"} size={14} color="#fff" />
+                <Text className="text-white ml-1.5">
+                  {collections.length > 0 ? "Collections" : "New Collection"}
+                </Text>
+              </Pressable>
+            </ScrollView>
+          </View>
+
+        {/* Content */}
+        {isLoading ? (
+          <View className="flex-1 items-center justify-center">
+            <ActivityIndicator size="large" color="#fff" />
+            <Text className="text-gray-500 text-sm mt-3">Loading assets...</Text>
+          </View>
+        ) : !hasAnyAssets ? (
+          <View className="flex-1 items-center justify-center px-8">
+            <Ionicons name="images-outline" size={64} color="#4b5563" />
+            <Text className="text-white text-lg font-semibold mt-4">
+              {isOffline ? "No cached assets" : "No assets yet"}
             </Text>
-          </Pressable>
-        ))}
-      </View>
-
-      {/* Content */}
-      {isLoading ? (
-        <View className="flex-1 items-center justify-center">
-          <ActivityIndicator size="large" color="#fff" />
-          <Text className="text-gray-500 text-sm mt-3">Loading assets...</Text>
-        </View>
-      ) : assets.length === 0 ? (
-        <View className="flex-1 items-center justify-center px-8">
-          <Ionicons name="images-outline" size={64} color="#4b5563" />
-          <Text className="text-white text-lg font-semibold mt-4">
-            {isOffline ? "No cached assets" : "No assets yet"}
-          </Text>
-          <Text className="text-gray-500 text-center mt-2">
-            {isOffline
-              ? "Connect to the internet to load your assets."
-              : "Create images or videos and they'll appear here automatically."}
-          </Text>
-        </View>
-      ) : filteredAssets.length === 0 ? (
-        <View className="flex-1 items-center justify-center px-8">
-          <Ionicons name="filter-outline" size={64} color="#4b5563" />
-          <Text className="text-white text-lg font-semibold mt-4">No matching assets</Text>
-          <Text className="text-gray-500 text-center mt-2">
-            Try a different filter to see more assets.
-          </Text>
-        </View>
-      ) : (
-        <Animated.FlatList
-          data={filteredAssets}
-          renderItem={renderAssetTile}
-          keyExtractor={(item) => item.id}
-          numColumns={NUM_COLUMNS}
-          contentContainerStyle={{
-            paddingHorizontal: GRID_GAP / 2,
-            paddingBottom: 100,
-          }}
-          showsVerticalScrollIndicator={false}
-          onScroll={scrollHandler}
-          scrollEventThrottle={16}
-          onEndReached={() => {
-            if (hasMore && !isLoadingMore) {
-              loadMore();
+            <Text className="text-gray-500 text-center mt-2">
+              {isOffline
+                ? "Connect to the internet to load your assets."
+                : "Create images or videos and they'll appear here automatically."}
+            </Text>
+          </View>
+        ) : filteredAssets.length === 0 && !hasMore ? (
+          <View className="flex-1 items-center justify-center px-8">
+            <Ionicons name="filter-outline" size={64} color="#4b5563" />
+            <Text className="text-white text-lg font-semibold mt-4">No matching assets</Text>
+            <Text className="text-gray-500 text-center mt-2">
+              Try a different filter to see more assets.
+            </Text>
+          </View>
+        ) : (
+          <Animated.FlatList
+            data={filteredAssets}
+            renderItem={renderAssetTile}
+            keyExtractor={(item) => item.id}
+            numColumns={NUM_COLUMNS}
+            contentContainerStyle={{
+              paddingHorizontal: GRID_GAP / 2,
+              paddingBottom: 100,
+            }}
+            showsVerticalScrollIndicator={false}
+            onScroll={scrollHandler}
+            scrollEventThrottle={16}
+            onEndReached={() => {
+              if (hasMore && !isLoadingMore) {
+                loadMore();
+              }
+            }}
+            onEndReachedThreshold={0.5}
+            ListFooterComponent={
+              isLoadingMore ? (
+                <View className="py-6 items-center">
+                  <ActivityIndicator size="small" color="#fff" />
+                  <Text className="text-gray-500 text-sm mt-2">Loading more...</Text>
+                </View>
+              ) : hasMore ? (
+                <View className="py-6 items-center">
+                  <Text className="text-gray-600 text-sm">Scroll for more</Text>
+                </View>
+              ) : null
             }
-          }}
-          onEndReachedThreshold={0.5}
-          ListFooterComponent={
-            isLoadingMore ? (
-              <View className="py-6 items-center">
-                <ActivityIndicator size="small" color="#fff" />
-                <Text className="text-gray-500 text-sm mt-2">Loading more...</Text>
+            refreshControl={
+              <RefreshControl
+                refreshing={isRefreshing}
+                onRefresh={handleRefresh}
+                tintColor="#fff"
+                colors={["#fff"]}
+              />
+            }
+          />
+        )}
+
+        {/* Selection Bar */}
+        {isSelecting && (
+          <View
+            className="absolute left-4 right-4 bottom-4 rounded-2xl px-4 py-3"
+            style={{ backgroundColor: "#1a1a1a", borderWidth: 1, borderColor: "#333" }}
+          >
+            <View className="flex-row items-center">
+              <Pressable onPress={clearSelection} disabled={!!batchProgress} className="mr-3 active:opacity-70">
+                <Text className="text-white font-medium">Cancel</Text>
+              </Pressable>
+              <Text className="flex-1 text-gray-400">
+                {batchProgress
+                  ? `${batchProgress.label} ${batchProgress.completed} of ${batchProgress.total}` +
+                    (batchProgress.failed > 0 ? ` · ${batchProgress.failed} failed` : "")
+                  : `${selectedAssets.length} selected`}
+              </Text>
+              <Pressable
+                onPress={handleSelectAll}
+                disabled={!!batchProgress}
+                className="active:opacity-70"
+              >
+                <Text className="font-medium" style={{ color: "#4da6ff" }}>
+                  {selectedAssets.length === filteredAssets.length ? "Deselect All" : "Select All"}
+                </Text>
+              </Pressable>
+            </View>
+
+            {batchProgress ? (
+              <View className="h-1 rounded-full mt-3 overflow-hidden" style={{ backgroundColor: "#333" }}>
+                <View
+                  className="h-full rounded-full"
+                  style={{
+                    width: `${(batchProgress.completed / Math.max(batchProgress.total, 1)) * 100}%`,
+                    backgroundColor: batchProgress.failed > 0 ? "#f59e0b" : "#0066FF",
+                  }}
+                />
               </View>
-            ) : hasMore ? (
-              <View className="py-6 items-center">
-                <Text className="text-gray-600 text-sm">Scroll for more</Text>
+            ) : (
+              <View className="flex-row justify-between mt-3">
+                {batchActions.map((action) => (
+                  <Pressable
+                    key={action.id}
+                    onPress={action.onPress}
+                    disabled={selectedAssets.length === 0}
+                    className="items-center px-1 active:opacity-70"
+                    style={{ opacity: selectedAssets.length === 0 ? 0.4 : 1 }}
+                  >
+                    <Ionicons name={action.icon} size={22} color={action.destructive ? "#ff3b30" : "#fff"} />
+                    <Text className="text-[11px] mt-1" style={{ color: action.destructive ? "#ff3b30" : "#9ca3af" }}>
+                      {action.label}
+                    </Text>
+                  </Pressable>
+                ))}
               </View>
-            ) : null
-          }
-          refreshControl={
-            <RefreshControl
-              refreshing={isRefreshing}
-              onRefresh={handleRefresh}
-              tintColor="#fff"
-              colors={["#fff"]}
-            />
-          }
-        />
-      )}
+            )}
+          </View>
+        )}
+        </>
+        )}
 
       {/* Asset Detail Sheet */}
       <AssetDetailSheet
@@ -327,6 +746,18 @@ export default function AssetsScreen() {
         onClose={handleCloseAssetDetail}
         onDelete={handleDeleteAsset}
         onToggleFavorite={handleToggleFavorite}
+        onAddToCollection={(asset) => openCollectionSheet([toMediaItem(asset)])}
+        onRegenerate={canRegenerate ? (asset) => handleRemixAsset(asset, true) : undefined}
+        onRemix={(asset) => handleRemixAsset(asset, false)}
+        onUseAsAttachment={handleAttachAsset}
+        collectionNames={selectedAssetCollectionNames}
+      />
+
+      {/* Collection Picker */}
+      <CollectionPickerSheet
+        ref={collectionSheetRef}
+        items={collectionSheetItems}
+        onClose={handleCloseCollectionSheet}
       />
       </SafeAreaView>
     </View>
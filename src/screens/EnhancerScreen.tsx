@@ -1,21 +1,213 @@
-import React, { useRef } from "react";
-import { View, Text, Pressable } from "react-native";
+import React, { useEffect, useRef, useState } from "react";
+import { View, Text, Pressable, Dimensions, ActivityIndicator, Alert, Linking, Platform, ToastAndroid } from "react-native";
 import { Image } from "expo-image";
 import { SafeAreaView } from "react-native-safe-area-context";
 import { Ionicons } from "@expo/vector-icons";
 import { LinearGradient } from "expo-linear-gradient";
 import { BlurView } from "expo-blur";
+import { MenuView } from "@react-native-menu/menu";
+import { BottomSheetModal } from "@gorhom/bottom-sheet";
 import Animated, { useSharedValue, useAnimatedScrollHandler, useAnimatedStyle, interpolate } from "react-native-reanimated";
+import { useRoute, RouteProp } from "@react-navigation/native";
+import { useQuery } from "convex/react";
+import * as FileSystem from "expo-file-system";
+import * as MediaLibrary from "expo-media-library";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
 import SessionsDrawer, { SessionsDrawerRef } from "../components/SessionsDrawer";
+import AssetPickerSheet from "../components/AssetPickerSheet";
+import BeforeAfterSlider from "../components/BeforeAfterSlider";
+import CachedImage from "../components/CachedImage";
+import { TabParamList } from "../navigation/TabNavigator";
 import { useCredits } from "../hooks/useCredits";
+import { EnhancementStatus, useImageEnhancement } from "../hooks/useImageEnhancement";
 import { useUser } from "@clerk/clerk-expo";
+import { pickImages } from "../lib/attachments";
+import { useNetworkStatus } from "../lib/network";
+import {
+  ENHANCE_MODES,
+  EnhanceModeId,
+  UPSCALE_FACTORS,
+  UpscaleFactor,
+  getEnhanceModeById,
+  calculateEnhanceCost,
+  DEFAULT_ENHANCE_SETTINGS,
+} from "../config/enhancerModels";
+
+const { width: SCREEN_WIDTH } = Dimensions.get("window");
+const CONTENT_WIDTH = SCREEN_WIDTH - 40;
+
+type EnhancerScreenRouteProp = RouteProp<TabParamList, "Enhancer">;
+
+// Image picked as the enhancement source
+interface EnhanceSource {
+  uri: string; // Local file or hosted URL (Assets)
+  aspectRatio: number; // width / height
+}
+
+const STATUS_LABELS: Record<EnhancementStatus, string> = {
+  idle: "",
+  uploading: "Uploading image...",
+  acquiring_slot: "Starting...",
+  reserving_credits: "Starting...",
+  creating_session: "Starting...",
+  enhancing: "Enhancing...",
+  polling: "Enhancing...",
+  completing: "Finishing up...",
+  completed: "Done",
+  failed: "Failed",
+};
+
+const imageSourceActions = [
+  { id: "gallery", title: "Phone Gallery", image: "photo.on.rectangle", imageColor: "#ffffff" },
+  { id: "assets", title: "Assets", image: "folder", imageColor: "#ffffff" },
+];
+
+function formatTime(timestamp: number): string {
+  const date = new Date(timestamp);
+  const hours = date.getHours();
+  const minutes = date.getMinutes();
+  const ampm = hours >= 12 ? "PM" : "AM";
+  const formattedHours = hours % 12 || 12;
+  const formattedMinutes = minutes.toString().padStart(2, "0");
+  return `${formattedHours}:${formattedMinutes}${ampm}`;
+}
 
 export default function EnhancerScreen() {
+  const route = useRoute<EnhancerScreenRouteProp>();
   const { user } = useUser();
   const { credits, isLoading: creditsLoading } = useCredits();
+  const { isConnected, isInternetReachable } = useNetworkStatus();
+  const isOnline = isConnected && isInternetReachable !== false;
   const drawerRef = useRef<SessionsDrawerRef>(null);
+  const assetPickerSheetRef = useRef<BottomSheetModal>(null);
   const scrollY = useSharedValue(0);
 
+  // Enhancement input state
+  const [source, setSource] = useState<EnhanceSource | null>(null);
+  const [modeId, setModeId] = useState<EnhanceModeId>(DEFAULT_ENHANCE_SETTINGS.modeId);
+  const [upscaleFactor, setUpscaleFactor] = useState<UpscaleFactor>(DEFAULT_ENHANCE_SETTINGS.upscaleFactor);
+  const [savingGenerationId, setSavingGenerationId] = useState<string | null>(null);
+
+  // Track current session - results of this screen's runs land in it
+  const [currentSessionId, setCurrentSessionId] = useState<string | undefined>(undefined);
+
+  const { status, progress, isEnhancing, enhance, cancel } = useImageEnhancement();
+
+  const mode = getEnhanceModeById(modeId) ?? ENHANCE_MODES[0];
+  const estimatedCost = calculateEnhanceCost(modeId, upscaleFactor);
+
+  // Update session when route params change
+  useEffect(() => {
+    if (route.params?.sessionId) {
+      setCurrentSessionId(route.params.sessionId);
+    }
+  }, [route.params?.sessionId]);
+
+  // Fetch the session's enhancements, newest first
+  const generations = useQuery(
+    api.sessions.getSessionGenerations,
+    currentSessionId ? { sessionId: currentSessionId as Id<"sessions"> } : "skip"
+  );
+  const results = [...(generations ?? [])].reverse();
+
+  const handleImageSourceAction = async (event: { nativeEvent: { event: string } }) => {
+    const action = event.nativeEvent.event;
+    if (action === "gallery") {
+      try {
+        const images = await pickImages({ maxSelection: 1, allowsMultipleSelection: false });
+        const image = images[0];
+        if (image) {
+          setSource({ uri: image.uri, aspectRatio: image.height > 0 ? image.width / image.height : 1 });
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Failed to pick image";
+        Alert.alert("Error", message);
+      }
+    } else if (action === "assets") {
+      assetPickerSheetRef.current?.present();
+    }
+  };
+
+  const handleSelectFromAssets = (selectedImages: { url: string; uri: string }[]) => {
+    const image = selectedImages[0];
+    if (!image) return;
+    setSource({ uri: image.url, aspectRatio: 1 });
+    // Assets don't carry dimensions - read them from the image once it loads
+    Image.loadAsync(image.url)
+      .then((loaded) => {
+        setSource((prev) =>
+          prev?.uri === image.url && loaded.height > 0 ? { ...prev, aspectRatio: loaded.width / loaded.height } : prev
+        );
+      })
+      .catch(() => {});
+  };
+
+  const handleEnhance = async () => {
+    if (!source) return;
+
+    if (!isOnline) {
+      Alert.alert("You're offline", "Connect to the internet to enhance images.");
+      return;
+    }
+
+    if (credits < estimatedCost) {
+      Alert.alert("Insufficient Credits", `You need ${estimatedCost} credits but have ${credits}`);
+      return;
+    }
+
+    const result = await enhance({
+      sourceUri: source.uri,
+      modeId,
+      upscaleFactor: mode.supportsUpscaleFactor ? upscaleFactor : undefined,
+      sessionId: currentSessionId,
+      onSessionId: (sessionId) => {
+        setCurrentSessionId((prev) => prev ?? sessionId);
+      },
+    });
+
+    if (result.success) {
+      setSource(null);
+    } else if (result.error !== "Cancelled") {
+      Alert.alert("Enhancement Failed", result.error || "Unknown error");
+    }
+  };
+
+  const handleSaveResult = async (generationId: string, url: string) => {
+    if (savingGenerationId) return;
+
+    try {
+      const { status: permission } = await MediaLibrary.requestPermissionsAsync();
+      if (permission !== "granted") {
+        Alert.alert(
+          "Permission Required",
+          "Please allow access to save images to your photo library.",
+          [
+            { text: "Cancel", style: "cancel" },
+            { text: "Open Settings", onPress: () => Linking.openSettings() },
+          ]
+        );
+        return;
+      }
+
+      setSavingGenerationId(generationId);
+      const fileUri = `${FileSystem.cacheDirectory}nsketch_enhanced_${Date.now()}.png`;
+      const download = await FileSystem.downloadAsync(url, fileUri);
+      await MediaLibrary.saveToLibraryAsync(download.uri);
+      setSavingGenerationId(null);
+
+      if (Platform.OS === "ios") {
+        Alert.alert("Saved", "Image saved to Photos");
+      } else {
+        ToastAndroid.show("Image saved", ToastAndroid.SHORT);
+      }
+    } catch (error) {
+      setSavingGenerationId(null);
+      console.error("Download error:", error);
+      Alert.alert("Error", "Failed to save image");
+    }
+  };
+
   const scrollHandler = useAnimatedScrollHandler({
     onScroll: (event) => {
       scrollY.value = event.contentOffset.y;
@@ -112,22 +304,206 @@ export default function EnhancerScreen() {
 
           <Animated.ScrollView
             className="flex-1"
-            contentContainerStyle={{ flexGrow: 1, alignItems: "center", justifyContent: "center" }}
+            contentContainerStyle={{ paddingHorizontal: 20, paddingTop: 70, paddingBottom: 140 }}
             onScroll={scrollHandler}
             scrollEventThrottle={16}
           >
-            <LinearGradient
-              colors={["#a855f7", "#6366f1"]}
-              start={{ x: 0, y: 0 }}
-              end={{ x: 1, y: 1 }}
-              style={{ width: 52, height: 52, borderRadius: 12, marginBottom: 8, alignItems: "center", justifyContent: "center" }}
-            >
-              <Ionicons name="sparkles" size={26} color="#fff" />
-            </LinearGradient>
-            <Text className="text-white text-sm font-medium">Enhancer</Text>
+            {/* Source */}
+            {source ? (
+              <View className="mb-5">
+                <View className="rounded-2xl overflow-hidden" style={{ backgroundColor: "#1a1a1a" }}>
+                  <CachedImage
+                    url={source.uri}
+                    style={{ width: CONTENT_WIDTH, height: Math.min(CONTENT_WIDTH / source.aspectRatio, CONTENT_WIDTH * 1.3) }}
+                    contentFit="contain"
+                    cachePolicy="memory-disk"
+                  />
+                </View>
+                {!isEnhancing && (
+                  <Pressable
+                    onPress={() => setSource(null)}
+                    className="absolute top-2 right-2 rounded-full p-1.5 active:opacity-70"
+                    style={{ backgroundColor: "rgba(0,0,0,0.6)" }}
+                  >
+                    <Ionicons name="close" size={16} color="#fff" />
+                  </Pressable>
+                )}
+              </View>
+            ) : (
+              <MenuView title="Select Image Source" onPressAction={handleImageSourceAction} actions={imageSourceActions}>
+                <Pressable
+                  className="items-center justify-center rounded-2xl mb-5 active:opacity-80"
+                  style={{ height: 220, borderWidth: 1.5, borderStyle: "dashed", borderColor: "#3a3a3a", backgroundColor: "#111" }}
+                >
+                  <LinearGradient
+                    colors={["#a855f7", "#6366f1"]}
+                    start={{ x: 0, y: 0 }}
+                    end={{ x: 1, y: 1 }}
+                    style={{ width: 52, height: 52, borderRadius: 12, marginBottom: 8, alignItems: "center", justifyContent: "center" }}
+                  >
+                    <Ionicons name="sparkles" size={26} color="#fff" />
+                  </LinearGradient>
+                  <Text className="text-white text-sm font-medium">Choose a photo to enhance</Text>
+                  <Text className="text-gray-500 text-xs mt-1">From your gallery or Assets</Text>
+                </Pressable>
+              </MenuView>
+            )}
+
+            {/* Modes */}
+            <Text className="text-gray-400 text-xs mb-2">MODE</Text>
+            {ENHANCE_MODES.map((m) => {
+              const selected = m.id === modeId;
+              return (
+                <Pressable
+                  key={m.id}
+                  onPress={() => setModeId(m.id)}
+                  disabled={isEnhancing}
+                  className="flex-row items-center rounded-xl px-4 py-3 mb-2 active:opacity-70"
+                  style={{ backgroundColor: "#1a1a1a", borderWidth: 1, borderColor: selected ? "#a855f7" : "#1a1a1a" }}
+                >
+                  <Ionicons name={m.icon as any} size={20} color={selected ? "#a855f7" : "#9ca3af"} />
+                  <View className="flex-1 ml-3">
+                    <Text className="text-white text-sm font-medium">{m.label}</Text>
+                    <Text className="text-gray-500 text-xs mt-0.5">{m.description}</Text>
+                  </View>
+                </Pressable>
+              );
+            })}
+
+            {/* Upscale factor */}
+            {mode.supportsUpscaleFactor && (
+              <View className="flex-row items-center mt-2 mb-2">
+                {UPSCALE_FACTORS.map((factor) => {
+                  const selected = factor === upscaleFactor;
+                  return (
+                    <Pressable
+                      key={factor}
+                      onPress={() => setUpscaleFactor(factor)}
+                      disabled={isEnhancing}
+                      className="flex-1 items-center rounded-full py-2 mr-2 active:opacity-70"
+                      style={{ backgroundColor: selected ? "#fff" : "#2a2a2a" }}
+                    >
+                      <Text className="text-sm font-medium" style={{ color: selected ? "#000" : "#fff" }}>
+                        {factor}× Upscale
+                      </Text>
+                    </Pressable>
+                  );
+                })}
+              </View>
+            )}
+
+            {/* Enhance / progress */}
+            {isEnhancing ? (
+              <View className="mt-3 mb-6">
+                <View className="flex-row items-center mb-2">
+                  <ActivityIndicator size="small" color="#a855f7" />
+                  <Text className="flex-1 text-gray-300 text-sm ml-2">{STATUS_LABELS[status]}</Text>
+                  <Pressable onPress={cancel} className="flex-row items-center active:opacity-70">
+                    <Ionicons name="close-circle-outline" size={16} color="#9ca3af" />
+                    <Text className="text-gray-400 text-sm ml-1">Cancel</Text>
+                  </Pressable>
+                </View>
+                <View className="h-1 rounded-full overflow-hidden" style={{ backgroundColor: "#2a2a2a" }}>
+                  <View style={{ width: `${progress}%`, height: "100%", backgroundColor: "#a855f7" }} />
+                </View>
+              </View>
+            ) : (
+              <Pressable
+                onPress={handleEnhance}
+                disabled={!source}
+                className="flex-row items-center justify-center rounded-full py-4 mt-3 mb-6 active:opacity-80"
+                style={{ backgroundColor: source ? "#a855f7" : "#2a2a2a" }}
+              >
+                <Ionicons name="sparkles" size={18} color={source ? "#fff" : "#6b7280"} />
+                <Text className="text-base font-semibold ml-2" style={{ color: source ? "#fff" : "#6b7280" }}>
+                  {mode.label}
+                </Text>
+                <View className="flex-row items-center ml-2">
+                  <Ionicons name="flash" size={12} color={source ? "#facc15" : "#6b7280"} />
+                  <Text className="text-sm ml-0.5" style={{ color: source ? "#fff" : "#6b7280" }}>
+                    {estimatedCost}
+                  </Text>
+                </View>
+              </Pressable>
+            )}
+
+            {/* Results */}
+            {results.length > 0 && <Text className="text-gray-400 text-xs mb-3">RESULTS</Text>}
+            {results.map((gen: any) => {
+              const imageUrl: string | undefined = gen.images?.[0]?.url;
+              const displayUrl = gen.previewImage || imageUrl;
+
+              return (
+                <View key={gen._id} className="mb-6">
+                  {gen.sourceImage && displayUrl ? (
+                    <BeforeAfterSlider
+                      beforeUrl={gen.sourceImage}
+                      afterUrl={displayUrl}
+                      width={CONTENT_WIDTH}
+                      height={CONTENT_WIDTH}
+                    />
+                  ) : (
+                    <View
+                      className="rounded-2xl items-center justify-center"
+                      style={{ width: CONTENT_WIDTH, height: CONTENT_WIDTH, backgroundColor: "#1a1a1a" }}
+                    >
+                      {gen.isLoading ? (
+                        <ActivityIndicator size="large" color="#a855f7" />
+                      ) : gen.error ? (
+                        <>
+                          <Ionicons name="alert-circle-outline" size={48} color="#ef4444" />
+                          <Text className="text-red-400 text-sm mt-2 text-center px-4">{gen.error}</Text>
+                        </>
+                      ) : displayUrl ? (
+                        <CachedImage
+                          url={displayUrl}
+                          style={{ width: CONTENT_WIDTH, height: CONTENT_WIDTH }}
+                          contentFit="contain"
+                          cachePolicy="memory-disk"
+                        />
+                      ) : (
+                        <Ionicons name="image-outline" size={48} color="#4b5563" />
+                      )}
+                    </View>
+                  )}
+
+                  {/* Caption + actions */}
+                  <View className="flex-row items-center mt-2">
+                    <Text className="flex-1 text-gray-400 text-sm">
+                      {gen.modelLabel || "Enhanced"} · {formatTime(gen.completedAt || gen.createdAt)}
+                    </Text>
+                    {imageUrl && (
+                      <Pressable
+                        onPress={() => handleSaveResult(gen._id, imageUrl)}
+                        disabled={savingGenerationId === gen._id}
+                        className="flex-row items-center active:opacity-70"
+                      >
+                        {savingGenerationId === gen._id ? (
+                          <ActivityIndicator size="small" color="#9ca3af" />
+                        ) : (
+                          <Ionicons name="download-outline" size={16} color="#9ca3af" />
+                        )}
+                        <Text className="text-gray-400 text-sm ml-1">
+                          {savingGenerationId === gen._id ? "Saving..." : "Download"}
+                        </Text>
+                      </Pressable>
+                    )}
+                  </View>
+                </View>
+              );
+            })}
           </Animated.ScrollView>
         </SafeAreaView>
       </View>
+
+      {/* Asset Picker Sheet */}
+      <AssetPickerSheet
+        ref={assetPickerSheetRef}
+        maxSelection={1}
+        allowMultiple={false}
+        onSelectImages={handleSelectFromAssets}
+        onClose={() => {}}
+      />
     </SessionsDrawer>
   );
 }
@@ -16,9 +16,14 @@ import ModelSelectorSheet from "../components/ModelSelectorSheet";
 import VideoModelSelectorSheet from "../components/VideoModelSelectorSheet";
 import SessionsDrawer, { SessionsDrawerRef } from "../components/SessionsDrawer";
 import AssetPickerSheet from "../components/AssetPickerSheet";
+import PromptLibrarySheet from "../components/PromptLibrarySheet";
+import TemplateVariablesSheet from "../components/TemplateVariablesSheet";
+import { PromptSettings } from "../state/promptLibraryStore";
+import { isPromptTemplate } from "../lib/promptTemplates";
+import { getUnifiedModelId } from "../lib/generationRemix";
 import { useUser } from "@clerk/clerk-expo";
 import { useCredits } from "../hooks/useCredits";
-import { ImageModelId, AspectRatio, getModelAspectRatios, isAttachmentDisabled } from "../config/imageModels";
+import { ImageModelId, AspectRatio, getModelAspectRatios, getModelById, isAttachmentDisabled } from "../config/imageModels";
 import { TabParamList } from "../navigation/TabNavigator";
 
 type NavigationProp = NativeStackNavigationProp<AppStackParamList> & {
@@ -46,6 +51,9 @@ export default function HomeScreen() {
   const [showAdvancedOptions, setShowAdvancedOptions] = useState(false);
   const [attachedImages, setAttachedImages] = useState<{ uri: string; url?: string }[]>([]);
   const assetPickerSheetRef = useRef<BottomSheetModal>(null);
+  const promptLibrarySheetRef = useRef<BottomSheetModal>(null);
+  const templateSheetRef = useRef<BottomSheetModal>(null);
+  const [templatePrompt, setTemplatePrompt] = useState<string | null>(null);
 
   const advancedOptionsProgress = useSharedValue(0);
   const attachedImagesProgress = useSharedValue(0);
@@ -219,14 +227,44 @@ export default function HomeScreen() {
     }
   };
 
-  const handleHomeGenerate = () => {
-    if (!prompt.trim()) {
+  // Load a prompt from the library with the model and aspect ratio it was used with
+  const handleSelectFromLibrary = (entry: Omit<PromptSettings, "mode">) => {
+    setPrompt(entry.prompt);
+
+    if (selectedMode === "Video") {
+      if (entry.modelLabel) {
+        setSelectedVideoModel(entry.modelLabel);
+      }
+      return;
+    }
+
+    const model = entry.modelId ? getModelById(entry.modelId as ImageModelId) : undefined;
+    const modelId = model ? getUnifiedModelId(model.id) : selectedModelId;
+    if (model) {
+      handleModelSelect(modelId, getModelById(modelId)?.label ?? model.label);
+    }
+    if (entry.aspectRatio && getModelAspectRatios(modelId).includes(entry.aspectRatio as AspectRatio)) {
+      setSelectedAspectRatio(entry.aspectRatio as AspectRatio);
+    }
+  };
+
+  // filledPrompt: a template's prompt with its placeholders filled in
+  const handleHomeGenerate = (filledPrompt?: string) => {
+    const promptSnapshot = (filledPrompt ?? prompt).trim();
+    if (!promptSnapshot) {
       Alert.alert("Error", "Please enter a prompt to generate");
       return;
     }
 
     Keyboard.dismiss();
 
+    // Templates are filled in before handing off to the Images tab
+    if (isPromptTemplate(promptSnapshot)) {
+      setTemplatePrompt(promptSnapshot);
+      templateSheetRef.current?.present();
+      return;
+    }
+
     // Collect attached image URLs
     const imageUrls = attachedImages
       .map(img => img.url || img.uri)
@@ -235,7 +273,7 @@ export default function HomeScreen() {
     // Navigate to Images tab with incoming generation data
     navigation.navigate("Images", {
       incoming: {
-        prompt: prompt.trim(),
+        prompt: promptSnapshot,
         modelId: selectedModelId,
         modelLabel: selectedModel,
         aspectRatio: selectedAspectRatio,
@@ -524,6 +562,17 @@ export default function HomeScreen() {
                 {/* Options Row */}
                 <View className="flex-row items-center">
                   <ScrollView horizontal showsHorizontalScrollIndicator={false} className="flex-1" contentContainerStyle={{ paddingRight: 8 }}>
+                    {/* Prompt Library */}
+                    <Pressable
+                      onPress={() => {
+                        Keyboard.dismiss();
+                        promptLibrarySheetRef.current?.present();
+                      }}
+                      className="flex-row items-center rounded-full px-2.5 mr-2 active:opacity-70"
+                      style={{ backgroundColor: "#3a3a3a", height: 28 }}
+                    >
+                      <Ionicons name="bookmarks-outline" size={14} color="#fff" />
+                    </Pressable>
                     <MenuView
                       onPressAction={handleMenuAction}
                       actions={[
@@ -600,7 +649,7 @@ export default function HomeScreen() {
                       </MenuView>
                     )}
                     <Pressable 
-                      onPress={handleHomeGenerate}
+                      onPress={() => handleHomeGenerate()}
                       className="rounded-full p-2 active:opacity-70" 
                       style={{ backgroundColor: prompt.trim() ? "#a855f7" : "#3a3a3a" }}
                     >
@@ -772,6 +821,27 @@ export default function HomeScreen() {
         onClose={() => {}}
         maxSelection={10 - attachedImages.length}
       />
+
+      {/* Prompt Library */}
+      <PromptLibrarySheet
+        ref={promptLibrarySheetRef}
+        mode={selectedMode === "Image" ? "image" : "video"}
+        current={
+          selectedMode === "Image"
+            ? { prompt, modelId: selectedModelId, modelLabel: selectedModel, aspectRatio: selectedAspectRatio }
+            : { prompt, modelLabel: selectedVideoModel }
+        }
+        onSelect={handleSelectFromLibrary}
+        onClose={() => {}}
+      />
+
+      {/* Template placeholders, filled in at generate time */}
+      <TemplateVariablesSheet
+        ref={templateSheetRef}
+        template={templatePrompt}
+        onSubmit={(filled) => handleHomeGenerate(filled)}
+        onClose={() => setTemplatePrompt(null)}
+      />
       </View>
     </SessionsDrawer>
   );
@@ -1,4 +1,4 @@
-import React, { useState, useRef, useCallback, useEffect } from "react";
+import React, { useState, useRef, useCallback, useEffect, useMemo } from "react";
 import { View, Text, Pressable, ScrollView, TextInput, Platform, UIManager, Keyboard, Dimensions, ActivityIndicator, Alert, ToastAndroid, Linking } from "react-native";
 import { Image } from "expo-image";
 import { SafeAreaView, useSafeAreaInsets } from "react-native-safe-area-context";
@@ -20,7 +20,10 @@ import { api } from "../../convex/_generated/api";
 import { Id } from "../../convex/_generated/dataModel";
 import { useCredits } from "../hooks/useCredits";
 import { useUser, useAuth } from "@clerk/clerk-expo";
-import { useImageGeneration } from "../hooks/useImageGeneration";
+import { ImageGenerationJob, isJobActive } from "../hooks/useImageGeneration";
+import { useGenerations } from "../hooks/useGenerations";
+import { useMovedGenerationIds } from "../hooks/useSessions";
+import { OutboxEntry } from "../state/outboxStore";
 import {
   ImageModelId,
   AspectRatio,
@@ -35,16 +38,30 @@ import {
   isKlingO1Model,
   validateKlingO1Prompt,
   calculateImageCost,
+  calculateImageCostBreakdown,
   isAttachmentDisabled,
   isAspectRatioDisabled,
   getResolutionOptions,
   getMaxImages,
+  getAttachmentMaxDimension,
   getEffectiveModelId,
   isUnifiedModel,
   DEFAULT_SETTINGS,
 } from "../config/imageModels";
-import { pickImages, uploadAttachments, SelectedImage } from "../lib/attachments";
+import { formatPriceBreakdown } from "../config/pricing";
+import { pickImages, SelectedImage } from "../lib/attachments";
+import { useUploadTasks } from "../hooks/useUploadTasks";
+import AttachmentUploadOverlay from "../components/AttachmentUploadOverlay";
+import CachedImage from "../components/CachedImage";
 import AssetPickerSheet from "../components/AssetPickerSheet";
+import { buildGenerationRequest, getUnifiedModelId, ImageRemixRequest, StoredGeneration } from "../lib/generationRemix";
+import PromptLibrarySheet from "../components/PromptLibrarySheet";
+import TemplateVariablesSheet from "../components/TemplateVariablesSheet";
+import { usePromptLibrary } from "../hooks/usePromptLibrary";
+import { PromptSettings } from "../state/promptLibraryStore";
+import { isPromptTemplate } from "../lib/promptTemplates";
+import CompareSetupSheet from "../components/CompareSetupSheet";
+import { buildCompareRequests, CompareVariant, createCompareGroupId } from "../lib/generationCompare";
 import * as FileSystem from "expo-file-system";
 import * as MediaLibrary from "expo-media-library";
 import { AutoSkeletonView } from "react-native-auto-skeleton";
@@ -52,6 +69,7 @@ import { AutoSkeletonView } from "react-native-auto-skeleton";
 const { width: SCREEN_WIDTH } = Dimensions.get("window");
 const IMAGE_WIDTH = SCREEN_WIDTH - 80; // Smaller width for better fit
 const MULTI_IMAGE_WIDTH = SCREEN_WIDTH * 0.55;
+const COMPARE_CELL_WIDTH = (SCREEN_WIDTH - 40 - 12) / 2; // Two columns inside the feed's padding
 
 // Enable LayoutAnimation on Android
 if (Platform.OS === "android" && UIManager.setLayoutAnimationEnabledExperimental) {
@@ -151,6 +169,270 @@ function parseAspectRatio(ratio?: string): number {
   return w / h;
 }
 
+// Shimmer label for an in-flight job
+function getJobStatusLabel(job?: ImageGenerationJob): string {
+  if (!job) return "Uploading...";
+  if (job.status === "queued") return "Queued - waiting for a free slot";
+  return `Generating... ${Math.round(job.progress)}%`;
+}
+
+// Retry / discard for a queued prompt that ran out of sync attempts
+function QueuedActions({ onRetry, onDiscard }: { onRetry: () => void; onDiscard: () => void }) {
+  return (
+    <View className="flex-row items-center mb-3">
+      <Pressable onPress={onRetry} className="flex-row items-center mr-4 active:opacity-70">
+        <Ionicons name="refresh" size={16} color="#9ca3af" />
+        <Text className="text-gray-400 text-sm ml-1">Retry</Text>
+      </Pressable>
+      <Pressable onPress={onDiscard} className="flex-row items-center active:opacity-70">
+        <Ionicons name="trash-outline" size={16} color="#9ca3af" />
+        <Text className="text-gray-400 text-sm ml-1">Discard</Text>
+      </Pressable>
+    </View>
+  );
+}
+
+// Label for a prompt created offline that hasn't been sent yet
+function getQueuedStatusLabel(pending: OutboxEntry<"createGeneration">): string {
+  if (pending.status === "poisoned") return `Couldn't send - ${pending.error ?? "unknown error"}`;
+  if (pending.status === "failed") return "Couldn't send - retrying soon";
+  return "Queued - will send when you're back online";
+}
+
+// Progress bar + cancel for an in-flight job
+function JobProgress({ job, onCancel }: { job: ImageGenerationJob; onCancel: (jobId: string) => void }) {
+  return (
+    <View className="flex-row items-center mb-3">
+      <View className="flex-1 h-1 rounded-full overflow-hidden mr-3" style={{ backgroundColor: "#2a2a2a" }}>
+        <View style={{ width: `${job.progress}%`, height: "100%", backgroundColor: "#a855f7" }} />
+      </View>
+      <Pressable onPress={() => onCancel(job.id)} className="flex-row items-center active:opacity-70">
+        <Ionicons name="close-circle-outline" size={16} color="#9ca3af" />
+        <Text className="text-gray-400 text-sm ml-1">Cancel</Text>
+      </Pressable>
+    </View>
+  );
+}
+
+interface PendingGenerationCardProps {
+  prompt: string;
+  modelLabel: string;
+  aspectRatio: string;
+  numImages: number;
+  job?: ImageGenerationJob;
+  statusLabel?: string;
+  footer?: React.ReactNode; // Replaces the job progress row, e.g. retry/discard for a queued prompt
+  onCancel: (jobId: string) => void;
+}
+
+// Skeleton card for a job whose generation isn't in the session feed yet
+function PendingGenerationCard({
+  prompt,
+  modelLabel,
+  aspectRatio,
+  numImages,
+  job,
+  statusLabel,
+  footer,
+  onCancel,
+}: PendingGenerationCardProps) {
+  return (
+    <View className="mb-6">
+      {/* Prompt preview */}
+      <View className="bg-neutral-800 rounded-3xl px-4 py-3 mb-2 self-end" style={{ maxWidth: '90%' }}>
+        <Text className="text-white text-base text-center" numberOfLines={7}>
+          {prompt}
+        </Text>
+      </View>
+      {/* Model Badge */}
+      <View className="flex-row items-center justify-end mb-3">
+        <View className="flex-row items-center bg-neutral-800 rounded-full px-3 py-1.5">
+          <Ionicons name="image-outline" size={14} color="#fff" />
+          <Text className="text-white text-xs ml-1.5">{modelLabel}</Text>
+        </View>
+      </View>
+      {/* Generation Header */}
+      <View className="flex-row items-center mb-3">
+        <Image
+          source={require("../../assets/logo.png")}
+          style={{ width: 32, height: 32 }}
+          contentFit="contain"
+        />
+        <ShimmerText text={statusLabel ?? getJobStatusLabel(job)} />
+      </View>
+      {job && <JobProgress job={job} onCancel={onCancel} />}
+      {footer}
+      {/* Skeleton */}
+      {numImages === 1 ? (
+        <AutoSkeletonView 
+          isLoading={true} 
+          defaultRadius={16}
+          gradientColors={["#1a1a1a", "#2a2a2a"]}
+        >
+          <View
+            style={{ 
+              width: IMAGE_WIDTH, 
+              height: Math.min(IMAGE_WIDTH / parseAspectRatio(aspectRatio), IMAGE_WIDTH * 1.3), 
+              backgroundColor: "#1a1a1a", 
+              borderRadius: 16 
+            }}
+          />
+        </AutoSkeletonView>
+      ) : (
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          scrollEnabled={false}
+          contentContainerStyle={{ paddingHorizontal: 20 }}
+        >
+          {Array.from({ length: numImages }).map((_, idx) => (
+            <AutoSkeletonView 
+              key={idx}
+              isLoading={true} 
+              defaultRadius={16}
+              gradientColors={["#1a1a1a", "#2a2a2a"]}
+            >
+              <View
+                style={{
+                  width: MULTI_IMAGE_WIDTH,
+                  height: MULTI_IMAGE_WIDTH / parseAspectRatio(aspectRatio),
+                  backgroundColor: "#1a1a1a",
+                  borderRadius: 16,
+                  marginRight: 12,
+                }}
+              />
+            </AutoSkeletonView>
+          ))}
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+// One variant of a compare run: a generation in the feed or a job that hasn't reached it yet
+interface ComparisonCell {
+  key: string;
+  modelLabel: string;
+  aspectRatio: string;
+  imageUrl?: string;
+  imageCount: number;
+  isLoading: boolean;
+  job?: ImageGenerationJob;
+  error?: string;
+  onPress?: () => void;
+}
+
+// Side-by-side grid for the variants of one compare run
+function ComparisonGrid({
+  prompt,
+  cells,
+  completedAt,
+  onCancel,
+}: {
+  prompt: string;
+  cells: ComparisonCell[];
+  completedAt?: number;
+  onCancel: (jobId: string) => void;
+}) {
+  const doneCount = cells.filter((cell) => !cell.isLoading).length;
+
+  return (
+    <View>
+      {/* Prompt Text at TOP - Right aligned */}
+      <View className="bg-neutral-800 rounded-3xl px-4 py-3 mb-2 self-end" style={{ maxWidth: '90%' }}>
+        <Text className="text-white text-base text-center" numberOfLines={7}>
+          {prompt}
+        </Text>
+      </View>
+
+      {/* Compare Badge - Right aligned */}
+      <View className="flex-row items-center justify-end mb-3">
+        <View className="flex-row items-center bg-neutral-800 rounded-full px-3 py-1.5">
+          <Ionicons name="git-compare-outline" size={14} color="#fff" />
+          <Text className="text-white text-xs ml-1.5">Compare · {cells.length} variants</Text>
+        </View>
+      </View>
+
+      {/* Generation Header */}
+      <View className="flex-row items-center mb-3">
+        <Image
+          source={require("../../assets/logo.png")}
+          style={{ width: 32, height: 32 }}
+          contentFit="contain"
+        />
+        {doneCount < cells.length ? (
+          <ShimmerText text={`Comparing... ${doneCount}/${cells.length} done`} />
+        ) : (
+          <Text className="text-gray-400 text-sm ml-2">
+            {completedAt ? `Generated at ${formatTime(completedAt)}` : "Done"}
+          </Text>
+        )}
+      </View>
+
+      {/* Grid */}
+      <View className="flex-row flex-wrap" style={{ gap: 12 }}>
+        {cells.map((cell) => {
+          const cellHeight = Math.min(COMPARE_CELL_WIDTH / parseAspectRatio(cell.aspectRatio), COMPARE_CELL_WIDTH * 1.5);
+          const activeJob = cell.job && isJobActive(cell.job) ? cell.job : undefined;
+
+          return (
+            <View key={cell.key} style={{ width: COMPARE_CELL_WIDTH }}>
+              {cell.imageUrl ? (
+                <Pressable onPress={cell.onPress} className="rounded-2xl overflow-hidden active:opacity-90">
+                  <CachedImage
+                    url={cell.imageUrl}
+                    style={{ width: COMPARE_CELL_WIDTH, height: cellHeight }}
+                    contentFit="cover"
+                    cachePolicy="memory-disk"
+                  />
+                  {cell.imageCount > 1 && (
+                    <View className="absolute top-2 right-2 rounded-full px-2 py-0.5" style={{ backgroundColor: "rgba(0,0,0,0.6)" }}>
+                      <Text className="text-white text-xs">+{cell.imageCount - 1}</Text>
+                    </View>
+                  )}
+                </Pressable>
+              ) : cell.isLoading ? (
+                <AutoSkeletonView isLoading={true} defaultRadius={16} gradientColors={["#1a1a1a", "#2a2a2a"]}>
+                  <View style={{ width: COMPARE_CELL_WIDTH, height: cellHeight, backgroundColor: "#1a1a1a", borderRadius: 16 }} />
+                </AutoSkeletonView>
+              ) : (
+                <View
+                  className="rounded-2xl items-center justify-center px-2"
+                  style={{ width: COMPARE_CELL_WIDTH, height: cellHeight, backgroundColor: "#1a1a1a" }}
+                >
+                  <Ionicons name="alert-circle-outline" size={28} color="#ef4444" />
+                  {cell.error && (
+                    <Text className="text-red-400 text-xs mt-1 text-center" numberOfLines={3}>
+                      {cell.error}
+                    </Text>
+                  )}
+                </View>
+              )}
+
+              {/* Caption */}
+              <View className="flex-row items-center mt-1.5">
+                <Text className="flex-1 text-white text-xs" numberOfLines={1}>
+                  {cell.modelLabel} · {cell.aspectRatio}
+                </Text>
+                {activeJob && (
+                  <Pressable onPress={() => onCancel(activeJob.id)} className="active:opacity-70">
+                    <Ionicons name="close-circle-outline" size={16} color="#9ca3af" />
+                  </Pressable>
+                )}
+              </View>
+              {activeJob && (
+                <Text className="text-gray-500 text-xs mt-0.5">
+                  {activeJob.status === "queued" ? "Queued" : `${Math.round(activeJob.progress)}%`}
+                </Text>
+              )}
+            </View>
+          );
+        })}
+      </View>
+    </View>
+  );
+}
+
 export default function ImagesScreen() {
   const route = useRoute<ImagesScreenRouteProp>();
   const { user } = useUser();
@@ -158,18 +440,22 @@ export default function ImagesScreen() {
   const { credits, isLoading: creditsLoading } = useCredits();
   const insets = useSafeAreaInsets();
   
-  // Image generation hook
+  // Image generation hook (queues prompts while offline)
   const {
-    status: generationStatus,
-    error: generationError,
-    progress: generationProgress,
+    jobs: generationJobs,
     isGenerating,
+    getJobForGeneration,
     settings,
     updateSettings,
-    generate,
+    createGeneration,
+    generateComparison,
+    queuedGenerations,
+    retryQueuedGeneration,
+    discardQueuedGeneration,
+    isOffline,
     cancel: cancelGeneration,
-    reset: resetGeneration,
-  } = useImageGeneration();
+    retry: retryGeneration,
+  } = useGenerations();
   
   // Track current session - use local state so we can clear it
   const [currentSessionId, setCurrentSessionId] = useState<string | undefined>(undefined);
@@ -185,6 +471,12 @@ export default function ImagesScreen() {
   const [selectedQuality, setSelectedQuality] = useState<Quality>(DEFAULT_SETTINGS.quality);
   const [attachments, setAttachments] = useState<SelectedImage[]>([]);
   const [isUploadingAttachments, setIsUploadingAttachments] = useState(false);
+  const {
+    getTask: getUploadTask,
+    upload: uploadFiles,
+    retry: retryUpload,
+    remove: removeUpload,
+  } = useUploadTasks();
   const [savingGenerationId, setSavingGenerationId] = useState<string | null>(null);
 
   const [pendingGenerationPreview, setPendingGenerationPreview] = useState<{
@@ -200,12 +492,17 @@ export default function ImagesScreen() {
   const modelSheetRef = useRef<BottomSheetModal>(null);
   const imageDetailSheetRef = useRef<BottomSheetModal>(null);
   const assetPickerSheetRef = useRef<BottomSheetModal>(null);
+  const promptLibrarySheetRef = useRef<BottomSheetModal>(null);
+  const templateSheetRef = useRef<BottomSheetModal>(null);
+  const [templatePrompt, setTemplatePrompt] = useState<string | null>(null);
+  const compareSheetRef = useRef<BottomSheetModal>(null);
   const [selectedImage, setSelectedImage] = useState<{
     url: string;
     prompt?: string;
     model?: string;
     aspectRatio?: string;
     createdAt?: number;
+    generation?: StoredGeneration & { _id: string };
   } | null>(null);
   const translateY = useSharedValue(0);
   const scrollY = useSharedValue(0);
@@ -227,6 +524,9 @@ export default function ImagesScreen() {
   
   // Track if we've processed incoming data from Home screen
   const processedIncomingRef = useRef<string | null>(null);
+
+  // Recent prompts for the prompt library
+  const { recordPrompt } = usePromptLibrary("image");
   
   // Get current model metadata
   const currentModel = getModelById(selectedModelId);
@@ -234,11 +534,12 @@ export default function ImagesScreen() {
   const supportsResolution = modelSupportsResolution(selectedModelId);
   const supportsQuality = modelSupportsQuality(selectedModelId);
   const allowedAspectRatios = getModelAspectRatios(selectedModelId);
-  const estimatedCost = calculateImageCost(selectedModelId, numberOfImages, {
+  const costBreakdown = calculateImageCostBreakdown(selectedModelId, numberOfImages, {
     resolution: selectedResolution,
     quality: selectedQuality,
     aspectRatio: selectedAspectRatio,
   });
+  const estimatedCost = costBreakdown.total;
 
   // Update session when route params change
   useEffect(() => {
@@ -276,10 +577,17 @@ export default function ImagesScreen() {
         (attachmentUrls?.length ?? 0) > 0
       );
 
+      recordPrompt({
+        prompt: incoming.prompt,
+        modelId: incoming.modelId,
+        modelLabel: incoming.modelLabel,
+        aspectRatio: incoming.aspectRatio,
+      });
+
       // Start generation
-      const result = await generate({
+      const result = await createGeneration({
         prompt: incoming.prompt,
-        modelId: effectiveModelId,
+        model: effectiveModelId,
         aspectRatio: incoming.aspectRatio as AspectRatio,
         numImages: incoming.numImages,
         attachmentImages: attachmentUrls,
@@ -289,12 +597,14 @@ export default function ImagesScreen() {
         },
       });
 
-      if (result.success) {
+      if (result.offline) {
+        // Queued - its card stays in the feed until it's sent once back online
+      } else if (result.success) {
         // Update session if new one was created
         if (result.sessionId) {
           setCurrentSessionId(result.sessionId);
         }
-      } else {
+      } else if (result.error !== "Cancelled") {
         Alert.alert("Generation Failed", result.error || "Unknown error");
       }
     } catch (error) {
@@ -355,13 +665,132 @@ export default function ImagesScreen() {
     }
   }, [route.params?.incoming]);
 
-  // Fetch generations if we have a sessionId
-  const generations = useQuery(
+  // Fetch generations if we have a sessionId; ones queued to move to another session are hidden
+  const sessionGenerations = useQuery(
     api.sessions.getSessionGenerations,
     currentSessionId ? { sessionId: currentSessionId as Id<"sessions"> } : "skip"
   );
+  const movedGenerationIds = useMovedGenerationIds(currentSessionId);
+  const generations = useMemo(
+    () => sessionGenerations?.filter((gen: any) => !movedGenerationIds.has(gen._id)),
+    [sessionGenerations, movedGenerationIds]
+  );
   const isLoadingGenerations = currentSessionId && generations === undefined;
 
+  // In-flight jobs for this session that don't have a card in the feed yet
+  const pendingJobs = generationJobs.filter(
+    (job) =>
+      isJobActive(job) &&
+      (!job.sessionId || job.sessionId === currentSessionId) &&
+      !(job.generationId && generations?.some((gen: any) => gen._id === job.generationId))
+  );
+  // Prompts created offline in this session (or before one existed); once sending, the job card takes over
+  const offlineQueued = queuedGenerations.filter(
+    (pending) => pending.status !== "syncing" && (!pending.payload.sessionId || pending.payload.sessionId === currentSessionId)
+  );
+  // Compare runs: variants sharing a compareGroupId render as one grid, including jobs
+  // still waiting for a slot or for their generation to reach the feed
+  const getComparePendingCells = (compareGroupId: string): ComparisonCell[] =>
+    pendingJobs
+      .filter((job) => job.request.compareGroupId === compareGroupId)
+      .map((job) => ({
+        key: job.id,
+        modelLabel: getModelById(job.request.modelId)?.label ?? selectedModelLabel,
+        aspectRatio: job.request.aspectRatio,
+        imageCount: 0,
+        isLoading: true,
+        job,
+      }));
+  const getCompareGenerationCell = (gen: any): ComparisonCell => {
+    const images = gen.images || [];
+    const job = getJobForGeneration(gen._id);
+    return {
+      key: gen._id,
+      modelLabel: gen.modelLabel || selectedModelLabel,
+      aspectRatio: gen.aspectRatio || selectedAspectRatio,
+      imageUrl: images[0]?.url,
+      imageCount: images.length,
+      isLoading: gen.isLoading,
+      job,
+      error: gen.error,
+      onPress: () => {
+        setSelectedImage({
+          url: images[0].url,
+          prompt: gen.prompt,
+          model: gen.modelLabel || selectedModelLabel,
+          aspectRatio: gen.aspectRatio || selectedAspectRatio,
+          createdAt: gen.completedAt || gen.createdAt,
+          generation: gen,
+        });
+        imageDetailSheetRef.current?.present();
+      },
+    };
+  };
+  // Compare runs with no generation in the feed yet
+  const pendingCompareGroupIds = Array.from(
+    new Set(
+      pendingJobs
+        .map((job) => job.request.compareGroupId)
+        .filter(
+          (groupId): groupId is string =>
+            !!groupId && !generations?.some((gen: any) => gen.compareGroupId === groupId)
+        )
+    )
+  );
+
+  const pendingCards = [
+    ...offlineQueued.map((pending) => (
+      <PendingGenerationCard
+        key={pending.id}
+        prompt={pending.payload.prompt}
+        modelLabel={getModelById(pending.payload.model as ImageModelId)?.label ?? selectedModelLabel}
+        aspectRatio={pending.payload.aspectRatio ?? DEFAULT_SETTINGS.aspectRatio}
+        numImages={pending.payload.numImages ?? DEFAULT_SETTINGS.numImages}
+        statusLabel={getQueuedStatusLabel(pending)}
+        footer={
+          pending.status === "poisoned" ? (
+            <QueuedActions
+              onRetry={() => retryQueuedGeneration(pending.id)}
+              onDiscard={() => discardQueuedGeneration(pending.id)}
+            />
+          ) : undefined
+        }
+        onCancel={cancelGeneration}
+      />
+    )),
+    ...pendingCompareGroupIds.map((groupId) => {
+      const cells = getComparePendingCells(groupId);
+      return (
+        <View key={groupId} className="mb-6">
+          <ComparisonGrid prompt={cells[0].job?.request.prompt ?? ""} cells={cells} onCancel={cancelGeneration} />
+        </View>
+      );
+    }),
+    ...pendingJobs.filter((job) => !job.request.compareGroupId).map((job) => (
+      <PendingGenerationCard
+        key={job.id}
+        prompt={job.request.prompt}
+        modelLabel={getModelById(job.request.modelId)?.label ?? selectedModelLabel}
+        aspectRatio={job.request.aspectRatio}
+        numImages={job.request.numImages}
+        job={job}
+        onCancel={cancelGeneration}
+      />
+    )),
+    ...(pendingGenerationPreview
+      ? [
+          <PendingGenerationCard
+            key="uploading"
+            prompt={pendingGenerationPreview.prompt}
+            modelLabel={pendingGenerationPreview.modelLabel}
+            aspectRatio={pendingGenerationPreview.aspectRatio}
+            numImages={pendingGenerationPreview.numImages}
+            onCancel={cancelGeneration}
+          />,
+        ]
+      : []),
+  ];
+
   useEffect(() => {
     const showSub = Keyboard.addListener(
       Platform.OS === 'ios' ? 'keyboardWillShow' : 'keyboardDidShow',
@@ -572,6 +1001,103 @@ export default function ImagesScreen() {
     }
   };
 
+  // Handle images sent from an Assets selection - added like images picked from assets
+  const attachImagesFromSelection = (urls: string[]) => {
+    const maxSelection = supportsMultipleImages ? getModelById(selectedModelId)?.maxAttachments ?? 10 : 1;
+    const available = supportsMultipleImages ? Math.max(0, maxSelection - attachments.length) : 1;
+    handleSelectFromAssets(urls.map((url) => ({ url, uri: url })));
+    if (urls.length > available) {
+      Alert.alert(
+        "Some Images Not Attached",
+        `This model takes up to ${maxSelection} ${maxSelection === 1 ? "image" : "images"}, so ${urls.length - available} of ${urls.length} weren't attached.`
+      );
+    }
+  };
+  const attachImagesFromSelectionRef = useRef(attachImagesFromSelection);
+  attachImagesFromSelectionRef.current = attachImagesFromSelection;
+
+  useEffect(() => {
+    const urls = route.params?.attachImageUrls;
+    if (urls && urls.length > 0) {
+      attachImagesFromSelectionRef.current(urls);
+    }
+  }, [route.params?.attachImageUrls]);
+
+  // Switch to the session a remixed generation came from
+  const openRemixSession = (sessionId?: string) => {
+    if (!sessionId || sessionId === currentSessionId) return;
+    setCurrentSessionId(sessionId);
+    setCurrentSessionTitle(undefined);
+  };
+
+  // Remix with edits - load a past generation's settings into the prompt bar
+  const remixGeneration = (request: ImageRemixRequest) => {
+    openRemixSession(request.sessionId);
+    setPrompt(request.prompt);
+    setSelectedModelId(request.modelId);
+    setSelectedModelLabel(getModelById(request.modelId)?.label ?? selectedModelLabel);
+    setSelectedAspectRatio(request.aspectRatio);
+    setNumberOfImages(request.numImages);
+    if (request.resolution) setSelectedResolution(request.resolution);
+    if (request.quality) setSelectedQuality(request.quality);
+    setAttachments(
+      (request.attachmentImages ?? []).map(({ url }) => ({
+        uri: url,
+        url,
+        width: 0,
+        height: 0,
+        isFromAssets: true,
+      }))
+    );
+  };
+
+  // Regenerate - run a past generation's request again, leaving the prompt bar as it is
+  const regenerateGeneration = async (request: ImageRemixRequest) => {
+    openRemixSession(request.sessionId);
+
+    const cost = calculateImageCost(request.modelId, request.numImages, {
+      resolution: request.resolution,
+      quality: request.quality,
+      aspectRatio: request.aspectRatio,
+    });
+    if (credits < cost) {
+      Alert.alert("Insufficient Credits", `You need ${cost} credits but have ${credits}`);
+      return;
+    }
+
+    const result = await createGeneration({
+      prompt: request.prompt,
+      model: getEffectiveModelId(request.modelId, (request.attachmentImages?.length ?? 0) > 0),
+      aspectRatio: request.aspectRatio,
+      numImages: request.numImages,
+      attachmentImages: request.attachmentImages,
+      resolution: request.resolution,
+      quality: request.quality,
+      sessionId: request.sessionId,
+      onSessionId: (sessionId) => {
+        setCurrentSessionId((prev) => prev ?? sessionId);
+      },
+    });
+
+    if (!result.offline && !result.success && result.error !== "Cancelled") {
+      Alert.alert("Generation Failed", result.error || "Unknown error");
+    }
+  };
+
+  // Remix / Regenerate sent from another screen (e.g. an asset's detail sheet)
+  const applyRemixRef = useRef({ remixGeneration, regenerateGeneration });
+  applyRemixRef.current = { remixGeneration, regenerateGeneration };
+
+  useEffect(() => {
+    const remix = route.params?.remix;
+    if (!remix) return;
+    if (remix.autoGenerate) {
+      applyRemixRef.current.regenerateGeneration(remix.request);
+    } else {
+      applyRemixRef.current.remixGeneration(remix.request);
+    }
+  }, [route.params?.remix]);
+
   // Generate image count options based on model's maxImages
   const maxImagesForModel = getMaxImages(selectedModelId);
   const imageCountOptions = Array.from({ length: maxImagesForModel }, (_, i) => i + 1);
@@ -589,18 +1115,49 @@ export default function ImagesScreen() {
 
   // Remove attachment
   const removeAttachment = (index: number) => {
+    removeUpload(attachments[index].uri);
     setAttachments((prev) => prev.filter((_, i) => i !== index));
   };
 
-  // Handle generation
-  const handleGenerate = async () => {
-    const promptSnapshot = prompt.trim();
+  // Load a prompt from the library with the model and aspect ratio it was used with
+  const handleSelectFromLibrary = (entry: Omit<PromptSettings, "mode">) => {
+    setPrompt(entry.prompt);
+
+    const model = entry.modelId ? getModelById(entry.modelId as ImageModelId) : undefined;
+    const modelId = model ? getUnifiedModelId(model.id) : selectedModelId;
+    if (model) {
+      setSelectedModelId(modelId);
+      setSelectedModelLabel(getModelById(modelId)?.label ?? model.label);
+      if (numberOfImages > getMaxImages(modelId)) {
+        setNumberOfImages(getMaxImages(modelId));
+      }
+    }
+
+    const allowedRatios = getModelAspectRatios(modelId);
+    if (entry.aspectRatio && allowedRatios.includes(entry.aspectRatio as AspectRatio)) {
+      setSelectedAspectRatio(entry.aspectRatio as AspectRatio);
+    } else if (!allowedRatios.includes(selectedAspectRatio)) {
+      setSelectedAspectRatio(allowedRatios[0]);
+    }
+  };
+
+  // Handle generation (filledPrompt: a template's prompt with its placeholders filled in)
+  const handleGenerate = async (filledPrompt?: string) => {
+    const promptSnapshot = (filledPrompt ?? prompt).trim();
 
     if (!promptSnapshot) {
       Alert.alert("Error", "Please enter a prompt");
       return;
     }
 
+    // Templates are filled in first; the prompt bar keeps the template for next time
+    if (isPromptTemplate(promptSnapshot)) {
+      Keyboard.dismiss();
+      setTemplatePrompt(promptSnapshot);
+      templateSheetRef.current?.present();
+      return;
+    }
+
     if (requiresAttachment && attachments.length === 0) {
       Alert.alert("Error", `${currentModel?.label} requires at least one image`);
       return;
@@ -611,10 +1168,28 @@ export default function ImagesScreen() {
       return;
     }
 
+    // Gallery photos have to be uploaded first, which can't wait in the offline queue
+    if (isOffline && attachments.some((a) => !a.isFromAssets || !a.url)) {
+      Alert.alert(
+        "You're offline",
+        "Photos from your gallery can only be attached while online. Use images from Assets or try again once connected."
+      );
+      return;
+    }
+
     Keyboard.dismiss();
 
-    // Snapshot what the user is generating so the in-flight skeleton doesn't change
-    // when the prompt bar is edited mid-generation.
+    // History keeps the prompt bar's text, so a filled-in template is remembered as the template
+    recordPrompt({
+      prompt: filledPrompt ? prompt : promptSnapshot,
+      modelId: selectedModelId,
+      modelLabel: selectedModelLabel,
+      aspectRatio: selectedAspectRatio,
+    });
+
+    // Snapshot what the user is generating so the skeleton shown while attachments
+    // upload doesn't change when the prompt bar is edited. Once the job starts it
+    // renders its own card from the request.
     const effectiveModelId = getEffectiveModelId(selectedModelId, attachments.length > 0);
     const effectiveModel = getModelById(effectiveModelId);
     setPendingGenerationPreview({
@@ -630,10 +1205,6 @@ export default function ImagesScreen() {
       // Upload attachments if any
       if (attachments.length > 0) {
         setIsUploadingAttachments(true);
-        const token = await getToken();
-        if (!token) {
-          throw new Error("Authentication required");
-        }
 
         // Separate asset images (already have URLs) from gallery images (need upload)
         const assetImages = attachments.filter((a) => a.isFromAssets && a.url);
@@ -642,11 +1213,18 @@ export default function ImagesScreen() {
         // Upload gallery images
         let uploadedUrls: Array<{ url: string }> = [];
         if (galleryImages.length > 0) {
-          const uploaded = await uploadAttachments(
-            token,
-            galleryImages.map((a) => a.uri)
+          const uploaded = await uploadFiles(
+            galleryImages.map((a) => a.uri),
+            { kind: "image", maxDimension: getAttachmentMaxDimension(effectiveModelId) }
           );
-          uploadedUrls = uploaded.map((u) => ({ url: u.url }));
+          // Finished uploads are kept, so generating again only re-sends the failed ones
+          const failedCount = uploaded.filter((task) => task.status !== "completed").length;
+          if (failedCount > 0) {
+            throw new Error(
+              `${failedCount} of ${uploaded.length} images failed to upload. Tap a failed image to retry.`
+            );
+          }
+          uploadedUrls = uploaded.map((task) => ({ url: task.result!.url }));
         }
 
         // Combine asset URLs (in order) with uploaded URLs
@@ -663,10 +1241,11 @@ export default function ImagesScreen() {
         setIsUploadingAttachments(false);
       }
 
-      // Start generation
-      const result = await generate({
+      // Start generation - the job's card (or a queued card when offline) replaces the upload skeleton
+      setPendingGenerationPreview(null);
+      const result = await createGeneration({
         prompt: promptSnapshot,
-        modelId: effectiveModelId,
+        model: effectiveModelId,
         aspectRatio: selectedAspectRatio,
         numImages: numberOfImages,
         attachmentImages: attachmentUrls,
@@ -678,14 +1257,14 @@ export default function ImagesScreen() {
         },
       });
 
-      if (result.success) {
+      if (result.offline) {
+        // Queued - its card stays in the feed until it's sent once back online
+      } else if (result.success) {
         // Update session if new one was created
         if (result.sessionId && !currentSessionId) {
           setCurrentSessionId(result.sessionId);
         }
-        setPendingGenerationPreview(null);
-      } else {
-        setPendingGenerationPreview(null);
+      } else if (result.error !== "Cancelled") {
         Alert.alert("Generation Failed", result.error || "Unknown error");
       }
     } catch (error) {
@@ -696,6 +1275,70 @@ export default function ImagesScreen() {
     }
   };
 
+  // Compare mode: the same prompt across several models / aspect ratios
+  const handleOpenCompare = () => {
+    const promptSnapshot = prompt.trim();
+    if (!promptSnapshot) {
+      Alert.alert("Error", "Please enter a prompt");
+      return;
+    }
+    if (isPromptTemplate(promptSnapshot)) {
+      Alert.alert("Fill In Template", "Compare runs a finished prompt. Replace the template's placeholders first.");
+      return;
+    }
+    if (attachments.length > 0) {
+      Alert.alert("Compare", "Compare runs text-to-image. Remove the attached images to compare models.");
+      return;
+    }
+    if (isOffline) {
+      Alert.alert("You're offline", "Connect to the internet to compare models.");
+      return;
+    }
+
+    Keyboard.dismiss();
+    compareSheetRef.current?.present();
+  };
+
+  const handleCompare = async (variants: CompareVariant[]) => {
+    const promptSnapshot = prompt.trim();
+    if (!promptSnapshot) return;
+
+    recordPrompt({
+      prompt: promptSnapshot,
+      modelId: selectedModelId,
+      modelLabel: selectedModelLabel,
+      aspectRatio: selectedAspectRatio,
+    });
+
+    const requests = buildCompareRequests(variants, {
+      prompt: promptSnapshot,
+      numImages: numberOfImages,
+      resolution: selectedResolution,
+      quality: selectedQuality,
+    });
+
+    try {
+      const results = await generateComparison(requests, {
+        sessionId: currentSessionId,
+        onSessionId: (sessionId) => {
+          setCurrentSessionId((prev) => prev ?? sessionId);
+        },
+        compareGroupId: createCompareGroupId(),
+      });
+
+      const failed = results.filter((result) => !result.success && result.error !== "Cancelled");
+      if (failed.length > 0) {
+        Alert.alert(
+          "Compare",
+          `${failed.length} of ${results.length} variants failed: ${failed[0].error || "Unknown error"}`
+        );
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Compare failed";
+      Alert.alert("Error", message);
+    }
+  };
+
   // Validate Kling O1 @Image mentions
   const klingO1Validation = isKlingO1 
     ? validateKlingO1Prompt(prompt, attachments.length)
@@ -797,85 +1440,14 @@ export default function ImagesScreen() {
           onScroll={scrollHandler}
           scrollEventThrottle={16}
         >
-          {isLoadingGenerations && !pendingGenerationPreview ? (
+          {isLoadingGenerations && pendingCards.length === 0 ? (
             <View className="items-center justify-center py-20">
               <ActivityIndicator size="large" color="#a855f7" />
               <Text className="text-gray-500 text-sm mt-3">Loading...</Text>
             </View>
-          ) : (pendingGenerationPreview || isGenerating) && (!generations || generations.length === 0) ? (
-            // Show skeleton when generating in a new session (no generations yet)
-            <View>
-              {/* Prompt preview */}
-              <View className="bg-neutral-800 rounded-3xl px-4 py-3 mb-2 self-end" style={{ maxWidth: '90%' }}>
-                <Text className="text-white text-base text-center" numberOfLines={7}>
-                  {pendingGenerationPreview?.prompt ?? prompt}
-                </Text>
-              </View>
-              {/* Model Badge */}
-              <View className="flex-row items-center justify-end mb-3">
-                <View className="flex-row items-center bg-neutral-800 rounded-full px-3 py-1.5">
-                  <Ionicons name="image-outline" size={14} color="#fff" />
-                  <Text className="text-white text-xs ml-1.5">
-                    {pendingGenerationPreview?.modelLabel ?? selectedModelLabel}
-                  </Text>
-                </View>
-              </View>
-              {/* Generation Header */}
-              <View className="flex-row items-center mb-3">
-                <Image
-                  source={require("../../assets/logo.png")}
-                  style={{ width: 32, height: 32 }}
-                  contentFit="contain"
-                />
-                <ShimmerText text="Generating..." />
-              </View>
-              {/* Skeleton */}
-              {(pendingGenerationPreview?.numImages ?? numberOfImages) === 1 ? (
-                <AutoSkeletonView 
-                  isLoading={true} 
-                  defaultRadius={16}
-                  gradientColors={["#1a1a1a", "#2a2a2a"]}
-                >
-                  <View
-                    style={{ 
-                      width: IMAGE_WIDTH, 
-                      height: Math.min(
-                        IMAGE_WIDTH / parseAspectRatio(pendingGenerationPreview?.aspectRatio ?? selectedAspectRatio),
-                        IMAGE_WIDTH * 1.3
-                      ), 
-                      backgroundColor: "#1a1a1a", 
-                      borderRadius: 16 
-                    }}
-                  />
-                </AutoSkeletonView>
-              ) : (
-                <ScrollView
-                  horizontal
-                  showsHorizontalScrollIndicator={false}
-                  scrollEnabled={false}
-                  contentContainerStyle={{ paddingHorizontal: 20 }}
-                >
-                  {Array.from({ length: pendingGenerationPreview?.numImages ?? numberOfImages }).map((_, idx) => (
-                    <AutoSkeletonView 
-                      key={idx}
-                      isLoading={true} 
-                      defaultRadius={16}
-                      gradientColors={["#1a1a1a", "#2a2a2a"]}
-                    >
-                      <View
-                        style={{
-                          width: MULTI_IMAGE_WIDTH,
-                          height: MULTI_IMAGE_WIDTH / parseAspectRatio(pendingGenerationPreview?.aspectRatio ?? selectedAspectRatio),
-                          backgroundColor: "#1a1a1a",
-                          borderRadius: 16,
-                          marginRight: 12,
-                        }}
-                      />
-                    </AutoSkeletonView>
-                  ))}
-                </ScrollView>
-              )}
-            </View>
+          ) : pendingCards.length > 0 && (!generations || generations.length === 0) ? (
+            // Show skeletons when generating in a new session (no generations yet)
+            <View>{pendingCards}</View>
           ) : !currentSessionId || !generations || generations.length === 0 ? (
             <>
               <Image 
@@ -886,10 +1458,29 @@ export default function ImagesScreen() {
               <Text className="text-white text-sm font-medium">Image</Text>
             </>
           ) : (
-            generations.map((gen: any, index: number) => {
+            <>
+            {generations.map((gen: any, index: number) => {
+              // The first generation of a compare run renders the whole run's grid
+              if (gen.compareGroupId) {
+                const group = generations.filter((g: any) => g.compareGroupId === gen.compareGroupId);
+                if (group[0]._id !== gen._id) return null;
+                const completedAt = Math.max(...group.map((g: any) => g.completedAt || g.createdAt));
+                return (
+                  <View key={gen.compareGroupId} className={index < generations.length - 1 || pendingCards.length > 0 ? "mb-6" : ""}>
+                    <ComparisonGrid
+                      prompt={gen.prompt}
+                      cells={[...group.map(getCompareGenerationCell), ...getComparePendingCells(gen.compareGroupId)]}
+                      completedAt={completedAt}
+                      onCancel={cancelGeneration}
+                    />
+                  </View>
+                );
+              }
+
               const images = gen.images || [];
               const hasMultipleImages = images.length > 1;
               const isLoadingGen = gen.isLoading;
+              const job = getJobForGeneration(gen._id);
               const genAspectRatio = parseAspectRatio(gen.aspectRatio || selectedAspectRatio);
               const numImages = gen.numImages || 1;
               // For single images, cap height to prevent very tall portraits taking whole screen
@@ -897,7 +1488,7 @@ export default function ImagesScreen() {
               const imageHeight = numImages === 1 ? Math.min(rawHeight, IMAGE_WIDTH * 1.3) : rawHeight;
               
               return (
-                <View key={gen._id} className={index < generations.length - 1 ? "mb-6" : ""}>
+                <View key={gen._id} className={index < generations.length - 1 || pendingCards.length > 0 ? "mb-6" : ""}>
                   {/* Prompt Text at TOP - Right aligned */}
                   {gen.prompt && (
                     <View className="bg-neutral-800 rounded-3xl px-4 py-3 mb-2 self-end" style={{ maxWidth: '90%' }}>
@@ -923,7 +1514,7 @@ export default function ImagesScreen() {
                       contentFit="contain"
                     />
                     {isLoadingGen ? (
-                      <ShimmerText text="Generating..." />
+                      <ShimmerText text={job && isJobActive(job) ? getJobStatusLabel(job) : "Generating..."} />
                     ) : (
                       <Text className="text-gray-400 text-sm ml-2">
                         Generated at {formatTime(gen.completedAt || gen.createdAt)}
@@ -931,6 +1522,10 @@ export default function ImagesScreen() {
                     )}
                   </View>
 
+                  {isLoadingGen && job && isJobActive(job) && (
+                    <JobProgress job={job} onCancel={cancelGeneration} />
+                  )}
+
                   {/* Images or Loading Skeleton - layered for smooth transition */}
                   {images.length === 0 && !isLoadingGen ? (
                     <View
@@ -974,14 +1569,15 @@ export default function ImagesScreen() {
                                 model: gen.modelLabel || selectedModelLabel,
                                 aspectRatio: gen.aspectRatio || selectedAspectRatio,
                                 createdAt: gen.completedAt || gen.createdAt,
+                                generation: gen,
                               });
                               imageDetailSheetRef.current?.present();
                             }}
                             className="rounded-2xl overflow-hidden active:opacity-90" 
                             style={{ width: IMAGE_WIDTH }}
                           >
-                            <Image
-                              source={images[0].url}
+                            <CachedImage
+                              url={images[0].url}
                               style={{ width: IMAGE_WIDTH, height: imageHeight }}
                               contentFit="cover"
                               cachePolicy="memory-disk"
@@ -1046,14 +1642,15 @@ export default function ImagesScreen() {
                                     model: gen.modelLabel || selectedModelLabel,
                                     aspectRatio: gen.aspectRatio || selectedAspectRatio,
                                     createdAt: gen.completedAt || gen.createdAt,
+                                    generation: gen,
                                   });
                                   imageDetailSheetRef.current?.present();
                                 }}
                                 className="rounded-2xl overflow-hidden mr-3 active:opacity-90"
                                 style={{ width: MULTI_IMAGE_WIDTH }}
                               >
-                                <Image
-                                  source={img.url}
+                                <CachedImage
+                                  url={img.url}
                                   style={{ width: MULTI_IMAGE_WIDTH, height: MULTI_IMAGE_WIDTH / genAspectRatio }}
                                   contentFit="cover"
                                   cachePolicy="memory-disk"
@@ -1073,7 +1670,11 @@ export default function ImagesScreen() {
                     className="mt-3"
                     contentContainerStyle={{ gap: 16 }}
                   >
-                    <Pressable className="flex-row items-center active:opacity-70">
+                    <Pressable
+                      className="flex-row items-center active:opacity-70"
+                      disabled={!job || isJobActive(job)}
+                      onPress={() => job && retryGeneration(job.id)}
+                    >
                       <Ionicons name="refresh-outline" size={16} color="#9ca3af" />
                       <Text className="text-gray-400 text-sm ml-1">Retry</Text>
                     </Pressable>
@@ -1160,7 +1761,9 @@ export default function ImagesScreen() {
                   </ScrollView>
                 </View>
               );
-            })
+            })}
+            {pendingCards}
+            </>
           )}
         </Animated.ScrollView>
 
@@ -1186,6 +1789,10 @@ export default function ImagesScreen() {
                         style={{ width: 60, height: 60, borderRadius: 8 }}
                         contentFit="cover"
                       />
+                      <AttachmentUploadOverlay
+                        task={getUploadTask(attachment.uri)}
+                        onRetry={() => retryUpload(attachment.uri)}
+                      />
                       {/* Show @Image index for Kling O1 */}
                       {isKlingO1 && (
                         <View 
@@ -1225,6 +1832,25 @@ export default function ImagesScreen() {
             {/* Options Row */}
             <View className="flex-row items-center">
               <ScrollView horizontal showsHorizontalScrollIndicator={false} className="flex-1" contentContainerStyle={{ paddingRight: 8 }} keyboardShouldPersistTaps="handled">
+                {/* Prompt Library */}
+                <Pressable
+                  onPress={() => {
+                    Keyboard.dismiss();
+                    promptLibrarySheetRef.current?.present();
+                  }}
+                  className="flex-row items-center rounded-full px-2.5 mr-2 active:opacity-70"
+                  style={{ backgroundColor: "#3a3a3a", height: 28 }}
+                >
+                  <Ionicons name="bookmarks-outline" size={14} color="#fff" />
+                </Pressable>
+                {/* Compare */}
+                <Pressable
+                  onPress={handleOpenCompare}
+                  className="flex-row items-center rounded-full px-2.5 mr-2 active:opacity-70"
+                  style={{ backgroundColor: "#3a3a3a", height: 28 }}
+                >
+                  <Ionicons name="git-compare-outline" size={14} color="#fff" />
+                </Pressable>
                 <Pressable
                   onPress={() => {
                     Keyboard.dismiss();
@@ -1273,6 +1899,15 @@ export default function ImagesScreen() {
                     <Text className="text-white text-xs ml-1.5">{numberOfImages}x</Text>
                   </Pressable>
                 </MenuView>
+                {/* Cost - tap for the itemized breakdown */}
+                <Pressable
+                  onPress={() => Alert.alert(`${estimatedCost} credits`, formatPriceBreakdown(costBreakdown))}
+                  className="flex-row items-center rounded-full px-2.5 mr-2 active:opacity-70"
+                  style={{ backgroundColor: "#3a3a3a", height: 28 }}
+                >
+                  <Ionicons name="flash" size={12} color="#facc15" />
+                  <Text className="text-white text-xs ml-1">{estimatedCost}</Text>
+                </Pressable>
               </ScrollView>
               <View style={{ flexDirection: 'row', alignItems: 'center', paddingLeft: 8 }}>
                 {!isAttachmentDisabled(selectedModelId) && (
@@ -1291,7 +1926,7 @@ export default function ImagesScreen() {
                 )}
                 {/* Generate Button - same size as + button */}
                 <Pressable
-                  onPress={handleGenerate}
+                  onPress={() => handleGenerate()}
                   disabled={!canGenerate}
                   className="active:opacity-70"
                   style={{ 
@@ -1363,6 +1998,44 @@ export default function ImagesScreen() {
         ref={imageDetailSheetRef}
         image={selectedImage}
         onClose={() => setSelectedImage(null)}
+        onRegenerate={(generation) => regenerateGeneration(buildGenerationRequest(generation))}
+        onRemix={(generation) => remixGeneration(buildGenerationRequest(generation))}
+        onUseAsAttachment={(url) => attachImagesFromSelection([url])}
+      />
+
+      {/* Prompt Library */}
+      <PromptLibrarySheet
+        ref={promptLibrarySheetRef}
+        mode="image"
+        current={{
+          prompt,
+          modelId: selectedModelId,
+          modelLabel: selectedModelLabel,
+          aspectRatio: selectedAspectRatio,
+        }}
+        onSelect={handleSelectFromLibrary}
+        onClose={() => {}}
+      />
+
+      {/* Template placeholders, filled in at generate time */}
+      <TemplateVariablesSheet
+        ref={templateSheetRef}
+        template={templatePrompt}
+        onSubmit={(filled) => handleGenerate(filled)}
+        onClose={() => setTemplatePrompt(null)}
+      />
+
+      {/* Compare Setup */}
+      <CompareSetupSheet
+        ref={compareSheetRef}
+        modelId={selectedModelId}
+        aspectRatio={selectedAspectRatio}
+        numImages={numberOfImages}
+        resolution={selectedResolution}
+        quality={selectedQuality}
+        credits={credits}
+        onSubmit={handleCompare}
+        onClose={() => {}}
       />
 
       {/* Asset Picker Sheet */}
@@ -14,6 +14,10 @@ import { LinearGradient } from "expo-linear-gradient";
 import { useUser, useAuth } from "@clerk/clerk-expo";
 import { NativeStackNavigationProp } from "@react-navigation/native-stack";
 import { AppStackParamList } from "../navigation/AppNavigator";
+import { useOutboxStatus } from "../lib/outbox";
+import { getStoredUserIds, purgeUserStorage } from "../lib/userStorage";
+import { clearMediaCache, setMediaCacheBudget, useMediaCacheUsage } from "../lib/mediaCache";
+import { MEDIA_CACHE_BUDGET_OPTIONS } from "../state/mediaCacheStore";
 
 type SettingsScreenNavigationProp = NativeStackNavigationProp<
   AppStackParamList,
@@ -81,6 +85,12 @@ function SettingsRow({
   );
 }
 
+function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+  if (bytes >= 1024 * 1024) return `${Math.round(bytes / (1024 * 1024))} MB`;
+  return `${Math.round(bytes / 1024)} KB`;
+}
+
 function SectionHeader({ title }: { title: string }) {
   return (
     <Text className="text-gray-500 text-sm font-medium px-4 pt-6 pb-2 uppercase tracking-wide">
@@ -91,7 +101,19 @@ function SectionHeader({ title }: { title: string }) {
 
 export default function SettingsScreen({ navigation }: SettingsScreenProps) {
   const { user } = useUser();
-  const { signOut } = useAuth();
+  const { signOut, userId } = useAuth();
+  const { waitingCount, poisonedCount } = useOutboxStatus();
+  const [otherAccountIds, setOtherAccountIds] = React.useState<string[]>([]);
+  const mediaCache = useMediaCacheUsage();
+
+  const loadOtherAccounts = React.useCallback(async () => {
+    const storedUserIds = await getStoredUserIds();
+    setOtherAccountIds(storedUserIds.filter((id) => id !== userId));
+  }, [userId]);
+
+  React.useEffect(() => {
+    loadOtherAccounts();
+  }, [loadOtherAccounts]);
 
   const handleSignOut = () => {
     Alert.alert("Sign Out", "Are you sure you want to sign out?", [
@@ -110,6 +132,84 @@ export default function SettingsScreen({ navigation }: SettingsScreenProps) {
     ]);
   };
 
+  const handleClearOfflineData = () => {
+    if (!userId) return;
+    const unsentCount = waitingCount + poisonedCount;
+    const message =
+      unsentCount > 0
+        ? `${unsentCount} change${unsentCount === 1 ? " hasn't" : "s haven't"} been synced yet and will be lost. Cached assets will be downloaded again.`
+        : "Cached assets and generations will be downloaded again.";
+
+    Alert.alert("Clear Offline Data", message, [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Clear",
+        style: "destructive",
+        onPress: async () => {
+          try {
+            await purgeUserStorage(userId);
+          } catch (error) {
+            console.error("Error clearing offline data:", error);
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleRemoveOtherAccounts = () => {
+    Alert.alert(
+      "Remove Other Accounts",
+      "Offline data saved by other accounts on this device, including changes they haven't synced, will be deleted.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Remove",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await Promise.all(otherAccountIds.map((id) => purgeUserStorage(id)));
+            } catch (error) {
+              console.error("Error removing account data:", error);
+            }
+            loadOtherAccounts();
+          },
+        },
+      ]
+    );
+  };
+
+  const handleClearMediaCache = () => {
+    Alert.alert(
+      "Clear Media Cache",
+      `Delete ${formatBytes(mediaCache.totalBytes)} of downloaded images and videos? Favorites will be downloaded again.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Clear",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await clearMediaCache();
+            } catch (error) {
+              console.error("Error clearing media cache:", error);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  // Step through the preset sizes; shrinking evicts right away
+  const handleChangeMediaCacheBudget = async () => {
+    const currentIndex = MEDIA_CACHE_BUDGET_OPTIONS.indexOf(mediaCache.budgetBytes);
+    const nextBudget = MEDIA_CACHE_BUDGET_OPTIONS[(currentIndex + 1) % MEDIA_CACHE_BUDGET_OPTIONS.length];
+    try {
+      await setMediaCacheBudget(nextBudget);
+    } catch (error) {
+      console.error("Error resizing media cache:", error);
+    }
+  };
+
   const handleOpenLink = (url: string) => {
     Linking.openURL(url);
   };
@@ -188,6 +288,14 @@ export default function SettingsScreen({ navigation }: SettingsScreenProps) {
               onPress={() => {}}
             />
             <View className="h-px bg-gray-800 mx-4" />
+            <SettingsRow
+              icon="mic-outline"
+              title="Voices"
+              subtitle="Clone and manage your voices"
+              showChevron
+              onPress={() => navigation.navigate("VoiceLibrary")}
+            />
+            <View className="h-px bg-gray-800 mx-4" />
             <SettingsRow
               icon="refresh-outline"
               title="Restore Purchases"
@@ -204,6 +312,51 @@ export default function SettingsScreen({ navigation }: SettingsScreenProps) {
             />
           </View>
 
+          {/* Storage Section */}
+          <SectionHeader title="Storage" />
+          <View
+            className="mx-4 rounded-2xl overflow-hidden"
+            style={{ backgroundColor: "#1a1a1a" }}
+          >
+            <SettingsRow
+              icon="images-outline"
+              title="Media Cache"
+              subtitle={`${mediaCache.fileCount} files · ${formatBytes(mediaCache.pinnedBytes)} in favorites`}
+              rightText={formatBytes(mediaCache.totalBytes)}
+              onPress={handleClearMediaCache}
+            />
+            <View className="h-px bg-gray-800 mx-4" />
+            <SettingsRow
+              icon="speedometer-outline"
+              title="Cache Size Limit"
+              subtitle="Tap to change · favorites are always kept"
+              rightText={formatBytes(mediaCache.budgetBytes)}
+              onPress={handleChangeMediaCacheBudget}
+            />
+            <View className="h-px bg-gray-800 mx-4" />
+            <SettingsRow
+              icon="trash-outline"
+              title="Clear Offline Data"
+              subtitle="Cached assets and unsynced changes for this account"
+              rightText={waitingCount + poisonedCount > 0 ? `${waitingCount + poisonedCount} unsynced` : undefined}
+              onPress={handleClearOfflineData}
+              danger
+            />
+            {otherAccountIds.length > 0 && (
+              <>
+                <View className="h-px bg-gray-800 mx-4" />
+                <SettingsRow
+                  icon="people-outline"
+                  title="Other Accounts on This Device"
+                  subtitle="Remove offline data kept for accounts you signed out of"
+                  rightText={`${otherAccountIds.length}`}
+                  onPress={handleRemoveOtherAccounts}
+                  danger
+                />
+              </>
+            )}
+          </View>
+
           {/* Community Section */}
           <SectionHeader title="Community" />
           <View
@@ -0,0 +1,524 @@
+import React, { useRef, useState } from "react";
+import { View, Text, Pressable, ScrollView, TextInput, Alert, ActivityIndicator, Keyboard, Linking } from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import { MenuView } from "@react-native-menu/menu";
+import { BottomSheetModal } from "@gorhom/bottom-sheet";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
+import { AppStackParamList } from "../navigation/AppNavigator";
+import AssetPickerSheet from "../components/AssetPickerSheet";
+import CachedImage from "../components/CachedImage";
+import { useCredits } from "../hooks/useCredits";
+import { useClonedVoices } from "../hooks/useClonedVoices";
+import { MicrophonePermissionError, useAudioRecorder } from "../hooks/useAudioRecorder";
+import { TalkingPhotoAudioSource, TalkingPhotoStatus, TalkingPhotoTask, useTalkingPhoto } from "../hooks/useTalkingPhoto";
+import { pickImages, pickVideo } from "../lib/attachments";
+import { useNetworkStatus } from "../lib/network";
+import {
+  TALKING_PHOTO_MODES,
+  TalkingPhotoModeId,
+  MAX_TALKING_PHOTO_SECONDS,
+  MAX_TALKING_PHOTO_SCRIPT_LENGTH,
+  calculateTalkingPhotoCost,
+  estimateSpeechSeconds,
+  getTalkingPhotoModeById,
+} from "../config/talkingPhoto";
+
+type TalkingPhotoScreenNavigationProp = NativeStackNavigationProp<AppStackParamList, "TalkingPhoto">;
+
+interface TalkingPhotoScreenProps {
+  navigation: TalkingPhotoScreenNavigationProp;
+}
+
+type AudioTab = "record" | "upload" | "voice";
+
+const AUDIO_TABS: { id: AudioTab; label: string; icon: keyof typeof Ionicons.glyphMap }[] = [
+  { id: "record", label: "Record", icon: "mic-outline" },
+  { id: "upload", label: "Upload", icon: "cloud-upload-outline" },
+  { id: "voice", label: "Cloned Voice", icon: "person-circle-outline" },
+];
+
+const STATUS_LABELS: Record<TalkingPhotoStatus, string> = {
+  idle: "",
+  uploading: "Uploading...",
+  creating_session: "Starting...",
+  submitting: "Starting...",
+  submitted: "Started",
+  failed: "Failed",
+};
+
+const imageSourceActions = [
+  { id: "gallery", title: "Phone Gallery", image: "photo.on.rectangle", imageColor: "#ffffff" },
+  { id: "assets", title: "Assets", image: "folder", imageColor: "#ffffff" },
+];
+
+function formatDuration(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+}
+
+function formatTime(timestamp: number): string {
+  const date = new Date(timestamp);
+  const hours = date.getHours();
+  const minutes = date.getMinutes();
+  const ampm = hours >= 12 ? "PM" : "AM";
+  const formattedHours = hours % 12 || 12;
+  const formattedMinutes = minutes.toString().padStart(2, "0");
+  return `${formattedHours}:${formattedMinutes}${ampm}`;
+}
+
+function TaskRow({ task, onOpenAssets }: { task: TalkingPhotoTask; onOpenAssets: () => void }) {
+  const modeLabel = getTalkingPhotoModeById(task.mode as TalkingPhotoModeId)?.label ?? task.mode;
+
+  return (
+    <View className="flex-row items-center py-3" style={{ borderBottomWidth: 1, borderBottomColor: "#1f1f1f" }}>
+      <CachedImage
+        url={task.imageUrl}
+        style={{ width: 48, height: 48, borderRadius: 10, backgroundColor: "#1a1a1a" }}
+        contentFit="cover"
+        cachePolicy="memory-disk"
+      />
+      <View className="flex-1 ml-3">
+        <Text className="text-white text-sm font-medium">
+          {modeLabel} · {formatTime(task.completedAt || task.createdAt)}
+        </Text>
+        {task.status === "processing" && <Text className="text-gray-400 text-xs mt-0.5">Animating your photo...</Text>}
+        {task.status === "completed" && <Text className="text-gray-400 text-xs mt-0.5">Saved to Assets</Text>}
+        {task.status === "failed" && (
+          <Text className="text-red-400 text-xs mt-0.5" numberOfLines={2}>
+            {task.error || "Generation failed"}
+            {task.creditsRefunded ? ` · ${task.creditsCharged} credits refunded` : ""}
+          </Text>
+        )}
+      </View>
+      {task.status === "processing" && <ActivityIndicator size="small" color="#9ca3af" />}
+      {task.status === "completed" && (
+        <Pressable onPress={onOpenAssets} className="flex-row items-center active:opacity-70">
+          <Text className="text-white text-sm mr-1">View</Text>
+          <Ionicons name="chevron-forward" size={14} color="#fff" />
+        </Pressable>
+      )}
+      {task.status === "failed" && <Ionicons name="alert-circle-outline" size={20} color="#ef4444" />}
+    </View>
+  );
+}
+
+export default function TalkingPhotoScreen({ navigation }: TalkingPhotoScreenProps) {
+  const { credits, isLoading: creditsLoading } = useCredits();
+  const { isConnected, isInternetReachable } = useNetworkStatus();
+  const isOnline = isConnected && isInternetReachable !== false;
+  const assetPickerSheetRef = useRef<BottomSheetModal>(null);
+
+  // Inputs
+  const [imageUri, setImageUri] = useState<string | null>(null);
+  const [audioTab, setAudioTab] = useState<AudioTab>("record");
+  const [uploadedClip, setUploadedClip] = useState<{ uri: string; durationMs: number } | null>(null);
+  const [voiceId, setVoiceId] = useState<string | null>(null);
+  const [script, setScript] = useState("");
+  const [modeId, setModeId] = useState<TalkingPhotoModeId>("standard");
+  const [prompt, setPrompt] = useState("");
+
+  const recorder = useAudioRecorder(MAX_TALKING_PHOTO_SECONDS * 1000);
+  const { voices, isLoading: voicesLoading } = useClonedVoices();
+  const { status, progress, isSubmitting, tasks, isLoadingTasks, submit, cancel } = useTalkingPhoto();
+
+  // Voice track for the selected tab, if it's ready
+  const audioSource: TalkingPhotoAudioSource | null =
+    audioTab === "record"
+      ? recorder.clip
+        ? { type: "recording", uri: recorder.clip.uri, durationMs: recorder.clip.durationMs }
+        : null
+      : audioTab === "upload"
+        ? uploadedClip
+          ? { type: "upload", uri: uploadedClip.uri, durationMs: uploadedClip.durationMs, kind: "video" }
+          : null
+        : voiceId && voices.some((voice) => voice._id === voiceId) && script.trim()
+          ? { type: "voice", voiceId, script: script.trim() }
+          : null;
+
+  const durationSeconds = audioSource
+    ? audioSource.type === "voice"
+      ? estimateSpeechSeconds(audioSource.script)
+      : audioSource.durationMs / 1000
+    : 0;
+  const estimatedCost = calculateTalkingPhotoCost(modeId, durationSeconds || 5);
+  const isTooLong = durationSeconds > MAX_TALKING_PHOTO_SECONDS;
+  const canSubmit = !!imageUri && !!audioSource && !isTooLong && !recorder.isRecording && !isSubmitting;
+
+  const handleImageSourceAction = async (event: { nativeEvent: { event: string } }) => {
+    const action = event.nativeEvent.event;
+    if (action === "gallery") {
+      try {
+        const images = await pickImages({ maxSelection: 1, allowsMultipleSelection: false });
+        if (images[0]) {
+          setImageUri(images[0].uri);
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Failed to pick image";
+        Alert.alert("Error", message);
+      }
+    } else if (action === "assets") {
+      assetPickerSheetRef.current?.present();
+    }
+  };
+
+  const handleToggleRecording = async () => {
+    if (recorder.isRecording) {
+      await recorder.stop();
+      return;
+    }
+    try {
+      await recorder.start();
+    } catch (error) {
+      if (error instanceof MicrophonePermissionError) {
+        Alert.alert("Permission Required", error.message, [
+          { text: "Cancel", style: "cancel" },
+          { text: "Open Settings", onPress: () => Linking.openSettings() },
+        ]);
+      } else {
+        console.error("Recording error:", error);
+        Alert.alert("Error", "Failed to start recording");
+      }
+    }
+  };
+
+  const handlePickClip = async () => {
+    try {
+      const video = await pickVideo({ maxDurationSeconds: MAX_TALKING_PHOTO_SECONDS });
+      if (video) {
+        setUploadedClip({ uri: video.uri, durationMs: video.durationMs });
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Failed to pick video";
+      Alert.alert("Error", message);
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!imageUri || !audioSource) return;
+    Keyboard.dismiss();
+
+    if (!isOnline) {
+      Alert.alert("You're offline", "Connect to the internet to create a talking photo.");
+      return;
+    }
+
+    if (isTooLong) {
+      Alert.alert("Audio Too Long", `Talking photos can be up to ${MAX_TALKING_PHOTO_SECONDS} seconds long.`);
+      return;
+    }
+
+    if (credits < estimatedCost) {
+      Alert.alert("Insufficient Credits", `You need ${estimatedCost} credits but have ${credits}`);
+      return;
+    }
+
+    const result = await submit({ imageUri, audio: audioSource, modeId, prompt: prompt.trim() });
+    if (result.success) {
+      setImageUri(null);
+      recorder.clear();
+      setUploadedClip(null);
+      setScript("");
+      setPrompt("");
+    } else if (result.error !== "Cancelled") {
+      Alert.alert("Talking Photo Failed", result.error || "Unknown error");
+    }
+  };
+
+  const handleOpenAssets = () => {
+    navigation.navigate("Main", { screen: "Assets" });
+  };
+
+  return (
+    <View className="flex-1 bg-black">
+      <SafeAreaView className="flex-1" edges={["top"]}>
+        {/* Header */}
+        <View className="flex-row items-center justify-between px-5 py-3">
+          <View style={{ width: 72 }}>
+            <Pressable
+              onPress={() => navigation.goBack()}
+              className="w-10 h-10 rounded-full items-center justify-center active:opacity-70"
+              style={{ backgroundColor: "#2a2a2a" }}
+            >
+              <Ionicons name="chevron-back" size={22} color="#fff" />
+            </Pressable>
+          </View>
+          <Text className="text-white text-lg font-semibold">Talking Photo</Text>
+          <View className="flex-row items-center justify-end" style={{ width: 72 }}>
+            <Text className="text-white text-base font-semibold">{creditsLoading ? "..." : credits.toLocaleString()}</Text>
+            <Ionicons name="flash" size={18} color="#facc15" style={{ marginLeft: 2 }} />
+          </View>
+        </View>
+
+        <ScrollView
+          className="flex-1"
+          contentContainerStyle={{ paddingHorizontal: 20, paddingBottom: 60 }}
+          keyboardShouldPersistTaps="handled"
+          showsVerticalScrollIndicator={false}
+        >
+          {/* Portrait */}
+          <Text className="text-gray-400 text-xs mt-2 mb-2">PORTRAIT</Text>
+          {imageUri ? (
+            <View className="self-start mb-5">
+              <CachedImage
+                url={imageUri}
+                style={{ width: 140, height: 180, borderRadius: 16, backgroundColor: "#1a1a1a" }}
+                contentFit="cover"
+                cachePolicy="memory-disk"
+              />
+              {!isSubmitting && (
+                <Pressable
+                  onPress={() => setImageUri(null)}
+                  className="absolute top-2 right-2 rounded-full p-1.5 active:opacity-70"
+                  style={{ backgroundColor: "rgba(0,0,0,0.6)" }}
+                >
+                  <Ionicons name="close" size={14} color="#fff" />
+                </Pressable>
+              )}
+            </View>
+          ) : (
+            <MenuView title="Select Image Source" onPressAction={handleImageSourceAction} actions={imageSourceActions}>
+              <Pressable
+                className="items-center justify-center rounded-2xl mb-5 active:opacity-80"
+                style={{ width: 140, height: 180, borderWidth: 1.5, borderStyle: "dashed", borderColor: "#3a3a3a", backgroundColor: "#111" }}
+              >
+                <Ionicons name="person-outline" size={28} color="#9ca3af" />
+                <Text className="text-gray-400 text-xs mt-2 text-center px-3">Choose a front-facing photo</Text>
+              </Pressable>
+            </MenuView>
+          )}
+
+          {/* Audio source */}
+          <Text className="text-gray-400 text-xs mb-2">VOICE</Text>
+          <View className="flex-row rounded-full p-1 mb-3" style={{ backgroundColor: "#1a1a1a" }}>
+            {AUDIO_TABS.map((tab) => {
+              const selected = tab.id === audioTab;
+              return (
+                <Pressable
+                  key={tab.id}
+                  onPress={() => setAudioTab(tab.id)}
+                  disabled={recorder.isRecording || isSubmitting}
+                  className="flex-1 flex-row items-center justify-center rounded-full py-2 active:opacity-70"
+                  style={{ backgroundColor: selected ? "#fff" : "transparent" }}
+                >
+                  <Ionicons name={tab.icon} size={14} color={selected ? "#000" : "#fff"} />
+                  <Text className="text-xs font-medium ml-1" style={{ color: selected ? "#000" : "#fff" }}>
+                    {tab.label}
+                  </Text>
+                </Pressable>
+              );
+            })}
+          </View>
+
+          {audioTab === "record" && (
+            <View className="flex-row items-center rounded-2xl px-4 py-4 mb-5" style={{ backgroundColor: "#1a1a1a" }}>
+              <Pressable
+                onPress={handleToggleRecording}
+                disabled={isSubmitting}
+                className="w-12 h-12 rounded-full items-center justify-center active:opacity-70"
+                style={{ backgroundColor: recorder.isRecording ? "#ef4444" : "#2a2a2a" }}
+              >
+                <Ionicons name={recorder.isRecording ? "stop" : "mic"} size={22} color="#fff" />
+              </Pressable>
+              <View className="flex-1 ml-3">
+                {recorder.isRecording ? (
+                  <Text className="text-white text-sm">
+                    Recording {formatDuration(recorder.durationMs)} / {formatDuration(MAX_TALKING_PHOTO_SECONDS * 1000)}
+                  </Text>
+                ) : recorder.clip ? (
+                  <Text className="text-white text-sm">Recording · {formatDuration(recorder.clip.durationMs)}</Text>
+                ) : (
+                  <Text className="text-gray-400 text-sm">Tap to record up to {MAX_TALKING_PHOTO_SECONDS}s</Text>
+                )}
+              </View>
+              {recorder.clip && !recorder.isRecording && (
+                <>
+                  <Pressable onPress={recorder.togglePlayback} className="p-2 active:opacity-70">
+                    <Ionicons name={recorder.isPlaying ? "pause" : "play"} size={20} color="#fff" />
+                  </Pressable>
+                  <Pressable onPress={recorder.clear} disabled={isSubmitting} className="p-2 active:opacity-70">
+                    <Ionicons name="trash-outline" size={20} color="#9ca3af" />
+                  </Pressable>
+                </>
+              )}
+            </View>
+          )}
+
+          {audioTab === "upload" && (
+            <Pressable
+              onPress={handlePickClip}
+              disabled={isSubmitting}
+              className="flex-row items-center rounded-2xl px-4 py-4 mb-5 active:opacity-70"
+              style={{ backgroundColor: "#1a1a1a" }}
+            >
+              <Ionicons name="film-outline" size={22} color="#fff" />
+              <View className="flex-1 ml-3">
+                <Text className="text-white text-sm">
+                  {uploadedClip ? `Clip · ${formatDuration(uploadedClip.durationMs)}` : "Choose a clip from your gallery"}
+                </Text>
+                <Text className="text-gray-500 text-xs mt-0.5">Its soundtrack is used as the voice</Text>
+              </View>
+              {uploadedClip ? (
+                <Pressable onPress={() => setUploadedClip(null)} className="p-2 active:opacity-70">
+                  <Ionicons name="trash-outline" size={20} color="#9ca3af" />
+                </Pressable>
+              ) : (
+                <Ionicons name="chevron-forward" size={18} color="#6b7280" />
+              )}
+            </Pressable>
+          )}
+
+          {audioTab === "voice" && (
+            <View className="mb-5">
+              {voicesLoading ? (
+                <ActivityIndicator size="small" color="#9ca3af" style={{ marginVertical: 12 }} />
+              ) : (
+                <ScrollView horizontal showsHorizontalScrollIndicator={false} className="mb-3">
+                  {voices.map((voice) => {
+                    const selected = voice._id === voiceId;
+                    return (
+                      <Pressable
+                        key={voice._id}
+                        onPress={() => setVoiceId(voice._id)}
+                        className="rounded-full px-3 py-1.5 mr-2 active:opacity-70"
+                        style={{ backgroundColor: selected ? "#fff" : "#2a2a2a" }}
+                      >
+                        <Text className="text-sm" style={{ color: selected ? "#000" : "#fff" }}>
+                          {voice.name}
+                        </Text>
+                      </Pressable>
+                    );
+                  })}
+                  <Pressable
+                    onPress={() => navigation.navigate("VoiceLibrary")}
+                    className="flex-row items-center rounded-full px-3 py-1.5 mr-2 active:opacity-70"
+                    style={{ borderWidth: 1, borderColor: "#3a3a3a" }}
+                  >
+                    <Ionicons name={voices.length === 0 ? "add" : "settings-outline"} size={14} color="#fff" />
+                    <Text className="text-white text-sm ml-1">{voices.length === 0 ? "Clone a voice" : "Manage"}</Text>
+                  </Pressable>
+                </ScrollView>
+              )}
+              <TextInput
+                value={script}
+                onChangeText={setScript}
+                placeholder="What should the photo say?"
+                placeholderTextColor="#6b7280"
+                className="text-white text-sm rounded-2xl px-4 py-3"
+                style={{ backgroundColor: "#1a1a1a", minHeight: 90, textAlignVertical: "top" }}
+                multiline
+                maxLength={MAX_TALKING_PHOTO_SCRIPT_LENGTH}
+                editable={!isSubmitting}
+              />
+              <Text className="text-gray-500 text-xs mt-1 text-right">
+                ~{estimateSpeechSeconds(script)}s · {script.length}/{MAX_TALKING_PHOTO_SCRIPT_LENGTH}
+              </Text>
+            </View>
+          )}
+
+          {/* Mode */}
+          <Text className="text-gray-400 text-xs mb-2">MODE</Text>
+          <View className="flex-row mb-5">
+            {TALKING_PHOTO_MODES.map((mode, index) => {
+              const selected = mode.id === modeId;
+              return (
+                <Pressable
+                  key={mode.id}
+                  onPress={() => setModeId(mode.id)}
+                  disabled={isSubmitting}
+                  className="flex-1 rounded-xl px-3 py-3 active:opacity-70"
+                  style={{
+                    marginRight: index < TALKING_PHOTO_MODES.length - 1 ? 8 : 0,
+                    backgroundColor: "#1a1a1a",
+                    borderWidth: 1,
+                    borderColor: selected ? "#0066FF" : "#1a1a1a",
+                  }}
+                >
+                  <Text className="text-white text-sm font-medium">{mode.label}</Text>
+                  <Text className="text-gray-500 text-xs mt-0.5">{mode.description}</Text>
+                </Pressable>
+              );
+            })}
+          </View>
+
+          {/* Prompt */}
+          <TextInput
+            value={prompt}
+            onChangeText={setPrompt}
+            placeholder="Optional: describe the expression or motion"
+            placeholderTextColor="#6b7280"
+            className="text-white text-sm rounded-2xl px-4 py-3 mb-5"
+            style={{ backgroundColor: "#1a1a1a" }}
+            maxLength={500}
+            editable={!isSubmitting}
+          />
+
+          {/* Submit / progress */}
+          {isSubmitting ? (
+            <View className="mb-6">
+              <View className="flex-row items-center mb-2">
+                <ActivityIndicator size="small" color="#0066FF" />
+                <Text className="flex-1 text-gray-300 text-sm ml-2">{STATUS_LABELS[status]}</Text>
+                <Pressable onPress={cancel} className="flex-row items-center active:opacity-70">
+                  <Ionicons name="close-circle-outline" size={16} color="#9ca3af" />
+                  <Text className="text-gray-400 text-sm ml-1">Cancel</Text>
+                </Pressable>
+              </View>
+              <View className="h-1 rounded-full overflow-hidden" style={{ backgroundColor: "#2a2a2a" }}>
+                <View style={{ width: `${progress}%`, height: "100%", backgroundColor: "#0066FF" }} />
+              </View>
+            </View>
+          ) : (
+            <>
+              <Pressable
+                onPress={handleSubmit}
+                disabled={!canSubmit}
+                className="flex-row items-center justify-center rounded-full py-4 active:opacity-80"
+                style={{ backgroundColor: canSubmit ? "#0066FF" : "#2a2a2a" }}
+              >
+                <Text className="text-base font-semibold" style={{ color: canSubmit ? "#fff" : "#6b7280" }}>
+                  Create Talking Photo
+                </Text>
+                <View className="flex-row items-center ml-2">
+                  <Ionicons name="flash" size={12} color={canSubmit ? "#facc15" : "#6b7280"} />
+                  <Text className="text-sm ml-0.5" style={{ color: canSubmit ? "#fff" : "#6b7280" }}>
+                    {estimatedCost}
+                  </Text>
+                </View>
+              </Pressable>
+              <Text className="text-xs mt-2 mb-6 text-center" style={{ color: isTooLong ? "#ef4444" : "#6b7280" }}>
+                {isTooLong
+                  ? `Voice tracks can be up to ${MAX_TALKING_PHOTO_SECONDS} seconds`
+                  : audioSource
+                    ? `${Math.ceil(durationSeconds)}s of audio`
+                    : "Cost depends on the length of the audio"}
+              </Text>
+            </>
+          )}
+
+          {/* Recent tasks - status updates live */}
+          {(tasks.length > 0 || isLoadingTasks) && <Text className="text-gray-400 text-xs mb-1">RECENT</Text>}
+          {isLoadingTasks && <ActivityIndicator size="small" color="#9ca3af" style={{ marginVertical: 12 }} />}
+          {tasks.map((task) => (
+            <TaskRow key={task._id} task={task} onOpenAssets={handleOpenAssets} />
+          ))}
+        </ScrollView>
+      </SafeAreaView>
+
+      {/* Asset Picker Sheet */}
+      <AssetPickerSheet
+        ref={assetPickerSheetRef}
+        maxSelection={1}
+        allowMultiple={false}
+        onSelectImages={(selectedImages) => {
+          if (selectedImages[0]) {
+            setImageUri(selectedImages[0].url);
+          }
+        }}
+        onClose={() => {}}
+      />
+    </View>
+  );
+}
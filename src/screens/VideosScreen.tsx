@@ -1,4 +1,4 @@
-import React, { useState, useRef, useCallback, useEffect } from "react";
+import React, { useState, useRef, useCallback, useEffect, useMemo } from "react";
 import { View, Text, Pressable, ScrollView, TextInput, Platform, UIManager, Keyboard, Dimensions, ActivityIndicator, Alert, ToastAndroid, Linking } from "react-native";
 import { Image } from "expo-image";
 import { VideoView, useVideoPlayer } from "expo-video";
@@ -8,7 +8,7 @@ import { Ionicons } from "@expo/vector-icons";
 import { LinearGradient } from "expo-linear-gradient";
 import MaskedView from "@react-native-masked-view/masked-view";
 import { BlurView } from "expo-blur";
-import { MenuView } from "@react-native-menu/menu";
+import { MenuView, MenuAction } from "@react-native-menu/menu";
 import { BottomSheetModal } from "@gorhom/bottom-sheet";
 import Animated, { useSharedValue, useAnimatedStyle, withTiming, withRepeat, Easing, useAnimatedScrollHandler, interpolate, FadeIn } from "react-native-reanimated";
 import * as Clipboard from "expo-clipboard";
@@ -16,14 +16,18 @@ import VideoModelSelectorSheet from "../components/VideoModelSelectorSheet";
 import SessionsDrawer, { SessionsDrawerRef } from "../components/SessionsDrawer";
 import AssetPickerSheet from "../components/AssetPickerSheet";
 import VideoDetailSheet from "../components/VideoDetailSheet";
-import { useRoute, RouteProp } from "@react-navigation/native";
+import { useRoute, RouteProp, useNavigation } from "@react-navigation/native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
 import { TabParamList } from "../navigation/TabNavigator";
+import { AppStackParamList } from "../navigation/AppNavigator";
 import { useQuery } from "convex/react";
 import { api } from "../../convex/_generated/api";
 import { Id } from "../../convex/_generated/dataModel";
 import { useCredits } from "../hooks/useCredits";
-import { useUser, useAuth } from "@clerk/clerk-expo";
+import { useClonedVoices } from "../hooks/useClonedVoices";
+import { useUser } from "@clerk/clerk-expo";
 import { useVideoGeneration } from "../hooks/useVideoGeneration";
+import { useMovedGenerationIds } from "../hooks/useSessions";
 import {
   VideoModelId,
   VideoAspectRatio,
@@ -46,9 +50,21 @@ import {
   shouldHideAspectRatioWithImage,
   getVideoModelUIConstraints,
   calculateVideoCost,
+  calculateVideoCostBreakdown,
+  getVideoAttachmentMaxDimension,
   DEFAULT_VIDEO_SETTINGS,
 } from "../config/videoModels";
-import { pickImages, uploadAttachments, SelectedImage } from "../lib/attachments";
+import { formatPriceBreakdown } from "../config/pricing";
+import { pickImages, SelectedImage } from "../lib/attachments";
+import { useCachedMediaUri } from "../lib/mediaCache";
+import { buildVideoGenerationRequest, VideoRemixRequest } from "../lib/generationRemix";
+import PromptLibrarySheet from "../components/PromptLibrarySheet";
+import TemplateVariablesSheet from "../components/TemplateVariablesSheet";
+import { usePromptLibrary } from "../hooks/usePromptLibrary";
+import { PromptSettings } from "../state/promptLibraryStore";
+import { isPromptTemplate } from "../lib/promptTemplates";
+import { useUploadTasks } from "../hooks/useUploadTasks";
+import AttachmentUploadOverlay from "../components/AttachmentUploadOverlay";
 import * as FileSystem from "expo-file-system";
 import * as MediaLibrary from "expo-media-library";
 import { AutoSkeletonView } from "react-native-auto-skeleton";
@@ -160,6 +176,7 @@ function VideoCard({ uri, containerWidth, onDetailPress }: { uri: string; contai
   const [isLoaded, setIsLoaded] = React.useState(false);
   const [isPlaying, setIsPlaying] = React.useState(false);
   const videoRef = React.useRef<Video>(null);
+  const playbackUri = useCachedMediaUri(uri, "video");
 
   const height = containerWidth / aspectRatio;
 
@@ -199,7 +216,7 @@ function VideoCard({ uri, containerWidth, onDetailPress }: { uri: string; contai
     <View style={{ width: containerWidth, height, justifyContent: "center", alignItems: "center" }}>
       <Video
         ref={videoRef}
-        source={{ uri }}
+        source={{ uri: playbackUri ?? uri }}
         style={{ width: containerWidth, height, borderRadius: 16 }}
         resizeMode={ResizeMode.COVER}
         isLooping
@@ -289,8 +306,8 @@ function VideoCard({ uri, containerWidth, onDetailPress }: { uri: string; contai
 
 export default function VideosScreen() {
   const route = useRoute<VideosScreenRouteProp>();
+  const navigation = useNavigation<NativeStackNavigationProp<AppStackParamList>>();
   const { user } = useUser();
-  const { getToken } = useAuth();
   const { credits, isLoading: creditsLoading } = useCredits();
   const insets = useSafeAreaInsets();
   
@@ -322,9 +339,19 @@ export default function VideosScreen() {
   const [selectedDuration, setSelectedDuration] = useState<VideoDuration>(settings.duration);
   const [selectedResolution, setSelectedResolution] = useState<VideoResolution>(settings.resolution);
   const [generateAudio, setGenerateAudio] = useState(settings.generateAudio);
+  const [selectedVoiceId, setSelectedVoiceId] = useState<string | null>(null);
+  const { voices } = useClonedVoices();
+  // Falls back to the model's voice if the selected one was deleted
+  const selectedVoice = voices.find((voice) => voice._id === selectedVoiceId);
   const [fastMode, setFastMode] = useState(settings.fastMode);
   const [attachments, setAttachments] = useState<SelectedImage[]>([]);
   const [isUploadingAttachments, setIsUploadingAttachments] = useState(false);
+  const {
+    getTask: getUploadTask,
+    upload: uploadFiles,
+    retry: retryUpload,
+    remove: removeUpload,
+  } = useUploadTasks();
   const [savingGenerationId, setSavingGenerationId] = useState<string | null>(null);
   const [assetPickerFrameIndex, setAssetPickerFrameIndex] = useState<number>(0);
 
@@ -339,6 +366,12 @@ export default function VideosScreen() {
   const modelSheetRef = useRef<BottomSheetModal>(null);
   const assetPickerSheetRef = useRef<BottomSheetModal>(null);
   const videoDetailSheetRef = useRef<BottomSheetModal>(null);
+  const promptLibrarySheetRef = useRef<BottomSheetModal>(null);
+  const templateSheetRef = useRef<BottomSheetModal>(null);
+  const [templatePrompt, setTemplatePrompt] = useState<string | null>(null);
+
+  // Recent prompts for the prompt library
+  const { recordPrompt } = usePromptLibrary("video");
   const [selectedVideo, setSelectedVideo] = useState<any>(null);
   const translateY = useSharedValue(0);
   const scrollY = useSharedValue(0);
@@ -385,12 +418,13 @@ export default function VideosScreen() {
   const isImageOnlyWithoutImage = isImageOnlyModel(selectedModelId) && !hasImageAttached;
   const isTextOnlyWithAttachment = isTextOnlyModel(selectedModelId) && hasImageAttached;
   
-  const estimatedCost = calculateVideoCost(selectedModelId, {
+  const costBreakdown = calculateVideoCostBreakdown(selectedModelId, {
     resolution: selectedResolution,
     hasAudio: generateAudio,
     duration: selectedDuration,
     fastMode,
   });
+  const estimatedCost = costBreakdown.total;
 
   // Sync local state with hook settings when they load from AsyncStorage
   useEffect(() => {
@@ -414,11 +448,16 @@ export default function VideosScreen() {
     }
   }, [route.params?.sessionId, route.params?.sessionTitle]);
 
-  // Fetch generations if we have a sessionId
-  const generations = useQuery(
+  // Fetch generations if we have a sessionId; ones queued to move to another session are hidden
+  const sessionGenerations = useQuery(
     api.sessions.getSessionGenerations,
     currentSessionId ? { sessionId: currentSessionId as Id<"sessions"> } : "skip"
   );
+  const movedGenerationIds = useMovedGenerationIds(currentSessionId);
+  const generations = useMemo(
+    () => sessionGenerations?.filter((gen: any) => !movedGenerationIds.has(gen._id)),
+    [sessionGenerations, movedGenerationIds]
+  );
   const isLoadingGenerations = currentSessionId && generations === undefined;
 
   useEffect(() => {
@@ -511,6 +550,30 @@ export default function VideosScreen() {
     imageColor: "#ffffff",
   }));
 
+  // Cloned voice for generated speech; null uses the model's own voice
+  const voiceActions: MenuAction[] = [
+    { id: "default", title: "Model Voice", image: "waveform", imageColor: "#ffffff", state: selectedVoice ? "off" : "on" },
+    ...voices.map(
+      (voice): MenuAction => ({
+        id: voice._id,
+        title: voice.name,
+        image: "person.wave.2",
+        imageColor: "#ffffff",
+        state: voice._id === selectedVoice?._id ? "on" : "off",
+      })
+    ),
+    { id: "manage", title: "Manage Voices...", image: "gearshape", imageColor: "#ffffff" },
+  ];
+
+  const handleVoiceAction = (event: { nativeEvent: { event: string } }) => {
+    const action = event.nativeEvent.event;
+    if (action === "manage") {
+      navigation.navigate("VoiceLibrary");
+    } else {
+      setSelectedVoiceId(action === "default" ? null : action);
+    }
+  };
+
   const handleAspectRatioAction = (event: { nativeEvent: { event: string } }) => {
     const ratio = event.nativeEvent.event as VideoAspectRatio;
     if (allowedAspectRatios.includes(ratio)) {
@@ -608,6 +671,9 @@ export default function VideosScreen() {
 
   // Remove attachment
   const removeAttachment = (index: number) => {
+    if (attachments[index]) {
+      removeUpload(attachments[index].uri);
+    }
     setAttachments((prev) => prev.filter((_, i) => i !== index));
   };
 
@@ -630,15 +696,106 @@ export default function VideosScreen() {
     console.log("Delete video:", video._id);
   }, []);
 
-  // Handle generation
-  const handleGenerate = async () => {
-    const promptSnapshot = prompt.trim();
+  // Switch to the session a remixed generation came from
+  const openRemixSession = (sessionId?: string) => {
+    if (!sessionId || sessionId === currentSessionId) return;
+    setCurrentSessionId(sessionId);
+    setCurrentSessionTitle(undefined);
+  };
+
+  // Remix with edits - load a past generation's settings into the prompt bar
+  const remixGeneration = (request: VideoRemixRequest) => {
+    openRemixSession(request.sessionId);
+    setPrompt(request.prompt);
+    setSelectedModelId(request.modelId);
+    setSelectedModelLabel(getVideoModelById(request.modelId)?.label ?? selectedModelLabel);
+    setSelectedAspectRatio(request.aspectRatio);
+    setSelectedDuration(request.duration);
+    if (request.resolution) setSelectedResolution(request.resolution);
+    if (request.generateAudio !== undefined) setGenerateAudio(request.generateAudio);
+
+    // Start (and end) frame in the attachment slots
+    const frameUrls = [request.attachmentImageUrl ?? request.startFrameImageUrl, request.endFrameImageUrl];
+    setAttachments(
+      frameUrls
+        .filter((url): url is string => !!url)
+        .map((url) => ({ uri: url, url, width: 0, height: 0, isFromAssets: true }))
+    );
+  };
+
+  // Regenerate - run a past generation's request again, leaving the prompt bar as it is
+  const regenerateGeneration = async (request: VideoRemixRequest) => {
+    openRemixSession(request.sessionId);
+
+    const cost = calculateVideoCost(request.modelId, {
+      resolution: request.resolution,
+      hasAudio: request.generateAudio,
+      duration: request.duration,
+    });
+    if (credits < cost) {
+      Alert.alert("Insufficient Credits", `You need ${cost} credits but have ${credits}`);
+      return;
+    }
+
+    const result = await generate({
+      ...request,
+      onSessionId: (sessionId) => {
+        setCurrentSessionId((prev) => prev ?? sessionId);
+      },
+    });
+
+    if (!result.success) {
+      Alert.alert("Generation Failed", result.error || "Unknown error");
+    }
+  };
+
+  // Remix / Regenerate sent from another screen (e.g. an asset's detail sheet)
+  const applyRemixRef = useRef({ remixGeneration, regenerateGeneration });
+  applyRemixRef.current = { remixGeneration, regenerateGeneration };
+
+  useEffect(() => {
+    const remix = route.params?.remix;
+    if (!remix) return;
+    if (remix.autoGenerate) {
+      applyRemixRef.current.regenerateGeneration(remix.request);
+    } else {
+      applyRemixRef.current.remixGeneration(remix.request);
+    }
+  }, [route.params?.remix]);
+
+  // Load a prompt from the library with the model and aspect ratio it was used with.
+  // Duration and resolution are reset by the effects above when the model doesn't allow them.
+  const handleSelectFromLibrary = (entry: Omit<PromptSettings, "mode">) => {
+    setPrompt(entry.prompt);
+
+    const model = entry.modelId ? getVideoModelById(entry.modelId as VideoModelId) : undefined;
+    const modelId = model?.id ?? selectedModelId;
+    if (model) {
+      setSelectedModelId(model.id);
+      setSelectedModelLabel(model.label);
+    }
+    if (entry.aspectRatio && getVideoModelAspectRatios(modelId).includes(entry.aspectRatio as VideoAspectRatio)) {
+      setSelectedAspectRatio(entry.aspectRatio as VideoAspectRatio);
+    }
+  };
+
+  // Handle generation (filledPrompt: a template's prompt with its placeholders filled in)
+  const handleGenerate = async (filledPrompt?: string) => {
+    const promptSnapshot = (filledPrompt ?? prompt).trim();
 
     if (!promptSnapshot) {
       Alert.alert("Error", "Please enter a prompt");
       return;
     }
 
+    // Templates are filled in first; the prompt bar keeps the template for next time
+    if (isPromptTemplate(promptSnapshot)) {
+      Keyboard.dismiss();
+      setTemplatePrompt(promptSnapshot);
+      templateSheetRef.current?.present();
+      return;
+    }
+
     // Count valid attachments (filter out undefined/null)
     const validAttachments = attachments.filter((a) => a !== undefined && a !== null);
 
@@ -659,6 +816,14 @@ export default function VideosScreen() {
 
     Keyboard.dismiss();
 
+    // History keeps the prompt bar's text, so a filled-in template is remembered as the template
+    recordPrompt({
+      prompt: filledPrompt ? prompt : promptSnapshot,
+      modelId: selectedModelId,
+      modelLabel: selectedModelLabel,
+      aspectRatio: selectedAspectRatio,
+    });
+
     // Snapshot what the user is generating so the in-flight skeleton doesn't change
     // when the prompt bar is edited mid-generation.
     setPendingGenerationPreview({
@@ -676,10 +841,6 @@ export default function VideosScreen() {
       const validAttachments = attachments.filter((a) => a !== undefined && a !== null);
       if (validAttachments.length > 0) {
         setIsUploadingAttachments(true);
-        const token = await getToken();
-        if (!token) {
-          throw new Error("Authentication required");
-        }
 
         // Separate asset images from gallery images
         const assetImages = validAttachments.filter((a) => a.isFromAssets && a.url);
@@ -688,11 +849,18 @@ export default function VideosScreen() {
         // Upload gallery images
         let uploadedUrls: string[] = [];
         if (galleryImages.length > 0) {
-          const uploaded = await uploadAttachments(
-            token,
-            galleryImages.map((a) => a.uri)
+          const uploaded = await uploadFiles(
+            galleryImages.map((a) => a.uri),
+            { kind: "image", maxDimension: getVideoAttachmentMaxDimension(selectedModelId) }
           );
-          uploadedUrls = uploaded.map((u) => u.url);
+          // Finished uploads are kept, so generating again only re-sends the failed ones
+          const failedCount = uploaded.filter((task) => task.status !== "completed").length;
+          if (failedCount > 0) {
+            throw new Error(
+              `${failedCount} of ${uploaded.length} images failed to upload. Tap a failed image to retry.`
+            );
+          }
+          uploadedUrls = uploaded.map((task) => task.result!.url);
         }
 
         // Build attachment URLs in order
@@ -728,6 +896,7 @@ export default function VideosScreen() {
         duration: selectedDuration,
         resolution: selectedResolution,
         generateAudio: supportsAudio ? generateAudio : undefined,
+        voiceId: supportsAudio && generateAudio ? selectedVoice?._id : undefined,
         fastMode: supportsFastMode ? fastMode : undefined,
         attachmentImageUrl,
         startFrameImageUrl,
@@ -1133,6 +1302,10 @@ export default function VideosScreen() {
                     style={{ width: 60, height: 82, borderRadius: 11 }}
                     contentFit="cover"
                   />
+                  <AttachmentUploadOverlay
+                    task={getUploadTask(attachments[0].uri)}
+                    onRetry={() => retryUpload(attachments[0].uri)}
+                  />
                   <Pressable
                     onPress={() => removeAttachment(0)}
                     className="absolute rounded-full w-5 h-5 items-center justify-center"
@@ -1196,6 +1369,10 @@ export default function VideosScreen() {
                     style={{ width: 60, height: 82, borderRadius: 11 }}
                     contentFit="cover"
                   />
+                  <AttachmentUploadOverlay
+                    task={getUploadTask(attachments[1].uri)}
+                    onRetry={() => retryUpload(attachments[1].uri)}
+                  />
                   <Pressable
                     onPress={() => removeAttachment(1)}
                     className="absolute rounded-full w-5 h-5 items-center justify-center"
@@ -1234,6 +1411,29 @@ export default function VideosScreen() {
             {/* Options Row */}
             <View className="flex-row items-center">
               <ScrollView horizontal showsHorizontalScrollIndicator={false} className="flex-1" contentContainerStyle={{ paddingRight: 8 }} keyboardShouldPersistTaps="handled">
+                {/* Prompt Library */}
+                <Pressable
+                  onPress={() => {
+                    Keyboard.dismiss();
+                    promptLibrarySheetRef.current?.present();
+                  }}
+                  className="flex-row items-center rounded-full px-2.5 mr-2 active:opacity-70"
+                  style={{ backgroundColor: "#3a3a3a", height: 28 }}
+                >
+                  <Ionicons name="bookmarks-outline" size={14} color="#fff" />
+                </Pressable>
+                {/* Talking Photo */}
+                <Pressable
+                  onPress={() => {
+                    Keyboard.dismiss();
+                    navigation.navigate("TalkingPhoto");
+                  }}
+                  className="flex-row items-center rounded-full px-2.5 mr-2 active:opacity-70"
+                  style={{ backgroundColor: "#3a3a3a", height: 28 }}
+                >
+                  <Ionicons name="person-circle-outline" size={14} color="#fff" />
+                  <Text className="text-white text-xs ml-1">Talking Photo</Text>
+                </Pressable>
                 <Pressable
                   onPress={() => {
                     Keyboard.dismiss();
@@ -1322,11 +1522,31 @@ export default function VideosScreen() {
                     </Text>
                   </Pressable>
                 )}
+                {supportsAudio && generateAudio && (
+                  <MenuView title="Voice" onPressAction={handleVoiceAction} actions={voiceActions}>
+                    <Pressable
+                      className="flex-row items-center rounded-full px-2.5 mr-2 active:opacity-70"
+                      style={{ backgroundColor: "#3a3a3a", height: 28 }}
+                    >
+                      <Ionicons name="mic-outline" size={14} color="#fff" />
+                      <Text className="text-white text-xs ml-1.5">{selectedVoice?.name ?? "Model Voice"}</Text>
+                    </Pressable>
+                  </MenuView>
+                )}
+                {/* Cost - tap for the itemized breakdown */}
+                <Pressable
+                  onPress={() => Alert.alert(`${estimatedCost} credits`, formatPriceBreakdown(costBreakdown))}
+                  className="flex-row items-center rounded-full px-2.5 mr-2 active:opacity-70"
+                  style={{ backgroundColor: "#3a3a3a", height: 28 }}
+                >
+                  <Ionicons name="flash" size={12} color="#facc15" />
+                  <Text className="text-white text-xs ml-1">{estimatedCost}</Text>
+                </Pressable>
               </ScrollView>
               <View style={{ flexDirection: 'row', alignItems: 'center', paddingLeft: 8 }}>
                 {/* Generate Button */}
                 <Pressable
-                  onPress={handleGenerate}
+                  onPress={() => handleGenerate()}
                   disabled={!canGenerate}
                   className="active:opacity-70"
                   style={{ 
@@ -1411,12 +1631,36 @@ export default function VideosScreen() {
         onClose={() => {}}
       />
 
+      {/* Prompt Library */}
+      <PromptLibrarySheet
+        ref={promptLibrarySheetRef}
+        mode="video"
+        current={{
+          prompt,
+          modelId: selectedModelId,
+          modelLabel: selectedModelLabel,
+          aspectRatio: selectedAspectRatio,
+        }}
+        onSelect={handleSelectFromLibrary}
+        onClose={() => {}}
+      />
+
+      {/* Template placeholders, filled in at generate time */}
+      <TemplateVariablesSheet
+        ref={templateSheetRef}
+        template={templatePrompt}
+        onSubmit={(filled) => handleGenerate(filled)}
+        onClose={() => setTemplatePrompt(null)}
+      />
+
       {/* Video Detail Sheet */}
       <VideoDetailSheet
         ref={videoDetailSheetRef}
         video={selectedVideo}
         onClose={() => setSelectedVideo(null)}
         onDelete={handleDeleteVideo}
+        onRegenerate={(video) => regenerateGeneration(buildVideoGenerationRequest(video))}
+        onRemix={(video) => remixGeneration(buildVideoGenerationRequest(video))}
       />
       </View>
     </SessionsDrawer>
@@ -0,0 +1,420 @@
+import React, { useState } from "react";
+import { View, Text, Pressable, ScrollView, TextInput, Alert, ActivityIndicator, Keyboard, Linking } from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
+import { AppStackParamList } from "../navigation/AppNavigator";
+import { ClonedVoice, getLocalizationProgress, useClonedVoices } from "../hooks/useClonedVoices";
+import { MicrophonePermissionError, useAudioRecorder } from "../hooks/useAudioRecorder";
+import { useAudioPlayer } from "../hooks/useAudioPlayer";
+import { pickVideo } from "../lib/attachments";
+import {
+  VOICE_LANGUAGES,
+  VoiceGender,
+  MIN_VOICE_SAMPLE_SECONDS,
+  MAX_VOICE_SAMPLE_SECONDS,
+  MAX_VOICE_NAME_LENGTH,
+  getVoiceLanguageStatus,
+} from "../config/voices";
+
+type VoiceLibraryScreenNavigationProp = NativeStackNavigationProp<AppStackParamList, "VoiceLibrary">;
+
+interface VoiceLibraryScreenProps {
+  navigation: VoiceLibraryScreenNavigationProp;
+}
+
+type SampleTab = "record" | "upload";
+
+const GENDERS: { id: VoiceGender; label: string }[] = [
+  { id: "female", label: "Female" },
+  { id: "male", label: "Male" },
+];
+
+function formatDuration(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+}
+
+interface VoiceRowProps {
+  voice: ClonedVoice;
+  isPlaying: boolean;
+  isEditing: boolean;
+  editingName: string;
+  onChangeEditingName: (name: string) => void;
+  onRenameEnd: () => void;
+  onTogglePreview: () => void;
+  onManage: () => void;
+}
+
+function VoiceRow({
+  voice,
+  isPlaying,
+  isEditing,
+  editingName,
+  onChangeEditingName,
+  onRenameEnd,
+  onTogglePreview,
+  onManage,
+}: VoiceRowProps) {
+  const progress = getLocalizationProgress(voice);
+
+  return (
+    <View className="rounded-2xl px-4 py-3 mb-3" style={{ backgroundColor: "#1a1a1a" }}>
+      <View className="flex-row items-center">
+        <Pressable
+          onPress={onTogglePreview}
+          className="w-10 h-10 rounded-full items-center justify-center active:opacity-70"
+          style={{ backgroundColor: "#2a2a2a" }}
+        >
+          <Ionicons name={isPlaying ? "pause" : "play"} size={18} color="#fff" />
+        </Pressable>
+        <View className="flex-1 ml-3">
+          {isEditing ? (
+            <TextInput
+              value={editingName}
+              onChangeText={onChangeEditingName}
+              onEndEditing={onRenameEnd}
+              autoFocus
+              returnKeyType="done"
+              maxLength={MAX_VOICE_NAME_LENGTH}
+              style={{ color: "#fff", fontSize: 16, paddingVertical: 2 }}
+            />
+          ) : (
+            <Text className="text-white text-base font-medium" numberOfLines={1}>
+              {voice.name}
+            </Text>
+          )}
+          <Text className="text-gray-500 text-xs mt-0.5">
+            {voice.gender === "female" ? "Female" : "Male"} · {progress.ready}/{progress.total} languages
+            {progress.pending > 0 ? ` · localizing ${progress.pending}` : ""}
+          </Text>
+        </View>
+        <Pressable onPress={onManage} className="p-2 active:opacity-70">
+          <Ionicons name="ellipsis-horizontal" size={20} color="#9ca3af" />
+        </Pressable>
+      </View>
+
+      {/* Localization progress per language */}
+      <View className="flex-row flex-wrap mt-3">
+        {VOICE_LANGUAGES.map(({ code, label }) => {
+          const status = getVoiceLanguageStatus(voice, code);
+          return (
+            <View
+              key={code}
+              className="flex-row items-center rounded-full px-2 py-1 mr-1.5 mb-1.5"
+              style={{ backgroundColor: status === "ready" ? "#2a2a2a" : "transparent", borderWidth: 1, borderColor: "#2a2a2a" }}
+            >
+              {status === "ready" && <Ionicons name="checkmark" size={10} color="#22c55e" />}
+              {status === "pending" && <ActivityIndicator size={10} color="#9ca3af" />}
+              <Text className="text-xs ml-1" style={{ color: status === "ready" ? "#fff" : "#6b7280" }}>
+                {label}
+              </Text>
+            </View>
+          );
+        })}
+      </View>
+    </View>
+  );
+}
+
+export default function VoiceLibraryScreen({ navigation }: VoiceLibraryScreenProps) {
+  const { voices, isLoading, cloneVoice, renameVoice, deleteVoice } = useClonedVoices();
+  const recorder = useAudioRecorder(MAX_VOICE_SAMPLE_SECONDS * 1000);
+  const player = useAudioPlayer();
+
+  // New voice
+  const [name, setName] = useState("");
+  const [gender, setGender] = useState<VoiceGender>("female");
+  const [sampleTab, setSampleTab] = useState<SampleTab>("record");
+  const [uploadedSample, setUploadedSample] = useState<{ uri: string; durationMs: number } | null>(null);
+  const [cloneProgress, setCloneProgress] = useState<number | null>(null); // null when not cloning
+
+  // Inline rename
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState("");
+
+  const sample =
+    sampleTab === "record"
+      ? recorder.clip
+        ? { uri: recorder.clip.uri, durationMs: recorder.clip.durationMs, kind: "audio" as const }
+        : null
+      : uploadedSample
+        ? { ...uploadedSample, kind: "video" as const }
+        : null;
+  const isTooShort = !!sample && sample.durationMs < MIN_VOICE_SAMPLE_SECONDS * 1000;
+  const isCloning = cloneProgress !== null;
+  const canClone = !!name.trim() && !!sample && !isTooShort && !recorder.isRecording && !isCloning;
+
+  const handleToggleRecording = async () => {
+    if (recorder.isRecording) {
+      await recorder.stop();
+      return;
+    }
+    try {
+      await player.stop();
+      await recorder.start();
+    } catch (error) {
+      if (error instanceof MicrophonePermissionError) {
+        Alert.alert("Permission Required", error.message, [
+          { text: "Cancel", style: "cancel" },
+          { text: "Open Settings", onPress: () => Linking.openSettings() },
+        ]);
+      } else {
+        console.error("Recording error:", error);
+        Alert.alert("Error", "Failed to start recording");
+      }
+    }
+  };
+
+  const handlePickSample = async () => {
+    try {
+      const video = await pickVideo({ maxDurationSeconds: MAX_VOICE_SAMPLE_SECONDS });
+      if (video) {
+        setUploadedSample({ uri: video.uri, durationMs: video.durationMs });
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Failed to pick video";
+      Alert.alert("Error", message);
+    }
+  };
+
+  const handleClone = async () => {
+    if (!sample || !canClone) return;
+    Keyboard.dismiss();
+    await player.stop();
+
+    setCloneProgress(0);
+    try {
+      await cloneVoice({ sample: { uri: sample.uri, kind: sample.kind }, name, gender }, setCloneProgress);
+      setName("");
+      recorder.clear();
+      setUploadedSample(null);
+    } catch (error) {
+      Alert.alert("Cloning Failed", error instanceof Error ? error.message : "Failed to clone voice.");
+    } finally {
+      setCloneProgress(null);
+    }
+  };
+
+  const handleRenameEnd = async () => {
+    const voiceId = editingId;
+    const newName = editingName.trim();
+    setEditingId(null);
+    if (!voiceId || !newName || voices.find((v) => v._id === voiceId)?.name === newName) return;
+
+    try {
+      await renameVoice(voiceId, newName);
+    } catch (error) {
+      Alert.alert("Error", error instanceof Error ? error.message : "Failed to rename voice.");
+    }
+  };
+
+  const handleManage = (voice: ClonedVoice) => {
+    Alert.alert(voice.name, undefined, [
+      {
+        text: "Rename",
+        onPress: () => {
+          setEditingId(voice._id);
+          setEditingName(voice.name);
+        },
+      },
+      {
+        text: "Delete",
+        style: "destructive",
+        onPress: () => {
+          Alert.alert("Delete Voice", `Delete "${voice.name}"? It's removed from your sessions too.`, [
+            { text: "Cancel", style: "cancel" },
+            {
+              text: "Delete",
+              style: "destructive",
+              onPress: async () => {
+                try {
+                  if (player.playingUri === voice.audioUrl) {
+                    await player.stop();
+                  }
+                  await deleteVoice(voice._id);
+                } catch (error) {
+                  Alert.alert("Error", error instanceof Error ? error.message : "Failed to delete voice.");
+                }
+              },
+            },
+          ]);
+        },
+      },
+      { text: "Cancel", style: "cancel" },
+    ]);
+  };
+
+  return (
+    <View className="flex-1 bg-black">
+      <SafeAreaView className="flex-1" edges={["top"]}>
+        {/* Header */}
+        <View className="flex-row items-center justify-between px-5 py-3">
+          <Pressable
+            onPress={() => navigation.goBack()}
+            className="w-10 h-10 rounded-full items-center justify-center active:opacity-70"
+            style={{ backgroundColor: "#2a2a2a" }}
+          >
+            <Ionicons name="chevron-back" size={22} color="#fff" />
+          </Pressable>
+          <Text className="text-white text-lg font-semibold">Voices</Text>
+          <View style={{ width: 40 }} />
+        </View>
+
+        <ScrollView
+          className="flex-1"
+          contentContainerStyle={{ paddingHorizontal: 20, paddingBottom: 60 }}
+          keyboardShouldPersistTaps="handled"
+          showsVerticalScrollIndicator={false}
+        >
+          {/* Clone a voice */}
+          <Text className="text-gray-400 text-xs mt-2 mb-2">CLONE A VOICE</Text>
+          <View className="rounded-2xl px-4 py-4 mb-6" style={{ backgroundColor: "#1a1a1a" }}>
+            <TextInput
+              value={name}
+              onChangeText={setName}
+              placeholder="Voice name"
+              placeholderTextColor="#6b7280"
+              className="text-white text-base rounded-xl px-3 py-2.5 mb-3"
+              style={{ backgroundColor: "#2a2a2a" }}
+              maxLength={MAX_VOICE_NAME_LENGTH}
+              editable={!isCloning}
+            />
+
+            <View className="flex-row mb-3">
+              {GENDERS.map((option) => {
+                const selected = option.id === gender;
+                return (
+                  <Pressable
+                    key={option.id}
+                    onPress={() => setGender(option.id)}
+                    disabled={isCloning}
+                    className="rounded-full px-3 py-1.5 mr-2 active:opacity-70"
+                    style={{ backgroundColor: selected ? "#fff" : "#2a2a2a" }}
+                  >
+                    <Text className="text-sm" style={{ color: selected ? "#000" : "#fff" }}>
+                      {option.label}
+                    </Text>
+                  </Pressable>
+                );
+              })}
+              <View className="flex-1" />
+              {(["record", "upload"] as SampleTab[]).map((tab) => {
+                const selected = tab === sampleTab;
+                return (
+                  <Pressable
+                    key={tab}
+                    onPress={() => setSampleTab(tab)}
+                    disabled={recorder.isRecording || isCloning}
+                    className="rounded-full p-2 ml-1 active:opacity-70"
+                    style={{ backgroundColor: selected ? "#fff" : "#2a2a2a" }}
+                  >
+                    <Ionicons
+                      name={tab === "record" ? "mic-outline" : "cloud-upload-outline"}
+                      size={16}
+                      color={selected ? "#000" : "#fff"}
+                    />
+                  </Pressable>
+                );
+              })}
+            </View>
+
+            {/* Sample */}
+            {sampleTab === "record" ? (
+              <View className="flex-row items-center mb-3">
+                <Pressable
+                  onPress={handleToggleRecording}
+                  disabled={isCloning}
+                  className="w-12 h-12 rounded-full items-center justify-center active:opacity-70"
+                  style={{ backgroundColor: recorder.isRecording ? "#ef4444" : "#2a2a2a" }}
+                >
+                  <Ionicons name={recorder.isRecording ? "stop" : "mic"} size={22} color="#fff" />
+                </Pressable>
+                <Text className="flex-1 text-sm ml-3" style={{ color: recorder.isRecording || recorder.clip ? "#fff" : "#9ca3af" }}>
+                  {recorder.isRecording
+                    ? `Recording ${formatDuration(recorder.durationMs)}`
+                    : recorder.clip
+                      ? `Sample · ${formatDuration(recorder.clip.durationMs)}`
+                      : `Read aloud for ${MIN_VOICE_SAMPLE_SECONDS}-${MAX_VOICE_SAMPLE_SECONDS}s`}
+                </Text>
+                {recorder.clip && !recorder.isRecording && (
+                  <>
+                    <Pressable onPress={recorder.togglePlayback} className="p-2 active:opacity-70">
+                      <Ionicons name={recorder.isPlaying ? "pause" : "play"} size={20} color="#fff" />
+                    </Pressable>
+                    <Pressable onPress={recorder.clear} disabled={isCloning} className="p-2 active:opacity-70">
+                      <Ionicons name="trash-outline" size={20} color="#9ca3af" />
+                    </Pressable>
+                  </>
+                )}
+              </View>
+            ) : (
+              <Pressable onPress={handlePickSample} disabled={isCloning} className="flex-row items-center mb-3 active:opacity-70">
+                <View className="w-12 h-12 rounded-full items-center justify-center" style={{ backgroundColor: "#2a2a2a" }}>
+                  <Ionicons name="film-outline" size={22} color="#fff" />
+                </View>
+                <View className="flex-1 ml-3">
+                  <Text className="text-white text-sm">
+                    {uploadedSample ? `Clip · ${formatDuration(uploadedSample.durationMs)}` : "Choose a clip from your gallery"}
+                  </Text>
+                  <Text className="text-gray-500 text-xs mt-0.5">Its soundtrack is used as the sample</Text>
+                </View>
+                {uploadedSample && (
+                  <Pressable onPress={() => setUploadedSample(null)} className="p-2 active:opacity-70">
+                    <Ionicons name="trash-outline" size={20} color="#9ca3af" />
+                  </Pressable>
+                )}
+              </Pressable>
+            )}
+
+            {isTooShort && (
+              <Text className="text-xs mb-3" style={{ color: "#ef4444" }}>
+                Samples need at least {MIN_VOICE_SAMPLE_SECONDS} seconds of speech
+              </Text>
+            )}
+
+            <Pressable
+              onPress={handleClone}
+              disabled={!canClone}
+              className="flex-row items-center justify-center rounded-full py-3 active:opacity-80"
+              style={{ backgroundColor: canClone ? "#0066FF" : "#2a2a2a" }}
+            >
+              {isCloning && <ActivityIndicator size="small" color="#fff" style={{ marginRight: 8 }} />}
+              <Text className="text-base font-semibold" style={{ color: canClone || isCloning ? "#fff" : "#6b7280" }}>
+                {isCloning
+                  ? (cloneProgress ?? 0) < 1
+                    ? `Uploading ${Math.round((cloneProgress ?? 0) * 100)}%`
+                    : "Cloning..."
+                  : "Clone Voice"}
+              </Text>
+            </Pressable>
+          </View>
+
+          {/* Library */}
+          <Text className="text-gray-400 text-xs mb-2">YOUR VOICES</Text>
+          {isLoading ? (
+            <ActivityIndicator size="small" color="#9ca3af" style={{ marginVertical: 16 }} />
+          ) : voices.length === 0 ? (
+            <Text className="text-gray-500 text-sm">Cloned voices show up here, ready for talking photos and video audio.</Text>
+          ) : (
+            voices.map((voice) => (
+              <VoiceRow
+                key={voice._id}
+                voice={voice}
+                isPlaying={player.playingUri === voice.audioUrl}
+                isEditing={editingId === voice._id}
+                editingName={editingName}
+                onChangeEditingName={setEditingName}
+                onRenameEnd={handleRenameEnd}
+                onTogglePreview={() => player.toggle(voice.audioUrl)}
+                onManage={() => handleManage(voice)}
+              />
+            ))
+          )}
+        </ScrollView>
+      </SafeAreaView>
+    </View>
+  );
+}
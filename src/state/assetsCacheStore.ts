@@ -1,6 +1,6 @@
 import { create } from "zustand";
 import { persist, createJSONStorage } from "zustand/middleware";
-import AsyncStorage from "@react-native-async-storage/async-storage";
+import { registerUserScopedStore, userScopedStorage } from "../lib/userStorage";
 
 export interface CachedAssetItem {
   id: string;
@@ -15,6 +15,7 @@ export interface CachedAssetItem {
   isEnhanced?: boolean;
   isFavorite?: boolean;
   aspectRatio?: string;
+  modelLabel?: string;
 }
 
 export interface CachedFavorite {
@@ -23,18 +24,32 @@ export interface CachedFavorite {
   mediaIndex: number;
 }
 
+export interface CachedCollection {
+  id: string;
+  name: string;
+  coverUrl?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface CachedCollectionItem {
+  collectionId: string;
+  generationId: string;
+  mediaType: "image" | "video";
+  mediaIndex: number;
+}
+
 interface AssetsCacheState {
   assets: CachedAssetItem[];
   favorites: CachedFavorite[];
-  assetsSessionId: string | null;
+  collections: CachedCollection[];
+  collectionItems: CachedCollectionItem[];
   lastFetchedAt: number | null;
-  userId: string | null;
 
   // Actions
-  setUserId: (userId: string | null) => void;
-  setAssetsSessionId: (sessionId: string | null) => void;
   setAssets: (assets: CachedAssetItem[]) => void;
   setFavorites: (favorites: CachedFavorite[]) => void;
+  setCollections: (collections: CachedCollection[], collectionItems: CachedCollectionItem[]) => void;
   updateAsset: (id: string, updates: Partial<CachedAssetItem>) => void;
   removeAsset: (id: string) => void;
   toggleAssetFavorite: (generationId: string, mediaType: "image" | "video", mediaIndex: number) => void;
@@ -51,26 +66,9 @@ const useAssetsCacheStore = create<AssetsCacheState>()(
     (set, get) => ({
       assets: [],
       favorites: [],
-      assetsSessionId: null,
+      collections: [],
+      collectionItems: [],
       lastFetchedAt: null,
-      userId: null,
-
-      setUserId: (userId) => {
-        const currentUserId = get().userId;
-        if (currentUserId !== userId) {
-          set({
-            userId,
-            assets: [],
-            favorites: [],
-            assetsSessionId: null,
-            lastFetchedAt: null,
-          });
-        }
-      },
-
-      setAssetsSessionId: (sessionId) => {
-        set({ assetsSessionId: sessionId });
-      },
 
       setAssets: (assets) => {
         set({
@@ -83,6 +81,10 @@ const useAssetsCacheStore = create<AssetsCacheState>()(
         set({ favorites });
       },
 
+      setCollections: (collections, collectionItems) => {
+        set({ collections, collectionItems });
+      },
+
       updateAsset: (id, updates) => {
         set((state) => ({
           assets: state.assets.map((asset) =>
@@ -154,16 +156,20 @@ const useAssetsCacheStore = create<AssetsCacheState>()(
         set({
           assets: [],
           favorites: [],
-          assetsSessionId: null,
+          collections: [],
+          collectionItems: [],
           lastFetchedAt: null,
         });
       },
     }),
     {
       name: "assets-cache-storage",
-      storage: createJSONStorage(() => AsyncStorage),
+      storage: createJSONStorage(() => userScopedStorage),
+      skipHydration: true, // Hydrated per user by lib/userStorage
     }
   )
 );
 
+registerUserScopedStore(useAssetsCacheStore);
+
 export default useAssetsCacheStore;
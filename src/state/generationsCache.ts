@@ -1,6 +1,6 @@
 import { create } from "zustand";
 import { persist, createJSONStorage } from "zustand/middleware";
-import AsyncStorage from "@react-native-async-storage/async-storage";
+import { registerUserScopedStore, userScopedStorage } from "../lib/userStorage";
 
 export interface CachedGeneration {
   id: string;
@@ -18,8 +18,6 @@ export interface CachedGeneration {
 interface GenerationsCacheState {
   generations: CachedGeneration[];
   lastFetchedAt: number | null;
-  userId: string | null;
-  setUserId: (userId: string | null) => void;
   setGenerations: (generations: CachedGeneration[]) => void;
   updateGeneration: (id: string, updates: Partial<CachedGeneration>) => void;
   addGeneration: (generation: CachedGeneration) => void;
@@ -34,18 +32,6 @@ const useGenerationsCacheStore = create<GenerationsCacheState>()(
     (set, get) => ({
       generations: [],
       lastFetchedAt: null,
-      userId: null,
-
-      setUserId: (userId) => {
-        const currentUserId = get().userId;
-        if (currentUserId !== userId) {
-          set({
-            userId,
-            generations: [],
-            lastFetchedAt: null,
-          });
-        }
-      },
 
       setGenerations: (generations) => {
         set({
@@ -84,9 +70,12 @@ const useGenerationsCacheStore = create<GenerationsCacheState>()(
     }),
     {
       name: "generations-cache-storage",
-      storage: createJSONStorage(() => AsyncStorage),
+      storage: createJSONStorage(() => userScopedStorage),
+      skipHydration: true, // Hydrated per user by lib/userStorage
     }
   )
 );
 
+registerUserScopedStore(useGenerationsCacheStore);
+
 export default useGenerationsCacheStore;
@@ -0,0 +1,85 @@
+import { create } from "zustand";
+import { persist, createJSONStorage } from "zustand/middleware";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+// Result of polling, kept so finalization can be retried without polling again
+export interface InflightOutcome {
+  success: boolean;
+  urls?: string[];
+  error?: string;
+}
+
+// A generation that holds a slot (and possibly reserved credits) and has not been finalized yet,
+// or a talking photo submit that has not been answered yet
+export interface InflightGeneration {
+  id: string; // Local job id; the submit's idempotency key for talking photos
+  kind: "image" | "video" | "enhance" | "talkingPhoto";
+  userId: string | null;
+  modelId: string;
+  slotId?: string; // Talking photos don't take a slot
+  creditAmount: number;
+  generationId?: string; // sessionGenerations row, once added
+  sessionId?: string;
+  requestId?: string; // Provider request/task id, once the API call returned
+  endpoint?: string; // FAL endpoint used for status lookup
+  outcome?: InflightOutcome;
+  createdAt: number;
+  updatedAt: number;
+}
+
+interface InflightGenerationsState {
+  generations: Record<string, InflightGeneration>;
+  trackGeneration: (generation: Omit<InflightGeneration, "createdAt" | "updatedAt">) => void;
+  updateGeneration: (id: string, updates: Partial<InflightGeneration>) => void;
+  removeGeneration: (id: string) => void;
+  getGenerationsForUser: (userId: string | null) => InflightGeneration[];
+}
+
+const useInflightGenerationsStore = create<InflightGenerationsState>()(
+  persist(
+    (set, get) => ({
+      generations: {},
+
+      trackGeneration: (generation) => {
+        const now = Date.now();
+        set((state) => ({
+          generations: {
+            ...state.generations,
+            [generation.id]: { ...generation, createdAt: now, updatedAt: now },
+          },
+        }));
+      },
+
+      updateGeneration: (id, updates) => {
+        set((state) => {
+          const existing = state.generations[id];
+          if (!existing) return state;
+          return {
+            generations: {
+              ...state.generations,
+              [id]: { ...existing, ...updates, updatedAt: Date.now() },
+            },
+          };
+        });
+      },
+
+      removeGeneration: (id) => {
+        set((state) => {
+          if (!state.generations[id]) return state;
+          const { [id]: _removed, ...rest } = state.generations;
+          return { generations: rest };
+        });
+      },
+
+      getGenerationsForUser: (userId) => {
+        return Object.values(get().generations).filter((generation) => generation.userId === userId);
+      },
+    }),
+    {
+      name: "inflight-generations-storage",
+      storage: createJSONStorage(() => AsyncStorage),
+    }
+  )
+);
+
+export default useInflightGenerationsStore;
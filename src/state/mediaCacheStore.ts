@@ -0,0 +1,87 @@
+import { create } from "zustand";
+import { persist, createJSONStorage } from "zustand/middleware";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+// One downloaded media file, keyed by its remote URL
+export interface MediaCacheEntry {
+  url: string;
+  fileName: string; // Inside the media cache directory (see lib/mediaCache)
+  mediaType: "image" | "video";
+  size: number; // Bytes
+  cachedAt: number;
+  lastAccessedAt: number;
+}
+
+const MB = 1024 * 1024;
+
+// Sizes offered in Settings
+export const MEDIA_CACHE_BUDGET_OPTIONS = [250 * MB, 500 * MB, 1024 * MB, 2048 * MB];
+export const DEFAULT_MEDIA_CACHE_BUDGET = 500 * MB;
+
+interface MediaCacheState {
+  entries: Record<string, MediaCacheEntry>;
+  pinned: Record<string, string[]>; // Favorite key -> URLs kept regardless of the budget
+  budgetBytes: number;
+
+  // Actions
+  addEntry: (entry: MediaCacheEntry) => void;
+  touchEntry: (url: string) => void;
+  removeEntries: (urls: string[]) => void;
+  setPinned: (pinned: Record<string, string[]>) => void;
+  setBudgetBytes: (budgetBytes: number) => void;
+  clearEntries: () => void;
+}
+
+const useMediaCacheStore = create<MediaCacheState>()(
+  persist(
+    (set) => ({
+      entries: {},
+      pinned: {},
+      budgetBytes: DEFAULT_MEDIA_CACHE_BUDGET,
+
+      addEntry: (entry) => {
+        set((state) => ({
+          entries: { ...state.entries, [entry.url]: entry },
+        }));
+      },
+
+      touchEntry: (url) => {
+        set((state) => {
+          const existing = state.entries[url];
+          if (!existing) return state;
+          return {
+            entries: { ...state.entries, [url]: { ...existing, lastAccessedAt: Date.now() } },
+          };
+        });
+      },
+
+      removeEntries: (urls) => {
+        set((state) => {
+          const entries = { ...state.entries };
+          for (const url of urls) {
+            delete entries[url];
+          }
+          return { entries };
+        });
+      },
+
+      setPinned: (pinned) => {
+        set({ pinned });
+      },
+
+      setBudgetBytes: (budgetBytes) => {
+        set({ budgetBytes });
+      },
+
+      clearEntries: () => {
+        set({ entries: {} });
+      },
+    }),
+    {
+      name: "media-cache-storage",
+      storage: createJSONStorage(() => AsyncStorage),
+    }
+  )
+);
+
+export default useMediaCacheStore;
@@ -0,0 +1,49 @@
+import { create } from "zustand";
+import { persist, createJSONStorage } from "zustand/middleware";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import type { ImageModelMeta } from "../config/imageModels";
+import type { VideoModelMeta } from "../config/videoModels";
+
+// Versioned catalog payload served by /api/mobile/model-catalog
+export interface ModelCatalog {
+  formatVersion: number;
+  version: string;
+  imageModels: ImageModelMeta[];
+  videoModels: VideoModelMeta[];
+}
+
+interface ModelCatalogState {
+  catalog: ModelCatalog | null;
+  lastFetchedAt: number | null;
+  setCatalog: (catalog: ModelCatalog) => void;
+  clearCatalog: () => void;
+}
+
+const useModelCatalogStore = create<ModelCatalogState>()(
+  persist(
+    (set) => ({
+      catalog: null,
+      lastFetchedAt: null,
+
+      setCatalog: (catalog) => {
+        set({
+          catalog,
+          lastFetchedAt: Date.now(),
+        });
+      },
+
+      clearCatalog: () => {
+        set({
+          catalog: null,
+          lastFetchedAt: null,
+        });
+      },
+    }),
+    {
+      name: "model-catalog-storage",
+      storage: createJSONStorage(() => AsyncStorage),
+    }
+  )
+);
+
+export default useModelCatalogStore;
@@ -0,0 +1,235 @@
+import { create } from "zustand";
+import { persist, createJSONStorage } from "zustand/middleware";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { registerUserScopedStore, userScopedStorage } from "../lib/userStorage";
+
+type MediaTarget = {
+  generationId: string;
+  mediaType: "image" | "video";
+  mediaIndex: number;
+};
+
+// Payload per mutation kind; add a kind here and register its handler with useOutboxHandler
+export interface OutboxPayloads {
+  deleteAsset: MediaTarget;
+  toggleFavorite: MediaTarget;
+  updateCollection: {
+    collectionId: string;
+    action: "add" | "remove";
+    items: MediaTarget[];
+  };
+  renameSession: { sessionId: string; title: string };
+  pinSession: { sessionId: string; pinned: boolean };
+  mergeSessions: { sessionId: string; targetSessionId: string }; // Moves every generation, then deletes sessionId
+  deleteSession: { sessionId: string };
+  moveGeneration: { generationId: string; sessionId: string; targetSessionId: string }; // sessionId is the one it leaves
+  createGeneration: {
+    prompt: string;
+    model?: string;
+    aspectRatio?: string;
+    numImages?: number;
+    resolution?: string;
+    quality?: string;
+    attachmentImages?: { url: string }[]; // Already-uploaded URLs only; local files can't be queued
+    sessionId?: string; // Session the prompt was written in; a new one is created when missing
+  };
+}
+
+export type OutboxKind = keyof OutboxPayloads;
+
+// "poisoned" entries ran out of attempts and wait for the user to retry or discard them
+export type OutboxStatus = "pending" | "syncing" | "failed" | "poisoned";
+
+export interface OutboxEntry<K extends OutboxKind = OutboxKind> {
+  id: string;
+  kind: K;
+  payload: OutboxPayloads[K];
+  orderKey: string; // Entries sharing a key replay strictly in order, one at a time
+  idempotencyKey: string; // Sent with every replay of this entry so the server can dedupe
+  createdAt: number;
+  status: OutboxStatus;
+  attempts: number;
+  nextAttemptAt?: number; // Backoff: not retried before this time
+  error?: string;
+}
+
+export type AnyOutboxEntry = { [K in OutboxKind]: OutboxEntry<K> }[OutboxKind];
+
+interface OutboxState {
+  entries: AnyOutboxEntry[];
+  enqueue: <K extends OutboxKind>(kind: K, payload: OutboxPayloads[K], orderKey: string) => string;
+  updateEntry: (id: string, updates: Partial<Omit<OutboxEntry, "kind" | "payload">>) => void;
+  removeEntry: (id: string) => void;
+  markAsSyncing: (id: string) => void;
+  markAsSynced: (id: string) => void;
+  markAsFailed: (id: string, error: string, nextAttemptAt: number) => void;
+  markAsPoisoned: (id: string, error: string) => void;
+  requeue: (id: string) => void;
+  resetStaleSyncing: () => void;
+  getDueEntries: (now?: number) => AnyOutboxEntry[];
+}
+
+function generateEntryId(): string {
+  return `outbox_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+// Persisted queues this store replaced; their items are imported once on first launch
+const LEGACY_QUEUE_KEYS = {
+  generations: "offline-queue-storage",
+  assets: "assets-queue-storage",
+};
+
+async function readLegacyQueues(): Promise<AnyOutboxEntry[]> {
+  const entries: AnyOutboxEntry[] = [];
+  const [generationsRaw, assetsRaw] = await Promise.all([
+    AsyncStorage.getItem(LEGACY_QUEUE_KEYS.generations),
+    AsyncStorage.getItem(LEGACY_QUEUE_KEYS.assets),
+  ]);
+
+  const queued = (status: string): boolean => status === "pending" || status === "failed" || status === "syncing";
+
+  for (const gen of JSON.parse(generationsRaw ?? "{}")?.state?.pendingGenerations ?? []) {
+    if (!queued(gen.status)) continue;
+    const { localId, status: _status, convexId: _convexId, error: _error, createdAt, ...payload } = gen;
+    entries.push({
+      id: localId,
+      kind: "createGeneration",
+      payload,
+      orderKey: "createGeneration",
+      idempotencyKey: gen.idempotencyKey ?? `offline-${localId}`,
+      createdAt,
+      status: "pending",
+      attempts: 0,
+    });
+  }
+
+  for (const action of JSON.parse(assetsRaw ?? "{}")?.state?.pendingActions ?? []) {
+    if (!queued(action.status)) continue;
+    const payload: MediaTarget = {
+      generationId: action.generationId,
+      mediaType: action.mediaType,
+      mediaIndex: action.mediaIndex,
+    };
+    entries.push({
+      id: action.id,
+      kind: action.type,
+      payload,
+      orderKey: `media:${action.generationId}:${action.mediaType}:${action.mediaIndex}`, // See getMediaOrderKey
+      idempotencyKey: action.id,
+      createdAt: action.createdAt,
+      status: "pending",
+      attempts: 0,
+    });
+  }
+
+  return entries;
+}
+
+const useOutboxStore = create<OutboxState>()(
+  persist(
+    (set, get) => ({
+      entries: [],
+
+      enqueue: (kind, payload, orderKey) => {
+        const id = generateEntryId();
+        const entry = {
+          id,
+          kind,
+          payload,
+          orderKey,
+          idempotencyKey: id,
+          createdAt: Date.now(),
+          status: "pending",
+          attempts: 0,
+        } as AnyOutboxEntry;
+        set((state) => ({ entries: [...state.entries, entry] }));
+        return id;
+      },
+
+      updateEntry: (id, updates) => {
+        set((state) => ({
+          entries: state.entries.map((entry) => (entry.id === id ? { ...entry, ...updates } : entry)),
+        }));
+      },
+
+      removeEntry: (id) => {
+        set((state) => ({
+          entries: state.entries.filter((entry) => entry.id !== id),
+        }));
+      },
+
+      markAsSyncing: (id) => {
+        set((state) => ({
+          entries: state.entries.map((entry) =>
+            entry.id === id ? { ...entry, status: "syncing", attempts: entry.attempts + 1 } : entry
+          ),
+        }));
+      },
+
+      // Synced entries are dropped - the server state is now the source of truth
+      markAsSynced: (id) => {
+        get().removeEntry(id);
+      },
+
+      markAsFailed: (id, error, nextAttemptAt) => {
+        get().updateEntry(id, { status: "failed", error, nextAttemptAt });
+      },
+
+      markAsPoisoned: (id, error) => {
+        get().updateEntry(id, { status: "poisoned", error, nextAttemptAt: undefined });
+      },
+
+      // Give a poisoned entry a fresh set of attempts
+      requeue: (id) => {
+        get().updateEntry(id, { status: "pending", attempts: 0, error: undefined, nextAttemptAt: undefined });
+      },
+
+      // A "syncing" entry found on launch was cut off mid-replay - send it again (same idempotency key)
+      resetStaleSyncing: () => {
+        set((state) => ({
+          entries: state.entries.map((entry) =>
+            entry.status === "syncing" ? { ...entry, status: "pending" } : entry
+          ),
+        }));
+      },
+
+      // Entries due for a replay, oldest first
+      getDueEntries: (now = Date.now()) => {
+        return get()
+          .entries.filter(
+            (entry) =>
+              entry.status === "pending" || (entry.status === "failed" && (entry.nextAttemptAt ?? 0) <= now)
+          )
+          .sort((a, b) => a.createdAt - b.createdAt);
+      },
+    }),
+    {
+      // Each user's queue is kept until they sign back in (see lib/userStorage)
+      name: "outbox-storage",
+      storage: createJSONStorage(() => userScopedStorage),
+      skipHydration: true,
+      onRehydrateStorage: () => (state) => {
+        if (!state) return;
+        state.resetStaleSyncing();
+
+        readLegacyQueues()
+          .then(async (legacy) => {
+            if (legacy.length > 0) {
+              const known = new Set(useOutboxStore.getState().entries.map((entry) => entry.id));
+              useOutboxStore.setState((current) => ({
+                entries: [...current.entries, ...legacy.filter((entry) => !known.has(entry.id))],
+              }));
+            }
+            await AsyncStorage.multiRemove(Object.values(LEGACY_QUEUE_KEYS));
+          })
+          .catch((error) => {
+            console.warn("[outboxStore] Failed to import legacy queues:", error);
+          });
+      },
+    }
+  )
+);
+
+registerUserScopedStore(useOutboxStore);
+
+export default useOutboxStore;
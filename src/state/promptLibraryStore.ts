@@ -0,0 +1,81 @@
+import { create } from "zustand";
+import { persist, createJSONStorage } from "zustand/middleware";
+import { registerUserScopedStore, userScopedStorage } from "../lib/userStorage";
+
+export type PromptMode = "image" | "video";
+
+// Recent prompts kept per mode
+const MAX_HISTORY_PER_MODE = 50;
+
+// A prompt with the settings it was used with
+export interface PromptSettings {
+  prompt: string;
+  mode: PromptMode;
+  modelId?: string;
+  modelLabel?: string;
+  aspectRatio?: string;
+}
+
+// Row from sessions.listSavedPrompts, kept for offline use
+export interface CachedSavedPrompt extends PromptSettings {
+  _id: string;
+  title?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface PromptHistoryEntry extends PromptSettings {
+  usedAt: number;
+}
+
+interface PromptLibraryState {
+  savedPrompts: CachedSavedPrompt[];
+  history: PromptHistoryEntry[]; // Newest first; local to the device
+
+  // Actions
+  setSavedPrompts: (prompts: CachedSavedPrompt[]) => void;
+  recordPrompt: (entry: PromptSettings) => void;
+  clearHistory: (mode: PromptMode) => void;
+}
+
+const usePromptLibraryStore = create<PromptLibraryState>()(
+  persist(
+    (set) => ({
+      savedPrompts: [],
+      history: [],
+
+      setSavedPrompts: (savedPrompts) => {
+        set({ savedPrompts });
+      },
+
+      // Moves a reused prompt back to the top instead of listing it twice
+      recordPrompt: (entry) => {
+        const prompt = entry.prompt.trim();
+        if (!prompt) return;
+
+        set((state) => {
+          const others = state.history.filter((h) => !(h.mode === entry.mode && h.prompt === prompt));
+          const sameMode = others.filter((h) => h.mode === entry.mode);
+          const trimmed =
+            sameMode.length >= MAX_HISTORY_PER_MODE
+              ? others.filter((h) => h !== sameMode[sameMode.length - 1])
+              : others;
+          return { history: [{ ...entry, prompt, usedAt: Date.now() }, ...trimmed] };
+        });
+      },
+
+      clearHistory: (mode) => {
+        set((state) => ({ history: state.history.filter((h) => h.mode !== mode) }));
+      },
+    }),
+    {
+      name: "prompt-library-storage",
+      storage: createJSONStorage(() => userScopedStorage),
+      skipHydration: true, // Hydrated per user by lib/userStorage
+    }
+  )
+);
+
+registerUserScopedStore(usePromptLibraryStore);
+
+export default usePromptLibraryStore;
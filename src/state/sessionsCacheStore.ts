@@ -0,0 +1,49 @@
+import { create } from "zustand";
+import { persist, createJSONStorage } from "zustand/middleware";
+import { registerUserScopedStore, userScopedStorage } from "../lib/userStorage";
+
+// Session row from sessions.getUserSessions, kept for the drawer while offline
+export interface CachedSession {
+  _id: string;
+  title: string;
+  type: "image" | "video" | "edit" | "assets";
+  preview?: string;
+  createdAt: number;
+  updatedAt?: number;
+  pinnedAt?: number; // Set while pinned to the top of the drawer
+}
+
+interface SessionsCacheState {
+  sessions: CachedSession[];
+  lastFetchedAt: number | null;
+
+  // Actions
+  setSessions: (sessions: CachedSession[]) => void;
+  clearCache: () => void;
+}
+
+const useSessionsCacheStore = create<SessionsCacheState>()(
+  persist(
+    (set) => ({
+      sessions: [],
+      lastFetchedAt: null,
+
+      setSessions: (sessions) => {
+        set({ sessions, lastFetchedAt: Date.now() });
+      },
+
+      clearCache: () => {
+        set({ sessions: [], lastFetchedAt: null });
+      },
+    }),
+    {
+      name: "sessions-cache-storage",
+      storage: createJSONStorage(() => userScopedStorage),
+      skipHydration: true, // Hydrated per user by lib/userStorage
+    }
+  )
+);
+
+registerUserScopedStore(useSessionsCacheStore);
+
+export default useSessionsCacheStore;